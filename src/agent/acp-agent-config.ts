@@ -18,16 +18,7 @@ export function getActiveAgentConfig(
 			enabledAgents.find((agent) => agent.id === settings.activeAgentId) ??
 			enabledAgents[0];
 
-		if (activeAgent) {
-			return {
-				id: activeAgent.id,
-				name: activeAgent.name,
-				command: activeAgent.command ?? "",
-				args: activeAgent.args ?? "",
-				workingDir: activeAgent.workingDir ?? settings.agentWorkingDir,
-				nodePath: activeAgent.nodePath ?? settings.agentNodePath,
-			};
-		}
+		if (activeAgent) return toSettingsAgentConfig(activeAgent, settings);
 	}
 
 	if (settings.agents.length > 0) {
@@ -50,6 +41,21 @@ export function getActiveAgentConfig(
 	};
 }
 
+/** Agent entry of the model table, with the global ACP paths as fallbacks. */
+export function toSettingsAgentConfig(
+	model: ChatModelConfig,
+	settings: MyPluginSettings,
+): SettingsAgentConfig {
+	return {
+		id: model.id,
+		name: model.name,
+		command: model.command ?? "",
+		args: model.args ?? "",
+		workingDir: model.workingDir ?? settings.agentWorkingDir,
+		nodePath: model.nodePath ?? settings.agentNodePath,
+	};
+}
+
 export function getAvailableAgentsFromChatModels(
 	settings: MyPluginSettings,
 ): { id: string; name: string }[] {
@@ -5,6 +5,7 @@ export type AgentTaskStatus =
 	| "running"
 	| "proposed"
 	| "blocked"
+	| "cancelled"
 	| "done";
 
 export interface LearningAgentTask {
@@ -12,6 +13,8 @@ export interface LearningAgentTask {
 	status: AgentTaskStatus;
 	title: string;
 	notePath: string;
+	/** Area of the source note, used by agent routing rules. */
+	area?: string;
 	action: string;
 	suggestedAgent: NextActionCandidate["suggestedAgent"];
 	expectedOutput?: string;
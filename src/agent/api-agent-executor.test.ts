@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+	AGENT_WRITE_PROPOSAL_SCHEMA,
+	createJsonModeProposalGenerator,
+	parseApiProposalReply,
+	toApiProposal,
+} from "@/agent/api-agent-executor";
+
+describe("API agent executor", () => {
+	it("reads the proposal writes out of a fenced model reply", () => {
+		const proposal = parseApiProposalReply(
+			{ id: "task", path: "00_Command_Center/agent-tasks/task.md" },
+			'Here it is:\n```json\n{"writes":[{"path":"/_quizzes/cache.md","content":"# Quiz"}]}\n```',
+		);
+
+		expect(proposal).toEqual({
+			id: "task",
+			path: "00_Command_Center/agent-proposals/task.json",
+			taskPath: "00_Command_Center/agent-tasks/task.md",
+			status: "pending",
+			writes: [{ path: "_quizzes/cache.md", content: "# Quiz" }],
+		});
+	});
+
+	it("returns null when the reply has no usable writes", () => {
+		const task = { id: "task", path: "00_Command_Center/agent-tasks/task.md" };
+
+		expect(parseApiProposalReply(task, "I could not do it.")).toBeNull();
+		expect(parseApiProposalReply(task, '{"writes":[]}')).toBeNull();
+	});
+
+	it("wraps a structured-output object into a pending proposal", () => {
+		const proposal = toApiProposal(
+			{ id: "task", path: "00_Command_Center/agent-tasks/task.md" },
+			{ writes: [{ path: "_quizzes/cache.md", content: "# Quiz" }] },
+		);
+
+		expect(proposal?.path).toBe("00_Command_Center/agent-proposals/task.json");
+		expect(proposal?.writes).toEqual([
+			{ path: "_quizzes/cache.md", content: "# Quiz" },
+		]);
+	});
+
+	it("checks a JSON-mode reply against the proposal schema", async () => {
+		const valid = createJsonModeProposalGenerator(async (prompt) => {
+			expect(prompt).toContain('"required":["writes"]');
+			return '{"writes":[{"path":"_quizzes/cache.md","content":"# Quiz"}]}';
+		});
+		const invalid = createJsonModeProposalGenerator(
+			async () => '{"writes":[{"path":"_quizzes/cache.md","op":"patch"}]}',
+		);
+
+		await expect(valid("Task", AGENT_WRITE_PROPOSAL_SCHEMA)).resolves.toEqual({
+			writes: [{ path: "_quizzes/cache.md", content: "# Quiz" }],
+		});
+		await expect(invalid("Task", AGENT_WRITE_PROPOSAL_SCHEMA)).rejects.toThrow(
+			"reply.writes[0].content is missing; reply.writes[0].op is not allowed",
+		);
+	});
+});
@@ -0,0 +1,370 @@
+import type { JSONSchema7 } from "ai";
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import {
+	compactLearningAgentTaskContent,
+	LearningAgentTaskCancelledError,
+	type LearningAgentExecutionEvent,
+	type LearningAgentExecutionResult,
+	watchCancellation,
+} from "@/agent/learning-agent-executor";
+import { validateAgentWritePlan } from "@/agent/task-guard";
+import { updateLearningAgentTaskStatus } from "@/agent/task-store";
+import {
+	snapshotAgentWriteBases,
+	stampAgentWriteBaseHashes,
+} from "@/agent/write-proposal";
+import {
+	type AgentWriteProposal,
+	parseAgentWriteProposal,
+} from "@/agent/write-proposal-format";
+import { evaluateArtifactQualityForPath } from "@/learning/artifact-quality";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+
+const PROPOSAL_FOLDER = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/agent-proposals`,
+);
+
+/** Shape the model must answer with; the plugin fills in the proposal fields. */
+export const AGENT_WRITE_PROPOSAL_SCHEMA: JSONSchema7 = {
+	type: "object",
+	properties: {
+		writes: {
+			type: "array",
+			minItems: 1,
+			items: {
+				type: "object",
+				properties: {
+					path: {
+						type: "string",
+						description: "Target vault path inside an allowed write zone",
+					},
+					content: {
+						type: "string",
+						description: "Full replacement file content",
+					},
+				},
+				required: ["path", "content"],
+				additionalProperties: false,
+			},
+		},
+	},
+	required: ["writes"],
+	additionalProperties: false,
+};
+
+/**
+ * Calls the model with the prompt and schema. Structured-output backends
+ * return the object; plain text replies are parsed as a fallback.
+ */
+export type AgentProposalGenerator = (
+	prompt: string,
+	schema: JSONSchema7,
+) => Promise<unknown>;
+
+/**
+ * Generator for backends that only offer a JSON mode. The schema goes into
+ * the prompt, and the reply is parsed and checked against it here, so a
+ * malformed reply fails the run like a structured-output error would.
+ */
+export function createJsonModeProposalGenerator(
+	complete: (prompt: string) => Promise<string>,
+): AgentProposalGenerator {
+	return async (prompt, schema) => {
+		const reply = await complete(
+			`${prompt}\n\nReply with one JSON object that matches this JSON schema:\n${JSON.stringify(schema)}`,
+		);
+		let raw: unknown;
+		try {
+			raw = JSON.parse(reply.trim());
+		} catch {
+			throw new Error("JSON-mode reply is not valid JSON.");
+		}
+		const issues = findSchemaIssues(raw, schema, "reply");
+		if (issues.length > 0) {
+			throw new Error(
+				`JSON-mode reply does not match the proposal schema: ${issues.join("; ")}`,
+			);
+		}
+		return raw;
+	};
+}
+
+export interface ApiAgentExecutorOptions {
+	onEvent?: (event: LearningAgentExecutionEvent) => void;
+	signal?: AbortSignal;
+}
+
+/**
+ * Runs a task through an API model or the cloud backend. The model answers
+ * with the writes and the plugin checks paths and artifact quality before
+ * writing the proposal file itself, so no agent process is involved and the
+ * task also runs on mobile.
+ */
+export async function runLearningAgentTaskWithApi(
+	app: App,
+	task: LearningAgentTaskSummary,
+	generate: AgentProposalGenerator,
+	options: ApiAgentExecutorOptions = {},
+): Promise<LearningAgentExecutionResult> {
+	const taskFile = app.vault.getAbstractFileByPath(task.path);
+	if (!(taskFile instanceof TFile) || taskFile.extension !== "md") {
+		throw new Error(`Agent task not found: ${task.path}`);
+	}
+	const taskContent = compactLearningAgentTaskContent(
+		await app.vault.cachedRead(taskFile),
+	);
+	const emit = (
+		event: Omit<
+			LearningAgentExecutionEvent,
+			"taskPath" | "taskTitle" | "createdAt"
+		>,
+	) =>
+		options.onEvent?.({
+			...event,
+			taskPath: task.path,
+			taskTitle: task.title,
+			createdAt: new Date().toISOString(),
+		});
+
+	await updateLearningAgentTaskStatus(app, task.path, "running");
+	emit({
+		kind: "task_status",
+		message: "Generating proposal with the API model",
+		severity: "info",
+		status: "running",
+	});
+
+	const cancellation = watchCancellation(options.signal, () => undefined);
+	try {
+		const bases = await snapshotAgentWriteBases(app, task);
+		const reply = await cancellation.race(
+			generate(
+				buildApiExecutionPrompt(task, taskContent),
+				AGENT_WRITE_PROPOSAL_SCHEMA,
+			),
+		);
+		const proposal =
+			typeof reply === "string"
+				? parseApiProposalReply(task, reply)
+				: toApiProposal(task, reply);
+		if (!proposal) {
+			throw new Error("API model reply had no proposal writes.");
+		}
+		const validation = validateAgentWritePlan(
+			task,
+			proposal.writes.map((write) => write.path),
+		);
+		if (!validation.isValid) {
+			throw new Error(
+				`API model proposed writes outside the allowed zones: ${validation.rejected.join(", ")}`,
+			);
+		}
+		const failingQuality = getFailingQuality(proposal);
+		if (failingQuality.length > 0) {
+			throw new Error(
+				`API model proposal failed artifact quality: ${failingQuality.join(", ")}`,
+			);
+		}
+
+		await writeProposalFile(app, {
+			...proposal,
+			writes: stampAgentWriteBaseHashes(proposal.writes, bases),
+		});
+		emit({
+			kind: "proposal_scan",
+			message: "Pending proposal written",
+			severity: "success",
+			proposalCount: 1,
+		});
+		await updateLearningAgentTaskStatus(app, task.path, "proposed");
+		emit({
+			kind: "task_status",
+			message: "Agent task marked proposed",
+			severity: "success",
+			status: "proposed",
+			proposalCount: 1,
+		});
+		return { stopReason: "end_turn", proposalCount: 1 };
+	} catch (error) {
+		const status =
+			error instanceof LearningAgentTaskCancelledError
+				? "cancelled"
+				: "blocked";
+		await updateLearningAgentTaskStatus(app, task.path, status);
+		emit({
+			kind: "agent_error",
+			message: error instanceof Error ? error.message : String(error),
+			severity: "error",
+			status,
+		});
+		throw error;
+	} finally {
+		cancellation.dispose();
+	}
+}
+
+/** Reads the proposal out of a model reply that may wrap the JSON in prose or fences. */
+export function parseApiProposalReply(
+	task: Pick<LearningAgentTaskSummary, "id" | "path">,
+	reply: string,
+): AgentWriteProposal | null {
+	const start = reply.indexOf("{");
+	const end = reply.lastIndexOf("}");
+	if (start === -1 || end <= start) return null;
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(reply.slice(start, end + 1));
+	} catch {
+		return null;
+	}
+	return toApiProposal(task, raw);
+}
+
+/** Wraps the model's `{ writes }` object into a pending proposal for the task. */
+export function toApiProposal(
+	task: Pick<LearningAgentTaskSummary, "id" | "path">,
+	raw: unknown,
+): AgentWriteProposal | null {
+	if (typeof raw !== "object" || raw === null) return null;
+
+	const path = normalizePath(`${PROPOSAL_FOLDER}/${task.id}.json`);
+	return parseAgentWriteProposal(
+		path,
+		task.id,
+		JSON.stringify({
+			id: task.id,
+			taskPath: task.path,
+			status: "pending",
+			writes: (raw as { writes?: unknown }).writes,
+		}),
+	);
+}
+
+/**
+ * Where a value breaks a schema. Covers the keywords the proposal schema
+ * uses: `type`, `properties`, `required`, `additionalProperties`, `items`,
+ * and `minItems`.
+ */
+function findSchemaIssues(
+	value: unknown,
+	schema: JSONSchema7 | boolean,
+	at: string,
+): string[] {
+	if (typeof schema === "boolean") {
+		return schema ? [] : [`${at} is not allowed`];
+	}
+	if (schema.type === "object") {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			return [`${at} must be an object`];
+		}
+		const record = value as Record<string, unknown>;
+		const properties = schema.properties ?? {};
+		const issues = (schema.required ?? [])
+			.filter((key) => record[key] === undefined)
+			.map((key) => `${at}.${key} is missing`);
+		for (const [key, item] of Object.entries(record)) {
+			const property = properties[key];
+			if (property !== undefined) {
+				issues.push(...findSchemaIssues(item, property, `${at}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				issues.push(`${at}.${key} is not allowed`);
+			}
+		}
+		return issues;
+	}
+	if (schema.type === "array") {
+		if (!Array.isArray(value)) return [`${at} must be an array`];
+		const issues =
+			schema.minItems !== undefined && value.length < schema.minItems
+				? [`${at} needs at least ${schema.minItems} items`]
+				: [];
+		const items = schema.items;
+		if (items !== undefined && !Array.isArray(items)) {
+			value.forEach((item, index) =>
+				issues.push(...findSchemaIssues(item, items, `${at}[${index}]`)),
+			);
+		}
+		return issues;
+	}
+	if (schema.type === "string" && typeof value !== "string") {
+		return [`${at} must be a string`];
+	}
+	return [];
+}
+
+/** Writes whose artifact would be rejected on apply, with their issues. */
+function getFailingQuality(proposal: AgentWriteProposal): string[] {
+	return proposal.writes.flatMap((write) => {
+		const result = evaluateArtifactQualityForPath(write.path, write.content);
+		return result && !result.passed
+			? [`${write.path} (${result.issues.join("; ")})`]
+			: [];
+	});
+}
+
+async function writeProposalFile(
+	app: App,
+	proposal: AgentWriteProposal,
+): Promise<void> {
+	const content = JSON.stringify(
+		{
+			id: proposal.id,
+			taskPath: proposal.taskPath,
+			status: proposal.status,
+			writes: proposal.writes,
+		},
+		null,
+		2,
+	);
+	await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+	await ensureFolder(app, PROPOSAL_FOLDER);
+
+	const file = app.vault.getAbstractFileByPath(proposal.path);
+	if (file instanceof TFile) {
+		await app.vault.process(file, () => content);
+		return;
+	}
+	await app.vault.create(proposal.path, content);
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) {
+		throw new Error(`${normalized} exists but is not a folder`);
+	}
+	await app.vault.createFolder(normalized);
+}
+
+function buildApiExecutionPrompt(
+	task: LearningAgentTaskSummary,
+	taskContent: string,
+): string {
+	return `You are executing an Eragear Learning OS agent task.
+
+Answer with one JSON object and nothing else, in this shape:
+{
+  "writes": [
+    {
+      "path": "target vault path inside an allowed write zone",
+      "content": "full replacement file content"
+    }
+  ]
+}
+
+Allowed write zones:
+${task.allowedWriteZones.map((zone) => `- ${zone}`).join("\n")}
+
+The plugin validates every path and the user applies the proposal manually.
+Use only the task excerpt below as source context.
+
+Task file:
+
+\`\`\`markdown
+${taskContent}
+\`\`\`
+`;
+}
@@ -2,6 +2,8 @@ import { describe, expect, it } from "vitest";
 import type { App } from "obsidian";
 import { TFile, TFolder, normalizePath } from "obsidian";
 import {
+	LearningAgentTaskCancelledError,
+	runAcpJsonPrompt,
 	runLearningAgentTaskWithAcp,
 	type LearningAgentExecutionEvent,
 } from "@/agent/learning-agent-executor";
@@ -138,6 +140,35 @@ describe("learning agent executor", () => {
 		);
 	});
 
+	it("cancels the agent turn and marks the task cancelled on abort", async () => {
+		const app = createApp({
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: queued\n---\n# Task\n",
+		});
+		const controller = new AbortController();
+		const cancelledSessions: string[] = [];
+
+		await expect(
+			runLearningAgentTaskWithAcp(app, settings(), taskSummary(), {
+				isDesktopApp: true,
+				signal: controller.signal,
+				adapterFactory: () => ({
+					...createAdapter(async () => undefined),
+					sendMessage: async () => {
+						controller.abort();
+						return new Promise<never>(() => undefined);
+					},
+					cancel: async (sessionId: string) => {
+						cancelledSessions.push(sessionId);
+					},
+				}),
+			}),
+		).rejects.toThrow(LearningAgentTaskCancelledError);
+		expect(cancelledSessions).toEqual(["session"]);
+		expect(app.frontmatter("00_Command_Center/agent-tasks/task.md").status).toBe(
+			"cancelled",
+		);
+	});
+
 	it("uses the current vault path as the ACP working directory", async () => {
 		const app = createApp({
 			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: queued\n---\n# Task\n",
@@ -186,6 +217,49 @@ describe("learning agent executor", () => {
 		expect(selectedModel).toBe("haiku");
 	});
 
+	it("runs the routed agent and switches to the routed session model", async () => {
+		const app = createApp({
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: queued\n---\n# Task\n",
+		});
+		let command = "";
+		let selectedModel = "";
+
+		await runLearningAgentTaskWithAcp(app, settings(), taskSummary(), {
+			isDesktopApp: true,
+			agent: {
+				id: "claude",
+				name: "Claude",
+				command: "claude-acp",
+				args: "",
+				workingDir: "",
+				nodePath: "",
+			},
+			sessionModel: "opus",
+			adapterFactory: () => ({
+				...createAdapter(async () => undefined),
+				initialize: async (config) => {
+					command = config.command;
+				},
+				newSession: async () => ({
+					sessionId: "session",
+					models: {
+						currentModelId: "default",
+						availableModels: [
+							{ modelId: "haiku", name: "Haiku" },
+							{ modelId: "opus", name: "Opus" },
+						],
+					},
+				}),
+				setSessionModel: async (_sessionId, modelId) => {
+					selectedModel = modelId;
+				},
+			}),
+		});
+
+		expect(command).toBe("claude-acp");
+		expect(selectedModel).toBe("opus");
+	});
+
 	it("sends a compact execution prompt and blocks source-note reads", async () => {
 		const hugePrompt = "Huge source section. ".repeat(20000);
 		const app = createApp({
@@ -236,6 +310,51 @@ ${hugePrompt}
 				"Source note reads are disabled for this bounded Learning OS run. Use the task excerpt already provided in the prompt.",
 		});
 	});
+
+	it("returns the JSON result written to the only allowed path", async () => {
+		const app = createApp({});
+		let writeGuard:
+			| ((path: string) => { allowed: boolean; message?: string })
+			| undefined;
+
+		const content = await runAcpJsonPrompt(
+			app,
+			settings(),
+			{ prompt: "Score the exam.", outputPath: "_reviews/exams/cache-score.json" },
+			{
+				isDesktopApp: true,
+				adapterFactory: () => ({
+					...createAdapter(async () => {
+						await app.vault.create(
+							"_reviews/exams/cache-score.json",
+							'{"recall":{"score":8}}',
+						);
+					}),
+					setWriteGuard: (guard) => {
+						writeGuard = guard;
+					},
+				}),
+			},
+		);
+
+		expect(content).toBe('{"recall":{"score":8}}');
+		expect(writeGuard?.("_reviews/exams/cache-score.json").allowed).toBe(true);
+		expect(writeGuard?.("Learning/cache.md").allowed).toBe(false);
+	});
+
+	it("fails when the agent writes no JSON result", async () => {
+		await expect(
+			runAcpJsonPrompt(
+				createApp({}),
+				settings(),
+				{ prompt: "Score the exam.", outputPath: "_reviews/exams/cache-score.json" },
+				{
+					isDesktopApp: true,
+					adapterFactory: () => createAdapter(async () => undefined),
+				},
+			),
+		).rejects.toThrow("Agent did not write _reviews/exams/cache-score.json.");
+	});
 });
 
 function createAdapter(onSend: () => Promise<void>) {
@@ -1,11 +1,18 @@
 import { type App, normalizePath, Platform, TFile, TFolder } from "obsidian";
 import { getActiveAgentConfig, toAcpAgentConfig } from "@/agent/acp-agent-config";
-import { scanAgentWriteProposals } from "@/agent/write-proposal";
+import {
+	scanAgentWriteProposals,
+	snapshotAgentWriteBases,
+	stampAgentWriteProposal,
+} from "@/agent/write-proposal";
 import { isPathAllowed } from "@/agent/task-guard";
 import { updateLearningAgentTaskStatus } from "@/agent/task-store";
 import { AcpAdapter } from "@/infra/acp/acp.adapter";
 import { ARTIFACT_FOLDERS } from "@/learning/constants";
-import type { MyPluginSettings } from "@/app/settings/plugin-settings";
+import type {
+	AgentConfig,
+	MyPluginSettings,
+} from "@/app/settings/plugin-settings";
 import type { AgentTaskStatus } from "@/agent/agent-task";
 import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
 import type {
@@ -24,6 +31,14 @@ const DEFAULT_AGENT_TASK_TIMEOUT_MS = 180000;
 const MAX_EXECUTION_TASK_CONTENT_CHARS = 18000;
 const MAX_EXECUTION_PROMPT_SECTION_CHARS = 14000;
 
+/** Thrown when a run stops because its abort signal fired. */
+export class LearningAgentTaskCancelledError extends Error {
+	constructor() {
+		super("Agent task cancelled.");
+		this.name = "LearningAgentTaskCancelledError";
+	}
+}
+
 export interface LearningAgentExecutionResult {
 	stopReason: StopReason;
 	proposalCount: number;
@@ -71,6 +86,7 @@ interface LearningAgentExecutorAdapter {
 		sessionId: string,
 		message: string,
 	) => Promise<{ stopReason: StopReason }>;
+	cancel?: (sessionId: string) => Promise<void>;
 	disconnect: () => Promise<void>;
 }
 
@@ -79,6 +95,12 @@ export interface LearningAgentExecutorOptions {
 	isDesktopApp?: boolean;
 	timeoutMs?: number;
 	onEvent?: (event: LearningAgentExecutionEvent) => void;
+	/** Aborting cancels the agent turn and marks the task cancelled. */
+	signal?: AbortSignal;
+	/** Agent picked by the routing rules; defaults to the active agent. */
+	agent?: AgentConfig;
+	/** Session model picked by the routing rules. */
+	sessionModel?: string;
 }
 
 export async function runLearningAgentTaskWithAcp(
@@ -92,7 +114,7 @@ export async function runLearningAgentTaskWithAcp(
 		throw new Error("Local ACP agent execution requires the desktop app.");
 	}
 
-	const agentConfig = getActiveAgentConfig(settings);
+	const agentConfig = options.agent ?? getActiveAgentConfig(settings);
 	if (!agentConfig || !agentConfig.command) {
 		throw new Error("No enabled ACP agent is configured.");
 	}
@@ -104,7 +126,7 @@ export async function runLearningAgentTaskWithAcp(
 
 	const taskContent = await app.vault.cachedRead(taskFile);
 	const compactTaskContent = compactLearningAgentTaskContent(taskContent);
-	await ensureProposalFolder(app);
+	await ensureFolderPath(app, PROPOSAL_FOLDER);
 	const adapter = options.adapterFactory?.(app) ?? new AcpAdapter(app);
 	const emit = (event: LearningAgentExecutionEventInput) =>
 		emitLearningAgentEvent(options, task, event);
@@ -160,7 +182,12 @@ export async function runLearningAgentTaskWithAcp(
 		status: "running",
 	});
 
+	let sessionId: string | undefined;
+	const cancellation = watchCancellation(options.signal, () => {
+		if (sessionId) void adapter.cancel?.(sessionId);
+	});
 	try {
+		const bases = await snapshotAgentWriteBases(app, task);
 		const timeoutMs = options.timeoutMs ?? DEFAULT_AGENT_TASK_TIMEOUT_MS;
 		const baseConfig = toAcpAgentConfig(agentConfig);
 		const acpConfig = {
@@ -173,10 +200,12 @@ export async function runLearningAgentTaskWithAcp(
 			severity: "info",
 			status: "running",
 		});
-		await withTimeout(
-			adapter.initialize(acpConfig),
-			timeoutMs,
-			"Agent initialization timed out.",
+		await cancellation.race(
+			withTimeout(
+				adapter.initialize(acpConfig),
+				timeoutMs,
+				"Agent initialization timed out.",
+			),
 		);
 		emit({
 			kind: "task_status",
@@ -184,31 +213,39 @@ export async function runLearningAgentTaskWithAcp(
 			severity: "info",
 			status: "running",
 		});
-		const session = await withTimeout(
-			adapter.newSession(acpConfig.workingDirectory ?? process.cwd()),
-			timeoutMs,
-			"Agent session creation timed out.",
+		const session = await cancellation.race(
+			withTimeout(
+				adapter.newSession(acpConfig.workingDirectory ?? process.cwd()),
+				timeoutMs,
+				"Agent session creation timed out.",
+			),
 		);
-		await selectLearningAgentModel(adapter, session);
+		sessionId = session.sessionId;
+		await selectLearningAgentModel(adapter, session, options.sessionModel);
 		emit({
 			kind: "task_status",
 			message: "Generating proposal JSON",
 			severity: "info",
 			status: "running",
 		});
-		const response = await withTimeout(
-			adapter.sendMessage(
-				session.sessionId,
-				buildExecutionPrompt(task, compactTaskContent),
+		const response = await cancellation.race(
+			withTimeout(
+				adapter.sendMessage(
+					session.sessionId,
+					buildExecutionPrompt(task, compactTaskContent),
+				),
+				timeoutMs,
+				"Agent proposal generation timed out.",
 			),
-			timeoutMs,
-			"Agent proposal generation timed out.",
 		);
-		const proposals = await scanAgentWriteProposals(app, [task]);
-		const proposalCount = proposals.filter(
+		const proposals = (await scanAgentWriteProposals(app, [task])).filter(
 			(proposal) =>
 				proposal.taskPath === task.path && proposal.status === "pending",
-		).length;
+		);
+		for (const proposal of proposals) {
+			await stampAgentWriteProposal(app, proposal, bases);
+		}
+		const proposalCount = proposals.length;
 		emit({
 			kind: "proposal_scan",
 			message:
@@ -240,12 +277,14 @@ export async function runLearningAgentTaskWithAcp(
 			proposalCount,
 		};
 	} catch (error) {
-		await updateLearningAgentTaskStatus(app, task.path, "blocked");
+		const status =
+			error instanceof LearningAgentTaskCancelledError ? "cancelled" : "blocked";
+		await updateLearningAgentTaskStatus(app, task.path, status);
 		emit({
 			kind: "task_status",
-			message: "Agent task marked blocked",
-			severity: "error",
-			status: "blocked",
+			message: `Agent task marked ${status}`,
+			severity: status === "cancelled" ? "warning" : "error",
+			status,
 		});
 		emit({
 			kind: "agent_error",
@@ -253,6 +292,100 @@ export async function runLearningAgentTaskWithAcp(
 			severity: "error",
 		});
 		throw error;
+	} finally {
+		cancellation.dispose();
+		await adapter.disconnect();
+	}
+}
+
+export interface AcpJsonPromptRequest {
+	prompt: string;
+	outputPath: string;
+}
+
+/**
+ * Runs one bounded ACP prompt whose only allowed write is a JSON result at
+ * `outputPath`, and returns that file's content. Used for scoring passes that
+ * need a structured answer rather than a write proposal.
+ */
+export async function runAcpJsonPrompt(
+	app: App,
+	settings: MyPluginSettings,
+	request: AcpJsonPromptRequest,
+	options: Omit<LearningAgentExecutorOptions, "onEvent"> = {},
+): Promise<string> {
+	const isDesktopApp = options.isDesktopApp ?? Platform.isDesktopApp;
+	if (!isDesktopApp) {
+		throw new Error("Local ACP agent execution requires the desktop app.");
+	}
+
+	const agentConfig = getActiveAgentConfig(settings);
+	if (!agentConfig || !agentConfig.command) {
+		throw new Error("No enabled ACP agent is configured.");
+	}
+
+	const outputPath = normalizePath(request.outputPath);
+	await ensureFolderPath(app, outputPath.split("/").slice(0, -1).join("/"));
+	const adapter = options.adapterFactory?.(app) ?? new AcpAdapter(app);
+	adapter.setTerminalAccess(false);
+	adapter.setAutoApproveSafeFilePermissions(true);
+	adapter.setWriteGuard((path) => {
+		if (isPathAllowed(path, [outputPath])) {
+			return { allowed: true };
+		}
+		return {
+			allowed: false,
+			message: `Write rejected. Write the JSON result to ${outputPath}.`,
+		};
+	});
+	adapter.setReadGuard?.((path) => {
+		if (path === outputPath) {
+			return { allowed: true };
+		}
+		return {
+			allowed: false,
+			message:
+				"Vault reads are disabled for this bounded Learning OS run. Use the content already provided in the prompt.",
+		};
+	});
+
+	try {
+		const timeoutMs = options.timeoutMs ?? DEFAULT_AGENT_TASK_TIMEOUT_MS;
+		const baseConfig = toAcpAgentConfig(agentConfig);
+		const acpConfig = {
+			...baseConfig,
+			workingDirectory: getVaultBasePath(app) ?? baseConfig.workingDirectory,
+		};
+		await withTimeout(
+			adapter.initialize(acpConfig),
+			timeoutMs,
+			"Agent initialization timed out.",
+		);
+		const session = await withTimeout(
+			adapter.newSession(acpConfig.workingDirectory ?? process.cwd()),
+			timeoutMs,
+			"Agent session creation timed out.",
+		);
+		await selectLearningAgentModel(adapter, session);
+		await withTimeout(
+			adapter.sendMessage(
+				session.sessionId,
+				`${request.prompt}
+
+Do not inspect the vault and do not run terminal commands.
+Write the JSON result, and nothing else, to this file:
+${outputPath}
+`,
+			),
+			timeoutMs,
+			"Agent response timed out.",
+		);
+
+		const outputFile = app.vault.getAbstractFileByPath(outputPath);
+		if (!(outputFile instanceof TFile)) {
+			throw new Error(`Agent did not write ${outputPath}.`);
+		}
+		return await app.vault.cachedRead(outputFile);
 	} finally {
 		await adapter.disconnect();
 	}
@@ -279,10 +412,11 @@ function emitLearningAgentEvent(
 async function selectLearningAgentModel(
 	adapter: LearningAgentExecutorAdapter,
 	session: { sessionId: string; models?: SessionModelState },
+	preferred?: string,
 ): Promise<void> {
 	if (!adapter.setSessionModel || !session.models) return;
 
-	const modelId = chooseLearningAgentModel(session.models);
+	const modelId = chooseLearningAgentModel(session.models, preferred);
 	if (!modelId || modelId === session.models.currentModelId) return;
 
 	try {
@@ -296,13 +430,20 @@ async function selectLearningAgentModel(
 	}
 }
 
-function chooseLearningAgentModel(models: SessionModelState): string | undefined {
+/**
+ * The routed session model when the agent offers it; otherwise the cheapest
+ * known model for these bounded runs.
+ */
+function chooseLearningAgentModel(
+	models: SessionModelState,
+	routed?: string,
+): string | undefined {
 	const available = new Set(
 		models.availableModels.map((model) => model.modelId),
 	);
 
-	for (const preferred of ["haiku", "opus"]) {
-		if (available.has(preferred)) return preferred;
+	for (const preferred of [routed, "haiku", "opus"]) {
+		if (preferred && available.has(preferred)) return preferred;
 	}
 
 	return models.currentModelId;
@@ -313,6 +454,35 @@ function getVaultBasePath(app: App): string | undefined {
 	return adapter.basePath;
 }
 
+/**
+ * Races steps of a run against `signal`. `onAbort` runs once so the adapter
+ * can stop the agent turn that is still in flight.
+ */
+export function watchCancellation(
+	signal: AbortSignal | undefined,
+	onAbort: () => void,
+): { race: <T>(promise: Promise<T>) => Promise<T>; dispose: () => void } {
+	if (!signal) return { race: (promise) => promise, dispose: () => undefined };
+
+	let listener: (() => void) | undefined;
+	const aborted = new Promise<never>((_, reject) => {
+		listener = () => {
+			onAbort();
+			reject(new LearningAgentTaskCancelledError());
+		};
+		if (signal.aborted) listener();
+		else signal.addEventListener("abort", listener, { once: true });
+	});
+	aborted.catch(() => undefined);
+
+	return {
+		race: (promise) => Promise.race([promise, aborted]),
+		dispose: () => {
+			if (listener) signal.removeEventListener("abort", listener);
+		},
+	};
+}
+
 function withTimeout<T>(
 	promise: Promise<T>,
 	timeoutMs: number,
@@ -330,8 +500,8 @@ function withTimeout<T>(
 	});
 }
 
-async function ensureProposalFolder(app: App): Promise<void> {
-	const parts = PROPOSAL_FOLDER.split("/").filter(Boolean);
+async function ensureFolderPath(app: App, folderPath: string): Promise<void> {
+	const parts = folderPath.split("/").filter(Boolean);
 	let current = "";
 
 	for (const part of parts) {
@@ -375,6 +545,12 @@ The proposal file must be valid JSON with this shape:
   ]
 }
 
+To change part of an existing file instead of resending all of it, give a write an "op":
+- "patch": "content" is a unified diff with @@ hunks and context lines.
+- "insert_under_heading": "heading" names the heading; "content" goes directly below it.
+- "append_to_section": "heading" names the heading; "content" goes at the end of its section.
+- "merge_frontmatter": "frontmatter" is an object of keys to set; other keys are kept.
+
 The plugin will validate every proposed write path and the user will apply the proposal manually.
 If you cannot produce a safe proposal, do not write a proposal file and explain the blocker in your final response.
 Prefer creating the proposal immediately. Do not spend time rereading large source notes.
@@ -387,7 +563,7 @@ ${taskContent}
 `;
 }
 
-function compactLearningAgentTaskContent(taskContent: string): string {
+export function compactLearningAgentTaskContent(taskContent: string): string {
 	const promptMarker = "\n## Prompt\n";
 	const checklistMarker = "\n## Completion checklist";
 	const promptStart = taskContent.indexOf(promptMarker);
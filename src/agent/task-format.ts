@@ -5,7 +5,7 @@ export function formatLearningAgentTaskFile(task: LearningAgentTask): string {
 type: agent-task
 status: ${task.status}
 source_note: ${task.notePath}
-action: ${task.action}
+${task.area ? `area: ${task.area}\n` : ""}action: ${task.action}
 suggested_agent: ${task.suggestedAgent}
 created: ${task.createdAt}
 allowed_write_zones:
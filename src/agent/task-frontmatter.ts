@@ -5,6 +5,7 @@ const AGENT_TASK_STATUSES: readonly AgentTaskStatus[] = [
 	"running",
 	"proposed",
 	"blocked",
+	"cancelled",
 	"done",
 ];
 
@@ -14,10 +15,17 @@ export interface LearningAgentTaskSummary {
 	title: string;
 	status: AgentTaskStatus;
 	notePath: string;
+	area?: string;
 	action: string;
 	suggestedAgent: LearningAgentTask["suggestedAgent"];
 	allowedWriteZones: string[];
 	createdAt?: string;
+	/** Runs that ended without a proposal, counted by the task queue. */
+	attempts?: number;
+	/** ISO time before which the queue leaves a retried task alone. */
+	nextAttemptAt?: string;
+	/** Why the last run failed. */
+	lastError?: string;
 }
 
 export function parseLearningAgentTaskSummary(
@@ -26,6 +34,7 @@ export function parseLearningAgentTaskSummary(
 	frontmatter: Record<string, unknown> | undefined,
 ): LearningAgentTaskSummary | null {
 	if (!frontmatter || frontmatter.type !== "agent-task") return null;
+	const area = parseString(frontmatter.area);
 
 	return {
 		id: basename,
@@ -33,10 +42,12 @@ export function parseLearningAgentTaskSummary(
 		title: basename,
 		status: parseStatus(frontmatter.status),
 		notePath: parseString(frontmatter.source_note) ?? "",
+		...(area ? { area } : {}),
 		action: parseString(frontmatter.action) ?? "",
 		suggestedAgent: parseSuggestedAgent(frontmatter.suggested_agent),
 		allowedWriteZones: parseStringList(frontmatter.allowed_write_zones),
 		createdAt: parseString(frontmatter.created),
+		...parseQueueState(frontmatter),
 	};
 }
 
@@ -44,6 +55,19 @@ export function getAgentTaskStatusRank(status: AgentTaskStatus): number {
 	return AGENT_TASK_STATUSES.indexOf(status);
 }
 
+function parseQueueState(
+	frontmatter: Record<string, unknown>,
+): Pick<LearningAgentTaskSummary, "attempts" | "nextAttemptAt" | "lastError"> {
+	const attempts = Number(frontmatter.attempts);
+	const nextAttemptAt = parseString(frontmatter.next_attempt_at);
+	const lastError = parseString(frontmatter.last_error);
+	return {
+		...(Number.isInteger(attempts) && attempts > 0 ? { attempts } : {}),
+		...(nextAttemptAt ? { nextAttemptAt } : {}),
+		...(lastError ? { lastError } : {}),
+	};
+}
+
 function parseStatus(value: unknown): AgentTaskStatus {
 	return AGENT_TASK_STATUSES.includes(value as AgentTaskStatus)
 		? (value as AgentTaskStatus)
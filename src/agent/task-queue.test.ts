@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_AGENT_TASK_QUEUE_POLICY,
+	planAgentTaskFailure,
+	selectRunnableAgentTasks,
+} from "@/agent/task-queue";
+import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+
+const NOW = new Date("2026-05-13T20:00:00.000Z");
+
+describe("agent task queue", () => {
+	it("starts the oldest due queued tasks into free slots", () => {
+		const tasks = [
+			task("c", { createdAt: "2026-05-13" }),
+			task("a", { createdAt: "2026-05-12" }),
+			task("retry", {
+				createdAt: "2026-05-11",
+				nextAttemptAt: "2026-05-13T20:05:00.000Z",
+			}),
+			task("local", { suggestedAgent: "deterministic" }),
+			task("done", { status: "proposed" }),
+			task("b", { createdAt: "2026-05-13" }),
+		];
+
+		expect(
+			selectRunnableAgentTasks(tasks, new Set(), 2, NOW).map((item) => item.id),
+		).toEqual(["a", "b"]);
+		expect(
+			selectRunnableAgentTasks(tasks, new Set(["x.md"]), 2, NOW).map(
+				(item) => item.id,
+			),
+		).toEqual(["a"]);
+		expect(selectRunnableAgentTasks(tasks, new Set(["x.md"]), 1, NOW)).toEqual([]);
+	});
+
+	it("retries with doubling backoff, then blocks with the reason", () => {
+		const failure = { kind: "no_proposal", stopReason: "end_turn" } as const;
+
+		expect(
+			planAgentTaskFailure({}, failure, DEFAULT_AGENT_TASK_QUEUE_POLICY, NOW),
+		).toEqual({
+			status: "queued",
+			attempts: 1,
+			nextAttemptAt: "2026-05-13T20:02:00.000Z",
+			lastError: "Agent stopped (end_turn) without writing a proposal.",
+		});
+		expect(
+			planAgentTaskFailure(
+				{ attempts: 1 },
+				failure,
+				DEFAULT_AGENT_TASK_QUEUE_POLICY,
+				NOW,
+			).nextAttemptAt,
+		).toBe("2026-05-13T20:04:00.000Z");
+		expect(
+			planAgentTaskFailure(
+				{ attempts: 2 },
+				failure,
+				DEFAULT_AGENT_TASK_QUEUE_POLICY,
+				NOW,
+			),
+		).toEqual({
+			status: "blocked",
+			attempts: 3,
+			lastError:
+				"Agent stopped (end_turn) without writing a proposal. Gave up after 3 attempts.",
+		});
+	});
+
+	it("blocks configuration errors at once and keeps attempts on cancel", () => {
+		expect(
+			planAgentTaskFailure(
+				{},
+				{ kind: "error", message: "No enabled ACP agent is configured." },
+				DEFAULT_AGENT_TASK_QUEUE_POLICY,
+				NOW,
+			),
+		).toEqual({
+			status: "blocked",
+			attempts: 1,
+			lastError: "No enabled ACP agent is configured.",
+		});
+		expect(
+			planAgentTaskFailure(
+				{ attempts: 1 },
+				{ kind: "cancelled" },
+				DEFAULT_AGENT_TASK_QUEUE_POLICY,
+				NOW,
+			),
+		).toEqual({ status: "cancelled", attempts: 1, lastError: "Cancelled by user." });
+	});
+});
+
+function task(
+	id: string,
+	overrides: Partial<LearningAgentTaskSummary> = {},
+): LearningAgentTaskSummary {
+	return {
+		id,
+		path: `00_Command_Center/agent-tasks/${id}.md`,
+		title: id,
+		status: "queued",
+		notePath: "Learning/cache.md",
+		action: "Generate HTML explorable explanation",
+		suggestedAgent: "coding-agent",
+		allowedWriteZones: ["_explainers"],
+		createdAt: "2026-05-13",
+		...overrides,
+	};
+}
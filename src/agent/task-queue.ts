@@ -0,0 +1,141 @@
+import type { AgentTaskStatus } from "@/agent/agent-task";
+import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+import type { StopReason } from "@/core/models/session-update";
+
+export interface AgentTaskQueuePolicy {
+	/** Tasks the queue runs at the same time. */
+	concurrency: number;
+	/** Runs a task gets before it is left blocked. */
+	maxAttempts: number;
+	/** Wait before the first retry; doubles for each later one. */
+	retryBaseMs: number;
+	retryMaxMs: number;
+}
+
+/** Queue fields stored in the task frontmatter next to the status. */
+export interface AgentTaskQueueState {
+	status: AgentTaskStatus;
+	attempts: number;
+	nextAttemptAt?: string;
+	lastError?: string;
+}
+
+export type AgentTaskFailure =
+	| { kind: "cancelled" }
+	| { kind: "interrupted" }
+	| { kind: "no_proposal"; stopReason: StopReason }
+	| { kind: "error"; message: string };
+
+export const DEFAULT_AGENT_TASK_QUEUE_POLICY: AgentTaskQueuePolicy = {
+	concurrency: 1,
+	maxAttempts: 3,
+	retryBaseMs: 2 * 60_000,
+	retryMaxMs: 60 * 60_000,
+};
+
+/** Errors a retry cannot fix; the task is blocked on the first one. */
+const PERMANENT_ERRORS = [
+	/requires the desktop app/i,
+	/no enabled acp agent/i,
+	/agent task not found/i,
+	/cannot call/i,
+];
+
+/**
+ * Queued agent tasks that may start now, oldest first, up to the free
+ * concurrency slots. Tasks waiting for a retry are skipped until their time.
+ */
+export function selectRunnableAgentTasks(
+	tasks: readonly LearningAgentTaskSummary[],
+	runningPaths: ReadonlySet<string>,
+	concurrency: number,
+	now: Date,
+): LearningAgentTaskSummary[] {
+	const slots = Math.max(0, Math.floor(concurrency) - runningPaths.size);
+	if (slots === 0) return [];
+	return tasks
+		.filter(
+			(task) =>
+				task.status === "queued" &&
+				task.suggestedAgent !== "deterministic" &&
+				!runningPaths.has(task.path) &&
+				(!task.nextAttemptAt ||
+					Date.parse(task.nextAttemptAt) <= now.getTime()),
+		)
+		.sort(
+			(left, right) =>
+				(left.createdAt ?? "").localeCompare(right.createdAt ?? "") ||
+				left.path.localeCompare(right.path),
+		)
+		.slice(0, slots);
+}
+
+export function getAgentTaskRetryDelayMs(
+	attempt: number,
+	policy: AgentTaskQueuePolicy,
+): number {
+	return Math.min(
+		policy.retryMaxMs,
+		policy.retryBaseMs * 2 ** Math.max(0, attempt - 1),
+	);
+}
+
+export function describeAgentTaskFailure(failure: AgentTaskFailure): string {
+	switch (failure.kind) {
+		case "cancelled":
+			return "Cancelled by user.";
+		case "interrupted":
+			return "Obsidian closed or the plugin reloaded while the task was running.";
+		case "no_proposal":
+			return `Agent stopped (${failure.stopReason}) without writing a proposal.`;
+		case "error":
+			return failure.message;
+	}
+}
+
+/**
+ * What the queue does after a failed run: requeue it with backoff, block it
+ * once attempts run out or the error is permanent, or mark it cancelled.
+ */
+export function planAgentTaskFailure(
+	task: Pick<LearningAgentTaskSummary, "attempts">,
+	failure: AgentTaskFailure,
+	policy: AgentTaskQueuePolicy,
+	now: Date,
+): AgentTaskQueueState {
+	const reason = describeAgentTaskFailure(failure);
+	if (failure.kind === "cancelled") {
+		return {
+			status: "cancelled",
+			attempts: task.attempts ?? 0,
+			lastError: reason,
+		};
+	}
+
+	const attempts = (task.attempts ?? 0) + 1;
+	if (isPermanentFailure(failure)) {
+		return { status: "blocked", attempts, lastError: reason };
+	}
+	if (attempts >= policy.maxAttempts) {
+		return {
+			status: "blocked",
+			attempts,
+			lastError: `${reason} Gave up after ${attempts} attempts.`,
+		};
+	}
+	return {
+		status: "queued",
+		attempts,
+		nextAttemptAt: new Date(
+			now.getTime() + getAgentTaskRetryDelayMs(attempts, policy),
+		).toISOString(),
+		lastError: reason,
+	};
+}
+
+function isPermanentFailure(failure: AgentTaskFailure): boolean {
+	return (
+		failure.kind === "error" &&
+		PERMANENT_ERRORS.some((pattern) => pattern.test(failure.message))
+	);
+}
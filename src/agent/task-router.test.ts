@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
 import { buildLearningAgentTask } from "@/agent/task-router";
+import {
+	LEARNING_PIPELINE_PRESETS,
+	resolveLearningPipeline,
+} from "@/learning/learning-pipeline";
 import type { LearningNote, NextActionCandidate } from "@/learning/types";
 
 describe("learning agent task router", () => {
@@ -41,6 +45,49 @@ describe("learning agent task router", () => {
 		expect(task.prompt).toContain("expanding a structured learning note");
 	});
 
+	it("routes question notes to the answer write zone by stage builder", () => {
+		const task = buildLearningAgentTask(
+			candidate({
+				type: "question",
+				status: "seed",
+				pipeline: resolveLearningPipeline({ type: "question" }),
+			}),
+			"Why do caches go stale?",
+			[],
+			"2026-05-13",
+		);
+
+		expect(task.allowedWriteZones).toEqual(["_answers"]);
+		expect(task.prompt).toContain("resolving an open question");
+		expect(task.prompt).toContain("short answer, reasoning, evidence, confidence");
+	});
+
+	it("routes custom stages by builder and never writes to the source note", () => {
+		const practice = buildLearningAgentTask(
+			candidate({
+				type: "tool",
+				status: "practice",
+				pipeline: resolveLearningPipeline(
+					{ type: "tool" },
+					LEARNING_PIPELINE_PRESETS,
+				),
+			}),
+			"Source content",
+			[],
+			"2026-05-13",
+		);
+		const done = buildLearningAgentTask(
+			candidate({ status: "done" }),
+			"Source content",
+			[],
+			"2026-05-13",
+		);
+
+		expect(practice.allowedWriteZones).toEqual(["05_Case_Studies"]);
+		expect(practice.prompt).toContain("practical case study");
+		expect(done.allowedWriteZones).toEqual(["00_Command_Center/learning-drafts"]);
+	});
+
 	it("caps large source notes before creating agent prompts", () => {
 		const task = buildLearningAgentTask(
 			candidate({ status: "explain" }),
@@ -1,6 +1,10 @@
 import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import { getNotePipeline, getPipelineStage } from "@/learning/learning-pipeline";
+import { buildAnswerPrompt } from "@/learning/prompt-builders/answer.prompt";
 import { buildBridgeNotePrompt } from "@/learning/prompt-builders/bridge-note.prompt";
 import { buildCaseStudyPrompt } from "@/learning/prompt-builders/case-study.prompt";
+import { buildConceptExtractionPrompt } from "@/learning/prompt-builders/concept-extraction.prompt";
+import { buildDecisionReviewPrompt } from "@/learning/prompt-builders/decision-review.prompt";
 import { buildHtmlExplainerPrompt } from "@/learning/prompt-builders/html-explainer.prompt";
 import { buildLearningExplanationPrompt } from "@/learning/prompt-builders/learning-explanation.prompt";
 import { buildLearningStructurePrompt } from "@/learning/prompt-builders/learning-structure.prompt";
@@ -12,7 +16,10 @@ import {
 	inferArtifactTypeFromPath,
 } from "@/learning/artifact-contracts";
 import type { HtmlExplainerRelatedNote } from "@/learning/artifact-manager";
-import type { NextActionCandidate } from "@/learning/types";
+import type {
+	LearningStageBuilder,
+	NextActionCandidate,
+} from "@/learning/types";
 import type { LearningAgentTask } from "@/agent/agent-task";
 
 export function buildLearningAgentTask(
@@ -28,6 +35,7 @@ export function buildLearningAgentTask(
 		status: "queued",
 		title: `${candidate.action}: ${candidate.note.title}`,
 		notePath: candidate.note.path,
+		...(candidate.note.area ? { area: candidate.note.area } : {}),
 		action: candidate.action,
 		suggestedAgent: candidate.suggestedAgent,
 		expectedOutput: candidate.expectedOutput,
@@ -49,60 +57,69 @@ function buildPrompt(
 		relatedNotes,
 	};
 
-	if (candidate.note.status === "seed") {
-		return buildLearningStructurePrompt(base);
-	}
-
-	if (candidate.note.status === "explain") {
-		return buildLearningExplanationPrompt(base);
-	}
-
-	if (
-		candidate.note.status === "visualize" &&
-		!candidate.note.artifactHtml &&
-		!candidate.note.artifacts?.html_explainer?.path
-	) {
-		return withArtifactContract(
-			buildHtmlExplainerPrompt(base),
-			"_explainers/example.html",
-		);
-	}
-
-	if (
-		candidate.note.status === "test" &&
-		typeof candidate.note.quizScore !== "number"
-	) {
-		return withArtifactContract(buildQuizPrompt(base), "_quizzes/example.md");
-	}
-
-	if (candidate.note.status === "connect" && candidate.note.links.length < 5) {
-		return withArtifactContract(
-			buildBridgeNotePrompt({
-				...base,
-				sourcePath: candidate.note.path,
-			}),
-			"03_Bridge_Notes/example.md",
-		);
-	}
-
-	if (candidate.note.status === "apply") {
-		return withArtifactContract(
-			buildCaseStudyPrompt({
-				...base,
-				sourcePath: candidate.note.path,
-			}),
-			"05_Case_Studies/example.md",
-		);
-	}
-
-	if (candidate.note.status === "review") {
-		return withArtifactContract(
-			buildReviewPrompt({
-				...base,
-				sourcePath: candidate.note.path,
-			}),
-			"_reviews/example.md",
-		);
+	switch (getStageBuilder(candidate)) {
+		case "structure":
+			return buildLearningStructurePrompt(base);
+		case "explanation":
+			return buildLearningExplanationPrompt(base);
+		case "html_explainer":
+			if (
+				candidate.note.artifactHtml ||
+				candidate.note.artifacts?.html_explainer?.path
+			) {
+				break;
+			}
+			return withArtifactContract(
+				buildHtmlExplainerPrompt(base),
+				"_explainers/example.html",
+			);
+		case "quiz":
+			if (typeof candidate.note.quizScore === "number") break;
+			return withArtifactContract(buildQuizPrompt(base), "_quizzes/example.md");
+		case "bridge_note":
+			if (candidate.note.links.length >= 5) break;
+			return withArtifactContract(
+				buildBridgeNotePrompt({
+					...base,
+					sourcePath: candidate.note.path,
+				}),
+				"03_Bridge_Notes/example.md",
+			);
+		case "case_study":
+			return withArtifactContract(
+				buildCaseStudyPrompt({
+					...base,
+					sourcePath: candidate.note.path,
+				}),
+				"05_Case_Studies/example.md",
+			);
+		case "review":
+			return withArtifactContract(
+				buildReviewPrompt({
+					...base,
+					sourcePath: candidate.note.path,
+				}),
+				"_reviews/example.md",
+			);
+		case "answer":
+			return withArtifactContract(
+				buildAnswerPrompt({ ...base, sourcePath: candidate.note.path }),
+				"_answers/example.md",
+			);
+		case "concept_extraction":
+			return withArtifactContract(
+				buildConceptExtractionPrompt({
+					...base,
+					sourcePath: candidate.note.path,
+					candidates: [],
+				}),
+				"_extracts/example.md",
+			);
+		case "decision_review":
+			return withArtifactContract(
+				buildDecisionReviewPrompt({ ...base, sourcePath: candidate.note.path }),
+				"_decision_reviews/example.md",
+			);
 	}
 
 	return `You are helping complete a Learning OS action.
@@ -141,29 +158,40 @@ Quality contract:
 `;
 }
 
+/**
+ * The write zone follows the stage builder, so custom stages write where
+ * their builder's artifact lives. Stages without a builder only get the
+ * drafts folder; the source note itself is never a write zone.
+ */
 function getAllowedWriteZones(candidate: NextActionCandidate): string[] {
-	if (
-		candidate.note.status === "seed" ||
-		candidate.note.status === "explain"
-	) {
-		return [normalizeCommandCenterPath("learning-drafts")];
-	}
-	if (candidate.note.status === "visualize") {
-		return [ARTIFACT_FOLDERS.explainers];
-	}
-	if (candidate.note.status === "test") {
-		return [ARTIFACT_FOLDERS.quizzes];
-	}
-	if (candidate.note.status === "connect") {
-		return [ARTIFACT_FOLDERS.bridgeNotes];
+	switch (getStageBuilder(candidate)) {
+		case "html_explainer":
+			return [ARTIFACT_FOLDERS.explainers];
+		case "quiz":
+			return [ARTIFACT_FOLDERS.quizzes];
+		case "bridge_note":
+			return [ARTIFACT_FOLDERS.bridgeNotes];
+		case "case_study":
+			return [ARTIFACT_FOLDERS.caseStudies];
+		case "review":
+			return [ARTIFACT_FOLDERS.reviews];
+		case "answer":
+			return [ARTIFACT_FOLDERS.answers];
+		case "concept_extraction":
+			return [ARTIFACT_FOLDERS.extracts];
+		case "decision_review":
+			return [ARTIFACT_FOLDERS.decisionReviews];
+		default:
+			return [normalizeCommandCenterPath("learning-drafts")];
 	}
-	if (candidate.note.status === "apply") {
-		return [ARTIFACT_FOLDERS.caseStudies];
-	}
-	if (candidate.note.status === "review") {
-		return [ARTIFACT_FOLDERS.reviews];
-	}
-	return [candidate.note.path];
+}
+
+/** Builder of the note's current stage in its resolved pipeline. */
+function getStageBuilder(
+	candidate: NextActionCandidate,
+): LearningStageBuilder | undefined {
+	return getPipelineStage(getNotePipeline(candidate.note), candidate.note.status)
+		?.builder;
 }
 
 function normalizeCommandCenterPath(child: string): string {
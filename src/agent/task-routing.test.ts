@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+	type AgentRoutingRule,
+	ERAGEAR_CLOUD_ROUTE_ID,
+	getApiModelSettings,
+	resolveAgentTaskRoute,
+} from "@/agent/task-routing";
+import {
+	AIProviderType,
+	type ChatModelConfig,
+	type MyPluginSettings,
+} from "@/app/settings/plugin-settings";
+import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+
+describe("agent task routing", () => {
+	it("prefers area rules over artifact rules over suggested-agent rules", () => {
+		const rules: AgentRoutingRule[] = [
+			{ match: "agent", value: "coding-agent", modelId: "gpt" },
+			{
+				match: "artifact",
+				value: "html_explainer",
+				modelId: "claude",
+				sessionModel: "opus",
+			},
+			{ match: "area", value: "Systems", modelId: "gemini" },
+		];
+
+		expect(
+			resolveAgentTaskRoute(task({ area: "systems" }), settings(rules)),
+		).toEqual({
+			kind: "acp",
+			agent: expect.objectContaining({ id: "gemini", command: "gemini" }),
+			rule: rules[2],
+		});
+		expect(
+			resolveAgentTaskRoute(task({ area: "languages" }), settings(rules)),
+		).toEqual({
+			kind: "acp",
+			agent: expect.objectContaining({ id: "claude" }),
+			sessionModel: "opus",
+			rule: rules[1],
+		});
+		expect(
+			resolveAgentTaskRoute(
+				task({ allowedWriteZones: ["_quizzes"] }),
+				settings(rules),
+			),
+		).toEqual({ kind: "api", model: apiModel("gpt"), rule: rules[0] });
+	});
+
+	it("skips rules for disabled models and falls back to the active agent", () => {
+		const route = resolveAgentTaskRoute(
+			task(),
+			settings([{ match: "agent", value: "coding-agent", modelId: "off" }]),
+		);
+
+		expect(route).toEqual({
+			kind: "acp",
+			agent: expect.objectContaining({ id: "claude" }),
+		});
+	});
+
+	it("routes to Eragear Cloud without a chat model entry", () => {
+		const rule: AgentRoutingRule = {
+			match: "agent",
+			value: "coding-agent",
+			modelId: ERAGEAR_CLOUD_ROUTE_ID,
+		};
+
+		expect(resolveAgentTaskRoute(task(), settings([rule]))).toEqual({
+			kind: "cloud",
+			rule,
+		});
+	});
+
+	it("points AIService at the routed API model", () => {
+		const base = settings([]);
+		const routed = getApiModelSettings(base, {
+			...apiModel("deepseek"),
+			provider: "deepseek",
+			model: "deepseek-reasoner",
+			apiKey: "sk-model",
+		});
+
+		expect(routed).toMatchObject({
+			provider: AIProviderType.BYOK_DEEPSEEK,
+			deepseekModel: "deepseek-reasoner",
+			deepseekApiKey: "sk-model",
+		});
+		expect(
+			getApiModelSettings(base, { ...apiModel("x"), provider: "anthropic" }),
+		).toBeNull();
+	});
+});
+
+function task(
+	overrides: Partial<LearningAgentTaskSummary> = {},
+): LearningAgentTaskSummary {
+	return {
+		id: "task",
+		path: "00_Command_Center/agent-tasks/task.md",
+		title: "task",
+		status: "queued",
+		notePath: "Learning/cache.md",
+		action: "Generate HTML explorable explanation",
+		suggestedAgent: "coding-agent",
+		allowedWriteZones: ["_explainers"],
+		...overrides,
+	};
+}
+
+function settings(agentRoutingRules: AgentRoutingRule[]): MyPluginSettings {
+	return {
+		chatModels: [
+			apiModel("gpt"),
+			agentModel("claude"),
+			agentModel("gemini"),
+			{ ...agentModel("off"), enabled: false },
+		],
+		activeChatModelId: "claude",
+		activeAgentId: "",
+		agents: [],
+		agentCommand: "",
+		agentArgs: "",
+		agentWorkingDir: "/vault",
+		agentNodePath: "",
+		openaiApiKey: "sk-global",
+		openaiModel: "gpt-5-nano",
+		deepseekApiKey: "",
+		deepseekModel: "deepseek-chat",
+		agentRoutingRules,
+	} as unknown as MyPluginSettings;
+}
+
+function apiModel(id: string): ChatModelConfig {
+	return { id, name: id, provider: "openai", type: "api", enabled: true };
+}
+
+function agentModel(id: string): ChatModelConfig {
+	return {
+		id,
+		name: id,
+		provider: "acp",
+		type: "agent",
+		command: id,
+		enabled: true,
+	};
+}
@@ -0,0 +1,157 @@
+import {
+	getActiveAgentConfig,
+	toSettingsAgentConfig,
+} from "@/agent/acp-agent-config";
+import {
+	AIProviderType,
+	type AgentConfig,
+	type ChatModelConfig,
+	type MyPluginSettings,
+} from "@/app/settings/plugin-settings";
+import { inferArtifactTypeFromPath } from "@/learning/artifact-contracts";
+import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+import type { LearningArtifactType } from "@/learning/types";
+
+export type AgentRoutingMatch = "area" | "artifact" | "agent";
+
+/** Sends agent tasks of one area, artifact type, or suggested agent to a model. */
+export interface AgentRoutingRule {
+	match: AgentRoutingMatch;
+	/** Area name, artifact type, or suggested agent, depending on `match`. */
+	value: string;
+	/**
+	 * `ChatModelConfig.id` of an ACP agent or an API model, or
+	 * `ERAGEAR_CLOUD_ROUTE_ID` for the Eragear Cloud backend.
+	 */
+	modelId: string;
+	/** ACP session model to switch to, such as `haiku`; empty keeps the agent default. */
+	sessionModel?: string;
+}
+
+export type AgentTaskRoute =
+	| {
+			kind: "acp";
+			agent: AgentConfig;
+			sessionModel?: string;
+			rule?: AgentRoutingRule;
+	  }
+	| {
+			kind: "api";
+			model: ChatModelConfig;
+			rule: AgentRoutingRule;
+	  }
+	| {
+			kind: "cloud";
+			rule: AgentRoutingRule;
+	  };
+
+/** Routing target for the Eragear Cloud backend, which has no chat model entry. */
+export const ERAGEAR_CLOUD_ROUTE_ID = "eragear-cloud";
+
+/** Most specific first: an area rule beats an artifact rule beats an agent rule. */
+const MATCH_ORDER: readonly AgentRoutingMatch[] = ["area", "artifact", "agent"];
+
+const API_PROVIDERS: Partial<
+	Record<ChatModelConfig["provider"], AIProviderType>
+> = {
+	openai: AIProviderType.BYOK_OPENAI,
+	gemini: AIProviderType.BYOK_GEMINI,
+	deepseek: AIProviderType.BYOK_DEEPSEEK,
+};
+
+/** Artifact type the task writes, read from its allowed write zones. */
+export function getAgentTaskArtifactType(
+	task: Pick<LearningAgentTaskSummary, "allowedWriteZones">,
+): LearningArtifactType | null {
+	for (const zone of task.allowedWriteZones) {
+		const type =
+			inferArtifactTypeFromPath(`${zone}/task.md`) ??
+			inferArtifactTypeFromPath(`${zone}/task.html`);
+		if (type) return type;
+	}
+	return null;
+}
+
+/**
+ * Picks the agent or model for a task. Rules whose model is missing or
+ * disabled are skipped; with no matching rule the active ACP agent runs it.
+ */
+export function resolveAgentTaskRoute(
+	task: Pick<
+		LearningAgentTaskSummary,
+		"area" | "allowedWriteZones" | "suggestedAgent"
+	>,
+	settings: MyPluginSettings,
+): AgentTaskRoute | null {
+	const values: Record<AgentRoutingMatch, string | undefined> = {
+		area: task.area?.toLowerCase(),
+		artifact: getAgentTaskArtifactType(task) ?? undefined,
+		agent: task.suggestedAgent,
+	};
+
+	for (const match of MATCH_ORDER) {
+		for (const rule of settings.agentRoutingRules) {
+			if (
+				rule.match !== match ||
+				rule.value.trim().toLowerCase() !== values[match]
+			) {
+				continue;
+			}
+			if (rule.modelId === ERAGEAR_CLOUD_ROUTE_ID) {
+				return { kind: "cloud", rule };
+			}
+			const model = settings.chatModels.find(
+				(item) => item.id === rule.modelId && item.enabled,
+			);
+			if (!model) continue;
+			if (model.type === "api") return { kind: "api", model, rule };
+			const sessionModel = rule.sessionModel?.trim() || model.model;
+			return {
+				kind: "acp",
+				agent: toSettingsAgentConfig(model, settings),
+				...(sessionModel ? { sessionModel } : {}),
+				rule,
+			};
+		}
+	}
+
+	const agent = getActiveAgentConfig(settings);
+	return agent?.command ? { kind: "acp", agent } : null;
+}
+
+/**
+ * Settings that make `AIService` call the routed API model, or null for
+ * providers it cannot call.
+ */
+export function getApiModelSettings(
+	settings: MyPluginSettings,
+	model: ChatModelConfig,
+): MyPluginSettings | null {
+	const provider = API_PROVIDERS[model.provider];
+	if (!provider) return null;
+	const modelName = model.model?.trim();
+
+	switch (provider) {
+		case AIProviderType.BYOK_GEMINI:
+			return {
+				...settings,
+				provider,
+				geminiApiKey: model.apiKey || settings.geminiApiKey,
+				geminiModel: modelName || settings.geminiModel,
+			};
+		case AIProviderType.BYOK_DEEPSEEK:
+			return {
+				...settings,
+				provider,
+				deepseekApiKey: model.apiKey || settings.deepseekApiKey,
+				deepseekModel: modelName || settings.deepseekModel,
+			};
+		default:
+			return {
+				...settings,
+				provider,
+				openaiApiKey: model.apiKey || settings.openaiApiKey,
+				openaiModel: modelName || settings.openaiModel,
+			};
+	}
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { LearningAgentTaskCancelledError } from "@/agent/learning-agent-executor";
+import {
+	DEFAULT_AGENT_TASK_QUEUE_POLICY,
+	type AgentTaskQueueState,
+} from "@/agent/task-queue";
+import { LearningAgentTaskScheduler } from "@/agent/task-scheduler";
+import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+import type { StopReason } from "@/core/models/session-update";
+
+const NOW = new Date("2026-05-13T20:00:00.000Z");
+
+describe("learning agent task scheduler", () => {
+	it("runs queued tasks up to the concurrency limit and requeues failures", async () => {
+		const tasks = [task("a"), task("b"), task("c")];
+		const saved = new Map<string, AgentTaskQueueState>();
+		const started: string[] = [];
+		const scheduler = new LearningAgentTaskScheduler({
+			listTasks: () => tasks.filter((item) => !saved.has(item.path)),
+			runTask: async (item) => {
+				started.push(item.id);
+				if (item.id === "b") throw new Error("Agent initialization timed out.");
+				return { stopReason: "end_turn" as StopReason, proposalCount: 1 };
+			},
+			saveState: async (path, state) => {
+				saved.set(path, state);
+			},
+			getPolicy: () => ({ ...DEFAULT_AGENT_TASK_QUEUE_POLICY, concurrency: 2 }),
+			canRun: () => true,
+			now: () => NOW,
+		});
+
+		scheduler.tick();
+		expect(scheduler.getRunningPaths()).toHaveLength(2);
+		await scheduler.idle();
+
+		expect(started).toEqual(["a", "b", "c"]);
+		expect(saved.get(tasks[0]!.path)).toEqual({ status: "proposed", attempts: 0 });
+		expect(saved.get(tasks[1]!.path)).toEqual({
+			status: "queued",
+			attempts: 1,
+			nextAttemptAt: "2026-05-13T20:02:00.000Z",
+			lastError: "Agent initialization timed out.",
+		});
+	});
+
+	it("waits while paused and cancels a running task through its signal", async () => {
+		const queued = task("a");
+		const saved = new Map<string, AgentTaskQueueState>();
+		const scheduler = new LearningAgentTaskScheduler({
+			listTasks: () => (saved.has(queued.path) ? [] : [queued]),
+			runTask: (_item, signal) =>
+				new Promise((_, reject) => {
+					signal.addEventListener("abort", () =>
+						reject(new LearningAgentTaskCancelledError()),
+					);
+				}),
+			saveState: async (path, state) => {
+				saved.set(path, state);
+			},
+			getPolicy: () => DEFAULT_AGENT_TASK_QUEUE_POLICY,
+			canRun: () => true,
+			paused: true,
+			now: () => NOW,
+		});
+
+		scheduler.tick();
+		expect(scheduler.isRunning(queued.path)).toBe(false);
+
+		scheduler.resume();
+		expect(scheduler.isRunning(queued.path)).toBe(true);
+		await scheduler.cancel(queued);
+
+		expect(scheduler.isRunning(queued.path)).toBe(false);
+		expect(saved.get(queued.path)).toEqual({
+			status: "cancelled",
+			attempts: 0,
+			lastError: "Cancelled by user.",
+		});
+	});
+});
+
+function task(id: string): LearningAgentTaskSummary {
+	return {
+		id,
+		path: `00_Command_Center/agent-tasks/${id}.md`,
+		title: id,
+		status: "queued",
+		notePath: "Learning/cache.md",
+		action: "Generate HTML explorable explanation",
+		suggestedAgent: "coding-agent",
+		allowedWriteZones: ["_explainers"],
+		createdAt: "2026-05-13",
+	};
+}
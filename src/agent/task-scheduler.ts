@@ -0,0 +1,235 @@
+import {
+	LearningAgentTaskCancelledError,
+	type LearningAgentExecutionResult,
+} from "@/agent/learning-agent-executor";
+import {
+	type AgentTaskFailure,
+	type AgentTaskQueuePolicy,
+	type AgentTaskQueueState,
+	planAgentTaskFailure,
+	selectRunnableAgentTasks,
+} from "@/agent/task-queue";
+import type { AgentTaskStatus } from "@/agent/agent-task";
+import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+
+/**
+ * The metadata cache can still show a task as queued for a moment after its
+ * run wrote a new status; the queue leaves settled tasks alone this long.
+ */
+const SETTLE_GRACE_MS = 10_000;
+
+export interface AgentTaskRunOutcome {
+	status: AgentTaskStatus;
+	proposalCount: number;
+	reason?: string;
+	/** Set when the task was requeued for another attempt. */
+	nextAttemptAt?: string;
+}
+
+export interface LearningAgentTaskSchedulerOptions {
+	listTasks: () => LearningAgentTaskSummary[];
+	runTask: (
+		task: LearningAgentTaskSummary,
+		signal: AbortSignal,
+	) => Promise<LearningAgentExecutionResult>;
+	saveState: (taskPath: string, state: AgentTaskQueueState) => Promise<void>;
+	getPolicy: () => AgentTaskQueuePolicy;
+	/** False while no agent or model can run the task, so it waits instead of failing. */
+	canRun: (task: LearningAgentTaskSummary) => boolean;
+	onSettled?: (
+		task: LearningAgentTaskSummary,
+		outcome: AgentTaskRunOutcome,
+	) => void;
+	paused?: boolean;
+	now?: () => Date;
+}
+
+interface RunningAgentTask {
+	controller: AbortController;
+	done: Promise<AgentTaskRunOutcome>;
+}
+
+/**
+ * Runs queued agent task files in the background. The task files are the
+ * queue: status, attempts, retry time, and last error live in their
+ * frontmatter, so the queue survives reloads.
+ */
+export class LearningAgentTaskScheduler {
+	private readonly running = new Map<string, RunningAgentTask>();
+	private readonly settledAt = new Map<string, number>();
+	private paused: boolean;
+	private stopping = false;
+	private timer: ReturnType<typeof setInterval> | null = null;
+
+	constructor(private readonly options: LearningAgentTaskSchedulerOptions) {
+		this.paused = options.paused ?? false;
+	}
+
+	/** Requeues tasks a previous session left running, then polls the queue. */
+	start(intervalMs: number): void {
+		this.stopping = false;
+		for (const task of this.options.listTasks()) {
+			if (task.status === "running" && !this.running.has(task.path)) {
+				void this.fail(task, { kind: "interrupted" });
+			}
+		}
+		this.timer = setInterval(() => this.tick(), intervalMs);
+		this.tick();
+	}
+
+	/** Stops polling and aborts running tasks; they are requeued as interrupted. */
+	stop(): void {
+		this.stopping = true;
+		if (this.timer !== null) clearInterval(this.timer);
+		this.timer = null;
+		for (const run of this.running.values()) run.controller.abort();
+	}
+
+	isPaused(): boolean {
+		return this.paused;
+	}
+
+	/** Stops starting queued tasks. Tasks already running finish. */
+	pause(): void {
+		this.paused = true;
+	}
+
+	resume(): void {
+		this.paused = false;
+		this.tick();
+	}
+
+	isRunning(taskPath: string): boolean {
+		return this.running.has(taskPath);
+	}
+
+	getRunningPaths(): string[] {
+		return [...this.running.keys()];
+	}
+
+	/** Starts queued tasks into free concurrency slots. */
+	tick(): void {
+		if (this.paused || this.stopping) return;
+		const now = this.now();
+		const tasks = this.options
+			.listTasks()
+			.filter(
+				(task) =>
+					now.getTime() - (this.settledAt.get(task.path) ?? 0) >=
+						SETTLE_GRACE_MS && this.options.canRun(task),
+			);
+		const runnable = selectRunnableAgentTasks(
+			tasks,
+			new Set(this.running.keys()),
+			this.options.getPolicy().concurrency,
+			now,
+		);
+		for (const task of runnable) void this.launch(task);
+	}
+
+	/**
+	 * Runs one task now, outside the concurrency limit and even while the
+	 * queue is paused. A task that is already running is not started twice.
+	 */
+	runNow(task: LearningAgentTaskSummary): Promise<AgentTaskRunOutcome> {
+		return this.running.get(task.path)?.done ?? this.launch(task);
+	}
+
+	/** Aborts a running task or takes a waiting one out of the queue. */
+	async cancel(task: LearningAgentTaskSummary): Promise<void> {
+		const run = this.running.get(task.path);
+		if (run) {
+			run.controller.abort();
+			await run.done;
+			return;
+		}
+		if (task.status === "queued" || task.status === "blocked") {
+			await this.fail(task, { kind: "cancelled" });
+		}
+	}
+
+	/** Resolves once every running task has settled. */
+	async idle(): Promise<void> {
+		while (this.running.size > 0) {
+			await Promise.all([...this.running.values()].map((run) => run.done));
+		}
+	}
+
+	private launch(task: LearningAgentTaskSummary): Promise<AgentTaskRunOutcome> {
+		const controller = new AbortController();
+		const done = this.execute(task, controller.signal).then((outcome) => {
+			this.running.delete(task.path);
+			this.settledAt.set(task.path, this.now().getTime());
+			this.options.onSettled?.(task, outcome);
+			this.tick();
+			return outcome;
+		});
+		this.running.set(task.path, { controller, done });
+		return done;
+	}
+
+	private async execute(
+		task: LearningAgentTaskSummary,
+		signal: AbortSignal,
+	): Promise<AgentTaskRunOutcome> {
+		let result: LearningAgentExecutionResult;
+		try {
+			result = await this.options.runTask(task, signal);
+		} catch (error) {
+			return this.fail(task, this.toFailure(error));
+		}
+
+		if (result.proposalCount === 0) {
+			return this.fail(task, {
+				kind: "no_proposal",
+				stopReason: result.stopReason,
+			});
+		}
+		await this.save(task, { status: "proposed", attempts: task.attempts ?? 0 });
+		return { status: "proposed", proposalCount: result.proposalCount };
+	}
+
+	private async fail(
+		task: LearningAgentTaskSummary,
+		failure: AgentTaskFailure,
+	): Promise<AgentTaskRunOutcome> {
+		const state = planAgentTaskFailure(
+			task,
+			failure,
+			this.options.getPolicy(),
+			this.now(),
+		);
+		await this.save(task, state);
+		return {
+			status: state.status,
+			proposalCount: 0,
+			...(state.lastError ? { reason: state.lastError } : {}),
+			...(state.nextAttemptAt ? { nextAttemptAt: state.nextAttemptAt } : {}),
+		};
+	}
+
+	private async save(
+		task: LearningAgentTaskSummary,
+		state: AgentTaskQueueState,
+	): Promise<void> {
+		try {
+			await this.options.saveState(task.path, state);
+		} catch (error) {
+			console.error("[Eragear] Agent task queue update failed", error);
+		}
+	}
+
+	private toFailure(error: unknown): AgentTaskFailure {
+		if (this.stopping) return { kind: "interrupted" };
+		if (error instanceof LearningAgentTaskCancelledError)
+			return { kind: "cancelled" };
+		return {
+			kind: "error",
+			message: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	private now(): Date {
+		return this.options.now?.() ?? new Date();
+	}
+}
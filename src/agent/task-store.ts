@@ -6,6 +6,7 @@ import {
 	type LearningAgentTaskSummary,
 } from "@/agent/task-frontmatter";
 import type { AgentTaskStatus } from "@/agent/agent-task";
+import type { AgentTaskQueueState } from "@/agent/task-queue";
 
 const TASK_FOLDER = normalizePath(`${ARTIFACT_FOLDERS.commandCenter}/agent-tasks`);
 
@@ -44,6 +45,28 @@ export async function updateLearningAgentTaskStatus(
 	});
 }
 
+/** Writes the status with the queue's attempt count, retry time, and error. */
+export async function updateLearningAgentTaskQueueState(
+	app: App,
+	taskPath: string,
+	state: AgentTaskQueueState,
+): Promise<void> {
+	const normalized = normalizePath(taskPath);
+	const file = app.vault.getAbstractFileByPath(normalized);
+	if (!(file instanceof TFile) || file.extension !== "md") {
+		throw new Error(`Agent task not found: ${normalized}`);
+	}
+
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		frontmatter.status = state.status;
+		frontmatter.attempts = state.attempts;
+		if (state.nextAttemptAt) frontmatter.next_attempt_at = state.nextAttemptAt;
+		else delete frontmatter.next_attempt_at;
+		if (state.lastError) frontmatter.last_error = state.lastError;
+		else delete frontmatter.last_error;
+	});
+}
+
 function compareAgentTasks(
 	a: LearningAgentTaskSummary,
 	b: LearningAgentTaskSummary,
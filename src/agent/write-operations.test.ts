@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+	applyAgentWriteOperation,
+	hashAgentWriteBase,
+	resolveAgentFileWrites,
+} from "@/agent/write-operations";
+
+const NOTE = "---\ntitle: Cache\ntags:\n  - systems\n---\n# Cache\n\nIntro.\n\n## Notes\n- First\n\n## Links\n";
+
+describe("agent write operations", () => {
+	it("applies a unified diff whose lines moved", () => {
+		const patch = "--- a/cache.md\n+++ b/cache.md\n@@ -8,2 +8,2 @@\n ## Notes\n-- First\n+- First, revised\n";
+		const current = NOTE.replace("# Cache\n", "# Cache\n\nNew paragraph.\n");
+
+		expect(
+			applyAgentWriteOperation({ path: "cache.md", op: "patch", content: patch }, current),
+		).toContain("## Notes\n- First, revised\n");
+		expect(() =>
+			applyAgentWriteOperation(
+				{ path: "cache.md", op: "patch", content: "@@ -1 +1 @@\n-# Missing\n+# Other\n" },
+				current,
+			),
+		).toThrow("patch hunk 1 does not match");
+	});
+
+	it("inserts under a heading and appends to the end of its section", () => {
+		expect(
+			applyAgentWriteOperation(
+				{ path: "cache.md", op: "insert_under_heading", heading: "Notes", content: "- Top" },
+				NOTE,
+			),
+		).toContain("## Notes\n\n- Top\n\n- First\n");
+		expect(
+			applyAgentWriteOperation(
+				{ path: "cache.md", op: "append_to_section", heading: "## Notes", content: "- Last\n" },
+				NOTE,
+			),
+		).toContain("- First\n\n- Last\n\n## Links\n");
+	});
+
+	it("merges frontmatter keys and keeps the rest of the note", () => {
+		const merged = applyAgentWriteOperation(
+			{
+				path: "cache.md",
+				op: "merge_frontmatter",
+				content: "",
+				frontmatter: { tags: ["systems", "caching"], status: "review" },
+			},
+			NOTE,
+		);
+
+		expect(merged).toBe(
+			NOTE.replace(
+				"tags:\n  - systems\n",
+				'tags: ["systems","caching"]\nstatus: review\n',
+			),
+		);
+	});
+
+	it("refuses a replacement made against an older version of the file", async () => {
+		const baseHash = await hashAgentWriteBase(NOTE);
+
+		await expect(
+			resolveAgentFileWrites(
+				"cache.md",
+				[{ path: "cache.md", content: "# New", baseHash }],
+				`${NOTE}edit\n`,
+			),
+		).rejects.toThrow("file changed after the proposal was made");
+		await expect(
+			resolveAgentFileWrites(
+				"cache.md",
+				[{ path: "cache.md", content: "# New", baseHash }],
+				NOTE,
+			),
+		).resolves.toMatchObject({ content: "# New", merged: false });
+	});
+});
@@ -0,0 +1,351 @@
+import type { AgentProposedWrite } from "@/agent/write-proposal-format";
+
+/** An operation that cannot be applied to the file as it is now. */
+export class AgentWriteConflictError extends Error {
+	constructor(
+		readonly path: string,
+		reason: string,
+	) {
+		super(`${path}: ${reason}`);
+		this.name = "AgentWriteConflictError";
+	}
+}
+
+/** Final content of one write, worked out against the current vault file. */
+export interface ResolvedAgentWrite {
+	path: string;
+	content: string;
+	/** Hash of the vault file the content was resolved against. */
+	currentHash: string | null;
+	/** True when the file changed after the proposal and the edit was rebased onto it. */
+	merged: boolean;
+}
+
+interface HeadingMatch {
+	index: number;
+	level: number;
+}
+
+interface PatchHunk {
+	oldStart: number;
+	oldLines: string[];
+	newLines: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/;
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/** SHA-256 hex digest of file content, used as the proposal base hash. */
+export async function hashAgentWriteBase(content: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(content),
+	);
+	return Array.from(new Uint8Array(digest), (byte) =>
+		`0${byte.toString(16)}`.slice(-2),
+	).join("");
+}
+
+/** Writes grouped by target file, in the order each file first appears. */
+export function groupAgentWritesByPath(
+	writes: readonly AgentProposedWrite[],
+): Map<string, AgentProposedWrite[]> {
+	const groups = new Map<string, AgentProposedWrite[]>();
+	for (const write of writes) {
+		const group = groups.get(write.path);
+		if (group) group.push(write);
+		else groups.set(write.path, [write]);
+	}
+	return groups;
+}
+
+/**
+ * Works out what the writes to one file leave in it, applying them in order
+ * so each operation edits the output of the one before. A write to an
+ * existing file must carry the base hash it was made against, or it is
+ * refused. When the file changed since that hash, a full replacement is
+ * refused; patches and section edits are re-applied to the current content
+ * (a three-way merge through their context lines or heading) and refused
+ * only if that fails.
+ */
+export async function resolveAgentFileWrites(
+	path: string,
+	writes: readonly AgentProposedWrite[],
+	current: string | null,
+): Promise<ResolvedAgentWrite> {
+	const currentHash =
+		current === null ? null : await hashAgentWriteBase(current);
+	let content = current;
+	let merged = false;
+
+	for (const write of writes) {
+		if (current !== null && write.baseHash === undefined) {
+			throw new AgentWriteConflictError(
+				path,
+				"file exists but the write has no base hash; regenerate the proposal",
+			);
+		}
+		const changed =
+			write.baseHash !== undefined && currentHash !== write.baseHash;
+		if (changed && current === null) {
+			throw new AgentWriteConflictError(
+				path,
+				"file was deleted after the proposal was made",
+			);
+		}
+		if (changed && (write.op ?? "replace") === "replace") {
+			throw new AgentWriteConflictError(
+				path,
+				"file changed after the proposal was made; regenerate the proposal or apply it as a patch",
+			);
+		}
+		content = applyAgentWriteOperation(write, content);
+		merged ||= changed;
+	}
+
+	return { path, content: content ?? "", currentHash, merged };
+}
+
+/** Applies one write operation to the current content of its file. */
+export function applyAgentWriteOperation(
+	write: AgentProposedWrite,
+	current: string | null,
+): string {
+	switch (write.op ?? "replace") {
+		case "replace":
+			return write.content;
+		case "patch":
+			return applyUnifiedPatch(write.path, current ?? "", write.content);
+		case "insert_under_heading":
+			return editSection(write, requireFile(write, current), "insert");
+		case "append_to_section":
+			return editSection(write, requireFile(write, current), "append");
+		case "merge_frontmatter":
+			return mergeFrontmatter(current ?? "", write.frontmatter ?? {});
+	}
+}
+
+function applyUnifiedPatch(
+	path: string,
+	current: string,
+	patch: string,
+): string {
+	const { lines, trailingNewline } = splitContent(current);
+	let offset = 0;
+	let searchFrom = 0;
+
+	parseHunks(patch).forEach((hunk, number) => {
+		const expected =
+			(hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+		const at = findHunk(lines, hunk.oldLines, expected, searchFrom);
+		if (at === -1) {
+			throw new AgentWriteConflictError(
+				path,
+				`patch hunk ${number + 1} does not match the current file`,
+			);
+		}
+		lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+		offset += at - expected + hunk.newLines.length - hunk.oldLines.length;
+		searchFrom = at + hunk.newLines.length;
+	});
+
+	return joinContent(lines, trailingNewline || current.length === 0);
+}
+
+function parseHunks(patch: string): PatchHunk[] {
+	const hunks: PatchHunk[] = [];
+	let hunk: PatchHunk | null = null;
+
+	for (const line of patch.replace(/\r\n/g, "\n").split("\n")) {
+		const header = HUNK_HEADER.exec(line);
+		if (header) {
+			hunk = { oldStart: Number(header[1]), oldLines: [], newLines: [] };
+			hunks.push(hunk);
+			continue;
+		}
+		if (!hunk || line.startsWith("\\")) continue;
+		const marker = line[0];
+		const text = line.slice(1);
+		if (marker === "-") {
+			hunk.oldLines.push(text);
+		} else if (marker === "+") {
+			hunk.newLines.push(text);
+		} else if (marker === " " || line.length === 0) {
+			hunk.oldLines.push(text);
+			hunk.newLines.push(text);
+		}
+	}
+
+	if (hunks.length === 0) {
+		throw new Error("Patch has no hunks.");
+	}
+	return hunks;
+}
+
+/** Finds the hunk's old lines nearest the expected line, never before `from`. */
+function findHunk(
+	lines: readonly string[],
+	oldLines: readonly string[],
+	expected: number,
+	from: number,
+): number {
+	const last = lines.length - oldLines.length;
+	for (let distance = 0; distance <= lines.length; distance++) {
+		for (const at of [expected - distance, expected + distance]) {
+			if (at >= from && at <= last && matchesAt(lines, oldLines, at)) {
+				return at;
+			}
+		}
+	}
+	return -1;
+}
+
+function matchesAt(
+	lines: readonly string[],
+	oldLines: readonly string[],
+	at: number,
+): boolean {
+	return oldLines.every((line, index) => lines[at + index] === line);
+}
+
+function editSection(
+	write: AgentProposedWrite,
+	current: string,
+	mode: "insert" | "append",
+): string {
+	const { lines, trailingNewline } = splitContent(current);
+	const heading = findHeading(lines, write.heading ?? "");
+	if (!heading) {
+		throw new AgentWriteConflictError(
+			write.path,
+			`heading "${write.heading ?? ""}" not found`,
+		);
+	}
+
+	const block = splitContent(write.content.trim()).lines;
+	const end =
+		mode === "insert" ? heading.index + 1 : findSectionEnd(lines, heading);
+	const head = trimTrailingBlank(lines.slice(0, end));
+	const rest = trimLeadingBlank(lines.slice(end));
+	return joinContent(
+		[...head, "", ...block, ...(rest.length > 0 ? ["", ...rest] : [])],
+		trailingNewline,
+	);
+}
+
+function findHeading(
+	lines: readonly string[],
+	heading: string,
+): HeadingMatch | null {
+	const wanted = heading
+		.replace(/^#+\s*/, "")
+		.trim()
+		.toLowerCase();
+	let inFence = false;
+	for (const [index, line] of lines.entries()) {
+		if (line.trimStart().startsWith("```")) inFence = !inFence;
+		if (inFence) continue;
+		const match = HEADING_LINE.exec(line);
+		if (match && match[2]?.trim().toLowerCase() === wanted) {
+			return { index, level: match[1]?.length ?? 1 };
+		}
+	}
+	return null;
+}
+
+/** Line index of the next heading at the same or a higher level. */
+function findSectionEnd(
+	lines: readonly string[],
+	heading: HeadingMatch,
+): number {
+	let inFence = false;
+	for (let index = heading.index + 1; index < lines.length; index++) {
+		const line = lines[index] ?? "";
+		if (line.trimStart().startsWith("```")) inFence = !inFence;
+		if (inFence) continue;
+		const match = HEADING_LINE.exec(line);
+		if (match && (match[1]?.length ?? 1) <= heading.level) return index;
+	}
+	return lines.length;
+}
+
+/**
+ * Sets top-level frontmatter keys and leaves every other line as written,
+ * so the user's formatting and unrelated keys survive.
+ */
+function mergeFrontmatter(
+	current: string,
+	fields: Record<string, unknown>,
+): string {
+	const normalized = current.replace(/\r\n/g, "\n");
+	const match = /^---\n(?:([\s\S]*?)\n)?---(?:\n|$)/.exec(normalized);
+	const yamlLines = match?.[1] ? match[1].split("\n") : [];
+	const body = match ? normalized.slice(match[0].length) : normalized;
+
+	for (const [key, value] of Object.entries(fields)) {
+		const line = `${key}: ${formatYamlValue(value)}`;
+		const start = yamlLines.findIndex((item) => item.startsWith(`${key}:`));
+		if (start === -1) {
+			yamlLines.push(line);
+			continue;
+		}
+		let end = start + 1;
+		while (end < yamlLines.length && /^(\s|- )/.test(yamlLines[end] ?? "")) {
+			end++;
+		}
+		yamlLines.splice(start, end - start, line);
+	}
+
+	return `---\n${yamlLines.join("\n")}\n---\n${body}`;
+}
+
+/** YAML for one value; JSON is valid YAML, so anything non-trivial is written as JSON. */
+function formatYamlValue(value: unknown): string {
+	if (
+		typeof value === "string" &&
+		/^[A-Za-z][\w ./-]*$/.test(value) &&
+		!/^(true|false|null|yes|no|on|off)$/i.test(value)
+	) {
+		return value;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+function requireFile(
+	write: AgentProposedWrite,
+	current: string | null,
+): string {
+	if (current === null) {
+		throw new AgentWriteConflictError(write.path, "file does not exist");
+	}
+	return current;
+}
+
+function splitContent(content: string): {
+	lines: string[];
+	trailingNewline: boolean;
+} {
+	const normalized = content.replace(/\r\n/g, "\n");
+	const trailingNewline = normalized.endsWith("\n");
+	const body = trailingNewline ? normalized.slice(0, -1) : normalized;
+	return { lines: body.length > 0 ? body.split("\n") : [], trailingNewline };
+}
+
+function joinContent(
+	lines: readonly string[],
+	trailingNewline: boolean,
+): string {
+	return `${lines.join("\n")}${trailingNewline ? "\n" : ""}`;
+}
+
+function trimTrailingBlank(lines: string[]): string[] {
+	let end = lines.length;
+	while (end > 0 && lines[end - 1]?.trim() === "") end--;
+	return lines.slice(0, end);
+}
+
+function trimLeadingBlank(lines: string[]): string[] {
+	let start = 0;
+	while (start < lines.length && lines[start]?.trim() === "") start++;
+	return lines.slice(start);
+}
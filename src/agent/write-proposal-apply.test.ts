@@ -3,9 +3,12 @@ import type { App } from "obsidian";
 import { TFile, TFolder, normalizePath } from "obsidian";
 import {
 	applyAgentWriteProposal,
+	applyAgentWriteProposalReview,
+	loadAgentWriteProposalReview,
 	rejectAgentWriteProposal,
 	scanAgentWriteProposals,
 } from "@/agent/write-proposal";
+import { hashAgentWriteBase } from "@/agent/write-operations";
 import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
 
 describe("agent write proposal apply flow", () => {
@@ -101,6 +104,237 @@ describe("agent write proposal apply flow", () => {
 		expect(app.has("_explainers/cache.html")).toBe(false);
 	});
 
+	it("applies accepted files with inline edits and marks the proposal partially applied", async () => {
+		const app = createApp({
+			"00_Command_Center/agent-proposals/task.json": JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [
+					{
+						path: "_explainers/cache.html",
+						content: "<p>draft</p>",
+						baseHash: await hashAgentWriteBase("<p>old</p>"),
+					},
+					{ path: "_explainers/cache-notes.md", content: "Notes" },
+				],
+			}),
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: proposed\n---\n",
+			"Learning/cache.md": "---\ntype: concept\narea: systems\nstatus: visualize\n---\n",
+			"_explainers/cache.html": "<p>old</p>",
+		});
+		const task = taskSummary();
+		const proposals = await scanAgentWriteProposals(app, [task]);
+		const review = await loadAgentWriteProposalReview(app, proposals[0]!);
+
+		expect(review.map((item) => item.currentContent)).toEqual(["<p>old</p>", null]);
+		expect(review[0]?.quality?.passed).toBe(false);
+
+		const status = await applyAgentWriteProposalReview(app, proposals[0]!, task, [
+			{
+				path: "_explainers/cache.html",
+				accept: true,
+				content: validHtmlExplainer(),
+				baseHash: review[0]!.currentHash,
+			},
+			{
+				path: "_explainers/cache-notes.md",
+				accept: false,
+				content: "Notes",
+				baseHash: null,
+			},
+		]);
+
+		expect(status).toBe("partially_applied");
+		expect(app.read("_explainers/cache.html")).toBe(validHtmlExplainer());
+		expect(app.has("_explainers/cache-notes.md")).toBe(false);
+		const saved = JSON.parse(app.read("00_Command_Center/agent-proposals/task.json"));
+		expect(saved.status).toBe("partially_applied");
+		expect(saved.writes.map((write: { decision: string }) => write.decision)).toEqual([
+			"accepted",
+			"rejected",
+		]);
+		expect(app.frontmatter("00_Command_Center/agent-tasks/task.md").status).toBe(
+			"done",
+		);
+	});
+
+	it("keeps a reviewed proposal pending when an accepted file fails quality", async () => {
+		const app = createApp({
+			"00_Command_Center/agent-proposals/task.json": JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [{ path: "_explainers/cache.html", content: "<p>draft</p>" }],
+			}),
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: proposed\n---\n",
+		});
+		const task = taskSummary();
+		const proposals = await scanAgentWriteProposals(app, [task]);
+
+		await expect(
+			applyAgentWriteProposalReview(app, proposals[0]!, task, [
+				{
+					path: "_explainers/cache.html",
+					accept: true,
+					content: "<p>draft</p>",
+					baseHash: null,
+				},
+			]),
+		).rejects.toThrow("Rejected artifact quality");
+		expect((await scanAgentWriteProposals(app, [task]))[0]?.status).toBe("pending");
+		expect(app.has("_explainers/cache.html")).toBe(false);
+	});
+
+	it("merges a section edit onto a changed file and refuses a stale replacement", async () => {
+		const app = createApp({
+			"00_Command_Center/agent-proposals/task.json": JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [
+					{
+						path: "_explainers/cache.md",
+						op: "append_to_section",
+						heading: "Notes",
+						content: "- Agent note",
+						baseHash: await hashAgentWriteBase("# Notes\n- First\n"),
+					},
+				],
+			}),
+			"00_Command_Center/agent-proposals/stale.json": JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [
+					{
+						path: "_explainers/cache.md",
+						content: "# Replaced\n",
+						baseHash: await hashAgentWriteBase("# Notes\n- First\n"),
+					},
+				],
+			}),
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: proposed\n---\n",
+			"_explainers/cache.md": "# Notes\n- First\n- User edit\n",
+		});
+		const task = taskSummary();
+		const [stale, merged] = await scanAgentWriteProposals(app, [task]);
+
+		await expect(applyAgentWriteProposal(app, stale!, task)).rejects.toThrow(
+			"Conflicting writes: _explainers/cache.md: file changed",
+		);
+		expect(app.read("_explainers/cache.md")).toBe("# Notes\n- First\n- User edit\n");
+
+		await applyAgentWriteProposal(app, merged!, task);
+		expect(app.read("_explainers/cache.md")).toBe(
+			"# Notes\n- First\n- User edit\n\n- Agent note\n",
+		);
+	});
+
+	it("refuses a write to an existing file that has no base hash", async () => {
+		const app = createApp({
+			"00_Command_Center/agent-proposals/task.json": JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [
+					{
+						path: "_explainers/cache.md",
+						op: "append_to_section",
+						heading: "Notes",
+						content: "- Agent note",
+					},
+				],
+			}),
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: proposed\n---\n",
+			"_explainers/cache.md": "# Notes\n- First\n",
+		});
+		const task = taskSummary();
+		const proposals = await scanAgentWriteProposals(app, [task]);
+
+		await expect(applyAgentWriteProposal(app, proposals[0]!, task)).rejects.toThrow(
+			"_explainers/cache.md: file exists but the write has no base hash",
+		);
+		expect(app.read("_explainers/cache.md")).toBe("# Notes\n- First\n");
+	});
+
+	it("applies several operations on one file in order", async () => {
+		const base = "---\nstatus: draft\n---\n# Evidence\n- First\n";
+		const app = createApp({
+			"00_Command_Center/agent-proposals/task.json": JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [
+					{
+						path: "_explainers/cache.md",
+						op: "append_to_section",
+						heading: "Evidence",
+						content: "- Benchmark",
+						baseHash: await hashAgentWriteBase(base),
+					},
+					{
+						path: "_explainers/cache.md",
+						op: "merge_frontmatter",
+						frontmatter: { status: "done" },
+						baseHash: await hashAgentWriteBase(base),
+					},
+				],
+			}),
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: proposed\n---\n",
+			"_explainers/cache.md": base,
+		});
+		const task = taskSummary();
+		const proposals = await scanAgentWriteProposals(app, [task]);
+
+		await applyAgentWriteProposal(app, proposals[0]!, task);
+		expect(app.read("_explainers/cache.md")).toBe(
+			"---\nstatus: done\n---\n# Evidence\n- First\n\n- Benchmark\n",
+		);
+	});
+
+	it("reviews several operations on one file as a single file", async () => {
+		const base = "---\nstatus: draft\n---\n# Evidence\n- First\n";
+		const app = createApp({
+			"00_Command_Center/agent-proposals/task.json": JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [
+					{
+						path: "_explainers/cache.md",
+						op: "append_to_section",
+						heading: "Evidence",
+						content: "- Benchmark",
+						baseHash: await hashAgentWriteBase(base),
+					},
+					{
+						path: "_explainers/cache.md",
+						op: "merge_frontmatter",
+						frontmatter: { status: "done" },
+						baseHash: await hashAgentWriteBase(base),
+					},
+				],
+			}),
+			"00_Command_Center/agent-tasks/task.md": "---\ntype: agent-task\nstatus: proposed\n---\n",
+			"_explainers/cache.md": base,
+		});
+		const task = taskSummary();
+		const proposals = await scanAgentWriteProposals(app, [task]);
+		const review = await loadAgentWriteProposalReview(app, proposals[0]!);
+
+		expect(review).toHaveLength(1);
+		expect(review[0]?.content).toBe(
+			"---\nstatus: done\n---\n# Evidence\n- First\n\n- Benchmark\n",
+		);
+
+		const status = await applyAgentWriteProposalReview(app, proposals[0]!, task, [
+			{
+				path: "_explainers/cache.md",
+				accept: true,
+				content: review[0]!.content,
+				baseHash: review[0]!.currentHash,
+			},
+		]);
+
+		expect(status).toBe("applied");
+		expect(app.read("_explainers/cache.md")).toBe(review[0]!.content);
+		const saved = JSON.parse(app.read("00_Command_Center/agent-proposals/task.json"));
+		expect(saved.writes).toEqual([
+			{
+				path: "_explainers/cache.md",
+				content: review[0]!.content,
+				decision: "accepted",
+			},
+		]);
+	});
+
 	it("rejects writes outside the task allowed zones", async () => {
 		const app = createApp({
 			"00_Command_Center/agent-proposals/task.json": JSON.stringify({
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+	countDiffChanges,
+	diffProposalLines,
+	toSideBySideRows,
+} from "@/agent/write-proposal-diff";
+
+describe("write proposal diff", () => {
+	it("aligns unchanged lines and pairs a changed line with its replacement", () => {
+		const lines = diffProposalLines(
+			"# Cache\nold line\nshared\n",
+			"# Cache\nnew line\nshared\nextra\n",
+		);
+
+		expect(countDiffChanges(lines)).toEqual({ added: 2, removed: 1 });
+		expect(toSideBySideRows(lines)).toEqual([
+			{
+				left: { number: 1, text: "# Cache", kind: "same" },
+				right: { number: 1, text: "# Cache", kind: "same" },
+			},
+			{
+				left: { number: 2, text: "old line", kind: "removed" },
+				right: { number: 2, text: "new line", kind: "added" },
+			},
+			{
+				left: { number: 3, text: "shared", kind: "same" },
+				right: { number: 3, text: "shared", kind: "same" },
+			},
+			{ left: null, right: { number: 4, text: "extra", kind: "added" } },
+		]);
+	});
+
+	it("shows every line as added for a new file", () => {
+		expect(diffProposalLines(null, "a\nb")).toEqual([
+			{ kind: "added", text: "a" },
+			{ kind: "added", text: "b" },
+		]);
+	});
+});
@@ -0,0 +1,191 @@
+export type ProposalDiffKind = "same" | "added" | "removed";
+
+export interface ProposalDiffLine {
+	kind: ProposalDiffKind;
+	text: string;
+}
+
+export interface ProposalDiffCell {
+	/** 1-based line number in the current or proposed file. */
+	number: number;
+	text: string;
+	kind: ProposalDiffKind;
+}
+
+/** One row of the side-by-side view; a missing side is a blank cell. */
+export interface ProposalDiffRow {
+	left: ProposalDiffCell | null;
+	right: ProposalDiffCell | null;
+}
+
+/**
+ * Above this many line pairs the changed middle of the file is shown as
+ * removed then added instead of aligned, so huge rewrites stay responsive.
+ */
+const MAX_ALIGNED_CELLS = 1_000_000;
+
+/**
+ * Line diff between the current file and the proposed content. A null
+ * `before` means the file does not exist yet, so every line is added.
+ */
+export function diffProposalLines(
+	before: string | null,
+	after: string,
+): ProposalDiffLine[] {
+	const next = splitLines(after);
+	if (before === null) {
+		return next.map((text) => ({ kind: "added", text }));
+	}
+	const previous = splitLines(before);
+
+	let start = 0;
+	while (
+		start < previous.length &&
+		start < next.length &&
+		previous[start] === next[start]
+	) {
+		start++;
+	}
+	let endPrevious = previous.length;
+	let endNext = next.length;
+	while (
+		endPrevious > start &&
+		endNext > start &&
+		previous[endPrevious - 1] === next[endNext - 1]
+	) {
+		endPrevious--;
+		endNext--;
+	}
+
+	return [
+		...previous.slice(0, start).map(same),
+		...alignLines(
+			previous.slice(start, endPrevious),
+			next.slice(start, endNext),
+		),
+		...previous.slice(endPrevious).map(same),
+	];
+}
+
+/** Pairs removed and added runs so a changed line sits next to its replacement. */
+export function toSideBySideRows(
+	lines: readonly ProposalDiffLine[],
+): ProposalDiffRow[] {
+	const rows: ProposalDiffRow[] = [];
+	let leftNumber = 0;
+	let rightNumber = 0;
+	let index = 0;
+
+	while (index < lines.length) {
+		const line = lines[index];
+		if (!line) break;
+		if (line.kind === "same") {
+			leftNumber++;
+			rightNumber++;
+			rows.push({
+				left: { number: leftNumber, text: line.text, kind: "same" },
+				right: { number: rightNumber, text: line.text, kind: "same" },
+			});
+			index++;
+			continue;
+		}
+
+		const removed: string[] = [];
+		const added: string[] = [];
+		while (index < lines.length && lines[index]?.kind !== "same") {
+			const change = lines[index];
+			if (change?.kind === "removed") removed.push(change.text);
+			else if (change) added.push(change.text);
+			index++;
+		}
+		for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+			const left = removed[row];
+			const right = added[row];
+			rows.push({
+				left:
+					left === undefined
+						? null
+						: { number: ++leftNumber, text: left, kind: "removed" },
+				right:
+					right === undefined
+						? null
+						: { number: ++rightNumber, text: right, kind: "added" },
+			});
+		}
+	}
+
+	return rows;
+}
+
+export function countDiffChanges(lines: readonly ProposalDiffLine[]): {
+	added: number;
+	removed: number;
+} {
+	let added = 0;
+	let removed = 0;
+	for (const line of lines) {
+		if (line.kind === "added") added++;
+		else if (line.kind === "removed") removed++;
+	}
+	return { added, removed };
+}
+
+function alignLines(
+	previous: readonly string[],
+	next: readonly string[],
+): ProposalDiffLine[] {
+	const rows = previous.length;
+	const columns = next.length;
+	if (rows * columns > MAX_ALIGNED_CELLS) {
+		return [
+			...previous.map((text) => ({ kind: "removed" as const, text })),
+			...next.map((text) => ({ kind: "added" as const, text })),
+		];
+	}
+
+	// lengths[i * (columns + 1) + j] = LCS length of previous[i..] and next[j..]
+	const width = columns + 1;
+	const lengths = new Uint32Array((rows + 1) * width);
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = columns - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				previous[i] === next[j]
+					? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+					: Math.max(
+							lengths[(i + 1) * width + j] ?? 0,
+							lengths[i * width + j + 1] ?? 0,
+						);
+		}
+	}
+
+	const result: ProposalDiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < rows && j < columns) {
+		if (previous[i] === next[j]) {
+			result.push(same(previous[i] ?? ""));
+			i++;
+			j++;
+		} else if (
+			(lengths[(i + 1) * width + j] ?? 0) >= (lengths[i * width + j + 1] ?? 0)
+		) {
+			result.push({ kind: "removed", text: previous[i] ?? "" });
+			i++;
+		} else {
+			result.push({ kind: "added", text: next[j] ?? "" });
+			j++;
+		}
+	}
+	for (const text of previous.slice(i)) result.push({ kind: "removed", text });
+	for (const text of next.slice(j)) result.push({ kind: "added", text });
+	return result;
+}
+
+function same(text: string): ProposalDiffLine {
+	return { kind: "same", text };
+}
+
+function splitLines(content: string): string[] {
+	if (content.length === 0) return [];
+	return content.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
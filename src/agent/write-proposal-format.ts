@@ -1,8 +1,39 @@
-export type AgentWriteProposalStatus = "pending" | "applied" | "rejected";
+export type AgentWriteProposalStatus =
+	"pending" | "applied" | "partially_applied" | "rejected";
+
+export type AgentWriteDecision = "accepted" | "rejected";
+
+/**
+ * How a write changes its file. `replace` sends the whole file; the others
+ * edit the current file, so agents send less and the user's edits survive.
+ */
+export type AgentWriteOperation =
+	| "replace"
+	| "patch"
+	| "insert_under_heading"
+	| "append_to_section"
+	| "merge_frontmatter";
 
 export interface AgentProposedWrite {
 	path: string;
+	/** Omitted for `replace`. */
+	op?: AgentWriteOperation;
+	/**
+	 * The whole file for `replace`, a unified diff for `patch`, or the
+	 * markdown to add under `heading`. Empty for `merge_frontmatter`.
+	 */
 	content: string;
+	/** Heading text for `insert_under_heading` and `append_to_section`. */
+	heading?: string;
+	/** Keys to set for `merge_frontmatter`. */
+	frontmatter?: Record<string, unknown>;
+	/**
+	 * SHA-256 hex of the file the write was made against. Required when the
+	 * file exists; absent for new files.
+	 */
+	baseHash?: string;
+	/** Set once the write was reviewed file by file. */
+	decision?: AgentWriteDecision;
 }
 
 export interface AgentWriteProposal {
@@ -48,23 +79,73 @@ function parseWrites(value: unknown): AgentProposedWrite[] {
 	if (!Array.isArray(value)) return [];
 
 	return value
-		.map((item) => {
+		.map((item): AgentProposedWrite | null => {
 			if (!isRecord(item)) return null;
 			const path = parseString(item.path);
+			const op = parseOperation(item.op);
+			if (!path || !op) return null;
+
+			const heading = parseString(item.heading);
+			const frontmatter =
+				isRecord(item.frontmatter) && !Array.isArray(item.frontmatter)
+					? item.frontmatter
+					: undefined;
 			const content =
-				typeof item.content === "string" ? item.content : undefined;
-			return path && content !== undefined
-				? { path: normalizeVaultPath(path), content }
-				: null;
+				typeof item.content === "string"
+					? item.content
+					: op === "merge_frontmatter"
+						? ""
+						: undefined;
+			if (content === undefined) return null;
+			if (
+				(op === "insert_under_heading" || op === "append_to_section") &&
+				!heading
+			) {
+				return null;
+			}
+			if (op === "merge_frontmatter" && !frontmatter) return null;
+
+			const baseHash = parseString(item.baseHash);
+			const decision = parseDecision(item.decision);
+			return {
+				path: normalizeVaultPath(path),
+				...(op !== "replace" ? { op } : {}),
+				content,
+				...(heading && op !== "replace" && op !== "patch" ? { heading } : {}),
+				...(frontmatter && op === "merge_frontmatter" ? { frontmatter } : {}),
+				...(baseHash ? { baseHash } : {}),
+				...(decision ? { decision } : {}),
+			};
 		})
 		.filter((write): write is AgentProposedWrite => write !== null);
 }
 
+function parseOperation(value: unknown): AgentWriteOperation | undefined {
+	if (value === undefined) return "replace";
+	return value === "replace" ||
+		value === "patch" ||
+		value === "insert_under_heading" ||
+		value === "append_to_section" ||
+		value === "merge_frontmatter"
+		? value
+		: undefined;
+}
+
 function parseStatus(value: unknown): AgentWriteProposalStatus {
-	if (value === "applied" || value === "rejected") return value;
+	if (
+		value === "applied" ||
+		value === "partially_applied" ||
+		value === "rejected"
+	) {
+		return value;
+	}
 	return "pending";
 }
 
+function parseDecision(value: unknown): AgentWriteDecision | undefined {
+	return value === "accepted" || value === "rejected" ? value : undefined;
+}
+
 function parseString(value: unknown): string | undefined {
 	if (typeof value !== "string") return undefined;
 	const trimmed = value.trim();
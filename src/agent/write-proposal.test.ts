@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { stampAgentWriteBaseHashes } from "@/agent/write-proposal";
 import { parseAgentWriteProposal } from "@/agent/write-proposal-format";
 
 describe("agent write proposal", () => {
@@ -31,6 +32,63 @@ describe("agent write proposal", () => {
 		});
 	});
 
+	it("parses patch operations and drops ones missing their target", () => {
+		const proposal = parseAgentWriteProposal(
+			"00_Command_Center/agent-proposals/task.json",
+			"task",
+			JSON.stringify({
+				taskPath: "00_Command_Center/agent-tasks/task.md",
+				writes: [
+					{
+						path: "_answers/cache.md",
+						op: "append_to_section",
+						heading: "Evidence",
+						content: "- Benchmark",
+						baseHash: "abc123",
+					},
+					{ path: "_answers/cache.md", op: "insert_under_heading", content: "x" },
+					{ path: "_answers/cache.md", op: "merge_frontmatter", frontmatter: { status: "done" } },
+					{ path: "_answers/cache.md", op: "rename", content: "x" },
+				],
+			}),
+		);
+
+		expect(proposal?.writes).toEqual([
+			{
+				path: "_answers/cache.md",
+				op: "append_to_section",
+				content: "- Benchmark",
+				heading: "Evidence",
+				baseHash: "abc123",
+			},
+			{
+				path: "_answers/cache.md",
+				op: "merge_frontmatter",
+				content: "",
+				frontmatter: { status: "done" },
+			},
+		]);
+	});
+
+	it("stamps start-of-run hashes only on writes to files that existed", () => {
+		const bases = new Map([["_answers/cache.md", "start"]]);
+
+		expect(
+			stampAgentWriteBaseHashes(
+				[
+					{ path: "_answers/cache.md", content: "# Cache" },
+					{ path: "_answers/cache.md", content: "# Cache", baseHash: "agent" },
+					{ path: "_answers/new.md", content: "# New" },
+				],
+				bases,
+			),
+		).toEqual([
+			{ path: "_answers/cache.md", content: "# Cache", baseHash: "start" },
+			{ path: "_answers/cache.md", content: "# Cache", baseHash: "agent" },
+			{ path: "_answers/new.md", content: "# New" },
+		]);
+	});
+
 	it("rejects malformed proposal JSON", () => {
 		expect(parseAgentWriteProposal("bad.json", "bad", "{")).toBeNull();
 	});
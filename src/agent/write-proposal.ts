@@ -1,11 +1,22 @@
 import { type App, normalizePath, TFile, TFolder } from "obsidian";
 import { ARTIFACT_FOLDERS } from "@/learning/constants";
 import { updateLearningAgentTaskStatus } from "@/agent/task-store";
-import { validateAgentWritePlan } from "@/agent/task-guard";
-import { evaluateArtifactQualityForPath } from "@/learning/artifact-quality";
+import { isPathAllowed, validateAgentWritePlan } from "@/agent/task-guard";
+import {
+	type ArtifactQualityResult,
+	evaluateArtifactQualityForPath,
+} from "@/learning/artifact-quality";
 import type { LearningAgentTaskSummary } from "@/agent/task-frontmatter";
+import {
+	AgentWriteConflictError,
+	groupAgentWritesByPath,
+	hashAgentWriteBase,
+	type ResolvedAgentWrite,
+	resolveAgentFileWrites,
+} from "@/agent/write-operations";
 import {
 	parseAgentWriteProposal,
+	type AgentProposedWrite,
 	type AgentWriteProposal,
 	type AgentWriteProposalStatus,
 	type AgentWriteProposalSummary,
@@ -17,6 +28,31 @@ const PROPOSAL_FOLDER = normalizePath(
 
 export type { AgentWriteProposalSummary } from "@/agent/write-proposal-format";
 
+/** Every proposed write to one file, next to the file as it is now. */
+export interface AgentWriteReviewItem {
+	path: string;
+	/** File content after the writes, or the raw writes when they conflict. */
+	content: string;
+	/** Current vault content, or null when the write creates the file. */
+	currentContent: string | null;
+	currentHash: string | null;
+	isAllowed: boolean;
+	quality: ArtifactQualityResult | null;
+	/** Why the write cannot be applied to the current file. */
+	conflict?: string;
+	/** The file changed after the proposal and the edit was merged onto it. */
+	merged: boolean;
+}
+
+/** The user's call on one file; `content` carries inline edits. */
+export interface AgentWriteReviewDecision {
+	path: string;
+	accept: boolean;
+	content: string;
+	/** `currentHash` the review showed; the file must still match it. */
+	baseHash: string | null;
+}
+
 export async function scanAgentWriteProposals(
 	app: App,
 	tasks: LearningAgentTaskSummary[],
@@ -63,7 +99,8 @@ export async function applyAgentWriteProposal(
 	if (!validation.isValid) {
 		throw new Error(`Rejected write paths: ${validation.rejected.join(", ")}`);
 	}
-	const qualityResults = proposal.writes
+	const resolved = await resolveProposalWrites(app, proposal.writes);
+	const qualityResults = resolved
 		.map((write) => ({
 			path: write.path,
 			result: evaluateArtifactQualityForPath(write.path, write.content),
@@ -82,7 +119,7 @@ export async function applyAgentWriteProposal(
 		);
 	}
 
-	for (const write of proposal.writes) {
+	for (const write of resolved) {
 		await writeVaultFile(app, write.path, write.content);
 	}
 
@@ -91,6 +128,187 @@ export async function applyAgentWriteProposal(
 	await updateLearningAgentTaskStatus(app, task.path, "done");
 }
 
+/** One review item per file; writes to the same file are shown combined. */
+export async function loadAgentWriteProposalReview(
+	app: App,
+	proposal: AgentWriteProposalSummary,
+): Promise<AgentWriteReviewItem[]> {
+	const items: AgentWriteReviewItem[] = [];
+	for (const [path, writes] of groupAgentWritesByPath(proposal.writes)) {
+		const currentContent = await readVaultFile(app, path);
+		const isAllowed = !proposal.rejectedPaths.includes(path);
+		try {
+			const resolved = await resolveAgentFileWrites(
+				path,
+				writes,
+				currentContent,
+			);
+			items.push({
+				path,
+				content: resolved.content,
+				currentContent,
+				currentHash: resolved.currentHash,
+				isAllowed,
+				quality: evaluateArtifactQualityForPath(path, resolved.content),
+				merged: resolved.merged,
+			});
+		} catch (error) {
+			items.push({
+				path,
+				content: writes.map((write) => write.content).join("\n\n"),
+				currentContent,
+				currentHash:
+					currentContent === null
+						? null
+						: await hashAgentWriteBase(currentContent),
+				isAllowed,
+				quality: null,
+				conflict: error instanceof Error ? error.message : String(error),
+				merged: false,
+			});
+		}
+	}
+	return items;
+}
+
+/**
+ * Applies the accepted files of a reviewed proposal, with any inline edits.
+ * Decisions are per file: an accepted file is saved as one write holding
+ * the reviewed content. Accepting some files leaves the proposal
+ * `partially_applied`; accepting none rejects it. Failing checks throw
+ * before anything is written and keep the proposal pending so the user can
+ * edit and try again.
+ */
+export async function applyAgentWriteProposalReview(
+	app: App,
+	proposal: AgentWriteProposal,
+	task: LearningAgentTaskSummary,
+	decisions: readonly AgentWriteReviewDecision[],
+): Promise<AgentWriteProposalStatus> {
+	const decisionByPath = new Map(
+		decisions.map((decision) => [decision.path, decision]),
+	);
+	const files = groupAgentWritesByPath(proposal.writes);
+	const reviewed: AgentProposedWrite[] = [];
+	for (const [path, writes] of files) {
+		const decision = decisionByPath.get(path);
+		if (decision?.accept) {
+			reviewed.push({ path, content: decision.content, decision: "accepted" });
+		} else {
+			reviewed.push(
+				...writes.map((write): AgentProposedWrite => ({
+					...write,
+					decision: "rejected",
+				})),
+			);
+		}
+	}
+	const accepted = reviewed.filter((write) => write.decision === "accepted");
+	const conflicts: string[] = [];
+	for (const write of accepted) {
+		const current = await readVaultFile(app, write.path);
+		const currentHash =
+			current === null ? null : await hashAgentWriteBase(current);
+		if (currentHash !== (decisionByPath.get(write.path)?.baseHash ?? null)) {
+			conflicts.push(`${write.path}: file changed during review`);
+		}
+	}
+	if (conflicts.length > 0) {
+		throw new Error(`Conflicting writes: ${conflicts.join(", ")}`);
+	}
+
+	const validation = validateAgentWritePlan(
+		task,
+		accepted.map((write) => write.path),
+	);
+	if (!validation.isValid) {
+		throw new Error(`Rejected write paths: ${validation.rejected.join(", ")}`);
+	}
+	const qualityResults = accepted
+		.map((write) => ({
+			path: write.path,
+			result: evaluateArtifactQualityForPath(write.path, write.content),
+		}))
+		.filter(
+			(item): item is { path: string; result: ArtifactQualityResult } =>
+				item.result !== null,
+		);
+	const failingQuality = qualityResults.filter((item) => !item.result.passed);
+	if (failingQuality.length > 0) {
+		throw new Error(
+			`Rejected artifact quality: ${failingQuality
+				.map((item) => `${item.path} (${item.result.issues.join("; ")})`)
+				.join(", ")}`,
+		);
+	}
+
+	for (const write of accepted) {
+		await writeVaultFile(app, write.path, write.content);
+	}
+
+	const status: AgentWriteProposalStatus =
+		accepted.length === 0
+			? "rejected"
+			: accepted.length === files.size
+				? "applied"
+				: "partially_applied";
+	await updateSourceArtifactMetadata(app, task.notePath, qualityResults);
+	await updateProposal(app, proposal.path, { status, writes: reviewed });
+	await updateLearningAgentTaskStatus(
+		app,
+		task.path,
+		status === "rejected" ? "blocked" : "done",
+	);
+	return status;
+}
+
+/**
+ * Hashes every existing file in the task's write zones. Taken when a run
+ * starts, so edits the user makes while the agent works count as changes
+ * instead of becoming the base the proposal is applied to.
+ */
+export async function snapshotAgentWriteBases(
+	app: App,
+	task: Pick<LearningAgentTaskSummary, "allowedWriteZones">,
+): Promise<Map<string, string>> {
+	const bases = new Map<string, string>();
+	for (const file of app.vault.getFiles()) {
+		if (!isPathAllowed(file.path, task.allowedWriteZones)) continue;
+		bases.set(
+			file.path,
+			await hashAgentWriteBase(await app.vault.cachedRead(file)),
+		);
+	}
+	return bases;
+}
+
+/**
+ * Fills in the start-of-run hash on writes that have none. Writes to files
+ * that did not exist when the run started stay without one, so they are
+ * refused if the file exists by the time the proposal is applied.
+ */
+export function stampAgentWriteBaseHashes(
+	writes: readonly AgentProposedWrite[],
+	bases: ReadonlyMap<string, string>,
+): AgentProposedWrite[] {
+	return writes.map((write) => {
+		const baseHash = write.baseHash ? undefined : bases.get(write.path);
+		return baseHash ? { ...write, baseHash } : write;
+	});
+}
+
+/** Stamps start-of-run base hashes into a pending proposal file. */
+export async function stampAgentWriteProposal(
+	app: App,
+	proposal: AgentWriteProposal,
+	bases: ReadonlyMap<string, string>,
+): Promise<void> {
+	const writes = stampAgentWriteBaseHashes(proposal.writes, bases);
+	if (writes.some((write, index) => write !== proposal.writes[index])) {
+		await updateProposal(app, proposal.path, { writes });
+	}
+}
+
 export async function rejectAgentWriteProposal(
 	app: App,
 	proposal: AgentWriteProposal,
@@ -122,10 +340,54 @@ async function writeVaultFile(
 	await app.vault.create(normalized, content);
 }
 
+/**
+ * Final content of every file the proposal touches against the current
+ * vault. Writes to the same file are applied one after another. Conflicts
+ * are collected so the error names every file that needs a new proposal.
+ */
+async function resolveProposalWrites(
+	app: App,
+	writes: readonly AgentProposedWrite[],
+): Promise<ResolvedAgentWrite[]> {
+	const resolved: ResolvedAgentWrite[] = [];
+	const conflicts: string[] = [];
+	for (const [path, fileWrites] of groupAgentWritesByPath(writes)) {
+		try {
+			resolved.push(
+				await resolveAgentFileWrites(
+					path,
+					fileWrites,
+					await readVaultFile(app, path),
+				),
+			);
+		} catch (error) {
+			if (!(error instanceof AgentWriteConflictError)) throw error;
+			conflicts.push(error.message);
+		}
+	}
+	if (conflicts.length > 0) {
+		throw new Error(`Conflicting writes: ${conflicts.join(", ")}`);
+	}
+	return resolved;
+}
+
+async function readVaultFile(app: App, path: string): Promise<string | null> {
+	const file = app.vault.getAbstractFileByPath(normalizePath(path));
+	return file instanceof TFile ? app.vault.cachedRead(file) : null;
+}
+
 async function updateProposalStatus(
 	app: App,
 	path: string,
 	status: AgentWriteProposalStatus,
+): Promise<void> {
+	await updateProposal(app, path, { status });
+}
+
+async function updateProposal(
+	app: App,
+	path: string,
+	patch: Partial<Pick<AgentWriteProposal, "status" | "writes">>,
 ): Promise<void> {
 	const file = app.vault.getAbstractFileByPath(normalizePath(path));
 	if (!(file instanceof TFile) || file.extension !== "json") {
@@ -139,7 +401,7 @@ async function updateProposalStatus(
 	}
 
 	await app.vault.process(file, () =>
-		`${JSON.stringify({ ...proposal, status }, null, 2)}\n`,
+		`${JSON.stringify({ ...proposal, ...patch }, null, 2)}\n`,
 	);
 }
 
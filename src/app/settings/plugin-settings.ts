@@ -1,4 +1,5 @@
-// Unused imports removed
+import type { AgentRoutingRule } from "@/agent/task-routing";
+import type { LearningPipeline, NextActionWeights } from "@/learning/types";
 
 export enum AIProviderType {
 	BYOK_OPENAI = "openai",
@@ -92,6 +93,26 @@ export interface MyPluginSettings {
 	searchMaxResults: number;
 	debounceDelay: number;
 	activeLearningSprint: string;
+	/** Roadmap name or path the sprint planner draws from; empty uses every note. */
+	activeLearningRoadmap: string;
+	learningWeeklyCapacityHours: number;
+	/** Minutes of work "Generate today's plan" fits into the daily plan note. */
+	learningDailyPlanMinutes: number;
+	focusSessionMinutes: number;
+	/** Days without a status change before the dashboard flags a note as stuck. */
+	learningStuckAfterDays: number;
+	learningPipelines: LearningPipeline[];
+	/** Next-action weights the user pinned; the rest are learned from feedback. */
+	nextActionWeightOverrides: Partial<NextActionWeights>;
+	/** Agent tasks the background queue runs at the same time. */
+	agentQueueConcurrency: number;
+	/** Runs a failing agent task gets before it is left blocked. */
+	agentQueueMaxAttempts: number;
+	/** Minutes before the first retry of a failed agent task; doubles after that. */
+	agentQueueRetryMinutes: number;
+	agentQueuePaused: boolean;
+	/** Agent or model per area, artifact type, or suggested agent. */
+	agentRoutingRules: AgentRoutingRule[];
 	cloudflareAccessId: string;
 	cloudflareAccessSecret: string;
 	cloudflareApiEndpoint: string;
@@ -248,6 +269,18 @@ export const DEFAULT_SETTINGS: MyPluginSettings = {
 	searchMaxResults: 50,
 	debounceDelay: 300,
 	activeLearningSprint: "",
+	activeLearningRoadmap: "",
+	learningWeeklyCapacityHours: 6,
+	learningDailyPlanMinutes: 90,
+	focusSessionMinutes: 25,
+	learningStuckAfterDays: 14,
+	learningPipelines: [],
+	nextActionWeightOverrides: {},
+	agentQueueConcurrency: 1,
+	agentQueueMaxAttempts: 3,
+	agentQueueRetryMinutes: 2,
+	agentQueuePaused: false,
+	agentRoutingRules: [],
 	cloudflareAccessId: "",
 	cloudflareAccessSecret: "",
 	cloudflareApiEndpoint: "https://api.eragear.app",
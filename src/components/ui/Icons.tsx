@@ -8,6 +8,7 @@ import {
 	BugIcon,
 	CaretDownIcon,
 	CaretRightIcon,
+	ChartLineUpIcon,
 	ChatIcon,
 	CheckCircleIcon,
 	CodeIcon,
@@ -74,4 +75,5 @@ export const IconGlobe = () => <GlobeIcon size={14} />;
 export const IconPackage = () => <PackageIcon size={14} />;
 export const IconBrain = () => <BrainIcon size={14} />;
 export const IconUser = () => <UserIcon size={18} weight="bold" />;
+export const IconChart = () => <ChartLineUpIcon size={14} />;
 export const IconMagic = () => <MagicWandIcon size={18} weight="bold" />;
@@ -4,7 +4,9 @@ import { MyPluginSettings } from "@/app/settings/plugin-settings";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { GeneralSettings } from "@/features/settings/components/sections/GeneralSettings";
 import { ModelSettings } from "@/features/settings/components/sections/ModelSettings";
+import { AgentRoutingSettings } from "@/features/settings/components/sections/AgentRoutingSettings";
 import { AdvancedSettings } from "@/features/settings/components/sections/AdvancedSettings";
+import { NextActionWeightSettings } from "@/features/settings/components/sections/NextActionWeightSettings";
 import { PairingView } from "@/features/settings/PairingView";
 import {  RobotIcon, CodeIcon, NetworkIcon, ToolboxIcon } from "@phosphor-icons/react";
 
@@ -56,10 +58,19 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ plugin }) => {
 							settings={settings}
 							updateSettings={updateSettings}
 						/>
+						<NextActionWeightSettings
+							plugin={plugin}
+							settings={settings}
+							updateSettings={updateSettings}
+						/>
 
 					</TabsContent>
 					<TabsContent value={"models"}>
 						<ModelSettings settings={settings} updateSettings={updateSettings} />
+						<AgentRoutingSettings
+							settings={settings}
+							updateSettings={updateSettings}
+						/>
 					</TabsContent>
 					<TabsContent value={"advanced"}>
 						<AdvancedSettings
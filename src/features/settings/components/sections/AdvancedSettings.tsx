@@ -1,6 +1,10 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { SettingItem } from "@/features/settings/components/SettingItem";
 import { MyPluginSettings } from "@/app/settings/plugin-settings";
+import {
+	LEARNING_PIPELINE_PRESETS,
+	parseLearningPipelines,
+} from "@/learning/learning-pipeline";
 
 interface AdvancedSettingsProps {
 	settings: MyPluginSettings;
@@ -58,6 +62,11 @@ export const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({
 				/>
 			</SettingItem>
 
+			<LearningPipelinesSetting
+				settings={settings}
+				updateSettings={updateSettings}
+			/>
+
 			<div
 				style={{
 					marginTop: "20px",
@@ -97,3 +106,66 @@ export const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({
 		</div>
 	);
 };
+
+/**
+ * JSON editor for learning pipelines. Notes whose area or type matches no
+ * pipeline keep the default seed-to-mastered flow.
+ */
+const LearningPipelinesSetting: React.FC<AdvancedSettingsProps> = ({
+	settings,
+	updateSettings,
+}) => {
+	const [draft, setDraft] = useState(() =>
+		formatPipelines(settings.learningPipelines),
+	);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setDraft(formatPipelines(settings.learningPipelines));
+	}, [settings.learningPipelines]);
+
+	const save = async (value: string) => {
+		let raw: unknown;
+		try {
+			raw = value.trim() ? JSON.parse(value) : [];
+		} catch (parseError) {
+			setError(parseError instanceof Error ? parseError.message : String(parseError));
+			return;
+		}
+		const pipelines = parseLearningPipelines(raw);
+		setError(
+			Array.isArray(raw) && pipelines.length < raw.length
+				? "Some pipelines were ignored: each needs an id and stages with id and action."
+				: null,
+		);
+		await updateSettings({ learningPipelines: pipelines });
+	};
+
+	return (
+		<SettingItem
+			name="Learning pipelines"
+			description="JSON list of pipelines selected by note area or type. Each stage sets its weight, action, builder, required artifacts, and promotion rules."
+		>
+			<div style={{ display: "flex", flexDirection: "column", gap: "6px" }}>
+				<textarea
+					rows={10}
+					value={draft}
+					placeholder="[]"
+					onChange={(e) => setDraft(e.target.value)}
+					onBlur={() => void save(draft)}
+				/>
+				{error && <div className="setting-item-description">{error}</div>}
+				<button
+					type="button"
+					onClick={() => void save(formatPipelines(LEARNING_PIPELINE_PRESETS))}
+				>
+					Use example pipelines
+				</button>
+			</div>
+		</SettingItem>
+	);
+};
+
+function formatPipelines(pipelines: MyPluginSettings["learningPipelines"]): string {
+	return pipelines.length > 0 ? JSON.stringify(pipelines, null, 2) : "";
+}
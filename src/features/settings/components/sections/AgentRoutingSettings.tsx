@@ -0,0 +1,145 @@
+import type { MyPluginSettings } from "@/app/settings/plugin-settings";
+import {
+	type AgentRoutingMatch,
+	type AgentRoutingRule,
+	ERAGEAR_CLOUD_ROUTE_ID,
+} from "@/agent/task-routing";
+import { SettingItem } from "@/features/settings/components/SettingItem";
+
+interface AgentRoutingSettingsProps {
+	settings: MyPluginSettings;
+	updateSettings: (settings: Partial<MyPluginSettings>) => Promise<void>;
+}
+
+const MATCH_LABELS: Record<AgentRoutingMatch, string> = {
+	area: "Area",
+	artifact: "Artifact type",
+	agent: "Suggested agent",
+};
+
+const MATCH_PLACEHOLDERS: Record<AgentRoutingMatch, string> = {
+	area: "systems",
+	artifact: "html_explainer",
+	agent: "reasoning-model",
+};
+
+/**
+ * Rules that send agent tasks to a specific agent or API model. Area rules
+ * win over artifact rules, which win over suggested-agent rules.
+ */
+export const AgentRoutingSettings: React.FC<AgentRoutingSettingsProps> = ({
+	settings,
+	updateSettings,
+}) => {
+	const rules = settings.agentRoutingRules;
+	const models = settings.chatModels.filter((model) => model.enabled);
+
+	const updateRule = async (index: number, patch: Partial<AgentRoutingRule>) => {
+		await updateSettings({
+			agentRoutingRules: rules.map((rule, current) =>
+				current === index ? { ...rule, ...patch } : rule,
+			),
+		});
+	};
+
+	const addRule = async () => {
+		await updateSettings({
+			agentRoutingRules: [
+				...rules,
+				{ match: "agent", value: "reasoning-model", modelId: models[0]?.id ?? "" },
+			],
+		});
+	};
+
+	const removeRule = async (index: number) => {
+		await updateSettings({
+			agentRoutingRules: rules.filter((_, current) => current !== index),
+		});
+	};
+
+	return (
+		<div style={{ marginTop: "32px" }}>
+			<h3>Agent task routing</h3>
+			<p style={{ color: "var(--text-muted)", marginBottom: "16px" }}>
+				Send agent tasks to a specific agent or API model. Area rules win over
+				artifact rules, which win over suggested-agent rules. Tasks no rule
+				matches run on the active ACP agent. API models write the proposal
+				without starting an agent process.
+			</p>
+
+			{rules.map((rule, index) => {
+				const model = models.find((item) => item.id === rule.modelId);
+				const isCloud = rule.modelId === ERAGEAR_CLOUD_ROUTE_ID;
+				return (
+					<SettingItem
+						key={index}
+						name={`${MATCH_LABELS[rule.match]}: ${rule.value || "…"}`}
+						description={
+							isCloud
+								? "Eragear Cloud, using the Cloudflare endpoint from the advanced settings"
+								: model
+									? `${model.type === "api" ? "API model" : "ACP agent"} ${model.name}`
+									: "Pick an enabled agent or model; until then the rule is skipped."
+						}
+					>
+						<div style={{ display: "flex", flexWrap: "wrap", gap: "6px" }}>
+							<select
+								aria-label="Match"
+								value={rule.match}
+								onChange={(e) =>
+									void updateRule(index, {
+										match: e.target.value as AgentRoutingMatch,
+									})
+								}
+							>
+								{Object.entries(MATCH_LABELS).map(([value, label]) => (
+									<option key={value} value={value}>
+										{label}
+									</option>
+								))}
+							</select>
+							<input
+								type="text"
+								aria-label="Value"
+								placeholder={MATCH_PLACEHOLDERS[rule.match]}
+								value={rule.value}
+								onChange={(e) => void updateRule(index, { value: e.target.value })}
+							/>
+							<select
+								aria-label="Agent or model"
+								value={rule.modelId}
+								onChange={(e) => void updateRule(index, { modelId: e.target.value })}
+							>
+								<option value="">Choose…</option>
+								<option value={ERAGEAR_CLOUD_ROUTE_ID}>Eragear Cloud</option>
+								{models.map((item) => (
+									<option key={item.id} value={item.id}>
+										{item.name}
+									</option>
+								))}
+							</select>
+							{model?.type === "agent" ? (
+								<input
+									type="text"
+									aria-label="Session model"
+									placeholder="Session model (haiku)"
+									value={rule.sessionModel ?? ""}
+									onChange={(e) =>
+										void updateRule(index, { sessionModel: e.target.value })
+									}
+								/>
+							) : null}
+							<button type="button" onClick={() => void removeRule(index)}>
+								Remove
+							</button>
+						</div>
+					</SettingItem>
+				);
+			})}
+
+			<button type="button" onClick={() => void addRule()}>
+				Add routing rule
+			</button>
+		</div>
+	);
+};
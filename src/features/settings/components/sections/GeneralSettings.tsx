@@ -55,6 +55,91 @@ export const GeneralSettings: React.FC<GeneralSettingsProps> = ({
 					placeholder="systems-bridge"
 				/>
 			</SettingItem>
+
+			<SettingItem
+				name="Sprint roadmap"
+				description="Roadmap name or path the sprint planner fills from. Leave empty to plan from every learning note."
+			>
+				<input
+					type="text"
+					value={settings.activeLearningRoadmap}
+					onChange={(e) =>
+						updateSettings({ activeLearningRoadmap: e.target.value })
+					}
+					placeholder="Data Systems"
+				/>
+			</SettingItem>
+
+			<SettingItem
+				name="Weekly learning capacity (hours)"
+				description="Hours per week the sprint planner can schedule."
+			>
+				<input
+					type="number"
+					min={1}
+					value={settings.learningWeeklyCapacityHours}
+					onChange={(e) =>
+						updateSettings({
+							learningWeeklyCapacityHours: Math.max(
+								1,
+								parseFloat(e.target.value) || 1,
+							),
+						})
+					}
+				/>
+			</SettingItem>
+
+			<SettingItem
+				name="Daily plan length (minutes)"
+				description="Minutes of learning actions the daily plan note fits into one day."
+			>
+				<input
+					type="number"
+					min={15}
+					step={15}
+					value={settings.learningDailyPlanMinutes}
+					onChange={(e) =>
+						updateSettings({
+							learningDailyPlanMinutes: Math.max(
+								15,
+								parseInt(e.target.value) || 15,
+							),
+						})
+					}
+				/>
+			</SettingItem>
+
+			<SettingItem
+				name="Focus session length (minutes)"
+				description="Planned length of a focus session started from the Command Center."
+			>
+				<input
+					type="number"
+					min={5}
+					value={settings.focusSessionMinutes}
+					onChange={(e) =>
+						updateSettings({
+							focusSessionMinutes: Math.max(5, parseInt(e.target.value) || 5),
+						})
+					}
+				/>
+			</SettingItem>
+
+			<SettingItem
+				name="Stuck note threshold (days)"
+				description="Flag learning notes whose status has not changed for this many days."
+			>
+				<input
+					type="number"
+					min={1}
+					value={settings.learningStuckAfterDays}
+					onChange={(e) =>
+						updateSettings({
+							learningStuckAfterDays: Math.max(1, parseInt(e.target.value) || 1),
+						})
+					}
+				/>
+			</SettingItem>
 		</div>
 	);
 };
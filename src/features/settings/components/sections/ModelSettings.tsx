@@ -117,6 +117,58 @@ export const ModelSettings: React.FC<ModelSettingsProps> = ({
 						onChange={(e) => updateSettings({ agentNodePath: e.target.value })}
 					/>
 				</SettingItem>
+
+				<SettingItem
+					name="Agent task queue concurrency"
+					description="Queued agent tasks that run at the same time in the background."
+				>
+					<input
+						type="number"
+						min={1}
+						max={4}
+						value={settings.agentQueueConcurrency}
+						onChange={(e) =>
+							updateSettings({
+								agentQueueConcurrency: Math.min(
+									4,
+									Math.max(1, parseInt(e.target.value) || 1),
+								),
+							})
+						}
+					/>
+				</SettingItem>
+
+				<SettingItem
+					name="Agent task attempts"
+					description="Runs a failing agent task gets before it is left blocked."
+				>
+					<input
+						type="number"
+						min={1}
+						value={settings.agentQueueMaxAttempts}
+						onChange={(e) =>
+							updateSettings({
+								agentQueueMaxAttempts: Math.max(1, parseInt(e.target.value) || 1),
+							})
+						}
+					/>
+				</SettingItem>
+
+				<SettingItem
+					name="Agent task retry delay (minutes)"
+					description="Wait before the first retry; each later retry waits twice as long."
+				>
+					<input
+						type="number"
+						min={1}
+						value={settings.agentQueueRetryMinutes}
+						onChange={(e) =>
+							updateSettings({
+								agentQueueRetryMinutes: Math.max(1, parseInt(e.target.value) || 1),
+							})
+						}
+					/>
+				</SettingItem>
 			</div>
 		</div>
 	);
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import type EragearPlugin from "@/main";
+import { MyPluginSettings } from "@/app/settings/plugin-settings";
+import { SettingItem } from "@/features/settings/components/SettingItem";
+import {
+	MAX_NEXT_ACTION_WEIGHT,
+	NEXT_ACTION_WEIGHT_KEYS,
+	NEXT_ACTION_WEIGHT_LABELS,
+} from "@/learning/next-action-weights";
+import type { NextActionWeightKey } from "@/learning/types";
+
+interface NextActionWeightSettingsProps {
+	plugin: EragearPlugin;
+	settings: MyPluginSettings;
+	updateSettings: (settings: Partial<MyPluginSettings>) => Promise<void>;
+}
+
+export const NextActionWeightSettings: React.FC<NextActionWeightSettingsProps> = ({
+	plugin,
+	settings,
+	updateSettings,
+}) => {
+	const [fit, setFit] = useState(() => plugin.getLearnedNextActionWeights());
+	const overrides = settings.nextActionWeightOverrides;
+
+	const setOverride = async (key: NextActionWeightKey, value: string) => {
+		const next = { ...overrides };
+		const weight = parseFloat(value);
+		if (value.trim() === "" || !Number.isFinite(weight)) {
+			delete next[key];
+		} else {
+			next[key] = Math.max(0, weight);
+		}
+		await updateSettings({ nextActionWeightOverrides: next });
+	};
+
+	const reset = async () => {
+		await updateSettings({ nextActionWeightOverrides: {} });
+		await plugin.resetLearnedNextActionWeights();
+		setFit(plugin.getLearnedNextActionWeights());
+	};
+
+	return (
+		<div className="eragear-settings-section">
+			<h3>Next action weights</h3>
+
+			<SettingItem
+				name="Learned from your queue"
+				description={
+					fit.learned
+						? `Fitted from ${fit.picked} picked and ${fit.rejected} skipped or dismissed actions.`
+						: `Using the defaults until there are 10 picks, skips or dismissals (${fit.picked + fit.rejected} so far).`
+				}
+			>
+				<button type="button" onClick={() => void reset()}>
+					Reset weights
+				</button>
+			</SettingItem>
+
+			{NEXT_ACTION_WEIGHT_KEYS.map((key) => (
+				<SettingItem
+					key={key}
+					name={NEXT_ACTION_WEIGHT_LABELS[key]}
+					description={`Learned ${fit.weights[key]}. Leave empty to use it.`}
+				>
+					<input
+						type="number"
+						min={0}
+						max={MAX_NEXT_ACTION_WEIGHT}
+						step={0.05}
+						value={overrides[key] ?? ""}
+						placeholder={String(fit.weights[key])}
+						onChange={(e) => void setOverride(key, e.target.value)}
+					/>
+				</SettingItem>
+			))}
+		</div>
+	);
+};
@@ -5,7 +5,10 @@ import { PortalProvider } from "@/components/ui/portal-provider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
 	IconBrain,
+	IconBranch,
+	IconChart,
 	IconFileText,
+	IconFolder,
 	IconMagic,
 	IconMessage,
 	IconPackage,
@@ -60,6 +63,18 @@ export const EragearComponent: React.FC<EragearComponentProps> = ({
 									<IconPackage />
 									<span>Artifacts</span>
 								</TabsTrigger>
+								<TabsTrigger value="analytics" className="">
+									<IconChart />
+									<span>Analytics</span>
+								</TabsTrigger>
+								<TabsTrigger value="graph" className="">
+									<IconBranch />
+									<span>Graph</span>
+								</TabsTrigger>
+								<TabsTrigger value="onboarding" className="">
+									<IconFolder />
+									<span>Onboard</span>
+								</TabsTrigger>
 								<TabsTrigger value="chat" className="">
 									<IconMessage />
 									<span>Chat</span>
@@ -90,6 +105,21 @@ export const EragearComponent: React.FC<EragearComponentProps> = ({
 									<CommandCenterView plugin={plugin} mode="artifacts" />
 								) : null}
 							</TabsContent>
+							<TabsContent value="analytics" className="eragear-tab-panel">
+								{activeTab === "analytics" && learningMode ? (
+									<CommandCenterView plugin={plugin} mode="analytics" />
+								) : null}
+							</TabsContent>
+							<TabsContent value="graph" className="eragear-tab-panel">
+								{activeTab === "graph" && learningMode ? (
+									<CommandCenterView plugin={plugin} mode="graph" />
+								) : null}
+							</TabsContent>
+							<TabsContent value="onboarding" className="eragear-tab-panel">
+								{activeTab === "onboarding" && learningMode ? (
+									<CommandCenterView plugin={plugin} mode="onboarding" />
+								) : null}
+							</TabsContent>
 							<TabsContent value="chat" className="">
 								<ChatPanel app={app} plugin={plugin} />
 							</TabsContent>
@@ -109,7 +139,10 @@ function toCommandCenterMode(value: string): CommandCenterMode | null {
 		value === "learning" ||
 		value === "inspector" ||
 		value === "examiner" ||
-		value === "artifacts"
+		value === "artifacts" ||
+		value === "analytics" ||
+		value === "graph" ||
+		value === "onboarding"
 	) {
 		return value;
 	}
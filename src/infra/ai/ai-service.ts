@@ -1,7 +1,13 @@
 import { AIProviderType, MyPluginSettings } from "@/app/settings/plugin-settings";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenAI } from "@ai-sdk/openai";
-import { streamText } from "ai";
+import {
+	generateObject,
+	generateText,
+	jsonSchema,
+	type JSONSchema7,
+	streamText,
+} from "ai";
 import { Notice } from "obsidian";
 
 export class AIService {
@@ -12,6 +18,53 @@ export class AIService {
 	}
 
 	async streamChat(messages: any[], modelId?: string) {
+		const model = this.createModel(modelId);
+
+		try {
+			const result = await streamText({
+				model: model,
+				messages: messages,
+			});
+			return result;
+		} catch (error) {
+			console.error("AI Error:", error);
+			new Notice("AI Generation Failed. Check console for details.");
+			throw error;
+		}
+	}
+
+	/**
+	 * Single-shot completion for background learning work (grading, examiner
+	 * scoring) where streaming output is not rendered.
+	 */
+	async completeText(prompt: string, modelId?: string): Promise<string> {
+		const model = this.createModel(modelId);
+		const result = await generateText({
+			model: model,
+			prompt: prompt,
+		});
+		return result.text;
+	}
+
+	/**
+	 * Single-shot completion constrained to a JSON schema, for background work
+	 * that writes the result back to the vault (agent task proposals).
+	 */
+	async completeObject<T>(
+		prompt: string,
+		schema: JSONSchema7,
+		modelId?: string,
+	): Promise<T> {
+		const model = this.createModel(modelId);
+		const result = await generateObject({
+			model: model,
+			schema: jsonSchema<T>(schema),
+			prompt: prompt,
+		});
+		return result.object as T;
+	}
+
+	private createModel(modelId?: string): any {
 		let model: any;
 
 		switch (this.settings.provider) {
@@ -73,16 +126,6 @@ export class AIService {
 				throw new Error("Invalid Provider");
 		}
 
-		try {
-			const result = await streamText({
-				model: model,
-				messages: messages,
-			});
-			return result;
-		} catch (error) {
-			console.error("AI Error:", error);
-			new Notice("AI Generation Failed. Check console for details.");
-			throw error;
-		}
+		return model;
 	}
 }
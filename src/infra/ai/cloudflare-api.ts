@@ -153,6 +153,44 @@ export class CloudflareService {
 		}
 	}
 
+	/**
+	 * Send a chat request in JSON mode and return the full reply text.
+	 * The backend only guarantees JSON, so callers validate its shape.
+	 */
+	public async completeJson(prompt: string): Promise<string> {
+		const requestId = this.generateRequestId();
+		try {
+			this.onLog(`[CF] Sending JSON request: ${requestId}`);
+
+			const response = await requestUrl({
+				url: `${this.config.apiEndpoint}/chat`,
+				method: "POST",
+				headers: this.buildHeaders(),
+				body: JSON.stringify({
+					message: prompt,
+					requestId,
+					responseFormat: "json",
+				}),
+				throw: false,
+			});
+
+			if (response.status >= 400) {
+				throw new Error(
+					`Cloudflare API error ${response.status}: ${response.text}`,
+				);
+			}
+			if (!response.text) {
+				throw new Error("No response body");
+			}
+
+			return readStreamText(response.text);
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.onLog(`[CF] JSON request error: ${err.message}`);
+			throw err;
+		}
+	}
+
 	/**
 	 * Test connectivity to Cloudflare endpoint
 	 */
@@ -228,6 +266,25 @@ export class CloudflareService {
 	}
 }
 
+/**
+ * Joins the chunks of an SSE chat response ("data: {...}" lines)
+ */
+function readStreamText(body: string): string {
+	let text = "";
+	for (const rawLine of body.split("\n")) {
+		const line = rawLine.trim();
+		if (!line.startsWith("data: ")) continue;
+		try {
+			const data = JSON.parse(line.substring(6));
+			text += data.chunk || "";
+			if (data.isDone) break;
+		} catch {
+			// Failed to parse SSE chunk, continue
+		}
+	}
+	return text;
+}
+
 // Export factory function for easy initialization
 export function createCloudflareService(
 	config: CloudflareConfig,
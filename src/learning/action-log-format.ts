@@ -1,11 +1,12 @@
 import { formatLearningDate } from "@/learning/frontmatter";
 import type { LearningActionRunResult } from "@/learning/action-runner";
-import type { NextActionCandidate } from "@/learning/types";
+import type { NextActionAgent, NextActionCandidate } from "@/learning/types";
 
 export function formatLearningActionLogEntry(
 	candidate: NextActionCandidate,
 	result: LearningActionRunResult,
 	date = formatLearningDate(),
+	undoPath?: string,
 ): string {
 	const lines = [
 		`## ${date} - ${candidate.action}`,
@@ -20,6 +21,7 @@ export function formatLearningActionLogEntry(
 	if (candidate.reason.length > 0) {
 		lines.push(`- Reason: ${candidate.reason.join("; ")}`);
 	}
+	if (undoPath) lines.push(`- Undo: \`${undoPath}\``);
 
 	return lines.join("\n");
 }
@@ -30,3 +32,90 @@ function formatResult(result: LearningActionRunResult): string {
 	}
 	return result.message;
 }
+
+export interface LearningActionLogEntry {
+	date: string;
+	action: string;
+	noteTitle?: string;
+	notePath?: string;
+	score?: number;
+	agent?: NextActionAgent;
+	/** Result text as written; `artifactPath` is set when it names a file. */
+	result?: string;
+	artifactPath?: string;
+	reasons: string[];
+	/** Undo record written for the run, when it changed anything. */
+	undoPath?: string;
+}
+
+const LOG_AGENTS: readonly NextActionAgent[] = [
+	"deterministic",
+	"reasoning-model",
+	"coding-agent",
+];
+
+/**
+ * Reads entries written by `formatLearningActionLogEntry` back out of the
+ * log, oldest first. Headings that do not start with a date are skipped, as
+ * are field lines the formatter never writes.
+ */
+export function parseLearningActionLog(content: string): LearningActionLogEntry[] {
+	const entries: LearningActionLogEntry[] = [];
+	let current: LearningActionLogEntry | null = null;
+
+	for (const line of content.split(/\r?\n/)) {
+		const heading = line.match(/^##\s+(\d{4}-\d{2}-\d{2})\s+-\s+(.+)$/);
+		if (heading) {
+			current = { date: heading[1]!, action: heading[2]!.trim(), reasons: [] };
+			entries.push(current);
+			continue;
+		}
+		if (line.startsWith("#")) {
+			current = null;
+			continue;
+		}
+		const field = current ? line.match(/^-\s+(\w+):\s*(.*)$/) : null;
+		if (current && field) readField(current, field[1]!, field[2]!.trim());
+	}
+
+	return entries.sort((left, right) => left.date.localeCompare(right.date));
+}
+
+function readField(entry: LearningActionLogEntry, key: string, value: string): void {
+	switch (key) {
+		case "Note":
+			entry.noteTitle = value.replace(/^\[\[|\]\]$/g, "");
+			return;
+		case "Path":
+			entry.notePath = stripCode(value);
+			return;
+		case "Score": {
+			const score = Number(value);
+			if (value && Number.isFinite(score)) entry.score = score;
+			return;
+		}
+		case "Agent": {
+			const agent = LOG_AGENTS.find((item) => item === value);
+			if (agent) entry.agent = agent;
+			return;
+		}
+		case "Result": {
+			entry.result = value;
+			const artifact = value.match(/^created `(.+)`$/);
+			if (artifact) entry.artifactPath = artifact[1]!;
+			return;
+		}
+		case "Undo":
+			entry.undoPath = stripCode(value);
+			return;
+		case "Reason":
+			entry.reasons = value
+				.split(";")
+				.map((reason) => reason.trim())
+				.filter(Boolean);
+	}
+}
+
+function stripCode(value: string): string {
+	return value.replace(/^`|`$/g, "");
+}
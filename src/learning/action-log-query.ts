@@ -0,0 +1,68 @@
+import type { LearningActionLogEntry } from "@/learning/action-log-format";
+import type { LearningActionUndoRecord } from "@/learning/action-undo";
+import type { NextActionAgent } from "@/learning/types";
+
+export type LearningActionLogResultType = "artifact" | "message";
+
+/** Every set field must match; date bounds are inclusive. */
+export interface LearningActionLogQuery {
+	notePath?: string;
+	from?: string;
+	to?: string;
+	agent?: NextActionAgent;
+	resultType?: LearningActionLogResultType;
+	/** Case-insensitive text the result must contain. */
+	result?: string;
+}
+
+export function queryLearningActionLog(
+	entries: readonly LearningActionLogEntry[],
+	query: LearningActionLogQuery = {},
+): LearningActionLogEntry[] {
+	const resultText = query.result?.trim().toLowerCase();
+	return entries.filter(
+		(entry) =>
+			(!query.notePath || entry.notePath === query.notePath) &&
+			(!query.from || entry.date >= query.from) &&
+			(!query.to || entry.date <= query.to) &&
+			(!query.agent || entry.agent === query.agent) &&
+			(!query.resultType || getActionLogResultType(entry) === query.resultType) &&
+			(!resultText || (entry.result ?? "").toLowerCase().includes(resultText)),
+	);
+}
+
+export function getActionLogResultType(
+	entry: LearningActionLogEntry,
+): LearningActionLogResultType {
+	return entry.artifactPath ? "artifact" : "message";
+}
+
+/**
+ * True when the same action already ran for the note in `entries`. The queue
+ * checks today's entries so an action that left the note unchanged is not
+ * offered again the same day.
+ */
+export function wasActionLogged(
+	entries: readonly LearningActionLogEntry[],
+	notePath: string,
+	action: string,
+): boolean {
+	return entries.some(
+		(entry) => entry.notePath === notePath && entry.action === action,
+	);
+}
+
+/** Drops entries whose run was undone, so a reverted action can be offered again. */
+export function withoutRevertedActions(
+	entries: readonly LearningActionLogEntry[],
+	undoRecords: readonly LearningActionUndoRecord[],
+): LearningActionLogEntry[] {
+	const reverted = new Set(
+		undoRecords
+			.filter((record) => record.status === "reverted")
+			.map((record) => record.path),
+	);
+	return entries.filter(
+		(entry) => !entry.undoPath || !reverted.has(entry.undoPath),
+	);
+}
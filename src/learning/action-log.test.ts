@@ -1,5 +1,13 @@
 import { describe, expect, it } from "vitest";
-import { formatLearningActionLogEntry } from "@/learning/action-log-format";
+import {
+	formatLearningActionLogEntry,
+	parseLearningActionLog,
+} from "@/learning/action-log-format";
+import {
+	queryLearningActionLog,
+	wasActionLogged,
+	withoutRevertedActions,
+} from "@/learning/action-log-query";
 import type { LearningActionRunResult } from "@/learning/action-runner";
 import type { LearningNote, NextActionCandidate } from "@/learning/types";
 
@@ -33,6 +41,127 @@ describe("learning action log", () => {
 			"Quiz passed. Moved to apply.",
 		);
 	});
+
+	it("parses formatted entries back out of the log", () => {
+		const log = [
+			"# Learning action log",
+			formatLearningActionLogEntry(
+				candidate(),
+				{ type: "transition", message: "Quiz passed. Moved to apply." },
+				"2026-05-14",
+			),
+			"## Notes - not an entry",
+			formatLearningActionLogEntry(
+				{ ...candidate(), action: "Review - second pass" },
+				{ type: "transition", message: "Moved seed to explain." },
+				"2026-05-13",
+			),
+		].join("\n\n");
+
+		expect(parseLearningActionLog(log)).toEqual([
+			{
+				date: "2026-05-13",
+				action: "Review - second pass",
+				noteTitle: "Cache",
+				notePath: "Learning/cache.md",
+				score: 142,
+				agent: "deterministic",
+				result: "Moved seed to explain.",
+				reasons: ["missing quiz_score"],
+			},
+			{
+				date: "2026-05-14",
+				action: "Generate quiz",
+				noteTitle: "Cache",
+				notePath: "Learning/cache.md",
+				score: 142,
+				agent: "deterministic",
+				result: "Quiz passed. Moved to apply.",
+				reasons: ["missing quiz_score"],
+			},
+		]);
+	});
+
+	it("queries entries by note, date range, agent, and result", () => {
+		const entries = parseLearningActionLog(
+			[
+				formatLearningActionLogEntry(
+					candidate(),
+					{
+						type: "artifact",
+						artifact: {
+							notePath: "Learning/cache.md",
+							artifactPath: "_quizzes/cache.md",
+						},
+					},
+					"2026-05-12",
+				),
+				formatLearningActionLogEntry(
+					{ ...candidate(), suggestedAgent: "reasoning-model" },
+					{ type: "notice", message: "Structure draft is ready." },
+					"2026-05-13",
+				),
+				formatLearningActionLogEntry(
+					{ ...candidate(), note: { ...learningNote(), path: "Learning/queue.md" } },
+					{ type: "transition", message: "Quiz passed. Moved to apply." },
+					"2026-05-14",
+				),
+			].join("\n\n"),
+		);
+		const dates = (query: Parameters<typeof queryLearningActionLog>[1]) =>
+			queryLearningActionLog(entries, query).map((entry) => entry.date);
+
+		expect(entries[0]?.artifactPath).toBe("_quizzes/cache.md");
+		expect(dates({ notePath: "Learning/cache.md" })).toEqual([
+			"2026-05-12",
+			"2026-05-13",
+		]);
+		expect(dates({ from: "2026-05-13", to: "2026-05-13" })).toEqual(["2026-05-13"]);
+		expect(dates({ agent: "deterministic" })).toEqual(["2026-05-12", "2026-05-14"]);
+		expect(dates({ resultType: "artifact" })).toEqual(["2026-05-12"]);
+		expect(dates({ resultType: "message", result: "moved to APPLY" })).toEqual([
+			"2026-05-14",
+		]);
+	});
+
+	it("stops hiding an action from the queue once its run is reverted", () => {
+		const entries = parseLearningActionLog(
+			[
+				formatLearningActionLogEntry(
+					candidate(),
+					{ type: "notice", message: "Quiz drafted." },
+					"2026-05-12",
+					"00_Command_Center/learning-undo/quiz.json",
+				),
+			].join("\n\n"),
+		);
+		const record = {
+			id: "quiz",
+			path: "00_Command_Center/learning-undo/quiz.json",
+			date: "2026-05-12",
+			createdAt: "2026-05-12T09:00:00.000Z",
+			action: "Generate quiz",
+			notePath: "Learning/cache.md",
+			before: {},
+			after: {},
+			artifacts: [],
+		};
+
+		expect(
+			wasActionLogged(
+				withoutRevertedActions(entries, [{ ...record, status: "active" }]),
+				"Learning/cache.md",
+				"Generate quiz",
+			),
+		).toBe(true);
+		expect(
+			wasActionLogged(
+				withoutRevertedActions(entries, [{ ...record, status: "reverted" }]),
+				"Learning/cache.md",
+				"Generate quiz",
+			),
+		).toBe(false);
+	});
 });
 
 function candidate(): NextActionCandidate {
@@ -1,7 +1,11 @@
 import { type App, normalizePath, TFile, TFolder } from "obsidian";
 import { ARTIFACT_FOLDERS } from "@/learning/constants";
 import { formatLearningDate } from "@/learning/frontmatter";
-import { formatLearningActionLogEntry } from "@/learning/action-log-format";
+import {
+	formatLearningActionLogEntry,
+	type LearningActionLogEntry,
+	parseLearningActionLog,
+} from "@/learning/action-log-format";
 import type { LearningActionRunResult } from "@/learning/action-runner";
 import type { NextActionCandidate } from "@/learning/types";
 
@@ -14,9 +18,10 @@ export async function appendLearningActionLog(
 	candidate: NextActionCandidate,
 	result: LearningActionRunResult,
 	date = formatLearningDate(),
+	undoPath?: string,
 ): Promise<void> {
 	await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
-	const entry = formatLearningActionLogEntry(candidate, result, date);
+	const entry = formatLearningActionLogEntry(candidate, result, date, undoPath);
 	const existing = app.vault.getAbstractFileByPath(ACTION_LOG_PATH);
 
 	if (existing instanceof TFile) {
@@ -27,6 +32,14 @@ export async function appendLearningActionLog(
 	await app.vault.create(ACTION_LOG_PATH, `# Learning action log\n\n${entry}`);
 }
 
+export async function readLearningActionLog(
+	app: App,
+): Promise<LearningActionLogEntry[]> {
+	const file = app.vault.getAbstractFileByPath(ACTION_LOG_PATH);
+	if (!(file instanceof TFile)) return [];
+	return parseLearningActionLog(await app.vault.cachedRead(file));
+}
+
 async function ensureFolder(app: App, folderPath: string): Promise<void> {
 	const normalized = normalizePath(folderPath);
 	const existing = app.vault.getAbstractFileByPath(normalized);
@@ -3,17 +3,31 @@ import {
 	generateHtmlExplainerForNote,
 	type HtmlExplainerRelatedNote,
 } from "@/learning/artifact-manager";
+import { generateAnswerForNote } from "@/learning/answer-manager";
 import { generateBridgeNoteForNote } from "@/learning/bridge-note-manager";
 import { generateCaseStudyForNote } from "@/learning/case-study-manager";
+import { generateConceptExtractionForNote } from "@/learning/concept-extraction-manager";
+import { generateDecisionReviewForNote } from "@/learning/decision-review-manager";
+import type { DefinitionOfDoneRules } from "@/learning/definition-of-done-rules";
 import { formatLearningDate } from "@/learning/frontmatter";
 import { patchLearningFrontmatter } from "@/learning/frontmatter-writer";
 import { generateLearningExplanationForNote } from "@/learning/learning-explanation-manager";
 import { buildStarterLearningMetadataPatch } from "@/learning/learning-metadata-defaults";
 import { generateLearningStructureForNote } from "@/learning/learning-structure-manager";
+import {
+	getNotePipeline,
+	getPipelineStage,
+	isStageWorkPending,
+} from "@/learning/learning-pipeline";
 import { inferDeterministicTransition } from "@/learning/learning-state";
 import { generateQuizForNote } from "@/learning/quiz-manager";
 import { generateReviewForNote } from "@/learning/review-manager";
-import type { GeneratedArtifact, NextActionCandidate } from "@/learning/types";
+import type {
+	GeneratedArtifact,
+	LearningPipeline,
+	LearningStageBuilder,
+	NextActionCandidate,
+} from "@/learning/types";
 
 export type LearningActionRunResult =
 	| {
@@ -32,8 +46,29 @@ export type LearningActionRunResult =
 export interface LearningActionRunOptions {
 	relatedNotes?: HtmlExplainerRelatedNote[];
 	defaultArea?: string;
+	pipelines?: readonly LearningPipeline[];
+	dodRules?: DefinitionOfDoneRules;
 }
 
+type StageArtifactGenerator = (
+	app: App,
+	file: TFile,
+	options: { relatedNotes: HtmlExplainerRelatedNote[] },
+) => Promise<GeneratedArtifact>;
+
+const STAGE_BUILDERS: Record<LearningStageBuilder, StageArtifactGenerator> = {
+	structure: generateLearningStructureForNote,
+	explanation: generateLearningExplanationForNote,
+	html_explainer: generateHtmlExplainerForNote,
+	bridge_note: generateBridgeNoteForNote,
+	quiz: generateQuizForNote,
+	case_study: generateCaseStudyForNote,
+	review: generateReviewForNote,
+	answer: generateAnswerForNote,
+	concept_extraction: generateConceptExtractionForNote,
+	decision_review: generateDecisionReviewForNote,
+};
+
 export async function runLearningAction(
 	app: App,
 	candidate: NextActionCandidate,
@@ -48,6 +83,7 @@ export async function runLearningAction(
 	if (!candidate.note.type || !candidate.note.area || !candidate.note.status) {
 		const patch = buildStarterLearningMetadataPatch(candidate.note, {
 			defaultArea: options.defaultArea,
+			pipelines: options.pipelines,
 		});
 		if (!patch) {
 			return {
@@ -67,63 +103,22 @@ export async function runLearningAction(
 		};
 	}
 
-	if (candidate.note.status === "seed") {
-		const artifact = await generateLearningStructureForNote(app, file, {
-			relatedNotes: options.relatedNotes ?? [],
-		});
-		return { type: "artifact", artifact };
-	}
-
-	if (candidate.note.status === "explain") {
-		const artifact = await generateLearningExplanationForNote(app, file, {
-			relatedNotes: options.relatedNotes ?? [],
-		});
-		return { type: "artifact", artifact };
-	}
-
-	if (
-		candidate.note.status === "visualize" &&
-		!candidate.note.artifactHtml &&
-		!candidate.note.artifacts?.html_explainer?.path
-	) {
-		const artifact = await generateHtmlExplainerForNote(app, file, {
-			relatedNotes: options.relatedNotes ?? [],
-		});
-		return { type: "artifact", artifact };
-	}
-
-	if (
-		candidate.note.status === "test" &&
-		typeof candidate.note.quizScore !== "number"
-	) {
-		const artifact = await generateQuizForNote(app, file, {
-			relatedNotes: options.relatedNotes ?? [],
-		});
-		return { type: "artifact", artifact };
-	}
-
-	if (candidate.note.status === "connect" && candidate.note.links.length < 5) {
-		const artifact = await generateBridgeNoteForNote(app, file, {
-			relatedNotes: options.relatedNotes ?? [],
-		});
-		return { type: "artifact", artifact };
-	}
-
-	if (candidate.note.status === "apply") {
-		const artifact = await generateCaseStudyForNote(app, file, {
-			relatedNotes: options.relatedNotes ?? [],
-		});
-		return { type: "artifact", artifact };
-	}
-
-	if (candidate.note.status === "review") {
-		const artifact = await generateReviewForNote(app, file, {
+	const stage = getPipelineStage(
+		getNotePipeline(candidate.note),
+		candidate.note.status,
+	);
+	if (stage?.builder && isStageWorkPending(stage, candidate.note)) {
+		const artifact = await STAGE_BUILDERS[stage.builder](app, file, {
 			relatedNotes: options.relatedNotes ?? [],
 		});
 		return { type: "artifact", artifact };
 	}
 
-	const transition = inferDeterministicTransition(candidate);
+	const transition = inferDeterministicTransition(
+		candidate,
+		formatLearningDate(),
+		options.dodRules,
+	);
 	if (transition) {
 		await patchLearningFrontmatter(app, file, {
 			...transition.patch,
@@ -0,0 +1,184 @@
+import {
+	type App,
+	getFrontMatterInfo,
+	normalizePath,
+	parseYaml,
+	TFile,
+	TFolder,
+} from "obsidian";
+import {
+	ACTION_UNDO_FOLDER,
+	createActionUndoId,
+	formatActionUndoRecord,
+	getActionUndoPath,
+	getChangedFrontmatterKeys,
+	isNoteArtifactPath,
+	type LearningActionUndoArtifact,
+	type LearningActionUndoRecord,
+	parseActionUndoRecord,
+	planFrontmatterRevert,
+} from "@/learning/action-undo";
+import type { LearningActionRunResult } from "@/learning/action-runner";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import { formatLearningDate } from "@/learning/frontmatter";
+
+/** Note frontmatter and existing artifact contents, captured before a run. */
+export interface LearningActionState {
+	frontmatter: Record<string, unknown>;
+	artifacts: Map<string, string>;
+}
+
+export interface LearningActionRevertResult {
+	record: LearningActionUndoRecord;
+	conflicts: string[];
+	removedArtifacts: string[];
+	restoredArtifacts: string[];
+}
+
+export async function captureLearningActionState(
+	app: App,
+	file: TFile,
+): Promise<LearningActionState> {
+	const artifacts = new Map<string, string>();
+	for (const artifact of app.vault.getFiles()) {
+		if (!isNoteArtifactPath(artifact.path, file.basename)) continue;
+		artifacts.set(artifact.path, await app.vault.read(artifact));
+	}
+	return { frontmatter: await readFrontmatter(app, file), artifacts };
+}
+
+/**
+ * Saves the undo record for a finished run. Returns null when the run left
+ * the note and its artifacts untouched, so there is nothing to undo.
+ */
+export async function recordLearningActionUndo(
+	app: App,
+	file: TFile,
+	action: string,
+	before: LearningActionState,
+	result: LearningActionRunResult,
+	createdAt = new Date(),
+): Promise<LearningActionUndoRecord | null> {
+	const after = await readFrontmatter(app, file);
+	const artifacts: LearningActionUndoArtifact[] = [];
+	if (result.type === "artifact") {
+		const path = normalizePath(result.artifact.artifactPath);
+		const previousContent = before.artifacts.get(path);
+		artifacts.push(previousContent === undefined ? { path } : { path, previousContent });
+		for (const created of result.artifact.createdNotes ?? []) {
+			artifacts.push({ path: normalizePath(created) });
+		}
+	}
+	if (
+		artifacts.length === 0 &&
+		getChangedFrontmatterKeys(before.frontmatter, after).length === 0
+	) {
+		return null;
+	}
+
+	const id = createActionUndoId(file.path, createdAt);
+	const record: LearningActionUndoRecord = {
+		id,
+		path: getActionUndoPath(id),
+		date: formatLearningDate(createdAt),
+		createdAt: createdAt.toISOString(),
+		action,
+		notePath: file.path,
+		before: before.frontmatter,
+		after,
+		artifacts,
+		status: "active",
+	};
+	await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+	await ensureFolder(app, ACTION_UNDO_FOLDER);
+	await app.vault.create(record.path, formatActionUndoRecord(record));
+	return record;
+}
+
+export async function readLearningActionUndoRecords(
+	app: App,
+): Promise<LearningActionUndoRecord[]> {
+	const records: LearningActionUndoRecord[] = [];
+	for (const file of app.vault.getFiles()) {
+		if (file.extension !== "json" || !file.path.startsWith(`${ACTION_UNDO_FOLDER}/`)) {
+			continue;
+		}
+		const record = parseActionUndoRecord(file.path, await app.vault.cachedRead(file));
+		if (record) records.push(record);
+	}
+	return records.sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+}
+
+/**
+ * Puts the note frontmatter back to its state before the action, moves
+ * created artifacts to the trash, and restores overwritten ones. Keys that
+ * were edited after the action are left alone and returned as conflicts.
+ */
+export async function revertLearningAction(
+	app: App,
+	record: LearningActionUndoRecord,
+	revertedAt = new Date(),
+): Promise<LearningActionRevertResult> {
+	if (record.status === "reverted") {
+		throw new Error(`${record.action} was already reverted`);
+	}
+	const note = app.vault.getAbstractFileByPath(record.notePath);
+	if (!(note instanceof TFile)) {
+		throw new Error(`Learning note not found: ${record.notePath}`);
+	}
+
+	let conflicts: string[] = [];
+	await app.fileManager.processFrontMatter(note, (frontmatter) => {
+		const plan = planFrontmatterRevert(record, frontmatter);
+		for (const [key, value] of Object.entries(plan.set)) {
+			frontmatter[key] = value;
+		}
+		for (const key of plan.remove) {
+			delete frontmatter[key];
+		}
+		conflicts = plan.conflicts;
+	});
+
+	const removedArtifacts: string[] = [];
+	const restoredArtifacts: string[] = [];
+	for (const artifact of record.artifacts) {
+		const file = app.vault.getAbstractFileByPath(artifact.path);
+		if (!(file instanceof TFile)) continue;
+		if (artifact.previousContent === undefined) {
+			await app.fileManager.trashFile(file);
+			removedArtifacts.push(artifact.path);
+		} else {
+			const previousContent = artifact.previousContent;
+			await app.vault.process(file, () => previousContent);
+			restoredArtifacts.push(artifact.path);
+		}
+	}
+
+	const reverted: LearningActionUndoRecord = {
+		...record,
+		status: "reverted",
+		revertedAt: revertedAt.toISOString(),
+	};
+	const recordFile = app.vault.getAbstractFileByPath(record.path);
+	if (recordFile instanceof TFile) {
+		await app.vault.process(recordFile, () => formatActionUndoRecord(reverted));
+	}
+	return { record: reverted, conflicts, removedArtifacts, restoredArtifacts };
+}
+
+async function readFrontmatter(app: App, file: TFile): Promise<Record<string, unknown>> {
+	const info = getFrontMatterInfo(await app.vault.read(file));
+	if (!info.exists) return {};
+	const parsed: unknown = parseYaml(info.frontmatter);
+	return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+		? (parsed as Record<string, unknown>)
+		: {};
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) throw new Error(`${normalized} exists but is not a folder`);
+	await app.vault.createFolder(normalized);
+}
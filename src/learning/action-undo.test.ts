@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+	createActionUndoId,
+	formatActionUndoRecord,
+	isNoteArtifactPath,
+	type LearningActionUndoRecord,
+	parseActionUndoRecord,
+	planFrontmatterRevert,
+} from "@/learning/action-undo";
+
+describe("learning action undo", () => {
+	it("reverts changed keys and keeps later edits", () => {
+		const plan = planFrontmatterRevert(
+			{
+				before: { status: "test", quiz_score: 5, tags: ["cache"] },
+				after: {
+					status: "explain",
+					quiz_score: 5,
+					tags: ["cache"],
+					last_touched: "2026-05-13",
+					priority: 60,
+				},
+			},
+			{
+				status: "explain",
+				quiz_score: 5,
+				tags: ["cache"],
+				last_touched: "2026-05-13",
+				priority: 80,
+			},
+		);
+
+		expect(plan).toEqual({
+			set: { status: "test" },
+			remove: ["last_touched"],
+			conflicts: ["priority"],
+		});
+	});
+
+	it("matches artifact files generated for a note", () => {
+		expect(isNoteArtifactPath("_quizzes/cache-basics.md", "Cache Basics")).toBe(
+			true,
+		);
+		expect(
+			isNoteArtifactPath(
+				"00_Command_Center/learning-drafts/cache-basics-structure.md",
+				"Cache Basics",
+			),
+		).toBe(true);
+		expect(isNoteArtifactPath("Learning/cache-basics.md", "Cache Basics")).toBe(
+			false,
+		);
+		expect(isNoteArtifactPath("_quizzes/queue.md", "Cache Basics")).toBe(false);
+	});
+
+	it("round-trips undo records through JSON", () => {
+		const id = createActionUndoId(
+			"Learning/Cache Basics.md",
+			new Date("2026-05-13T08:30:00.250Z"),
+		);
+		const record: LearningActionUndoRecord = {
+			id,
+			path: `00_Command_Center/learning-undo/${id}.json`,
+			date: "2026-05-13",
+			createdAt: "2026-05-13T08:30:00.250Z",
+			action: "Generate quiz and test understanding",
+			notePath: "Learning/Cache Basics.md",
+			before: { status: "test" },
+			after: {
+				status: "test",
+				artifacts: { quiz: { path: "_quizzes/cache-basics.md" } },
+			},
+			artifacts: [
+				{ path: "_quizzes/cache-basics.md" },
+				{ path: "_reviews/cache-basics-review.md", previousContent: "# Review\n" },
+			],
+			status: "active",
+		};
+
+		expect(id).toBe("20260513T083000250-cache-basics");
+		expect(parseActionUndoRecord(record.path, formatActionUndoRecord(record))).toEqual(
+			record,
+		);
+		expect(parseActionUndoRecord(record.path, "{ not json")).toBeNull();
+	});
+});
@@ -0,0 +1,165 @@
+import { normalizePath } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+
+export const ACTION_UNDO_FOLDER = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/learning-undo`,
+);
+
+export type LearningActionUndoStatus = "active" | "reverted";
+
+/** A file the action wrote. `previousContent` is absent when it created it. */
+export interface LearningActionUndoArtifact {
+	path: string;
+	previousContent?: string;
+}
+
+/**
+ * Everything needed to roll back one learning action: the note frontmatter
+ * before and after it ran, and the artifact files it wrote.
+ */
+export interface LearningActionUndoRecord {
+	id: string;
+	path: string;
+	date: string;
+	createdAt: string;
+	action: string;
+	notePath: string;
+	before: Record<string, unknown>;
+	after: Record<string, unknown>;
+	artifacts: LearningActionUndoArtifact[];
+	status: LearningActionUndoStatus;
+	revertedAt?: string;
+}
+
+export interface FrontmatterRevertPlan {
+	set: Record<string, unknown>;
+	remove: string[];
+	/** Keys edited after the action ran; reverting them would lose that edit. */
+	conflicts: string[];
+}
+
+export function getActionUndoPath(id: string): string {
+	return normalizePath(`${ACTION_UNDO_FOLDER}/${id}.json`);
+}
+
+export function createActionUndoId(notePath: string, createdAt: Date): string {
+	const basename = notePath.split("/").pop()?.replace(/\.md$/, "") ?? notePath;
+	const stamp = createdAt.toISOString().replace(/[-:.]/g, "").slice(0, 18);
+	return `${stamp}-${slugify(basename)}`;
+}
+
+/**
+ * Artifact generators write to `<folder>/<note-slug>...`, so files in the
+ * write zones that start with the note slug are the ones an action may
+ * overwrite and need to be captured before it runs.
+ */
+export function isNoteArtifactPath(path: string, noteBasename: string): boolean {
+	const slug = slugify(noteBasename);
+	const name = path.split("/").pop() ?? "";
+	return (
+		Object.values(ARTIFACT_FOLDERS).some((folder) =>
+			path.startsWith(`${folder}/`),
+		) &&
+		(name === `${slug}.md` ||
+			name === `${slug}.html` ||
+			name.startsWith(`${slug}-`))
+	);
+}
+
+export function getChangedFrontmatterKeys(
+	before: Record<string, unknown>,
+	after: Record<string, unknown>,
+): string[] {
+	return [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+		(key) => !isSameValue(before[key], after[key]),
+	);
+}
+
+/**
+ * Restores each key the action changed, unless the note has been edited
+ * since. Conflicting keys keep their current value and are reported.
+ */
+export function planFrontmatterRevert(
+	record: Pick<LearningActionUndoRecord, "before" | "after">,
+	current: Record<string, unknown>,
+): FrontmatterRevertPlan {
+	const plan: FrontmatterRevertPlan = { set: {}, remove: [], conflicts: [] };
+	for (const key of getChangedFrontmatterKeys(record.before, record.after)) {
+		if (!isSameValue(current[key], record.after[key])) {
+			plan.conflicts.push(key);
+		} else if (record.before[key] === undefined) {
+			plan.remove.push(key);
+		} else {
+			plan.set[key] = record.before[key];
+		}
+	}
+	return plan;
+}
+
+export function parseActionUndoRecord(
+	path: string,
+	content: string,
+): LearningActionUndoRecord | null {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch {
+		return null;
+	}
+	if (!isRecord(raw)) return null;
+	const { id, date, createdAt, action, notePath } = raw;
+	if (
+		typeof id !== "string" ||
+		typeof date !== "string" ||
+		typeof createdAt !== "string" ||
+		typeof action !== "string" ||
+		typeof notePath !== "string"
+	) {
+		return null;
+	}
+	return {
+		id,
+		path,
+		date,
+		createdAt,
+		action,
+		notePath,
+		before: isRecord(raw.before) ? raw.before : {},
+		after: isRecord(raw.after) ? raw.after : {},
+		artifacts: parseArtifacts(raw.artifacts),
+		status: raw.status === "reverted" ? "reverted" : "active",
+		...(typeof raw.revertedAt === "string" ? { revertedAt: raw.revertedAt } : {}),
+	};
+}
+
+export function formatActionUndoRecord(record: LearningActionUndoRecord): string {
+	return `${JSON.stringify({ ...record, path: undefined }, null, 2)}\n`;
+}
+
+function parseArtifacts(value: unknown): LearningActionUndoArtifact[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.map((item): LearningActionUndoArtifact | null => {
+			if (!isRecord(item) || typeof item.path !== "string") return null;
+			return typeof item.previousContent === "string"
+				? { path: item.path, previousContent: item.previousContent }
+				: { path: item.path };
+		})
+		.filter((item): item is LearningActionUndoArtifact => item !== null);
+}
+
+function isSameValue(left: unknown, right: unknown): boolean {
+	return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "learning-note";
+}
@@ -0,0 +1,150 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import type { HtmlExplainerRelatedNote } from "@/learning/artifact-manager";
+import {
+	ARTIFACT_FOLDERS,
+	LEARNING_FRONTMATTER_KEYS,
+} from "@/learning/constants";
+import { formatLearningDate } from "@/learning/frontmatter";
+import { buildAnswerPrompt } from "@/learning/prompt-builders/answer.prompt";
+import type { GeneratedArtifact } from "@/learning/types";
+
+export interface AnswerGenerationOptions {
+	relatedNotes?: HtmlExplainerRelatedNote[];
+}
+
+export async function generateAnswerForNote(
+	app: App,
+	file: TFile,
+	options: AnswerGenerationOptions = {},
+): Promise<GeneratedArtifact> {
+	const folderPath = ARTIFACT_FOLDERS.answers;
+	await ensureFolder(app, folderPath);
+
+	const artifactPath = normalizePath(
+		`${folderPath}/${slugify(file.basename)}-answer.md`,
+	);
+	const answer = await buildAnswer(app, file, options.relatedNotes ?? []);
+	const existing = app.vault.getAbstractFileByPath(artifactPath);
+
+	if (existing instanceof TFile) {
+		await app.vault.process(existing, () => answer);
+	} else {
+		await app.vault.create(artifactPath, answer);
+	}
+
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		const artifacts = isRecord(frontmatter.artifacts)
+			? frontmatter.artifacts
+			: {};
+		artifacts.answer = {
+			...(isRecord(artifacts.answer) ? artifacts.answer : {}),
+			path: artifactPath,
+		};
+		frontmatter.artifacts = artifacts;
+		frontmatter[LEARNING_FRONTMATTER_KEYS.nextAction] =
+			"Check the drafted answer and set dod.answer_reviewed";
+		frontmatter[LEARNING_FRONTMATTER_KEYS.lastTouched] = formatLearningDate();
+	});
+
+	return {
+		notePath: file.path,
+		artifactPath,
+	};
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) {
+		throw new Error(`${normalized} exists but is not a folder`);
+	}
+	await app.vault.createFolder(normalized);
+}
+
+async function buildAnswer(
+	app: App,
+	file: TFile,
+	relatedNotes: HtmlExplainerRelatedNote[],
+): Promise<string> {
+	const content = await app.vault.cachedRead(file);
+	const source = stripFrontmatter(content);
+	const generatedAt = formatLearningDate();
+	const prompt = buildAnswerPrompt({
+		title: file.basename,
+		sourcePath: file.path,
+		source,
+		relatedNotes,
+	});
+
+	return `---
+type: question
+status: answered
+source_note: ${file.path}
+created: ${generatedAt}
+---
+
+# ${file.basename} - answer
+
+## Question
+
+${file.basename}
+
+## Short answer
+
+Replace this section with two or three sentences you could say out loud.
+
+## Reasoning
+
+1. Replace this section with the steps from what you know to the answer.
+
+## Evidence
+
+${formatRelatedNotes(relatedNotes)}
+
+## Confidence
+
+- Level: low / medium / high
+- What would change it:
+
+## Follow-up questions
+
+- [ ] Replace this section with questions the answer opens up.
+
+## Agent handoff prompt
+
+\`\`\`text
+${prompt.slice(0, 20000)}
+\`\`\`
+`;
+}
+
+function formatRelatedNotes(relatedNotes: HtmlExplainerRelatedNote[]): string {
+	if (relatedNotes.length === 0) {
+		return "- No related notes were found in graph context.";
+	}
+
+	return relatedNotes
+		.slice(0, 8)
+		.map((note) => `- [[${note.title}]] - \`${note.path}\``)
+		.join("\n");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stripFrontmatter(content: string): string {
+	if (!content.startsWith("---")) return content;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return content;
+	return content.slice(end + 4).trimStart();
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "learning-note";
+}
@@ -38,6 +38,24 @@ export const ARTIFACT_CONTRACTS: Record<LearningArtifactType, ArtifactContract>
 		requiredTerms: ["recall", "weak", "next review", "evidence"],
 		minLength: 500,
 	},
+	answer: {
+		type: "answer",
+		label: "Answer",
+		requiredTerms: ["short answer", "reasoning", "evidence", "confidence"],
+		minLength: 500,
+	},
+	concept_extraction: {
+		type: "concept_extraction",
+		label: "Concept extraction",
+		requiredTerms: ["concept", "[[", "definition", "source"],
+		minLength: 500,
+	},
+	decision_review: {
+		type: "decision_review",
+		label: "Decision review",
+		requiredTerms: ["context", "alternatives", "consequences", "verdict"],
+		minLength: 600,
+	},
 };
 
 export function inferArtifactTypeFromPath(
@@ -50,5 +68,8 @@ export function inferArtifactTypeFromPath(
 	if (path.startsWith("03_Bridge_Notes/")) return "bridge_note";
 	if (path.startsWith("05_Case_Studies/")) return "case_study";
 	if (path.startsWith("_reviews/")) return "review";
+	if (path.startsWith("_answers/")) return "answer";
+	if (path.startsWith("_extracts/")) return "concept_extraction";
+	if (path.startsWith("_decision_reviews/")) return "decision_review";
 	return null;
 }
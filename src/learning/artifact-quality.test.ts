@@ -34,4 +34,23 @@ ${"Apply the cache to a production endpoint and explain the tradeoff. ".repeat(8
 		expect(result.passed).toBe(false);
 		expect(result.issues.join(" ")).toContain("placeholder");
 	});
+
+	it("flags structured quiz questions without answer keys", () => {
+		const questions = ["recall", "mechanism", "transfer", "application", "recall"]
+			.map(
+				(category, index) =>
+					`${index + 1}. [${category}] Explain how the cache behaves in case ${index + 1} and why it matters for the question.\n   - ID: q${index + 1}\n   - Type: multiple_choice`,
+			)
+			.join("\n");
+		const result = evaluateArtifactQuality(
+			"quiz",
+			`# Cache quiz\n\n## Questions\n\n${questions}\n\nAnswer each question, then check recall and application.\n`,
+		);
+
+		expect(result.passed).toBe(false);
+		expect(result.issues).toContain("Quiz question q1 has no answer key or rubric.");
+		expect(result.issues).toContain(
+			"Quiz question q1 needs an answer and 2 distractors.",
+		);
+	});
 });
@@ -2,6 +2,7 @@ import {
 	ARTIFACT_CONTRACTS,
 	inferArtifactTypeFromPath,
 } from "@/learning/artifact-contracts";
+import { parseQuizArtifact, validateQuizStructure } from "@/learning/quiz-schema";
 import type { LearningArtifactType } from "@/learning/types";
 
 export interface ArtifactQualityResult {
@@ -54,6 +55,12 @@ export function evaluateArtifactQuality(
 		}
 	}
 
+	if (type === "quiz") {
+		const quizIssues = validateQuizStructure(parseQuizArtifact(content));
+		issues.push(...quizIssues);
+		score -= Math.min(30, quizIssues.length * 5);
+	}
+
 	if (type === "html_explainer" && !looksLikeHtml(content)) {
 		issues.push("HTML explainer is not valid single-file HTML.");
 		score -= 30;
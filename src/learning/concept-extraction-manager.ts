@@ -0,0 +1,142 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import type { HtmlExplainerRelatedNote } from "@/learning/artifact-manager";
+import {
+	extractSourceConcepts,
+	formatConceptExtraction,
+	formatExtractedSeedNote,
+} from "@/learning/concept-extraction";
+import {
+	ARTIFACT_FOLDERS,
+	LEARNING_FRONTMATTER_KEYS,
+} from "@/learning/constants";
+import { formatLearningDate } from "@/learning/frontmatter";
+import { buildConceptExtractionPrompt } from "@/learning/prompt-builders/concept-extraction.prompt";
+import type { GeneratedArtifact } from "@/learning/types";
+
+export interface ConceptExtractionOptions {
+	relatedNotes?: HtmlExplainerRelatedNote[];
+}
+
+/**
+ * Lists the concepts of a source note in `_extracts/` and creates a seed
+ * note next to the source for each concept that has no note yet.
+ */
+export async function generateConceptExtractionForNote(
+	app: App,
+	file: TFile,
+	options: ConceptExtractionOptions = {},
+): Promise<GeneratedArtifact> {
+	const folderPath = ARTIFACT_FOLDERS.extracts;
+	await ensureFolder(app, folderPath);
+
+	const content = await app.vault.cachedRead(file);
+	const source = stripFrontmatter(content);
+	const generatedAt = formatLearningDate();
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter as
+		Record<string, unknown> | undefined;
+	const area =
+		typeof frontmatter?.area === "string" ? frontmatter.area : undefined;
+	const concepts = extractSourceConcepts(
+		source,
+		new Map(
+			app.vault.getMarkdownFiles().map((note) => [note.basename, note.path]),
+		),
+	);
+
+	const createdPaths = new Map<string, string>();
+	const noteFolder = file.parent?.path ?? "";
+	for (const concept of concepts) {
+		if (concept.existingPath) continue;
+		const path = normalizePath(
+			noteFolder && noteFolder !== "/"
+				? `${noteFolder}/${concept.title}.md`
+				: `${concept.title}.md`,
+		);
+		if (app.vault.getAbstractFileByPath(path)) continue;
+		await app.vault.create(
+			path,
+			formatExtractedSeedNote({
+				concept,
+				sourceTitle: file.basename,
+				area,
+				generatedAt,
+			}),
+		);
+		createdPaths.set(concept.title, path);
+	}
+
+	const artifactPath = normalizePath(
+		`${folderPath}/${slugify(file.basename)}-concepts.md`,
+	);
+	const extraction = formatConceptExtraction({
+		sourceTitle: file.basename,
+		sourcePath: file.path,
+		concepts,
+		createdPaths,
+		generatedAt,
+		prompt: buildConceptExtractionPrompt({
+			title: file.basename,
+			sourcePath: file.path,
+			source,
+			candidates: concepts.map((concept) => concept.title),
+			relatedNotes: options.relatedNotes ?? [],
+		}),
+	});
+	const existing = app.vault.getAbstractFileByPath(artifactPath);
+	if (existing instanceof TFile) {
+		await app.vault.process(existing, () => extraction);
+	} else {
+		await app.vault.create(artifactPath, extraction);
+	}
+
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		const artifacts = isRecord(frontmatter.artifacts)
+			? frontmatter.artifacts
+			: {};
+		artifacts.concept_extraction = {
+			...(isRecord(artifacts.concept_extraction)
+				? artifacts.concept_extraction
+				: {}),
+			path: artifactPath,
+		};
+		frontmatter.artifacts = artifacts;
+		frontmatter[LEARNING_FRONTMATTER_KEYS.nextAction] =
+			"Review extracted concepts and set dod.extraction_reviewed";
+		frontmatter[LEARNING_FRONTMATTER_KEYS.lastTouched] = generatedAt;
+	});
+
+	return {
+		notePath: file.path,
+		artifactPath,
+		createdNotes: [...createdPaths.values()],
+	};
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) {
+		throw new Error(`${normalized} exists but is not a folder`);
+	}
+	await app.vault.createFolder(normalized);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stripFrontmatter(content: string): string {
+	if (!content.startsWith("---")) return content;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return content;
+	return content.slice(end + 4).trimStart();
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "learning-note";
+}
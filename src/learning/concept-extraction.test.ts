@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+	extractSourceConcepts,
+	formatConceptExtraction,
+} from "@/learning/concept-extraction";
+
+describe("concept extraction", () => {
+	it("takes headings and bold terms and links concepts that have notes", () => {
+		const concepts = extractSourceConcepts(
+			`# Designing Data-Intensive Applications
+
+## Summary
+
+A book about data systems.
+
+## 5. Replication
+
+Keeping a copy of the same data on several machines.
+
+### Leader election
+**Write-ahead log** and **replication** both come up again.
+
+## Why does this matter?
+`,
+			new Map([["Write-Ahead Log", "Databases/Write-Ahead Log.md"]]),
+		);
+
+		expect(concepts).toEqual([
+			{
+				title: "Replication",
+				excerpt: "Keeping a copy of the same data on several machines.",
+			},
+			{
+				title: "Leader election",
+				excerpt: "**Write-ahead log** and **replication** both come up again.",
+			},
+			{
+				title: "Write-ahead log",
+				existingPath: "Databases/Write-Ahead Log.md",
+			},
+		]);
+
+		const artifact = formatConceptExtraction({
+			sourceTitle: "DDIA",
+			sourcePath: "Books/DDIA.md",
+			concepts,
+			createdPaths: new Map([["Replication", "Books/Replication.md"]]),
+			generatedAt: "2026-05-12",
+			prompt: "prompt",
+		});
+		expect(artifact).toContain(
+			"- [[Books/Replication.md|Replication]] (new seed note)",
+		);
+		expect(artifact).toContain(
+			"- [[Databases/Write-Ahead Log.md|Write-ahead log]] (existing note)",
+		);
+	});
+});
@@ -0,0 +1,170 @@
+/** A concept found in a source note. */
+export interface SourceConcept {
+	title: string;
+	/** First paragraph under the heading, when the concept came from one. */
+	excerpt?: string;
+	/** Path of a note that already covers the concept. */
+	existingPath?: string;
+}
+
+const MAX_CONCEPTS = 12;
+const MAX_TITLE_WORDS = 6;
+const GENERIC_HEADINGS = new Set([
+	"summary",
+	"notes",
+	"overview",
+	"introduction",
+	"conclusion",
+	"references",
+	"resources",
+	"further reading",
+	"key takeaways",
+	"takeaways",
+	"highlights",
+	"quotes",
+	"questions",
+	"related",
+	"links",
+	"todo",
+]);
+
+/**
+ * Candidate concepts from a source note: `##`/`###` headings first, then
+ * bold terms, skipping generic section names. Titles matching an existing
+ * note (case-insensitive) point at that note instead of a new one.
+ */
+export function extractSourceConcepts(
+	content: string,
+	existingNotes: ReadonlyMap<string, string>,
+): SourceConcept[] {
+	const existing = new Map(
+		[...existingNotes.entries()].map(([title, path]) => [
+			title.toLowerCase(),
+			path,
+		]),
+	);
+	const concepts = new Map<string, SourceConcept>();
+	const add = (raw: string, excerpt?: string) => {
+		const title = cleanTitle(raw);
+		const key = title.toLowerCase();
+		if (!isConceptTitle(title) || concepts.has(key)) return;
+		const existingPath = existing.get(key);
+		concepts.set(key, {
+			title,
+			...(excerpt ? { excerpt } : {}),
+			...(existingPath ? { existingPath } : {}),
+		});
+	};
+
+	const lines = content.split(/\r?\n/);
+	lines.forEach((line, index) => {
+		const heading = line.match(/^#{2,3}\s+(.+)$/);
+		if (heading) add(heading[1]!, readParagraph(lines, index + 1));
+	});
+	for (const match of content.matchAll(/\*\*([^*\n]+)\*\*/g)) {
+		add(match[1]!);
+	}
+	return [...concepts.values()].slice(0, MAX_CONCEPTS);
+}
+
+export function formatConceptExtraction(input: {
+	sourceTitle: string;
+	sourcePath: string;
+	concepts: readonly SourceConcept[];
+	createdPaths: ReadonlyMap<string, string>;
+	generatedAt: string;
+	prompt: string;
+}): string {
+	const rows = input.concepts.map((concept) => {
+		const path = concept.existingPath ?? input.createdPaths.get(concept.title);
+		const link = path ? `[[${path}|${concept.title}]]` : `[[${concept.title}]]`;
+		const state = concept.existingPath ? "existing note" : "new seed note";
+		return `- ${link} (${state})\n  - Definition: ${concept.excerpt ?? "Write a one-sentence definition."}`;
+	});
+	return `---
+type: source
+status: review
+source_note: ${input.sourcePath}
+created: ${input.generatedAt}
+---
+
+# ${input.sourceTitle} concepts
+
+## Extracted concepts
+
+${rows.join("\n") || "- No headings or bold terms looked like concepts. Add them by hand."}
+
+## Review checklist
+
+- [ ] Remove concepts that are examples or chapter names rather than ideas.
+- [ ] Merge duplicates into one note.
+- [ ] Add prerequisites between the new seed notes.
+- [ ] Set \`dod.extraction_reviewed: true\` on the source note.
+
+## Agent handoff prompt
+
+\`\`\`text
+${input.prompt.slice(0, 20000)}
+\`\`\`
+`;
+}
+
+/** Body of a new seed note created for an extracted concept. */
+export function formatExtractedSeedNote(input: {
+	concept: SourceConcept;
+	sourceTitle: string;
+	area?: string;
+	generatedAt: string;
+}): string {
+	return `---
+type: concept
+area: ${input.area ?? ""}
+status: seed
+maturity: 0
+source_note: "[[${input.sourceTitle}]]"
+created: ${input.generatedAt}
+---
+
+# ${input.concept.title}
+
+Extracted from [[${input.sourceTitle}]].
+
+${input.concept.excerpt ?? ""}
+`;
+}
+
+function readParagraph(
+	lines: readonly string[],
+	start: number,
+): string | undefined {
+	const paragraph: string[] = [];
+	for (const line of lines.slice(start)) {
+		if (line.startsWith("#")) break;
+		if (!line.trim()) {
+			if (paragraph.length > 0) break;
+			continue;
+		}
+		paragraph.push(line.trim());
+	}
+	const text = paragraph.join(" ").trim();
+	return text ? text.slice(0, 400) : undefined;
+}
+
+function cleanTitle(value: string): string {
+	return value
+		.replace(
+			/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g,
+			(_, target, alias) => alias ?? target,
+		)
+		.replace(/[*_`]/g, "")
+		.replace(/^\d+(\.\d+)*[.)]?\s+/, "")
+		.replace(/[\\/:|#^[\]]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function isConceptTitle(title: string): boolean {
+	if (title.length < 3 || title.endsWith("?")) return false;
+	if (GENERIC_HEADINGS.has(title.toLowerCase())) return false;
+	return title.split(" ").length <= MAX_TITLE_WORDS;
+}
@@ -1,5 +1,3 @@
-import type { LearningStatus } from "@/learning/types";
-
 export const LEARNING_FRONTMATTER_KEYS = {
 	type: "type",
 	area: "area",
@@ -10,22 +8,12 @@ export const LEARNING_FRONTMATTER_KEYS = {
 	nextAction: "next_action",
 	artifactHtml: "artifact_html",
 	quizScore: "quiz_score",
+	lastQuiz: "last_quiz",
 	reviewDue: "review_due",
 	lastTouched: "last_touched",
+	reviewSchedule: "review_schedule",
 } as const;
 
-export const LEARNING_STATUSES: readonly LearningStatus[] = [
-	"seed",
-	"explain",
-	"visualize",
-	"connect",
-	"test",
-	"apply",
-	"review",
-	"done",
-	"mastered",
-];
-
 export const LEARNING_NOTE_TYPES = [
 	"moc",
 	"concept",
@@ -44,6 +32,9 @@ export const ARTIFACT_FOLDERS = {
 	reviews: "_reviews",
 	bridgeNotes: "03_Bridge_Notes",
 	caseStudies: "05_Case_Studies",
+	answers: "_answers",
+	extracts: "_extracts",
+	decisionReviews: "_decision_reviews",
 	commandCenter: "00_Command_Center",
 } as const;
 
@@ -53,17 +44,8 @@ export const ALLOWED_WRITE_ZONES = [
 	ARTIFACT_FOLDERS.reviews,
 	ARTIFACT_FOLDERS.bridgeNotes,
 	ARTIFACT_FOLDERS.caseStudies,
+	ARTIFACT_FOLDERS.answers,
+	ARTIFACT_FOLDERS.extracts,
+	ARTIFACT_FOLDERS.decisionReviews,
 	ARTIFACT_FOLDERS.commandCenter,
 ] as const;
-
-export const STATUS_WEIGHT: Record<LearningStatus, number> = {
-	seed: 90,
-	explain: 82,
-	visualize: 78,
-	connect: 68,
-	test: 72,
-	apply: 62,
-	review: 58,
-	done: 18,
-	mastered: 0,
-};
@@ -2,8 +2,9 @@ import { describe, expect, it } from "vitest";
 import {
 	enrichNotesWithCurriculumGraph,
 	generateCurriculumSprint,
+	getRoadmapProgress,
 } from "@/learning/curriculum-graph";
-import type { LearningNote } from "@/learning/types";
+import type { LearningNote, LearningRoadmap } from "@/learning/types";
 
 describe("curriculum graph", () => {
 	it("orders prerequisites before blocked dependent notes", () => {
@@ -40,18 +41,38 @@ describe("curriculum graph", () => {
 		expect(graph.notes.some((item) => item.circularDependency)).toBe(true);
 	});
 
-	it("generates finite sprint lists from roadmap terms", () => {
-		const sprint = generateCurriculumSprint(
-			[
-				note("Learning/os.md", "Operating systems", { area: "systems" }),
-				note("Learning/sql.md", "Database indexing", { area: "database" }),
+	it("fills sprints from roadmap milestones in order", () => {
+		const roadmap: LearningRoadmap = {
+			path: "Roadmaps/data.md",
+			name: "Data Systems",
+			milestones: [
+				{ name: "Storage", notes: ["[[Pages]]", "[[Missing note]]"] },
+				{ name: "Indexes", notes: ["[[B-tree]]", "[[Database indexing]]"] },
 			],
-			"Data Systems",
-			1,
-		);
+		};
+		const notes = [
+			note("Learning/os.md", "Operating systems", { area: "database" }),
+			note("Learning/pages.md", "Pages", { status: "done" }),
+			note("Learning/sql.md", "Database indexing", {
+				prerequisites: ["[[B-tree]]"],
+				priority: 90,
+			}),
+			note("Learning/btree.md", "B-tree", { priority: 10 }),
+		];
+
+		const sprint = generateCurriculumSprint(notes, roadmap);
 
-		expect(sprint.notes).toHaveLength(1);
-		expect(sprint.notes[0]?.title).toBe("Database indexing");
+		expect(sprint.name).toBe("Data Systems");
+		expect(sprint.milestone?.name).toBe("Indexes");
+		expect(sprint.notes.map((item) => item.title)).toEqual([
+			"B-tree",
+			"Database indexing",
+		]);
+		expect(generateCurriculumSprint(notes, roadmap, 1).notes).toHaveLength(1);
+		expect(getRoadmapProgress(notes, roadmap)[0]).toMatchObject({
+			done: 1,
+			missing: ["[[Missing note]]"],
+		});
 	});
 });
 
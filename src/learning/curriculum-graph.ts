@@ -1,4 +1,9 @@
-import type { LearningDependencyLink, LearningNote } from "@/learning/types";
+import type {
+	LearningDependencyLink,
+	LearningNote,
+	LearningRoadmap,
+	LearningRoadmapMilestone,
+} from "@/learning/types";
 
 export interface CurriculumGraphResult {
 	notes: LearningNote[];
@@ -9,16 +14,17 @@ export interface CurriculumGraphResult {
 export interface CurriculumSprint {
 	name: string;
 	notes: LearningNote[];
+	/** First milestone that still has unfinished notes. */
+	milestone?: LearningRoadmapMilestone;
 }
 
-export const CURRICULUM_ROADMAPS: Record<string, string[]> = {
-	"Systems Bridge": ["systems", "architecture", "operating systems"],
-	"Data Systems": ["data systems", "database", "storage"],
-	"Runtime/Backend Execution": ["runtime", "backend", "execution"],
-	"Production Debugging": ["debugging", "observability", "production"],
-	"Distributed Systems": ["distributed systems", "consensus", "networking"],
-	"AI Engineering": ["ai engineering", "llm", "agents"],
-};
+export interface RoadmapMilestoneProgress {
+	milestone: LearningRoadmapMilestone;
+	notes: LearningNote[];
+	/** Membership links that match no scanned learning note. */
+	missing: string[];
+	done: number;
+}
 
 export function enrichNotesWithCurriculumGraph(
 	notes: LearningNote[],
@@ -59,25 +65,65 @@ export function enrichNotesWithCurriculumGraph(
 	};
 }
 
+/**
+ * Fills a sprint from the roadmap's milestones in order: unfinished notes of
+ * the earliest open milestone come first, ordered by prerequisites, and later
+ * milestones top up the list until `limit`.
+ */
 export function generateCurriculumSprint(
 	notes: LearningNote[],
-	roadmapName: keyof typeof CURRICULUM_ROADMAPS | string,
+	roadmap: LearningRoadmap,
 	limit = 12,
 ): CurriculumSprint {
-	const terms = CURRICULUM_ROADMAPS[roadmapName] ?? [roadmapName.toLowerCase()];
 	const graph = enrichNotesWithCurriculumGraph(notes);
-	const selected = graph.notes
-		.filter((note) => matchesRoadmap(note, terms))
-		.sort((a, b) => {
-			const blockedDelta =
-				(a.unmetPrerequisites?.length ?? 0) - (b.unmetPrerequisites?.length ?? 0);
-			if (blockedDelta !== 0) return blockedDelta;
-			const depthDelta = (a.dependencyDepth ?? 0) - (b.dependencyDepth ?? 0);
-			if (depthDelta !== 0) return depthDelta;
-			return (b.priority ?? 0) - (a.priority ?? 0);
-		})
-		.slice(0, limit);
-	return { name: roadmapName, notes: selected };
+	const progress = getRoadmapProgress(graph.notes, roadmap);
+	const selected: LearningNote[] = [];
+	const seen = new Set<string>();
+	for (const item of progress) {
+		const open = item.notes
+			.filter((note) => !isCompleteEnough(note) && !seen.has(note.path))
+			.sort(compareSprintOrder);
+		for (const note of open) {
+			seen.add(note.path);
+			selected.push(note);
+		}
+	}
+	const milestone = progress.find((item) => item.done < item.notes.length)?.milestone;
+	return {
+		name: roadmap.name,
+		notes: selected.slice(0, limit),
+		...(milestone ? { milestone } : {}),
+	};
+}
+
+/** Resolves each milestone's membership links against the scanned notes. */
+export function getRoadmapProgress(
+	notes: LearningNote[],
+	roadmap: LearningRoadmap,
+): RoadmapMilestoneProgress[] {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const byTitle = new Map(notes.map((note) => [note.title.toLowerCase(), note]));
+	return roadmap.milestones.map((milestone) => {
+		const links = resolveLinks(milestone.notes, byPath, byTitle);
+		const members = links
+			.map((link) => (link.path ? byPath.get(link.path) : undefined))
+			.filter((note): note is LearningNote => note !== undefined);
+		return {
+			milestone,
+			notes: members,
+			missing: links.filter((link) => !link.exists).map((link) => link.raw),
+			done: members.filter(isCompleteEnough).length,
+		};
+	});
+}
+
+function compareSprintOrder(a: LearningNote, b: LearningNote): number {
+	const blockedDelta =
+		(a.unmetPrerequisites?.length ?? 0) - (b.unmetPrerequisites?.length ?? 0);
+	if (blockedDelta !== 0) return blockedDelta;
+	const depthDelta = (a.dependencyDepth ?? 0) - (b.dependencyDepth ?? 0);
+	if (depthDelta !== 0) return depthDelta;
+	return (b.priority ?? 0) - (a.priority ?? 0);
 }
 
 function resolveLinks(
@@ -154,8 +200,3 @@ function detectCycles(
 	for (const note of notes) visit(note, []);
 	return cycles;
 }
-
-function matchesRoadmap(note: LearningNote, terms: string[]): boolean {
-	const haystack = `${note.title} ${note.area ?? ""} ${note.sprint ?? ""}`.toLowerCase();
-	return terms.some((term) => haystack.includes(term.toLowerCase()));
-}
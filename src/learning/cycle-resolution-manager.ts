@@ -0,0 +1,146 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	type CycleResolutionPlan,
+	redirectWikilinks,
+} from "@/learning/cycle-resolution";
+
+export interface AppliedCycleResolution {
+	changedPaths: string[];
+	createdPath?: string;
+	removedPath?: string;
+	/** Notes whose body links to the merged note now point at the kept one. */
+	redirectedPaths?: string[];
+}
+
+/**
+ * Writes a planned cycle fix: the link list changes, then the bridge note or
+ * the merge. A merge appends the merged note's body to the kept note,
+ * repoints body links to the merged note, and moves it to the trash.
+ * Everything that could refuse the fix is checked before the first write.
+ */
+export async function applyCycleResolution(
+	app: App,
+	plan: CycleResolutionPlan,
+): Promise<AppliedCycleResolution> {
+	const merge = checkCycleResolution(app, plan);
+	const changedPaths: string[] = [];
+	for (const change of plan.changes) {
+		const file = app.vault.getAbstractFileByPath(change.path);
+		if (!(file instanceof TFile)) continue;
+		await app.fileManager.processFrontMatter(file, (frontmatter) => {
+			if (change.prerequisites) {
+				setLinkList(frontmatter, "prerequisites", change.prerequisites);
+			}
+			if (change.unlocks) setLinkList(frontmatter, "unlocks", change.unlocks);
+		});
+		changedPaths.push(file.path);
+	}
+
+	if (plan.bridge) {
+		await ensureFolder(app, ARTIFACT_FOLDERS.bridgeNotes);
+		await app.vault.create(plan.bridge.path, plan.bridge.content);
+		return { changedPaths, createdPath: plan.bridge.path };
+	}
+
+	if (merge) {
+		const body = stripFrontmatter(await app.vault.read(merge.merge)).trim();
+		await app.vault.process(
+			merge.keep,
+			(content) =>
+				`${content.trimEnd()}\n\n## Merged from ${merge.merge.basename}\n\n${body}\n`,
+		);
+		const redirectedPaths = await redirectMergedLinks(app, merge.keep, merge.merge);
+		await app.fileManager.trashFile(merge.merge);
+		return { changedPaths, removedPath: merge.merge.path, redirectedPaths };
+	}
+
+	return { changedPaths };
+}
+
+/** Throws when the plan cannot be applied as a whole; returns the merge pair. */
+function checkCycleResolution(
+	app: App,
+	plan: CycleResolutionPlan,
+): { keep: TFile; merge: TFile } | null {
+	if (plan.bridge) {
+		const folder = app.vault.getAbstractFileByPath(
+			normalizePath(ARTIFACT_FOLDERS.bridgeNotes),
+		);
+		if (folder && !(folder instanceof TFolder)) {
+			throw new Error(`${ARTIFACT_FOLDERS.bridgeNotes} exists but is not a folder`);
+		}
+		if (app.vault.getAbstractFileByPath(plan.bridge.path)) {
+			throw new Error(`${plan.bridge.path} already exists`);
+		}
+		return null;
+	}
+	if (!plan.keepPath || !plan.mergePath) return null;
+	const keep = app.vault.getAbstractFileByPath(plan.keepPath);
+	const merge = app.vault.getAbstractFileByPath(plan.mergePath);
+	if (!(keep instanceof TFile)) {
+		throw new Error(`Learning note not found: ${plan.keepPath}`);
+	}
+	if (!(merge instanceof TFile)) {
+		throw new Error(`Learning note not found: ${plan.mergePath}`);
+	}
+	return { keep, merge };
+}
+
+/** Repoints every body link to `merge` at `keep`. Returns the notes changed. */
+async function redirectMergedLinks(
+	app: App,
+	keep: TFile,
+	merge: TFile,
+): Promise<string[]> {
+	const redirected: string[] = [];
+	for (const [sourcePath, targets] of Object.entries(
+		app.metadataCache.resolvedLinks,
+	)) {
+		if (sourcePath === merge.path || !targets[merge.path]) continue;
+		const source = app.vault.getAbstractFileByPath(sourcePath);
+		if (!(source instanceof TFile)) continue;
+		const target = app.metadataCache.fileToLinktext(keep, source.path, true);
+		let count = 0;
+		await app.vault.process(source, (content) => {
+			const result = redirectWikilinks(
+				content,
+				(linkpath) =>
+					app.metadataCache.getFirstLinkpathDest(linkpath, source.path)?.path ===
+					merge.path,
+				target,
+			);
+			count = result.count;
+			return result.content;
+		});
+		if (count > 0) redirected.push(source.path);
+	}
+	return redirected;
+}
+
+/** Empty lists are removed rather than written as `[]`. */
+function setLinkList(
+	frontmatter: Record<string, unknown>,
+	key: string,
+	links: string[],
+): void {
+	if (links.length > 0) {
+		frontmatter[key] = links;
+	} else {
+		delete frontmatter[key];
+	}
+}
+
+function stripFrontmatter(content: string): string {
+	return content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, "");
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) {
+		throw new Error(`${normalized} exists but is not a folder`);
+	}
+	await app.vault.createFolder(normalized);
+}
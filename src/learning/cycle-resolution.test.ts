@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { enrichNotesWithCurriculumGraph } from "@/learning/curriculum-graph";
+import {
+	analyzePrerequisiteCycles,
+	planCycleResolution,
+	redirectWikilinks,
+} from "@/learning/cycle-resolution";
+import type { LearningNote } from "@/learning/types";
+
+describe("cycle resolution", () => {
+	it("points at the edge the notes back up least", () => {
+		const graph = enrichNotesWithCurriculumGraph([
+			note("a.md", "A", {
+				prerequisites: ["[[B]]"],
+				links: ["b.md"],
+				backlinks: ["b.md"],
+				maturity: 1,
+			}),
+			note("b.md", "B", {
+				prerequisites: ["[[A]]"],
+				backlinks: ["a.md", "c.md", "d.md"],
+				maturity: 3,
+				status: "test",
+			}),
+		]);
+
+		const [analysis] = analyzePrerequisiteCycles(graph.notes, graph.cycles);
+
+		expect(analysis?.edges).toHaveLength(2);
+		expect(analysis?.weakest).toMatchObject({
+			notePath: "b.md",
+			prerequisitePath: "a.md",
+			raw: "[[A]]",
+		});
+		expect(analysis?.weakest.reasons).toContain("A is less mature than B.");
+		expect(
+			analyzePrerequisiteCycles(graph.notes, [
+				...graph.cycles,
+				["b.md", "a.md", "b.md"],
+			]),
+		).toHaveLength(1);
+	});
+
+	it("plans drop, merge and bridge fixes", () => {
+		const notes = [
+			note("a.md", "A", { prerequisites: ["[[B]]", "[[Pages]]"], maturity: 2 }),
+			note("b.md", "B", { prerequisites: ["[[A]]"], unlocks: ["[[A]]"] }),
+			note("pages.md", "Pages"),
+			note("c.md", "C", { prerequisites: ["[[B]]", "[[A]]"] }),
+		];
+		const edge = {
+			notePath: "b.md",
+			noteTitle: "B",
+			prerequisitePath: "a.md",
+			prerequisiteTitle: "A",
+			raw: "[[A]]",
+			strength: 0,
+			reasons: [],
+		};
+
+		const today = "2026-05-01";
+		expect(planCycleResolution({ kind: "drop-edge", edge }, notes, today)).toEqual({
+			changes: [{ path: "b.md", prerequisites: [] }],
+		});
+		expect(planCycleResolution({ kind: "merge", edge }, notes, today)).toEqual({
+			keepPath: "a.md",
+			mergePath: "b.md",
+			changes: [
+				{ path: "a.md", prerequisites: ["[[Pages]]"], unlocks: [] },
+				{ path: "c.md", prerequisites: ["[[A]]"], unlocks: undefined },
+			],
+		});
+		const bridge = planCycleResolution({ kind: "bridge", edge }, notes, today);
+		expect(bridge.bridge?.path).toBe("03_Bridge_Notes/b-a-bridge.md");
+		expect(bridge.bridge?.content).toContain('area: "database"\nstatus: seed');
+		expect(bridge.bridge?.content).toContain('  - "[[B]]"\n  - "[[A]]"');
+		expect(bridge.changes).toEqual([{ path: "b.md", prerequisites: [] }]);
+	});
+
+	it("repoints body links to a merged note", () => {
+		const result = redirectWikilinks(
+			"See [[B]], [[B#Setup|setup]], ![[B]] and [[Bee]].",
+			(linkpath) => linkpath === "B",
+			"A",
+		);
+
+		expect(result).toEqual({
+			content: "See [[A|B]], [[A#Setup|setup]], ![[A]] and [[Bee]].",
+			count: 3,
+		});
+	});
+});
+
+function note(
+	path: string,
+	title: string,
+	overrides: Partial<LearningNote> = {},
+): LearningNote {
+	return {
+		path,
+		title,
+		type: "concept",
+		area: "database",
+		status: "explain",
+		links: [],
+		backlinks: [],
+		graphScore: 0,
+		missingFields: [],
+		...overrides,
+	};
+}
@@ -0,0 +1,350 @@
+import { normalizePath } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	getNotePipeline,
+	getPipelineStatusIndex,
+} from "@/learning/learning-pipeline";
+import type { LearningNote } from "@/learning/types";
+
+/** One "requires" step of a loop: `notePath` lists `prerequisitePath`. */
+export interface PrerequisiteCycleEdge {
+	notePath: string;
+	noteTitle: string;
+	prerequisitePath: string;
+	prerequisiteTitle: string;
+	/** Link as written in `prerequisites`, so a drop removes exactly it. */
+	raw: string;
+	/** Higher means the graph and the notes back the edge up better. */
+	strength: number;
+	reasons: string[];
+}
+
+export interface PrerequisiteCycleAnalysis {
+	/** Notes of the loop in order; each requires the next, the last the first. */
+	paths: string[];
+	edges: PrerequisiteCycleEdge[];
+	weakest: PrerequisiteCycleEdge;
+}
+
+export type CycleResolutionFix =
+	| { kind: "drop-edge"; edge: PrerequisiteCycleEdge }
+	| { kind: "merge"; edge: PrerequisiteCycleEdge }
+	| { kind: "bridge"; edge: PrerequisiteCycleEdge };
+
+/** New link lists for one note; absent lists stay as they are. */
+export interface CycleFrontmatterChange {
+	path: string;
+	prerequisites?: string[];
+	unlocks?: string[];
+}
+
+export interface CycleResolutionPlan {
+	changes: CycleFrontmatterChange[];
+	/** Merge: the note that absorbs the other. */
+	keepPath?: string;
+	/** Merge: the note folded into `keepPath` and then moved to the trash. */
+	mergePath?: string;
+	bridge?: { path: string; content: string };
+}
+
+/**
+ * Turns `detectCycles` output into loops with every edge scored. An edge is
+ * weaker when the note body never links to the prerequisite, the
+ * prerequisite has fewer backlinks or sits deeper in the graph, or the
+ * dependent note got further along without it.
+ */
+export function analyzePrerequisiteCycles(
+	notes: readonly LearningNote[],
+	cycles: readonly string[][],
+): PrerequisiteCycleAnalysis[] {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const resolve = createResolver(notes);
+	const seen = new Set<string>();
+	const analyses: PrerequisiteCycleAnalysis[] = [];
+
+	for (const cycle of cycles) {
+		const paths = cycle.slice(0, -1);
+		const key = [...paths].sort().join("\u0000");
+		if (paths.length === 0 || seen.has(key)) continue;
+		seen.add(key);
+		const edges = paths
+			.map((path, index) => {
+				const note = byPath.get(path);
+				const prerequisite = byPath.get(paths[(index + 1) % paths.length]!);
+				if (!note || !prerequisite) return null;
+				const raw = (note.prerequisites ?? []).find(
+					(link) => resolve(link)?.path === prerequisite.path,
+				);
+				return raw ? scoreEdge(note, prerequisite, raw) : null;
+			})
+			.filter((edge): edge is PrerequisiteCycleEdge => edge !== null);
+		const weakest = [...edges].sort(
+			(left, right) => left.strength - right.strength,
+		)[0];
+		if (weakest) analyses.push({ paths, edges, weakest });
+	}
+	return analyses;
+}
+
+export function planCycleResolution(
+	fix: CycleResolutionFix,
+	notes: readonly LearningNote[],
+	today: string,
+): CycleResolutionPlan {
+	switch (fix.kind) {
+		case "drop-edge":
+			return { changes: planDropEdge(fix.edge, notes) };
+		case "merge":
+			return planMerge(fix.edge, notes);
+		case "bridge":
+			return planBridge(fix.edge, notes, today);
+	}
+}
+
+/**
+ * Removes the edge from the dependent note's `prerequisites` and, when the
+ * prerequisite states it again through `unlocks`, from there too.
+ */
+function planDropEdge(
+	edge: PrerequisiteCycleEdge,
+	notes: readonly LearningNote[],
+): CycleFrontmatterChange[] {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const resolve = createResolver(notes);
+	const note = byPath.get(edge.notePath);
+	const prerequisite = byPath.get(edge.prerequisitePath);
+	const changes: CycleFrontmatterChange[] = [];
+	if (note) {
+		changes.push({
+			path: note.path,
+			prerequisites: (note.prerequisites ?? []).filter(
+				(link) => resolve(link)?.path !== edge.prerequisitePath,
+			),
+		});
+	}
+	const unlocks = prerequisite?.unlocks ?? [];
+	const unlocksNote = (link: string) => resolve(link)?.path === edge.notePath;
+	if (prerequisite && unlocks.some(unlocksNote)) {
+		changes.push({
+			path: prerequisite.path,
+			unlocks: unlocks.filter((link) => !unlocksNote(link)),
+		});
+	}
+	return changes;
+}
+
+/**
+ * Folds the less mature note of the edge into the other. The kept note takes
+ * the union of both link lists minus links to either note, and every other
+ * note pointing at the merged one is repointed to the kept one.
+ */
+function planMerge(
+	edge: PrerequisiteCycleEdge,
+	notes: readonly LearningNote[],
+): CycleResolutionPlan {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const resolve = createResolver(notes);
+	const first = byPath.get(edge.notePath);
+	const second = byPath.get(edge.prerequisitePath);
+	if (!first || !second) return { changes: [] };
+	const [keep, merge] =
+		compareMaturity(first, second) >= 0 ? [first, second] : [second, first];
+	const pair = new Set([keep.path, merge.path]);
+	const keepLink = `[[${keep.title}]]`;
+	const union = (values: string[]) =>
+		dedupeLinks(
+			values.filter((link) => !pair.has(resolve(link)?.path ?? "")),
+			resolve,
+		);
+	const repoint = (values: string[] | undefined) =>
+		values?.some((link) => resolve(link)?.path === merge.path)
+			? dedupeLinks(
+					values.map((link) =>
+						resolve(link)?.path === merge.path ? keepLink : link,
+					),
+					resolve,
+				)
+			: undefined;
+
+	const changes: CycleFrontmatterChange[] = [
+		{
+			path: keep.path,
+			prerequisites: union([
+				...(keep.prerequisites ?? []),
+				...(merge.prerequisites ?? []),
+			]),
+			unlocks:
+				keep.unlocks || merge.unlocks
+					? union([...(keep.unlocks ?? []), ...(merge.unlocks ?? [])])
+					: undefined,
+		},
+	];
+	for (const note of notes) {
+		if (pair.has(note.path)) continue;
+		const prerequisites = repoint(note.prerequisites);
+		const unlocks = repoint(note.unlocks);
+		if (prerequisites || unlocks) {
+			changes.push({ path: note.path, prerequisites, unlocks });
+		}
+	}
+	return { changes, keepPath: keep.path, mergePath: merge.path };
+}
+
+/**
+ * Points wikilinks and embeds whose target `matches` at `target` instead.
+ * Headings and block refs are kept, and an unaliased link keeps its old
+ * text as the alias so the sentence still reads the same.
+ */
+export function redirectWikilinks(
+	content: string,
+	matches: (linkpath: string) => boolean,
+	target: string,
+): { content: string; count: number } {
+	let count = 0;
+	const next = content.replace(
+		/(!?)\[\[([^\]|#^]+)([#^][^\]|]*)?(\|[^\]]*)?\]\]/g,
+		(link, embed: string, linkpath: string, subpath = "", alias?: string) => {
+			if (!matches(linkpath.trim())) return link;
+			count += 1;
+			const text = alias ?? (embed ? "" : `|${linkpath.trim()}`);
+			return `${embed}[[${target}${subpath}${text}]]`;
+		},
+	);
+	return { content: next, count };
+}
+
+/**
+ * Moves the part of the dependent note that needs the prerequisite into a
+ * new bridge note that requires both, and drops the edge. The bridge starts
+ * as a seed for the learner to fill.
+ */
+function planBridge(
+	edge: PrerequisiteCycleEdge,
+	notes: readonly LearningNote[],
+	today: string,
+): CycleResolutionPlan {
+	const note = notes.find((item) => item.path === edge.notePath);
+	const title = `${edge.noteTitle} and ${edge.prerequisiteTitle} bridge`;
+	const slug = `${slugify(edge.noteTitle)}-${slugify(edge.prerequisiteTitle)}`;
+	const path = normalizePath(`${ARTIFACT_FOLDERS.bridgeNotes}/${slug}-bridge.md`);
+	const content = `---
+type: bridge
+${note?.area ? `area: ${JSON.stringify(note.area)}\n` : ""}status: seed
+prerequisites:
+  - ${JSON.stringify(`[[${edge.noteTitle}]]`)}
+  - ${JSON.stringify(`[[${edge.prerequisiteTitle}]]`)}
+created: ${today}
+---
+
+# ${title}
+
+Split from [[${edge.noteTitle}]] to break a prerequisite cycle. Move the parts of [[${edge.noteTitle}]] that depend on [[${edge.prerequisiteTitle}]] here.
+
+## Builds on
+
+- [[${edge.noteTitle}]]
+- [[${edge.prerequisiteTitle}]]
+`;
+	return { changes: planDropEdge(edge, notes), bridge: { path, content } };
+}
+
+function scoreEdge(
+	note: LearningNote,
+	prerequisite: LearningNote,
+	raw: string,
+): PrerequisiteCycleEdge {
+	const reasons: string[] = [];
+	let strength = 0;
+	if (note.links.includes(prerequisite.path)) {
+		strength += 2;
+	} else {
+		reasons.push(
+			`${note.title} never links to ${prerequisite.title} in its body.`,
+		);
+	}
+	if (prerequisite.backlinks.length > note.backlinks.length) {
+		strength += 1;
+	} else {
+		reasons.push(
+			`${prerequisite.title} has ${prerequisite.backlinks.length} backlinks to ${note.backlinks.length}.`,
+		);
+	}
+	if ((prerequisite.dependencyDepth ?? 0) < (note.dependencyDepth ?? 0)) {
+		strength += 1;
+	} else {
+		reasons.push(`${prerequisite.title} sits no lower in the graph.`);
+	}
+	if ((prerequisite.maturity ?? 0) >= (note.maturity ?? 0)) {
+		strength += 1;
+	} else {
+		reasons.push(`${prerequisite.title} is less mature than ${note.title}.`);
+	}
+	if (compareStage(note, prerequisite) > 0) {
+		reasons.push(
+			`${note.title} got further along without ${prerequisite.title}.`,
+		);
+	} else {
+		strength += 1;
+	}
+	return {
+		notePath: note.path,
+		noteTitle: note.title,
+		prerequisitePath: prerequisite.path,
+		prerequisiteTitle: prerequisite.title,
+		raw,
+		strength,
+		reasons,
+	};
+}
+
+function compareMaturity(left: LearningNote, right: LearningNote): number {
+	return (
+		(left.maturity ?? 0) - (right.maturity ?? 0) ||
+		compareStage(left, right) ||
+		left.backlinks.length - right.backlinks.length
+	);
+}
+
+function compareStage(left: LearningNote, right: LearningNote): number {
+	return (
+		getPipelineStatusIndex(getNotePipeline(left), left.status) -
+		getPipelineStatusIndex(getNotePipeline(right), right.status)
+	);
+}
+
+function dedupeLinks(
+	values: string[],
+	resolve: (value: string) => LearningNote | undefined,
+): string[] {
+	const seen = new Set<string>();
+	return values.filter((link) => {
+		const key = resolve(link)?.path ?? link.trim().toLowerCase();
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+function createResolver(
+	notes: readonly LearningNote[],
+): (value: string) => LearningNote | undefined {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const byTitle = new Map(notes.map((note) => [note.title.toLowerCase(), note]));
+	return (value) => {
+		const match = /^\[\[([^|\]#]+)(?:[#|][^\]]*)?\]\]$/.exec(value.trim());
+		const title = (match?.[1] ?? value).trim();
+		return (
+			byPath.get(title) ??
+			byPath.get(`${title}.md`) ??
+			byTitle.get(title.toLowerCase())
+		);
+	};
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "learning-note";
+}
@@ -0,0 +1,61 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	DAILY_PLAN_FOLDER,
+	type DailyLearningPlan,
+	type DailyPlanItem,
+	formatDailyPlanBody,
+	formatDailyPlanFrontmatter,
+	getDailyPlanPath,
+	parseDailyPlanItems,
+} from "@/learning/daily-plan";
+
+/** Writes the plan note for `plan.date`, replacing an earlier plan that day. */
+export async function writeDailyLearningPlan(
+	app: App,
+	plan: DailyLearningPlan,
+): Promise<TFile> {
+	const planPath = getDailyPlanPath(plan.date);
+	let file = app.vault.getAbstractFileByPath(planPath);
+	if (!file) {
+		await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+		await ensureFolder(app, DAILY_PLAN_FOLDER);
+		file = await app.vault.create(planPath, "---\ntype: daily-plan\n---\n");
+	}
+	if (!(file instanceof TFile)) {
+		throw new Error(`${planPath} exists but is not a file`);
+	}
+
+	const fields = formatDailyPlanFrontmatter(plan);
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		Object.assign(frontmatter, fields);
+	});
+	await app.vault.process(file, (content) =>
+		replaceBody(content, formatDailyPlanBody(plan)),
+	);
+	return file;
+}
+
+export async function readDailyLearningPlanItems(
+	app: App,
+	date: string,
+): Promise<DailyPlanItem[]> {
+	const file = app.vault.getAbstractFileByPath(getDailyPlanPath(date));
+	if (!(file instanceof TFile)) return [];
+	return parseDailyPlanItems(await app.vault.read(file));
+}
+
+function replaceBody(content: string, body: string): string {
+	if (!content.startsWith("---")) return body;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return body;
+	return `${content.slice(0, end + 4)}\n\n${body}`;
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) throw new Error(`${normalized} exists but is not a folder`);
+	await app.vault.createFolder(normalized);
+}
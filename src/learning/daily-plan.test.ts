@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatDailyPlanBody,
+	getDailyPlanPath,
+	isDailyPlanPath,
+	parseDailyPlanItems,
+	planDailyLearning,
+} from "@/learning/daily-plan";
+import type { LearningNote, NextActionCandidate } from "@/learning/types";
+
+describe("daily learning plan", () => {
+	it("balances areas and due reviews within the budget", () => {
+		const queue = [
+			candidate("db/a.md", "A", "database"),
+			candidate("db/b.md", "B", "database", { status: "explain" }),
+			candidate("db/c.md", "C", "database", { status: "explain" }),
+			candidate("net/d.md", "D", "network", { status: "explain" }),
+			candidate("db/e.md", "E", "database", {
+				status: "review",
+				reviewDue: "2026-05-10",
+			}),
+		];
+
+		const plan = planDailyLearning(queue, {
+			date: "2026-05-12",
+			budgetMinutes: 180,
+		});
+
+		expect(
+			plan.items.map((item) => [item.noteTitle, item.minutes, item.review]),
+		).toEqual([
+			["A", 60, false],
+			["D", 60, false],
+			["E", 30, true],
+		]);
+		expect(plan.plannedMinutes).toBe(150);
+	});
+
+	it("keeps completed items and round-trips the checklist", () => {
+		const completed = {
+			notePath: "db/a.md",
+			noteTitle: "A",
+			area: "database",
+			action: "Explain A",
+			minutes: 60,
+			review: false,
+			done: true,
+		};
+		const plan = planDailyLearning(
+			[
+				candidate("db/a.md", "A", "database"),
+				candidate("db/b.md", "B", "database", {}, "Write explanation"),
+			],
+			{ date: "2026-05-12", budgetMinutes: 90, completed: [completed] },
+		);
+
+		expect(plan.items.map((item) => item.noteTitle)).toEqual(["A"]);
+
+		const body = formatDailyPlanBody({
+			...plan,
+			items: [
+				...plan.items,
+				{
+					notePath: "db/b.md",
+					noteTitle: "B",
+					action: "Write explanation",
+					expectedOutput: "Explanation section",
+					minutes: 30,
+					review: true,
+					done: false,
+				},
+			],
+		});
+		expect(body).toContain(
+			"- [x] Explain A - [[db/a.md|A]] (60 min)\n- [ ] Write explanation - [[db/b.md|B]] (30 min, review)\n  - Output: Explanation section",
+		);
+		expect(parseDailyPlanItems(body)).toEqual([
+			{ ...completed, area: undefined },
+			{
+				notePath: "db/b.md",
+				noteTitle: "B",
+				action: "Write explanation",
+				expectedOutput: "Explanation section",
+				minutes: 30,
+				review: true,
+				done: false,
+			},
+		]);
+		expect(isDailyPlanPath(getDailyPlanPath("2026-05-12"))).toBe(true);
+		expect(isDailyPlanPath("00_Command_Center/sprints/s1.md")).toBe(false);
+	});
+});
+
+function candidate(
+	path: string,
+	title: string,
+	area: string,
+	overrides: Partial<LearningNote> = {},
+	action = `Work on ${title}`,
+): NextActionCandidate {
+	return {
+		note: {
+			path,
+			title,
+			type: "concept",
+			area,
+			status: "explain",
+			links: [],
+			backlinks: [],
+			graphScore: 0,
+			missingFields: [],
+			...overrides,
+		},
+		action,
+		reason: [],
+		suggestedAgent: "deterministic",
+		score: 0,
+	};
+}
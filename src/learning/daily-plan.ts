@@ -0,0 +1,195 @@
+import { normalizePath } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import { getNotePipeline, getPipelineStage } from "@/learning/learning-pipeline";
+import { isNoteReviewDue } from "@/learning/spaced-repetition";
+import { getStageEffortHours } from "@/learning/sprint-planner";
+import type { NextActionCandidate } from "@/learning/types";
+
+export interface DailyPlanItem {
+	notePath: string;
+	noteTitle: string;
+	area?: string;
+	action: string;
+	expectedOutput?: string;
+	minutes: number;
+	review: boolean;
+	done: boolean;
+}
+
+export interface DailyLearningPlan {
+	date: string;
+	budgetMinutes: number;
+	plannedMinutes: number;
+	items: DailyPlanItem[];
+}
+
+export interface DailyPlanOptions {
+	date: string;
+	budgetMinutes: number;
+	/** Items already ticked off today; they stay and count against the budget. */
+	completed?: readonly DailyPlanItem[];
+}
+
+export const DAILY_PLAN_FOLDER = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/daily-plans`,
+);
+
+const MIN_ACTION_MINUTES = 15;
+const UNSORTED_AREA = "unsorted";
+
+export function getDailyPlanPath(date: string): string {
+	return normalizePath(`${DAILY_PLAN_FOLDER}/${date}.md`);
+}
+
+export function isDailyPlanPath(path: string): boolean {
+	return path.startsWith(`${DAILY_PLAN_FOLDER}/`) && path.endsWith(".md");
+}
+
+/** Minutes for one sitting on the note's current stage, in 5-minute steps. */
+export function estimateActionMinutes(candidate: NextActionCandidate): number {
+	const stage = getPipelineStage(
+		getNotePipeline(candidate.note),
+		candidate.note.status,
+	);
+	const minutes = stage ? getStageEffortHours(stage) * 60 : MIN_ACTION_MINUTES;
+	return Math.max(MIN_ACTION_MINUTES, Math.round(minutes / 5) * 5);
+}
+
+/**
+ * Fills the day from the queue in rounds. Due reviews form one lane and
+ * every area another; each round takes the best remaining action of each
+ * lane that still fits, so one busy area cannot crowd out the rest. Items
+ * keep queue order in the note.
+ */
+export function planDailyLearning(
+	queue: readonly NextActionCandidate[],
+	options: DailyPlanOptions,
+): DailyLearningPlan {
+	const completed = [...(options.completed ?? [])];
+	const taken = new Set(completed.map((item) => item.notePath));
+	let remaining =
+		options.budgetMinutes -
+		completed.reduce((total, item) => total + item.minutes, 0);
+
+	const lanes = new Map<string, { rank: number; item: DailyPlanItem }[]>();
+	queue.forEach((candidate, rank) => {
+		if (taken.has(candidate.note.path)) return;
+		const review = isNoteReviewDue(candidate.note, options.date);
+		const item: DailyPlanItem = {
+			notePath: candidate.note.path,
+			noteTitle: candidate.note.title,
+			...(candidate.note.area ? { area: candidate.note.area } : {}),
+			action: candidate.action,
+			...(candidate.expectedOutput
+				? { expectedOutput: candidate.expectedOutput }
+				: {}),
+			minutes: estimateActionMinutes(candidate),
+			review,
+			done: false,
+		};
+		const lane = review
+			? "\u0000review"
+			: (candidate.note.area ?? UNSORTED_AREA).toLowerCase();
+		lanes.set(lane, [...(lanes.get(lane) ?? []), { rank, item }]);
+	});
+
+	const picked: { rank: number; item: DailyPlanItem }[] = [];
+	let progressed = true;
+	while (progressed && remaining > 0) {
+		progressed = false;
+		const fronts = [...lanes.values()]
+			.map((lane) => lane.find((entry) => entry.item.minutes <= remaining))
+			.filter((entry): entry is { rank: number; item: DailyPlanItem } => !!entry)
+			.sort((left, right) => left.rank - right.rank);
+		for (const entry of fronts) {
+			if (entry.item.minutes > remaining) continue;
+			picked.push(entry);
+			remaining -= entry.item.minutes;
+			progressed = true;
+			for (const lane of lanes.values()) {
+				const index = lane.indexOf(entry);
+				if (index !== -1) lane.splice(index, 1);
+			}
+		}
+	}
+
+	const items = [
+		...completed,
+		...picked.sort((left, right) => left.rank - right.rank).map(({ item }) => item),
+	];
+	return {
+		date: options.date,
+		budgetMinutes: options.budgetMinutes,
+		plannedMinutes: items.reduce((total, item) => total + item.minutes, 0),
+		items,
+	};
+}
+
+export function formatDailyPlanFrontmatter(
+	plan: DailyLearningPlan,
+): Record<string, unknown> {
+	return {
+		type: "daily-plan",
+		date: plan.date,
+		budget_minutes: plan.budgetMinutes,
+		planned_minutes: plan.plannedMinutes,
+	};
+}
+
+export function formatDailyPlanBody(plan: DailyLearningPlan): string {
+	const areas = new Set(
+		plan.items.map((item) => (item.area ?? UNSORTED_AREA).toLowerCase()),
+	);
+	const reviews = plan.items.filter((item) => item.review).length;
+	const items = plan.items.map((item) => {
+		const lines = [
+			`- [${item.done ? "x" : " "}] ${item.action} - [[${item.notePath}|${item.noteTitle}]] (${item.minutes} min${item.review ? ", review" : ""})`,
+		];
+		if (item.expectedOutput) lines.push(`  - Output: ${item.expectedOutput}`);
+		return lines.join("\n");
+	});
+	return `# Learning plan ${plan.date}
+
+- Planned: ${plan.plannedMinutes} of ${plan.budgetMinutes} min
+- Actions: ${plan.items.length} across ${areas.size} ${areas.size === 1 ? "area" : "areas"}, ${reviews} due ${reviews === 1 ? "review" : "reviews"}
+
+## Checklist
+
+${items.join("\n") || "Nothing in the queue fits today."}
+
+Ticking an item off updates \`last_touched\` on its note and adds it to the learning action log.
+`;
+}
+
+/**
+ * Reads checklist items written by `formatDailyPlanBody`. Lines the user
+ * added by hand are skipped unless they follow the same shape.
+ */
+export function parseDailyPlanItems(content: string): DailyPlanItem[] {
+	const items: DailyPlanItem[] = [];
+	let current: DailyPlanItem | null = null;
+	for (const line of content.split(/\r?\n/)) {
+		const match = line.match(
+			/^-\s+\[([ xX])\]\s+(.+)\s+-\s+\[\[([^\]|]+)(?:\|([^\]]*))?\]\](?:\s+\((\d+)\s+min(, review)?\))?/,
+		);
+		if (match) {
+			current = {
+				notePath: match[3]!.trim(),
+				noteTitle: (match[4] ?? match[3]!).trim(),
+				action: match[2]!.trim(),
+				minutes: Number(match[5] ?? 0),
+				review: match[6] !== undefined,
+				done: match[1] !== " ",
+			};
+			items.push(current);
+			continue;
+		}
+		const output = current ? line.match(/^\s+-\s+Output:\s*(.+)$/) : null;
+		if (current && output) {
+			current.expectedOutput = output[1]!.trim();
+		} else if (line.trim()) {
+			current = null;
+		}
+	}
+	return items;
+}
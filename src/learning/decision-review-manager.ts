@@ -0,0 +1,159 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import type { HtmlExplainerRelatedNote } from "@/learning/artifact-manager";
+import {
+	ARTIFACT_FOLDERS,
+	LEARNING_FRONTMATTER_KEYS,
+} from "@/learning/constants";
+import { formatLearningDate } from "@/learning/frontmatter";
+import { buildDecisionReviewPrompt } from "@/learning/prompt-builders/decision-review.prompt";
+import type { GeneratedArtifact } from "@/learning/types";
+
+export interface DecisionReviewGenerationOptions {
+	relatedNotes?: HtmlExplainerRelatedNote[];
+}
+
+export async function generateDecisionReviewForNote(
+	app: App,
+	file: TFile,
+	options: DecisionReviewGenerationOptions = {},
+): Promise<GeneratedArtifact> {
+	const folderPath = ARTIFACT_FOLDERS.decisionReviews;
+	await ensureFolder(app, folderPath);
+
+	const artifactPath = normalizePath(
+		`${folderPath}/${slugify(file.basename)}-decision-review.md`,
+	);
+	const review = await buildDecisionReview(
+		app,
+		file,
+		options.relatedNotes ?? [],
+	);
+	const existing = app.vault.getAbstractFileByPath(artifactPath);
+
+	if (existing instanceof TFile) {
+		await app.vault.process(existing, () => review);
+	} else {
+		await app.vault.create(artifactPath, review);
+	}
+
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		const artifacts = isRecord(frontmatter.artifacts)
+			? frontmatter.artifacts
+			: {};
+		artifacts.decision_review = {
+			...(isRecord(artifacts.decision_review) ? artifacts.decision_review : {}),
+			path: artifactPath,
+		};
+		frontmatter.artifacts = artifacts;
+		frontmatter[LEARNING_FRONTMATTER_KEYS.nextAction] =
+			"Confirm the decision review and set dod.decision_reviewed";
+		frontmatter[LEARNING_FRONTMATTER_KEYS.lastTouched] = formatLearningDate();
+	});
+
+	return {
+		notePath: file.path,
+		artifactPath,
+	};
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) {
+		throw new Error(`${normalized} exists but is not a folder`);
+	}
+	await app.vault.createFolder(normalized);
+}
+
+async function buildDecisionReview(
+	app: App,
+	file: TFile,
+	relatedNotes: HtmlExplainerRelatedNote[],
+): Promise<string> {
+	const content = await app.vault.cachedRead(file);
+	const source = stripFrontmatter(content);
+	const generatedAt = formatLearningDate();
+	const prompt = buildDecisionReviewPrompt({
+		title: file.basename,
+		sourcePath: file.path,
+		source,
+		relatedNotes,
+	});
+
+	return `---
+type: adr
+status: review
+source_note: ${file.path}
+created: ${generatedAt}
+---
+
+# ${file.basename} - decision review
+
+## Context
+
+Replace this section with the forces that shaped the decision at the time.
+
+## Decision
+
+Replace this section with the decision in one sentence.
+
+## Alternatives
+
+- Replace this section with each option considered and why it lost.
+
+## Consequences
+
+| Expected | Observed since | Surprise? |
+| --- | --- | --- |
+|  |  |  |
+
+## Revisit triggers
+
+- [ ] Replace this section with conditions that would reopen the decision.
+
+## Verdict
+
+Keep / amend / supersede, and why.
+
+## Related context
+
+${formatRelatedNotes(relatedNotes)}
+
+## Agent handoff prompt
+
+\`\`\`text
+${prompt.slice(0, 20000)}
+\`\`\`
+`;
+}
+
+function formatRelatedNotes(relatedNotes: HtmlExplainerRelatedNote[]): string {
+	if (relatedNotes.length === 0) {
+		return "- No related notes were found in graph context.";
+	}
+
+	return relatedNotes
+		.slice(0, 8)
+		.map((note) => `- [[${note.title}]] - \`${note.path}\``)
+		.join("\n");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stripFrontmatter(content: string): string {
+	if (!content.startsWith("---")) return content;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return content;
+	return content.slice(end + 4).trimStart();
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "learning-note";
+}
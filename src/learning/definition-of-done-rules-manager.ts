@@ -0,0 +1,56 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	DEFAULT_DEFINITION_OF_DONE_RULES,
+	DEFINITION_OF_DONE_RULES_PATH,
+	type DefinitionOfDoneRules,
+	formatDefinitionOfDoneRulesBody,
+	parseDefinitionOfDoneRules,
+} from "@/learning/definition-of-done-rules";
+
+/**
+ * Reads the rules from the metadata cache, so scans always see the latest
+ * saved version of `00_Command_Center/definition-of-done.md`.
+ */
+export function readDefinitionOfDoneRules(app: App): DefinitionOfDoneRules {
+	const file = app.vault.getAbstractFileByPath(DEFINITION_OF_DONE_RULES_PATH);
+	if (!(file instanceof TFile)) return DEFAULT_DEFINITION_OF_DONE_RULES;
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter as
+		| Record<string, unknown>
+		| undefined;
+	return parseDefinitionOfDoneRules(frontmatter, file.path);
+}
+
+/**
+ * Writes the built-in rules to the vault so they can be edited. Returns the
+ * existing file untouched when it is already there.
+ */
+export async function createDefinitionOfDoneRulesFile(app: App): Promise<TFile> {
+	const existing = app.vault.getAbstractFileByPath(DEFINITION_OF_DONE_RULES_PATH);
+	if (existing instanceof TFile) return existing;
+	if (existing) {
+		throw new Error(`${DEFINITION_OF_DONE_RULES_PATH} exists but is not a file`);
+	}
+
+	await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+	const file = await app.vault.create(
+		DEFINITION_OF_DONE_RULES_PATH,
+		`---\ntype: definition-of-done\n---\n\n${formatDefinitionOfDoneRulesBody()}`,
+	);
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		frontmatter.passing_artifact_score =
+			DEFAULT_DEFINITION_OF_DONE_RULES.passing_artifact_score;
+		frontmatter.rules = JSON.parse(
+			JSON.stringify(DEFAULT_DEFINITION_OF_DONE_RULES.rules),
+		) as DefinitionOfDoneRules["rules"];
+	});
+	return file;
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) throw new Error(`${normalized} exists but is not a folder`);
+	await app.vault.createFolder(normalized);
+}
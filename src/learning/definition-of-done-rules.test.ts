@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { explainPromotionBlockers } from "@/learning/definition-of-done";
+import {
+	DEFAULT_DEFINITION_OF_DONE_RULES,
+	parseDefinitionOfDoneRules,
+} from "@/learning/definition-of-done-rules";
+import type { LearningNote, LearningPipeline } from "@/learning/types";
+
+const RULES_PATH = "00_Command_Center/definition-of-done.md";
+
+describe("definition of done rules", () => {
+	it("overrides default rules and reports invalid checks", () => {
+		const rules = parseDefinitionOfDoneRules(
+			{
+				passing_artifact_score: 85,
+				rules: {
+					quiz_passed: [{ kind: "quiz", min: "9" }],
+					peer_review: [
+						{ kind: "flag", flag: "reviewed", message: "Ask a peer to review." },
+						{ kind: "links", min: -1 },
+						{ kind: "telepathy" },
+					],
+				},
+			},
+			RULES_PATH,
+		);
+
+		expect(rules.passing_artifact_score).toBe(85);
+		expect(rules.rules.quiz_passed).toEqual([{ kind: "quiz", min: 9 }]);
+		expect(rules.rules.connections).toBe(
+			DEFAULT_DEFINITION_OF_DONE_RULES.rules.connections,
+		);
+		expect(rules.rules.peer_review).toHaveLength(1);
+		expect(rules.source).toBe(RULES_PATH);
+		expect(rules.issues).toEqual([
+			"peer_review[1]: links needs a numeric min.",
+			"peer_review[2]: unknown check kind telepathy.",
+		]);
+	});
+
+	it("explains which rule blocked promotion", () => {
+		const rules = parseDefinitionOfDoneRules({
+			passing_artifact_score: 85,
+			rules: { quiz_passed: [{ kind: "quiz", min: 9 }] },
+		});
+
+		expect(
+			explainPromotionBlockers(
+				note({ status: "test", quizScore: 8 }),
+				"apply",
+				"2026-05-13",
+				rules,
+			),
+		).toEqual([{ rule: "quiz_passed", message: "Quiz score is below 9." }]);
+		expect(
+			explainPromotionBlockers(
+				note({
+					status: "visualize",
+					artifacts: {
+						html_explainer: { path: "_explainers/cache.html", quality_score: 80 },
+					},
+				}),
+				"connect",
+				"2026-05-13",
+				rules,
+			),
+		).toEqual([
+			{
+				rule: "visualize.required_artifacts",
+				message: "html explainer quality score is below 85.",
+			},
+		]);
+	});
+
+	it("evaluates custom rules named by a pipeline stage", () => {
+		const pipeline: LearningPipeline = {
+			id: "research",
+			name: "Research",
+			stages: [
+				{ id: "draft", weight: 80, action: "Draft", agent: "reasoning-model" },
+				{
+					id: "published",
+					weight: 0,
+					action: "Done",
+					agent: "deterministic",
+					promotionRules: ["peer_review", "citations"],
+				},
+			],
+		};
+		const rules = parseDefinitionOfDoneRules({
+			rules: {
+				peer_review: [
+					{
+						kind: "any",
+						checks: [
+							{ kind: "flag", flag: "reviewed" },
+							{ kind: "artifact", artifact: "review", min_quality: 60 },
+						],
+						message: "Ask a peer to review the draft.",
+					},
+				],
+			},
+		});
+
+		expect(
+			explainPromotionBlockers(
+				note({ status: "draft", pipeline }),
+				"published",
+				"2026-05-13",
+				rules,
+			),
+		).toEqual([
+			{ rule: "peer_review", message: "Ask a peer to review the draft." },
+			{
+				rule: "citations",
+				message: "Definition of Done rule citations is not defined.",
+			},
+		]);
+	});
+});
+
+function note(overrides: Partial<LearningNote> = {}): LearningNote {
+	return {
+		path: "Learning/cache.md",
+		title: "Cache",
+		type: "concept",
+		area: "systems",
+		status: "explain",
+		maturity: 2,
+		priority: 50,
+		links: ["a", "b", "c", "d", "e"],
+		backlinks: [],
+		graphScore: 0,
+		missingFields: [],
+		...overrides,
+	};
+}
@@ -0,0 +1,324 @@
+import { normalizePath } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import type { MasteryCategory } from "@/learning/mastery";
+import type {
+	LearningArtifactType,
+	LearningDefinitionOfDone,
+} from "@/learning/types";
+
+export const DEFINITION_OF_DONE_RULES_PATH = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/definition-of-done.md`,
+);
+
+export type DefinitionOfDoneFlag = Exclude<
+	keyof LearningDefinitionOfDone,
+	"evidence_notes"
+>;
+
+/**
+ * One requirement inside a rule. Keys mirror the YAML in the rules file, so
+ * they stay snake_case like the rest of the learning frontmatter.
+ */
+export type DefinitionOfDoneCheck = { message?: string } & (
+	| {
+			kind: "artifact";
+			artifact: LearningArtifactType;
+			min_quality?: number;
+			require_score?: boolean;
+	  }
+	| { kind: "links"; min: number }
+	| { kind: "prerequisites" }
+	| { kind: "quiz"; min: number; otherwise?: DefinitionOfDoneCheck }
+	| { kind: "mastery"; min: number; categories?: MasteryCategory[] }
+	| { kind: "flag"; flag: DefinitionOfDoneFlag; allow_missing?: boolean }
+	| { kind: "evidence" }
+	| { kind: "no_weak_points" }
+	| { kind: "any"; checks: DefinitionOfDoneCheck[] }
+);
+
+export interface DefinitionOfDoneRules {
+	passing_artifact_score: number;
+	rules: Record<string, DefinitionOfDoneCheck[]>;
+	/** Vault path the rules were read from; absent for the built-in defaults. */
+	source?: string;
+	issues: string[];
+}
+
+export const DEFAULT_DEFINITION_OF_DONE_RULES: DefinitionOfDoneRules = {
+	passing_artifact_score: 70,
+	rules: {
+		explanation_reviewed: [
+			{
+				kind: "flag",
+				flag: "explanation_reviewed",
+				allow_missing: true,
+				message: "Explanation has not been reviewed.",
+			},
+		],
+		connections: [
+			{ kind: "prerequisites" },
+			{
+				kind: "any",
+				checks: [
+					{ kind: "links", min: 5 },
+					{ kind: "artifact", artifact: "bridge_note", require_score: true },
+				],
+				message: "At least five links or a passing bridge note are required.",
+			},
+		],
+		quiz_passed: [
+			{
+				kind: "quiz",
+				min: 7,
+				otherwise: { kind: "mastery", min: 6, categories: ["recall", "mechanism"] },
+			},
+		],
+		application_evidence: [
+			{
+				kind: "any",
+				checks: [
+					{ kind: "artifact", artifact: "case_study", require_score: true },
+					{ kind: "mastery", min: 6, categories: ["application"] },
+				],
+				message: "Application evidence or a passing case study is missing.",
+			},
+		],
+		done_mastery: [
+			{ kind: "mastery", min: 6 },
+			{ kind: "evidence", message: "Definition of Done evidence notes are missing." },
+			{
+				kind: "any",
+				checks: [
+					{ kind: "artifact", artifact: "review", require_score: true },
+					{ kind: "flag", flag: "reviewed" },
+				],
+				message: "Review evidence is missing.",
+			},
+		],
+		answer_accepted: [
+			{
+				kind: "any",
+				checks: [
+					{ kind: "artifact", artifact: "answer", require_score: true },
+					{ kind: "flag", flag: "answer_reviewed" },
+				],
+				message: "A passing answer or a reviewed answer is required.",
+			},
+		],
+		extraction_reviewed: [
+			{
+				kind: "any",
+				checks: [
+					{ kind: "artifact", artifact: "concept_extraction", require_score: true },
+					{ kind: "flag", flag: "extraction_reviewed" },
+				],
+				message: "Extracted concepts have not been reviewed.",
+			},
+		],
+		decision_reviewed: [
+			{
+				kind: "any",
+				checks: [
+					{ kind: "artifact", artifact: "decision_review", require_score: true },
+					{ kind: "flag", flag: "decision_reviewed" },
+				],
+				message: "The decision review has not been confirmed.",
+			},
+		],
+		mastered_mastery: [
+			{ kind: "mastery", min: 8 },
+			{ kind: "evidence", message: "Mastery evidence notes are missing." },
+			{ kind: "no_weak_points" },
+		],
+	},
+	issues: [],
+};
+
+const ARTIFACT_TYPES: readonly LearningArtifactType[] = [
+	"html_explainer",
+	"quiz",
+	"bridge_note",
+	"case_study",
+	"review",
+	"answer",
+	"concept_extraction",
+	"decision_review",
+];
+
+const MASTERY_CATEGORIES: readonly MasteryCategory[] = [
+	"recall",
+	"mechanism",
+	"transfer",
+	"application",
+];
+
+const DOD_FLAGS: readonly DefinitionOfDoneFlag[] = [
+	"explanation_reviewed",
+	"visualization_reviewed",
+	"connections_reviewed",
+	"quiz_reviewed",
+	"application_reviewed",
+	"reviewed",
+	"answer_reviewed",
+	"extraction_reviewed",
+	"decision_reviewed",
+];
+
+/**
+ * Reads the rules file frontmatter on top of the defaults. Rules named in the
+ * file replace the default rule of the same name; invalid checks are dropped
+ * and reported in `issues` so the Command Center can show them.
+ */
+export function parseDefinitionOfDoneRules(
+	frontmatter: Record<string, unknown> | undefined,
+	source?: string,
+): DefinitionOfDoneRules {
+	const issues: string[] = [];
+	const rules = { ...DEFAULT_DEFINITION_OF_DONE_RULES.rules };
+	let passingArtifactScore = DEFAULT_DEFINITION_OF_DONE_RULES.passing_artifact_score;
+
+	if (frontmatter?.passing_artifact_score !== undefined) {
+		const score = parseScore(frontmatter.passing_artifact_score, 100);
+		if (score === undefined) {
+			issues.push("passing_artifact_score must be a number from 0 to 100.");
+		} else {
+			passingArtifactScore = score;
+		}
+	}
+
+	const configured = frontmatter?.rules;
+	if (configured !== undefined && !isRecord(configured)) {
+		issues.push("rules must map rule names to lists of checks.");
+	}
+	if (isRecord(configured)) {
+		for (const [name, value] of Object.entries(configured)) {
+			if (!Array.isArray(value)) {
+				issues.push(`Rule ${name} must be a list of checks.`);
+				continue;
+			}
+			rules[name] = value
+				.map((item, index) => parseCheck(item, `${name}[${index}]`, issues))
+				.filter((check): check is DefinitionOfDoneCheck => check !== null);
+		}
+	}
+
+	return {
+		passing_artifact_score: passingArtifactScore,
+		rules,
+		...(source ? { source } : {}),
+		issues,
+	};
+}
+
+export function formatDefinitionOfDoneRulesBody(): string {
+	return `# Definition of Done rules
+
+Promotion gates for learning notes. Each pipeline stage lists the rules a note must pass to enter it; every rule is a list of checks that must all pass.
+
+Check kinds:
+
+- \`artifact\`: \`artifact\` exists, and its \`quality_score\` reaches \`min_quality\` (default \`passing_artifact_score\`). \`require_score: true\` also requires a score.
+- \`links\`: at least \`min\` outgoing links.
+- \`prerequisites\`: no unmet prerequisites.
+- \`quiz\`: \`quiz_score\` reaches \`min\`; \`otherwise\` is checked when no quiz was taken.
+- \`mastery\`: decayed mastery reaches \`min\` in \`categories\` (default all four).
+- \`flag\`: the \`dod\` flag is true; \`allow_missing: true\` only fails on an explicit false.
+- \`evidence\`: \`dod.evidence_notes\` or \`mastery.evidence_notes\` is not empty.
+- \`no_weak_points\`: \`mastery.weak_points\` is empty.
+- \`any\`: at least one of \`checks\` passes.
+
+Add \`message\` to any check to change the blocker text.
+`;
+}
+
+function parseCheck(
+	value: unknown,
+	label: string,
+	issues: string[],
+): DefinitionOfDoneCheck | null {
+	if (!isRecord(value)) {
+		issues.push(`${label} must be an object with a kind.`);
+		return null;
+	}
+	const message = typeof value.message === "string" && value.message.trim()
+		? { message: value.message.trim() }
+		: {};
+	const invalid = (reason: string): null => {
+		issues.push(`${label}: ${reason}`);
+		return null;
+	};
+
+	switch (value.kind) {
+		case "artifact": {
+			const artifact = ARTIFACT_TYPES.find((type) => type === value.artifact);
+			if (!artifact) return invalid(`unknown artifact ${String(value.artifact)}.`);
+			const minQuality = parseScore(value.min_quality, 100);
+			return {
+				kind: "artifact",
+				artifact,
+				...(minQuality !== undefined ? { min_quality: minQuality } : {}),
+				...(value.require_score === true ? { require_score: true } : {}),
+				...message,
+			};
+		}
+		case "links":
+		case "quiz":
+		case "mastery": {
+			const min = parseScore(value.min, value.kind === "links" ? Infinity : 10);
+			if (min === undefined) return invalid(`${value.kind} needs a numeric min.`);
+			if (value.kind === "links") return { kind: "links", min, ...message };
+			if (value.kind === "quiz") {
+				const otherwise =
+					value.otherwise === undefined
+						? null
+						: parseCheck(value.otherwise, `${label}.otherwise`, issues);
+				return { kind: "quiz", min, ...(otherwise ? { otherwise } : {}), ...message };
+			}
+			const categories = Array.isArray(value.categories)
+				? MASTERY_CATEGORIES.filter((category) =>
+						(value.categories as unknown[]).includes(category),
+					)
+				: [];
+			return {
+				kind: "mastery",
+				min,
+				...(categories.length > 0 ? { categories } : {}),
+				...message,
+			};
+		}
+		case "prerequisites":
+		case "evidence":
+		case "no_weak_points":
+			return { kind: value.kind, ...message };
+		case "flag": {
+			const flag = DOD_FLAGS.find((item) => item === value.flag);
+			if (!flag) return invalid(`unknown dod flag ${String(value.flag)}.`);
+			return {
+				kind: "flag",
+				flag,
+				...(value.allow_missing === true ? { allow_missing: true } : {}),
+				...message,
+			};
+		}
+		case "any": {
+			if (!Array.isArray(value.checks)) return invalid("any needs a list of checks.");
+			const checks = value.checks
+				.map((item, index) => parseCheck(item, `${label}.checks[${index}]`, issues))
+				.filter((check): check is DefinitionOfDoneCheck => check !== null);
+			if (checks.length === 0) return invalid("any has no valid checks.");
+			return { kind: "any", checks, ...message };
+		}
+		default:
+			return invalid(`unknown check kind ${String(value.kind)}.`);
+	}
+}
+
+function parseScore(value: unknown, max: number): number | undefined {
+	const score = typeof value === "string" ? Number(value) : value;
+	if (typeof score !== "number" || !Number.isFinite(score)) return undefined;
+	return score >= 0 && score <= max ? score : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -81,6 +81,28 @@ describe("definition of done", () => {
 		).toBe(true);
 	});
 
+	it("blocks mastery promotion when examiner scores have decayed", () => {
+		const blockers = getPromotionBlockers(
+			note({
+				status: "done",
+				dod: { evidence_notes: ["_reviews/cache.md"] },
+				mastery: {
+					recall_score: 8,
+					mechanism_score: 8,
+					transfer_score: 8,
+					application_score: 8,
+					last_examined: "2026-01-01",
+				},
+			}),
+			"mastered",
+			"2026-06-30",
+		);
+
+		expect(blockers).toContain(
+			"recall mastery has decayed to 5.3 since 2026-01-01; re-examine to reach 8.",
+		);
+	});
+
 	it("evaluates current note blockers for command center display", () => {
 		const evaluation = evaluateDefinitionOfDone(
 			note({
@@ -1,178 +1,264 @@
+import {
+	DEFAULT_DEFINITION_OF_DONE_RULES,
+	type DefinitionOfDoneCheck,
+	type DefinitionOfDoneRules,
+} from "@/learning/definition-of-done-rules";
+import { formatLearningDate } from "@/learning/frontmatter";
+import {
+	formatArtifactEvidenceLabel,
+	getNextPipelineStatus,
+	getNotePipeline,
+	getPipelineStatusIndex,
+	hasLearningArtifact,
+} from "@/learning/learning-pipeline";
+import { estimateCurrentMastery, type MasteryCategory } from "@/learning/mastery";
 import type {
-	LearningArtifactRecord,
 	LearningArtifactType,
 	LearningNote,
+	LearningPipelineStage,
 	LearningStatus,
 } from "@/learning/types";
 
 export interface DefinitionOfDoneEvaluation {
 	passed: boolean;
 	blockers: string[];
+	details: DefinitionOfDoneBlocker[];
 }
 
-const PASSING_ARTIFACT_SCORE = 70;
-const DONE_MASTERY_SCORE = 6;
-const MASTERED_MASTERY_SCORE = 8;
+/** A blocker together with the rule that produced it. */
+export interface DefinitionOfDoneBlocker {
+	rule: string;
+	message: string;
+}
+
+const ALL_MASTERY_CATEGORIES: readonly MasteryCategory[] = [
+	"recall",
+	"mechanism",
+	"transfer",
+	"application",
+];
 
 export function evaluateDefinitionOfDone(
 	note: LearningNote,
+	today = formatLearningDate(),
+	rules: DefinitionOfDoneRules = DEFAULT_DEFINITION_OF_DONE_RULES,
 ): DefinitionOfDoneEvaluation {
 	if (!note.status) {
-		return { passed: false, blockers: ["Learning status is missing."] };
+		return toEvaluation([{ rule: "metadata", message: "Learning status is missing." }]);
+	}
+	const pipeline = getNotePipeline(note);
+	if (getPipelineStatusIndex(pipeline, note.status) === -1) {
+		return toEvaluation([formatUnknownStageBlocker(note.status, note)]);
 	}
-	const target = getNextStatusForEvaluation(note.status);
-	if (!target) return { passed: true, blockers: [] };
-	const blockers = getPromotionBlockers(note, target);
-	return { passed: blockers.length === 0, blockers };
+	const target = getNextPipelineStatus(pipeline, note.status);
+	if (!target) return toEvaluation([]);
+	return toEvaluation(explainPromotionBlockers(note, target, today, rules));
 }
 
 export function canPromoteStatus(
 	note: LearningNote,
 	targetStatus: LearningStatus,
+	today = formatLearningDate(),
+	rules: DefinitionOfDoneRules = DEFAULT_DEFINITION_OF_DONE_RULES,
 ): boolean {
-	return getPromotionBlockers(note, targetStatus).length === 0;
+	return explainPromotionBlockers(note, targetStatus, today, rules).length === 0;
 }
 
 export function getPromotionBlockers(
 	note: LearningNote,
 	targetStatus: LearningStatus,
+	today = formatLearningDate(),
+	rules: DefinitionOfDoneRules = DEFAULT_DEFINITION_OF_DONE_RULES,
 ): string[] {
+	return explainPromotionBlockers(note, targetStatus, today, rules).map(
+		(blocker) => blocker.message,
+	);
+}
+
+/**
+ * Gates come from the note's pipeline: the stage being left must have its
+ * required artifacts, and every rule the target stage lists must pass.
+ * Mastery checks read the decayed estimate for `today`, so stale examiner
+ * scores stop counting once they have faded below the threshold.
+ */
+export function explainPromotionBlockers(
+	note: LearningNote,
+	targetStatus: LearningStatus,
+	today = formatLearningDate(),
+	rules: DefinitionOfDoneRules = DEFAULT_DEFINITION_OF_DONE_RULES,
+): DefinitionOfDoneBlocker[] {
 	const blockers = getBaselineBlockers(note);
 	if (blockers.length > 0) return blockers;
+	const pipeline = getNotePipeline(note);
+	const index = getPipelineStatusIndex(pipeline, targetStatus);
+	const target = pipeline.stages[index];
+	if (!target) return [formatUnknownStageBlocker(targetStatus, note)];
+	const context: CheckContext = {
+		note,
+		current: {
+			...note,
+			mastery: estimateCurrentMastery(note.mastery, today, note.masteryHistory),
+		},
+		passingArtifactScore: rules.passing_artifact_score,
+	};
 
-	switch (targetStatus) {
-		case "seed":
-		case "explain":
-			return [];
-		case "visualize":
-			return getExplainToVisualizeBlockers(note);
-		case "connect":
-			return getVisualizeToConnectBlockers(note);
-		case "test":
-			return getConnectToTestBlockers(note);
-		case "apply":
-			return getTestToApplyBlockers(note);
-		case "review":
-			return getApplyToReviewBlockers(note);
-		case "done":
-			return getReviewToDoneBlockers(note);
-		case "mastered":
-			return getDoneToMasteredBlockers(note);
+	const leaving = pipeline.stages[index - 1];
+	if (leaving) blockers.push(...getRequiredArtifactBlockers(leaving, context));
+	for (const rule of target.promotionRules ?? []) {
+		const checks = rules.rules[rule];
+		if (!checks) {
+			blockers.push({
+				rule,
+				message: `Definition of Done rule ${rule} is not defined.`,
+			});
+			continue;
+		}
+		for (const check of checks) {
+			for (const message of evaluateCheck(check, context)) {
+				blockers.push({ rule, message });
+			}
+		}
 	}
-}
-
-function getBaselineBlockers(note: LearningNote): string[] {
-	const blockers: string[] = [];
-	if (!note.type) blockers.push("Note type is missing.");
-	if (!note.area) blockers.push("Learning area is missing.");
-	if (!note.status) blockers.push("Learning status is missing.");
 	return blockers;
 }
 
-function getExplainToVisualizeBlockers(note: LearningNote): string[] {
-	if (note.dod?.explanation_reviewed === false) {
-		return ["Explanation has not been reviewed."];
-	}
-	return [];
+interface CheckContext {
+	note: LearningNote;
+	/** The note with mastery decayed to the evaluation date. */
+	current: LearningNote;
+	passingArtifactScore: number;
 }
 
-function getVisualizeToConnectBlockers(note: LearningNote): string[] {
-	const artifact = note.artifacts?.html_explainer;
-	if (!note.artifactHtml && !artifact?.path) {
-		return ["HTML explainer evidence is missing."];
-	}
-	return getArtifactQualityBlockers("html_explainer", artifact);
+function evaluateCheck(check: DefinitionOfDoneCheck, context: CheckContext): string[] {
+	const blockers = getCheckBlockers(check, context);
+	return blockers.length > 0 && check.message ? [check.message] : blockers;
 }
 
-function getConnectToTestBlockers(note: LearningNote): string[] {
-	const blockers: string[] = [];
-	if ((note.unmetPrerequisites ?? []).length > 0) {
-		blockers.push(`Unmet prerequisites: ${note.unmetPrerequisites?.join(", ")}.`);
-	}
-	if (note.links.length < 5 && !hasPassingArtifact(note.artifacts?.bridge_note)) {
-		blockers.push("At least five links or a passing bridge note are required.");
+function getCheckBlockers(
+	check: DefinitionOfDoneCheck,
+	context: CheckContext,
+): string[] {
+	const { note, current } = context;
+	switch (check.kind) {
+		case "artifact":
+			return getArtifactBlockers(
+				check.artifact,
+				context,
+				check.min_quality ?? context.passingArtifactScore,
+				check.require_score === true,
+			);
+		case "links":
+			return note.links.length >= check.min
+				? []
+				: [`At least ${check.min} links are required.`];
+		case "prerequisites":
+			return (note.unmetPrerequisites ?? []).length > 0
+				? [`Unmet prerequisites: ${note.unmetPrerequisites?.join(", ")}.`]
+				: [];
+		case "quiz":
+			if (typeof note.quizScore === "number") {
+				return note.quizScore >= check.min
+					? []
+					: [`Quiz score is below ${check.min}.`];
+			}
+			if (check.otherwise && evaluateCheck(check.otherwise, context).length === 0) {
+				return [];
+			}
+			if (check.otherwise?.kind !== "mastery") return ["Quiz evidence is missing."];
+			return [
+				`Quiz or ${(check.otherwise.categories ?? ALL_MASTERY_CATEGORIES).join("/")} mastery evidence is missing.`,
+			];
+		case "mastery":
+			return getMasteryThresholdBlockers(
+				current,
+				note,
+				check.min,
+				check.categories ?? ALL_MASTERY_CATEGORIES,
+			);
+		case "flag": {
+			const value = note.dod?.[check.flag];
+			const passed = check.allow_missing ? value !== false : value === true;
+			return passed ? [] : [`${check.flag.replace(/_/g, " ")} is not confirmed.`];
+		}
+		case "evidence":
+			return hasEvidence(note) ? [] : ["Evidence notes are missing."];
+		case "no_weak_points":
+			return (current.mastery?.weak_points ?? []).length > 0
+				? ["Weak points must be resolved before mastery."]
+				: [];
+		case "any": {
+			const results = check.checks.map((item) => evaluateCheck(item, context));
+			return results.some((result) => result.length === 0)
+				? []
+				: [results.map((result) => result.join(" ")).join(" Or: ")];
+		}
 	}
-	return blockers;
 }
 
-function getTestToApplyBlockers(note: LearningNote): string[] {
-	if (typeof note.quizScore === "number") {
-		return note.quizScore >= 7 ? [] : ["Quiz score is below 7."];
+function getBaselineBlockers(note: LearningNote): DefinitionOfDoneBlocker[] {
+	const blockers: DefinitionOfDoneBlocker[] = [];
+	if (!note.type) blockers.push({ rule: "metadata", message: "Note type is missing." });
+	if (!note.area) {
+		blockers.push({ rule: "metadata", message: "Learning area is missing." });
 	}
-	if (
-		(note.mastery?.recall_score ?? 0) >= DONE_MASTERY_SCORE &&
-		(note.mastery?.mechanism_score ?? 0) >= DONE_MASTERY_SCORE
-	) {
-		return [];
-	}
-	return ["Quiz or recall/mechanism mastery evidence is missing."];
-}
-
-function getApplyToReviewBlockers(note: LearningNote): string[] {
-	if (
-		hasPassingArtifact(note.artifacts?.case_study) ||
-		(note.mastery?.application_score ?? 0) >= DONE_MASTERY_SCORE
-	) {
-		return [];
+	if (!note.status) {
+		blockers.push({ rule: "metadata", message: "Learning status is missing." });
 	}
-	return ["Application evidence or a passing case study is missing."];
+	return blockers;
 }
 
-function getReviewToDoneBlockers(note: LearningNote): string[] {
-	const blockers = getMasteryThresholdBlockers(note, DONE_MASTERY_SCORE);
-	if (!hasEvidence(note)) {
-		blockers.push("Definition of Done evidence notes are missing.");
-	}
-	if (!hasPassingArtifact(note.artifacts?.review) && note.dod?.reviewed !== true) {
-		blockers.push("Review evidence is missing.");
-	}
-	return blockers;
+function getRequiredArtifactBlockers(
+	stage: LearningPipelineStage,
+	context: CheckContext,
+): DefinitionOfDoneBlocker[] {
+	return (stage.requiredArtifacts ?? []).flatMap((type) =>
+		getArtifactBlockers(type, context, context.passingArtifactScore, false).map(
+			(message) => ({ rule: `${stage.id}.required_artifacts`, message }),
+		),
+	);
 }
 
-function getDoneToMasteredBlockers(note: LearningNote): string[] {
-	const blockers = getMasteryThresholdBlockers(note, MASTERED_MASTERY_SCORE);
-	if (!hasEvidence(note)) {
-		blockers.push("Mastery evidence notes are missing.");
-	}
-	if ((note.mastery?.weak_points ?? []).length > 0) {
-		blockers.push("Weak points must be resolved before mastery.");
+function getArtifactBlockers(
+	type: LearningArtifactType,
+	context: CheckContext,
+	minQuality: number,
+	requireScore: boolean,
+): string[] {
+	const score = context.note.artifacts?.[type]?.quality_score;
+	if (score === undefined) {
+		if (requireScore) {
+			return [`${formatArtifactEvidenceLabel(type)} quality score is missing.`];
+		}
+		return hasLearningArtifact(context.note, type)
+			? []
+			: [`${formatArtifactEvidenceLabel(type)} evidence is missing.`];
 	}
-	return blockers;
+	return score >= minQuality
+		? []
+		: [`${formatArtifactType(type)} quality score is below ${minQuality}.`];
 }
 
 function getMasteryThresholdBlockers(
 	note: LearningNote,
+	examined: LearningNote,
 	threshold: number,
+	categories: readonly MasteryCategory[],
 ): string[] {
 	const blockers: string[] = [];
-	for (const [label, score] of [
-		["recall", note.mastery?.recall_score],
-		["mechanism", note.mastery?.mechanism_score],
-		["transfer", note.mastery?.transfer_score],
-		["application", note.mastery?.application_score],
-	] as const) {
-		if ((score ?? 0) < threshold) {
-			blockers.push(`${label} mastery score is below ${threshold}.`);
-		}
+	for (const label of categories) {
+		const key = `${label}_score` as const;
+		const score = note.mastery?.[key];
+		const examinedScore = examined.mastery?.[key];
+		if ((score ?? 0) >= threshold) continue;
+		blockers.push(
+			(examinedScore ?? 0) >= threshold
+				? `${label} mastery has decayed to ${score} since ${examined.mastery?.last_examined}; re-examine to reach ${threshold}.`
+				: `${label} mastery score is below ${threshold}.`,
+		);
 	}
 	return blockers;
 }
 
-function getArtifactQualityBlockers(
-	type: LearningArtifactType,
-	artifact: LearningArtifactRecord | undefined,
-): string[] {
-	if (!artifact || artifact.quality_score === undefined) return [];
-	if (artifact.quality_score >= PASSING_ARTIFACT_SCORE) return [];
-	return [`${formatArtifactType(type)} quality score is below ${PASSING_ARTIFACT_SCORE}.`];
-}
-
-function hasPassingArtifact(
-	artifact: LearningArtifactRecord | undefined,
-): boolean {
-	return (artifact?.quality_score ?? 0) >= PASSING_ARTIFACT_SCORE;
-}
-
 function hasEvidence(note: LearningNote): boolean {
 	return (
 		(note.dod?.evidence_notes ?? []).length > 0 ||
@@ -180,26 +266,25 @@ function hasEvidence(note: LearningNote): boolean {
 	);
 }
 
-function getNextStatusForEvaluation(
+function toEvaluation(details: DefinitionOfDoneBlocker[]): DefinitionOfDoneEvaluation {
+	return {
+		passed: details.length === 0,
+		blockers: details.map((blocker) => blocker.message),
+		details,
+	};
+}
+
+function formatUnknownStageBlocker(
 	status: LearningStatus,
-): LearningStatus | null {
-	const index = STATUS_ORDER.indexOf(status);
-	if (index === -1) return null;
-	return STATUS_ORDER[index + 1] ?? null;
+	note: LearningNote,
+): DefinitionOfDoneBlocker {
+	const pipeline = getNotePipeline(note);
+	return {
+		rule: "pipeline",
+		message: `"${status}" is not a stage of the ${pipeline.name} pipeline.`,
+	};
 }
 
 function formatArtifactType(type: LearningArtifactType): string {
 	return type.replace(/_/g, " ");
 }
-
-const STATUS_ORDER: LearningStatus[] = [
-	"seed",
-	"explain",
-	"visualize",
-	"connect",
-	"test",
-	"apply",
-	"review",
-	"done",
-	"mastered",
-];
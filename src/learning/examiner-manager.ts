@@ -1,8 +1,11 @@
 import { type App, normalizePath, TFile, TFolder } from "obsidian";
 import { ARTIFACT_FOLDERS, LEARNING_FRONTMATTER_KEYS } from "@/learning/constants";
-import { formatLearningDate } from "@/learning/frontmatter";
+import { formatLearningDate, parseLearningFrontmatter } from "@/learning/frontmatter";
 import type { GeneratedArtifact, LearningMastery } from "@/learning/types";
 import { extractWeakPoints, updateMasteryScore } from "@/learning/mastery";
+import { gradeFromMastery, scheduleReview } from "@/learning/spaced-repetition";
+import { type ExaminerSession, parseExaminerArtifact } from "@/learning/examiner-session";
+import { appendMasteryHistoryEntry } from "@/learning/mastery-history-manager";
 
 export interface ExaminerResult {
 	recall: number;
@@ -25,7 +28,7 @@ export async function generateExaminerForNote(
 	const folderPath = normalizePath(`${ARTIFACT_FOLDERS.reviews}/exams`);
 	await ensureFolder(app, ARTIFACT_FOLDERS.reviews);
 	await ensureFolder(app, folderPath);
-	const artifactPath = normalizePath(`${folderPath}/${slugify(file.basename)}-exam.md`);
+	const artifactPath = getExaminerPath(file);
 	const content = buildExaminerArtifact(file.path, file.basename);
 	const existing = app.vault.getAbstractFileByPath(artifactPath);
 	if (existing instanceof TFile) {
@@ -63,16 +66,90 @@ export function applyExaminerResultToMastery(
 	return next;
 }
 
+export interface LoadedExaminerSession extends ExaminerSession {
+	notePath: string;
+	examPath: string;
+}
+
+export async function loadExaminerForNote(
+	app: App,
+	file: TFile,
+): Promise<LoadedExaminerSession> {
+	const examPath = getExaminerPath(file);
+	const examFile = app.vault.getAbstractFileByPath(examPath);
+	if (!(examFile instanceof TFile)) {
+		throw new Error(`No exam found at ${examPath}. Run the examiner first.`);
+	}
+	const session = parseExaminerArtifact(await app.vault.cachedRead(examFile));
+	if (session.questions.length === 0) {
+		throw new Error(`${examPath} has no exam questions.`);
+	}
+	return { ...session, notePath: file.path, examPath };
+}
+
+export async function saveExaminerTranscript(
+	app: App,
+	file: TFile,
+	content: string,
+	date = formatLearningDate(),
+): Promise<string> {
+	const folderPath = normalizePath(`${ARTIFACT_FOLDERS.reviews}/exams`);
+	await ensureFolder(app, ARTIFACT_FOLDERS.reviews);
+	await ensureFolder(app, folderPath);
+	const basePath = `${folderPath}/${slugify(file.basename)}-transcript-${date}`;
+	let transcriptPath = normalizePath(`${basePath}.md`);
+	for (
+		let attempt = 2;
+		app.vault.getAbstractFileByPath(transcriptPath);
+		attempt++
+	) {
+		transcriptPath = normalizePath(`${basePath}-${attempt}.md`);
+	}
+	await app.vault.create(transcriptPath, content);
+	return transcriptPath;
+}
+
 export async function writeExaminerResultFrontmatter(
 	app: App,
 	file: TFile,
 	result: ExaminerResult,
 ): Promise<void> {
-	const mastery = applyExaminerResultToMastery(undefined, result);
+	const today = formatLearningDate();
 	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		const current = parseLearningFrontmatter(frontmatter);
+		const mastery = applyExaminerResultToMastery(current.mastery, result);
 		frontmatter.mastery = mastery;
-		frontmatter[LEARNING_FRONTMATTER_KEYS.lastTouched] = formatLearningDate();
+		frontmatter[LEARNING_FRONTMATTER_KEYS.lastTouched] = today;
+
+		const grade = gradeFromMastery(mastery);
+		if (grade === null || !isSpacedReviewStatus(current.status)) return;
+		const { schedule, reviewDue } = scheduleReview(
+			current.reviewSchedule,
+			grade,
+			today,
+		);
+		frontmatter[LEARNING_FRONTMATTER_KEYS.reviewSchedule] = schedule;
+		frontmatter[LEARNING_FRONTMATTER_KEYS.reviewDue] = reviewDue;
 	});
+	await appendMasteryHistoryEntry(app, file, {
+		date: today,
+		source: "examiner",
+		recall: result.recall,
+		mechanism: result.mechanism,
+		transfer: result.transfer,
+		application: result.application,
+		evidence: result.evidenceNote,
+	});
+}
+
+function getExaminerPath(file: TFile): string {
+	return normalizePath(
+		`${ARTIFACT_FOLDERS.reviews}/exams/${slugify(file.basename)}-exam.md`,
+	);
+}
+
+function isSpacedReviewStatus(status: string | undefined): boolean {
+	return status === "review" || status === "done" || status === "mastered";
 }
 
 function buildExaminerArtifact(notePath: string, title: string): string {
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildExaminerScoringPrompt,
+	formatExaminerTranscript,
+	parseExaminerArtifact,
+	parseExaminerScoring,
+	toExaminerResult,
+} from "@/learning/examiner-session";
+
+const EXAM = `# Cache examiner
+
+Source note: \`Learning/cache.md\`
+
+## Question set
+
+### Recall
+
+1. Explain the core idea without looking at the source note.
+
+### Mechanism
+
+1. Describe the mechanism step by step.
+2. Explain why the mechanism works.
+
+### Transfer
+
+1. Compare this idea to a related note.
+
+### Application
+
+1. Apply the idea to a concrete project or decision.
+
+## Rubric
+
+- 0-5: incomplete or source-dependent.
+- 8-10: reliable without prompts and transferable.
+`;
+
+const REPLY = `Scores below.
+{
+  "recall": { "score": 8, "justification": "Clear definition." },
+  "mechanism": { "score": 4, "justification": "Skipped invalidation.", "weak_point": "explain invalidation" },
+  "transfer": { "score": 7, "justification": "Good CDN comparison." },
+  "application": { "score": 11, "justification": "Concrete plan." }
+}`;
+
+describe("examiner session", () => {
+	it("parses questions per category, the rubric, and the source note", () => {
+		const session = parseExaminerArtifact(EXAM);
+
+		expect(session.title).toBe("Cache examiner");
+		expect(session.sourcePath).toBe("Learning/cache.md");
+		expect(session.questions.map((question) => question.id)).toEqual([
+			"recall-1",
+			"mechanism-1",
+			"mechanism-2",
+			"transfer-1",
+			"application-1",
+		]);
+		expect(session.rubric).toHaveLength(2);
+	});
+
+	it("builds a rubric prompt with the learner answers", () => {
+		const prompt = buildExaminerScoringPrompt({
+			noteTitle: "Cache",
+			source: "A cache stores recent reads.",
+			session: parseExaminerArtifact(EXAM),
+			answers: { mechanism: "Entries expire after a TTL." },
+		});
+
+		expect(prompt).toContain("- 0-5: incomplete or source-dependent.");
+		expect(prompt).toContain("Entries expire after a TTL.");
+		expect(prompt).toContain("(no answer)");
+		expect(prompt).toContain("A cache stores recent reads.");
+	});
+
+	it("turns a model reply into an examiner result with evidence", () => {
+		const scoring = parseExaminerScoring(REPLY);
+		expect(scoring?.application.score).toBe(10);
+
+		const result = toExaminerResult(scoring!, "_reviews/exams/cache-transcript.md");
+		expect(result).toMatchObject({
+			recall: 8,
+			mechanism: 4,
+			evidenceNote: "_reviews/exams/cache-transcript.md",
+			notes: { mechanism: "explain invalidation" },
+		});
+		expect(parseExaminerScoring('{"recall": {"score": 8}}')).toBeNull();
+	});
+
+	it("formats a transcript with answers and justifications", () => {
+		const transcript = formatExaminerTranscript({
+			noteTitle: "Cache",
+			notePath: "Learning/cache.md",
+			examPath: "_reviews/exams/cache-exam.md",
+			session: parseExaminerArtifact(EXAM),
+			answers: { recall: "Keeps reads close." },
+			scoring: parseExaminerScoring(REPLY)!,
+			grader: "api",
+			date: "2026-05-20",
+		});
+
+		expect(transcript).toContain("type: exam-transcript");
+		expect(transcript).toContain("## Mechanism - 4/10");
+		expect(transcript).toContain("Keeps reads close.");
+		expect(transcript).toContain("Weak point: explain invalidation");
+	});
+});
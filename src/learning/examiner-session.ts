@@ -0,0 +1,238 @@
+import type { ExaminerResult } from "@/learning/examiner-manager";
+import { DONE_MASTERY_THRESHOLD, type MasteryCategory } from "@/learning/mastery";
+
+export interface ExaminerQuestion {
+	id: string;
+	category: MasteryCategory;
+	prompt: string;
+}
+
+export interface ExaminerSession {
+	title: string;
+	sourcePath?: string;
+	questions: ExaminerQuestion[];
+	rubric: string[];
+}
+
+export interface ExaminerCategoryScore {
+	score: number;
+	justification: string;
+	weakPoint?: string;
+}
+
+export type ExaminerScoring = Record<MasteryCategory, ExaminerCategoryScore>;
+
+export const EXAMINER_CATEGORIES: readonly MasteryCategory[] = [
+	"recall",
+	"mechanism",
+	"transfer",
+	"application",
+];
+
+/**
+ * Reads the question set and rubric from a `_reviews/exams` artifact. Each
+ * `### <Category>` heading under `## Question set` groups numbered questions.
+ */
+export function parseExaminerArtifact(content: string): ExaminerSession {
+	let title = "";
+	let sourcePath: string | undefined;
+	let section = "";
+	let category: MasteryCategory | null = null;
+	const questions: ExaminerQuestion[] = [];
+	const rubric: string[] = [];
+
+	for (const line of content.split(/\r?\n/)) {
+		const heading = /^(#{1,6})\s+(.+)$/.exec(line);
+		if (heading) {
+			const text = heading[2]!.trim();
+			if (heading[1] === "#" && !title) title = text;
+			if (heading[1] === "##") {
+				section = text.toLowerCase();
+				category = null;
+			}
+			if (heading[1] === "###") category = toCategory(text);
+			continue;
+		}
+
+		const source = /^Source note:\s*`?([^`]+)`?\s*$/.exec(line.trim());
+		if (source) {
+			sourcePath = source[1]!.trim();
+			continue;
+		}
+
+		if (section === "question set" && category) {
+			const question = /^(\d+)\.\s+(.+)$/.exec(line.trim());
+			if (question) {
+				questions.push({
+					id: `${category}-${question[1]}`,
+					category,
+					prompt: question[2]!.trim(),
+				});
+			}
+			continue;
+		}
+
+		if (section === "rubric") {
+			const item = /^[-*]\s+(.+)$/.exec(line.trim());
+			if (item) rubric.push(item[1]!.trim());
+		}
+	}
+
+	return { title, sourcePath, questions, rubric };
+}
+
+export function buildExaminerScoringPrompt(input: {
+	noteTitle: string;
+	source: string;
+	session: ExaminerSession;
+	answers: Partial<Record<MasteryCategory, string>>;
+}): string {
+	const categories = EXAMINER_CATEGORIES.map((category) => {
+		const questions = input.session.questions
+			.filter((question) => question.category === category)
+			.map((question) => `- ${question.prompt}`)
+			.join("\n");
+		return `### ${capitalize(category)}
+
+Questions:
+${questions || "- (no questions)"}
+
+Learner answer:
+${input.answers[category]?.trim() || "(no answer)"}`;
+	}).join("\n\n");
+
+	return `You are the examiner for the learning note "${input.noteTitle}".
+Score the learner's answers for each category from 0 to 10 using the rubric.
+Ground every judgement in the source note and quote the gap you found.
+
+Rubric:
+${input.session.rubric.map((item) => `- ${item}`).join("\n") || "- 0-10 by correctness and depth."}
+
+${categories}
+
+Source note:
+${input.source.slice(0, 12000)}
+
+Reply with JSON only, one entry per category:
+{
+  "recall": { "score": 0, "justification": "why this score", "weak_point": "concrete follow-up if below ${DONE_MASTERY_THRESHOLD}" },
+  "mechanism": { "score": 0, "justification": "", "weak_point": "" },
+  "transfer": { "score": 0, "justification": "", "weak_point": "" },
+  "application": { "score": 0, "justification": "", "weak_point": "" }
+}`;
+}
+
+export function parseExaminerScoring(text: string): ExaminerScoring | null {
+	const match = /\{[\s\S]*\}/.exec(text);
+	if (!match) return null;
+	let raw: unknown;
+	try {
+		raw = JSON.parse(match[0]);
+	} catch {
+		return null;
+	}
+	if (!isRecord(raw)) return null;
+
+	const scoring: Partial<ExaminerScoring> = {};
+	for (const category of EXAMINER_CATEGORIES) {
+		const entry = raw[category];
+		if (!isRecord(entry)) return null;
+		const score = Number(entry.score);
+		if (!Number.isFinite(score)) return null;
+		scoring[category] = {
+			score: Math.max(0, Math.min(10, score)),
+			justification: parseString(entry.justification) ?? "",
+			weakPoint: parseString(entry.weak_point ?? entry.weakPoint),
+		};
+	}
+	return scoring as ExaminerScoring;
+}
+
+export function toExaminerResult(
+	scoring: ExaminerScoring,
+	evidenceNote: string,
+): ExaminerResult {
+	return {
+		recall: scoring.recall.score,
+		mechanism: scoring.mechanism.score,
+		transfer: scoring.transfer.score,
+		application: scoring.application.score,
+		evidenceNote,
+		notes: {
+			recall: scoring.recall.weakPoint,
+			mechanism: scoring.mechanism.weakPoint,
+			transfer: scoring.transfer.weakPoint,
+			application: scoring.application.weakPoint,
+		},
+	};
+}
+
+export function formatExaminerTranscript(input: {
+	noteTitle: string;
+	notePath: string;
+	examPath: string;
+	session: ExaminerSession;
+	answers: Partial<Record<MasteryCategory, string>>;
+	scoring: ExaminerScoring;
+	grader: string;
+	date: string;
+}): string {
+	const sections = EXAMINER_CATEGORIES.map((category) => {
+		const result = input.scoring[category];
+		const questions = input.session.questions
+			.filter((question) => question.category === category)
+			.map((question) => `- ${question.prompt}`)
+			.join("\n");
+		return `## ${capitalize(category)} - ${result.score}/10
+
+${questions}
+
+### Answer
+
+${input.answers[category]?.trim() || "_No answer given._"}
+
+### Justification
+
+${result.justification || "_No justification returned._"}${
+			result.weakPoint ? `\n\nWeak point: ${result.weakPoint}` : ""
+		}`;
+	}).join("\n\n");
+
+	return `---
+type: exam-transcript
+source_note: "${input.notePath}"
+exam: "${input.examPath}"
+examined: ${input.date}
+grader: ${input.grader}
+---
+
+# ${input.noteTitle} exam transcript
+
+Source note: [[${input.noteTitle}]]
+Exam: \`${input.examPath}\`
+Examined: ${input.date}
+
+${sections}
+`;
+}
+
+function toCategory(value: string): MasteryCategory | null {
+	const normalized = value.trim().toLowerCase();
+	return EXAMINER_CATEGORIES.includes(normalized as MasteryCategory)
+		? (normalized as MasteryCategory)
+		: null;
+}
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function parseString(value: unknown): string | undefined {
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
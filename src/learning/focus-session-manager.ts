@@ -0,0 +1,43 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	type FocusSessionEntry,
+	formatFocusSessionEntry,
+	parseFocusSessionLog,
+} from "@/learning/focus-session";
+
+const FOCUS_LOG_PATH = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/focus-sessions.md`,
+);
+
+export async function appendFocusSession(
+	app: App,
+	entry: FocusSessionEntry,
+): Promise<void> {
+	await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+	const text = formatFocusSessionEntry(entry);
+	const existing = app.vault.getAbstractFileByPath(FOCUS_LOG_PATH);
+
+	if (existing instanceof TFile) {
+		await app.vault.process(existing, (content) => `${content.trimEnd()}\n\n${text}`);
+		return;
+	}
+
+	await app.vault.create(FOCUS_LOG_PATH, `# Focus sessions\n\n${text}`);
+}
+
+export async function readFocusSessions(app: App): Promise<FocusSessionEntry[]> {
+	const file = app.vault.getAbstractFileByPath(FOCUS_LOG_PATH);
+	if (!(file instanceof TFile)) return [];
+	return parseFocusSessionLog(await app.vault.cachedRead(file));
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) {
+		throw new Error(`${normalized} exists but is not a folder`);
+	}
+	await app.vault.createFolder(normalized);
+}
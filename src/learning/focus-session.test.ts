@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+	finishFocusSession,
+	formatFocusClock,
+	formatFocusSessionEntry,
+	getFocusRemainingMs,
+	parseFocusSessionLog,
+	pauseFocusSession,
+	resumeFocusSession,
+	startFocusSession,
+	summarizeFocusTime,
+} from "@/learning/focus-session";
+
+const MINUTE = 60_000;
+
+describe("focus sessions", () => {
+	it("leaves paused time out of the clock and the logged minutes", () => {
+		const start = new Date("2026-05-12T09:00:00").getTime();
+		let session = startFocusSession(
+			{
+				notePath: "db/wal.md",
+				noteTitle: "WAL",
+				area: "database",
+				stage: "explain",
+			},
+			25,
+			start,
+		);
+		session = pauseFocusSession(session, start + 10 * MINUTE);
+		expect(
+			formatFocusClock(getFocusRemainingMs(session, start + 40 * MINUTE)),
+		).toBe("15:00");
+
+		session = resumeFocusSession(session, start + 40 * MINUTE);
+		expect(
+			formatFocusClock(getFocusRemainingMs(session, start + 60 * MINUTE)),
+		).toBe("+05:00");
+
+		const entry = finishFocusSession(
+			session,
+			{ understanding: 4, summary: "  Explained checkpoints  " },
+			start + 60 * MINUTE,
+		);
+		expect(entry).toEqual({
+			date: "2026-05-12",
+			notePath: "db/wal.md",
+			noteTitle: "WAL",
+			area: "database",
+			stage: "explain",
+			plannedMinutes: 25,
+			minutes: 30,
+			understanding: 4,
+			summary: "Explained checkpoints",
+		});
+		expect(
+			parseFocusSessionLog(
+				`# Focus sessions\n\n${formatFocusSessionEntry(entry)}`,
+			),
+		).toEqual([entry]);
+	});
+
+	it("totals minutes per note and area within a range", () => {
+		const entries = [
+			{
+				date: "2026-05-10",
+				notePath: "a.md",
+				noteTitle: "A",
+				area: "db",
+				plannedMinutes: 25,
+				minutes: 20,
+			},
+			{
+				date: "2026-05-12",
+				notePath: "a.md",
+				noteTitle: "A",
+				area: "db",
+				plannedMinutes: 25,
+				minutes: 25,
+			},
+			{
+				date: "2026-05-12",
+				notePath: "b.md",
+				noteTitle: "B",
+				plannedMinutes: 25,
+				minutes: 30,
+			},
+			{
+				date: "2026-05-20",
+				notePath: "b.md",
+				noteTitle: "B",
+				plannedMinutes: 25,
+				minutes: 50,
+			},
+		];
+
+		expect(
+			summarizeFocusTime(entries, { from: "2026-05-11", to: "2026-05-17" }),
+		).toEqual({
+			totalMinutes: 55,
+			byNote: [
+				{ path: "b.md", title: "B", minutes: 30 },
+				{ path: "a.md", title: "A", minutes: 25 },
+			],
+			byArea: [
+				{ area: "unsorted", minutes: 30 },
+				{ area: "db", minutes: 25 },
+			],
+		});
+	});
+});
@@ -0,0 +1,237 @@
+import { formatLearningDate } from "@/learning/frontmatter";
+
+/** A running or paused focus session. Times are epoch milliseconds. */
+export interface FocusSessionState {
+	notePath: string;
+	noteTitle: string;
+	area?: string;
+	action?: string;
+	/** Note status when the session started, used to calibrate stage effort. */
+	stage?: string;
+	plannedMinutes: number;
+	startedAt: number;
+	/** Set while paused. */
+	pausedAt?: number;
+	/** Paused time already behind the session. */
+	pausedMs: number;
+}
+
+export type FocusUnderstanding = 1 | 2 | 3 | 4 | 5;
+
+/** A finished session as stored in the focus log. */
+export interface FocusSessionEntry {
+	date: string;
+	notePath: string;
+	noteTitle: string;
+	area?: string;
+	action?: string;
+	stage?: string;
+	plannedMinutes: number;
+	minutes: number;
+	understanding?: FocusUnderstanding;
+	summary?: string;
+}
+
+export interface FocusTimeTotals {
+	totalMinutes: number;
+	byNote: { path: string; title: string; minutes: number }[];
+	byArea: { area: string; minutes: number }[];
+}
+
+export const FOCUS_UNDERSTANDING_LABELS: Record<FocusUnderstanding, string> = {
+	1: "Lost",
+	2: "Shaky",
+	3: "Getting there",
+	4: "Solid",
+	5: "Could teach it",
+};
+
+const UNSORTED_AREA = "unsorted";
+
+export function startFocusSession(
+	input: Pick<
+		FocusSessionState,
+		"notePath" | "noteTitle" | "area" | "action" | "stage"
+	>,
+	plannedMinutes: number,
+	now: number,
+): FocusSessionState {
+	return {
+		notePath: input.notePath,
+		noteTitle: input.noteTitle,
+		...(input.area ? { area: input.area } : {}),
+		...(input.action ? { action: input.action } : {}),
+		...(input.stage ? { stage: input.stage } : {}),
+		plannedMinutes: Math.max(1, Math.round(plannedMinutes)),
+		startedAt: now,
+		pausedMs: 0,
+	};
+}
+
+export function pauseFocusSession(
+	state: FocusSessionState,
+	now: number,
+): FocusSessionState {
+	return state.pausedAt === undefined ? { ...state, pausedAt: now } : state;
+}
+
+export function resumeFocusSession(
+	state: FocusSessionState,
+	now: number,
+): FocusSessionState {
+	if (state.pausedAt === undefined) return state;
+	const { pausedAt, ...running } = state;
+	return { ...running, pausedMs: state.pausedMs + Math.max(0, now - pausedAt) };
+}
+
+/** Focused time so far, leaving out pauses. */
+export function getFocusElapsedMs(state: FocusSessionState, now: number): number {
+	const end = state.pausedAt ?? now;
+	return Math.max(0, end - state.startedAt - state.pausedMs);
+}
+
+/** Time left until the planned length; negative once the session runs over. */
+export function getFocusRemainingMs(state: FocusSessionState, now: number): number {
+	return state.plannedMinutes * 60_000 - getFocusElapsedMs(state, now);
+}
+
+/** `mm:ss`, with a leading `+` for overtime. */
+export function formatFocusClock(remainingMs: number): string {
+	const seconds = Math.floor(Math.abs(remainingMs) / 1000);
+	const clock = `${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(
+		seconds % 60,
+	).padStart(2, "0")}`;
+	return remainingMs < 0 ? `+${clock}` : clock;
+}
+
+export function finishFocusSession(
+	state: FocusSessionState,
+	review: { understanding?: FocusUnderstanding; summary?: string },
+	now: number,
+): FocusSessionEntry {
+	const summary = review.summary?.trim();
+	return {
+		date: formatLearningDate(new Date(now)),
+		notePath: state.notePath,
+		noteTitle: state.noteTitle,
+		...(state.area ? { area: state.area } : {}),
+		...(state.action ? { action: state.action } : {}),
+		...(state.stage ? { stage: state.stage } : {}),
+		plannedMinutes: state.plannedMinutes,
+		minutes: Math.round(getFocusElapsedMs(state, now) / 60_000),
+		...(review.understanding ? { understanding: review.understanding } : {}),
+		...(summary ? { summary } : {}),
+	};
+}
+
+/** Minutes per note and per area, optionally limited to a date range. */
+export function summarizeFocusTime(
+	entries: readonly FocusSessionEntry[],
+	range: { from?: string; to?: string } = {},
+): FocusTimeTotals {
+	const byNote = new Map<string, { path: string; title: string; minutes: number }>();
+	const byArea = new Map<string, number>();
+	let totalMinutes = 0;
+	for (const entry of entries) {
+		if (range.from && entry.date < range.from) continue;
+		if (range.to && entry.date > range.to) continue;
+		totalMinutes += entry.minutes;
+		const note = byNote.get(entry.notePath) ?? {
+			path: entry.notePath,
+			title: entry.noteTitle,
+			minutes: 0,
+		};
+		note.minutes += entry.minutes;
+		byNote.set(entry.notePath, note);
+		const area = entry.area ?? UNSORTED_AREA;
+		byArea.set(area, (byArea.get(area) ?? 0) + entry.minutes);
+	}
+	return {
+		totalMinutes,
+		byNote: [...byNote.values()].sort((a, b) => b.minutes - a.minutes),
+		byArea: [...byArea.entries()]
+			.map(([area, minutes]) => ({ area, minutes }))
+			.sort((a, b) => b.minutes - a.minutes),
+	};
+}
+
+export function formatFocusSessionEntry(entry: FocusSessionEntry): string {
+	const lines = [
+		`## ${entry.date} - ${entry.noteTitle}`,
+		"",
+		`- Path: \`${entry.notePath}\``,
+	];
+	if (entry.area) lines.push(`- Area: ${entry.area}`);
+	if (entry.action) lines.push(`- Action: ${entry.action}`);
+	if (entry.stage) lines.push(`- Stage: ${entry.stage}`);
+	lines.push(`- Minutes: ${entry.minutes} of ${entry.plannedMinutes}`);
+	if (entry.understanding) {
+		lines.push(
+			`- Understanding: ${entry.understanding}/5 (${FOCUS_UNDERSTANDING_LABELS[entry.understanding]})`,
+		);
+	}
+	if (entry.summary) lines.push(`- Done: ${entry.summary.replace(/\s*\n\s*/g, " ")}`);
+	return lines.join("\n");
+}
+
+/** Reads entries written by `formatFocusSessionEntry`, oldest first. */
+export function parseFocusSessionLog(content: string): FocusSessionEntry[] {
+	const entries: FocusSessionEntry[] = [];
+	let current: FocusSessionEntry | null = null;
+
+	for (const line of content.split(/\r?\n/)) {
+		const heading = line.match(/^##\s+(\d{4}-\d{2}-\d{2})\s+-\s+(.+)$/);
+		if (heading) {
+			current = {
+				date: heading[1]!,
+				notePath: "",
+				noteTitle: heading[2]!.trim(),
+				plannedMinutes: 0,
+				minutes: 0,
+			};
+			entries.push(current);
+			continue;
+		}
+		if (line.startsWith("#")) {
+			current = null;
+			continue;
+		}
+		const field = current ? line.match(/^-\s+(\w+):\s*(.*)$/) : null;
+		if (current && field) readField(current, field[1]!, field[2]!.trim());
+	}
+	return entries.filter((entry) => entry.notePath);
+}
+
+function readField(entry: FocusSessionEntry, name: string, value: string): void {
+	switch (name) {
+		case "Path":
+			entry.notePath = value.replace(/^`|`$/g, "");
+			return;
+		case "Area":
+			entry.area = value;
+			return;
+		case "Action":
+			entry.action = value;
+			return;
+		case "Stage":
+			entry.stage = value;
+			return;
+		case "Minutes": {
+			const match = value.match(/^(\d+)(?:\s+of\s+(\d+))?/);
+			if (!match) return;
+			entry.minutes = Number(match[1]);
+			entry.plannedMinutes = Number(match[2] ?? match[1]);
+			return;
+		}
+		case "Understanding": {
+			const score = Number(value.match(/^([1-5])\/5/)?.[1]);
+			if (score >= 1 && score <= 5) {
+				entry.understanding = score as FocusUnderstanding;
+			}
+			return;
+		}
+		case "Done":
+			entry.summary = value;
+			return;
+	}
+}
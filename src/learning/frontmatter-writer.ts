@@ -5,6 +5,7 @@ import type {
 	LearningDefinitionOfDone,
 	LearningMastery,
 	LearningNoteType,
+	LearningReviewSchedule,
 	LearningStatus,
 } from "@/learning/types";
 
@@ -17,6 +18,7 @@ export interface LearningFrontmatterPatch {
 	sprint?: string;
 	nextAction?: string;
 	quizScore?: number;
+	lastQuiz?: string;
 	reviewDue?: string;
 	lastTouched?: string;
 	prerequisites?: string[];
@@ -24,6 +26,7 @@ export interface LearningFrontmatterPatch {
 	mastery?: LearningMastery;
 	artifacts?: LearningArtifacts;
 	dod?: LearningDefinitionOfDone;
+	reviewSchedule?: LearningReviewSchedule;
 }
 
 export async function patchLearningFrontmatter(
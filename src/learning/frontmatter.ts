@@ -1,7 +1,6 @@
 import {
 	LEARNING_FRONTMATTER_KEYS,
 	LEARNING_NOTE_TYPES,
-	LEARNING_STATUSES,
 } from "@/learning/constants";
 import type {
 	LearningArtifacts,
@@ -9,6 +8,7 @@ import type {
 	LearningField,
 	LearningMastery,
 	LearningNoteType,
+	LearningReviewSchedule,
 	LearningStatus,
 } from "@/learning/types";
 
@@ -22,6 +22,7 @@ export interface LearningFrontmatter {
 	nextAction?: string;
 	artifactHtml?: string;
 	quizScore?: number;
+	lastQuiz?: string;
 	reviewDue?: string;
 	lastTouched?: string;
 	prerequisites?: string[];
@@ -29,6 +30,7 @@ export interface LearningFrontmatter {
 	mastery?: LearningMastery;
 	artifacts?: LearningArtifacts;
 	dod?: LearningDefinitionOfDone;
+	reviewSchedule?: LearningReviewSchedule;
 }
 
 export function parseLearningFrontmatter(
@@ -48,6 +50,7 @@ export function parseLearningFrontmatter(
 			frontmatter[LEARNING_FRONTMATTER_KEYS.artifactHtml],
 		),
 		quizScore: parseNumber(frontmatter[LEARNING_FRONTMATTER_KEYS.quizScore]),
+		lastQuiz: parseString(frontmatter[LEARNING_FRONTMATTER_KEYS.lastQuiz]),
 		reviewDue: parseString(frontmatter[LEARNING_FRONTMATTER_KEYS.reviewDue]),
 		lastTouched: parseString(
 			frontmatter[LEARNING_FRONTMATTER_KEYS.lastTouched],
@@ -59,6 +62,9 @@ export function parseLearningFrontmatter(
 			artifactHtml: parseString(frontmatter[LEARNING_FRONTMATTER_KEYS.artifactHtml]),
 		}),
 		dod: parseDefinitionOfDone(frontmatter.dod),
+		reviewSchedule: parseReviewSchedule(
+			frontmatter[LEARNING_FRONTMATTER_KEYS.reviewSchedule],
+		),
 	};
 }
 
@@ -146,12 +152,25 @@ function parseMastery(value: unknown): LearningMastery | undefined {
 		transfer_score: parseNumber(record.transfer_score),
 		application_score: parseNumber(record.application_score),
 		last_examined: parseString(record.last_examined),
+		examined_dates: parseExaminedDates(record.examined_dates),
 		evidence_notes: parseStringList(record.evidence_notes),
 		weak_points: parseStringList(record.weak_points),
 	};
 	return hasDefinedValue(mastery) ? mastery : undefined;
 }
 
+function parseExaminedDates(value: unknown): LearningMastery["examined_dates"] {
+	const record = parseRecord(value);
+	if (!record) return undefined;
+	const dates: NonNullable<LearningMastery["examined_dates"]> = {
+		recall: parseString(record.recall),
+		mechanism: parseString(record.mechanism),
+		transfer: parseString(record.transfer),
+		application: parseString(record.application),
+	};
+	return hasDefinedValue(dates) ? dates : undefined;
+}
+
 function parseArtifacts(
 	value: unknown,
 	legacy: { artifactHtml?: string },
@@ -168,6 +187,9 @@ function parseArtifacts(
 			"bridge_note",
 			"case_study",
 			"review",
+			"answer",
+			"concept_extraction",
+			"decision_review",
 		] as const) {
 			const artifact = parseArtifactRecord(record[key]);
 			if (artifact) artifacts[key] = artifact;
@@ -202,20 +224,38 @@ function parseDefinitionOfDone(
 		quiz_reviewed: parseBoolean(record.quiz_reviewed),
 		application_reviewed: parseBoolean(record.application_reviewed),
 		reviewed: parseBoolean(record.reviewed),
+		answer_reviewed: parseBoolean(record.answer_reviewed),
+		extraction_reviewed: parseBoolean(record.extraction_reviewed),
+		decision_reviewed: parseBoolean(record.decision_reviewed),
 	};
 	return hasDefinedValue(dod) ? dod : undefined;
 }
 
-function hasDefinedValue(value: Record<string, unknown>): boolean {
+function parseReviewSchedule(
+	value: unknown,
+): LearningReviewSchedule | undefined {
+	const record = parseRecord(value);
+	if (!record) return undefined;
+	const schedule: LearningReviewSchedule = {
+		ease: parseNumber(record.ease),
+		interval: parseNumber(record.interval),
+		repetitions: parseNumber(record.repetitions),
+		lapses: parseNumber(record.lapses),
+		stability: parseNumber(record.stability),
+		last_reviewed: parseString(record.last_reviewed),
+		last_grade: parseNumber(record.last_grade),
+	};
+	return hasDefinedValue(schedule) ? schedule : undefined;
+}
+
+function hasDefinedValue(value: object): boolean {
 	return Object.values(value).some((item) => item !== undefined);
 }
 
+/** Stage ids are validated against the note's pipeline by the scanner. */
 function parseStatus(value: unknown): LearningStatus | undefined {
-	const raw = parseString(value);
-	if (!raw) return undefined;
-	return LEARNING_STATUSES.includes(raw as LearningStatus)
-		? (raw as LearningStatus)
-		: undefined;
+	const raw = parseString(value)?.toLowerCase();
+	return raw && /^[a-z0-9][a-z0-9_-]*$/.test(raw) ? raw : undefined;
 }
 
 function parseNoteType(value: unknown): LearningNoteType | undefined {
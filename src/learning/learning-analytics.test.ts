@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeLearningAnalytics,
+	createLearningSnapshot,
+	type LearningSnapshot,
+	parseLearningSnapshot,
+} from "@/learning/learning-analytics";
+import type { LearningNote, LearningScanResult } from "@/learning/types";
+
+const SNAPSHOTS: LearningSnapshot[] = [
+	{
+		date: "2026-05-04",
+		notes: [
+			{ path: "Learning/cache.md", status: "seed", sprint: "S01" },
+			{ path: "Learning/queue.md", status: "explain", sprint: "S01" },
+			{ path: "Learning/tcp.md", status: "connect" },
+		],
+	},
+	{
+		date: "2026-05-06",
+		notes: [
+			{ path: "Learning/cache.md", status: "explain", sprint: "S01" },
+			{ path: "Learning/queue.md", status: "explain", sprint: "S01" },
+			{ path: "Learning/tcp.md", status: "connect" },
+		],
+	},
+	{
+		date: "2026-05-12",
+		notes: [
+			{ path: "Learning/cache.md", status: "visualize", sprint: "S01" },
+			{ path: "Learning/queue.md", status: "done", sprint: "S01", done: true },
+			{ path: "Learning/tcp.md", status: "connect" },
+		],
+	},
+];
+
+describe("learning analytics", () => {
+	it("summarizes throughput, dwell time, and stuck notes", () => {
+		const analytics = computeLearningAnalytics(
+			[...SNAPSHOTS].reverse(),
+			[
+				{
+					date: "2026-05-05",
+					action: "Generate explanation",
+					notePath: "Learning/cache.md",
+					reasons: [],
+				},
+				{
+					date: "2026-05-11",
+					action: "Generate quiz",
+					notePath: "Learning/tcp.md",
+					reasons: [],
+				},
+			],
+			{ today: "2026-05-20", stuckAfterDays: 10, weeks: 3 },
+		);
+
+		expect(analytics.snapshotCount).toBe(3);
+		expect(analytics.firstSnapshot).toBe("2026-05-04");
+		expect(analytics.weeks).toEqual([
+			{ week: "2026-05-04", entered: { explain: 1 }, transitions: 1, actions: 1 },
+			{
+				week: "2026-05-11",
+				entered: { visualize: 1, done: 1 },
+				transitions: 2,
+				actions: 1,
+			},
+			{ week: "2026-05-18", entered: {}, transitions: 0, actions: 0 },
+		]);
+		expect(analytics.dwellTimes).toEqual([
+			{ status: "seed", averageDays: 2, samples: 1 },
+			{ status: "explain", averageDays: 7, samples: 2 },
+		]);
+		expect(analytics.stuckNotes).toEqual([
+			{
+				path: "Learning/tcp.md",
+				status: "connect",
+				since: "2026-05-04",
+				days: 16,
+				lastAction: "2026-05-11",
+			},
+		]);
+		expect(analytics.burnDown).toBeNull();
+	});
+
+	it("tracks remaining notes for the active sprint", () => {
+		const analytics = computeLearningAnalytics(SNAPSHOTS, [], {
+			today: "2026-05-12",
+			activeSprint: "S01",
+		});
+
+		expect(analytics.burnDown).toEqual({
+			sprint: "S01",
+			points: [
+				{ date: "2026-05-04", remaining: 2, total: 2 },
+				{ date: "2026-05-06", remaining: 2, total: 2 },
+				{ date: "2026-05-12", remaining: 1, total: 2 },
+			],
+		});
+	});
+
+	it("snapshots scanned statuses and reads them back from frontmatter", () => {
+		const snapshot = createLearningSnapshot(
+			scanOf([
+				learningNote({ path: "Learning/cache.md", status: "test", sprint: "S01" }),
+				learningNote({ path: "Learning/queue.md", status: "done" }),
+				learningNote({ path: "Learning/raw.md", status: undefined }),
+			]),
+			"2026-05-13",
+		);
+
+		expect(snapshot).toEqual({
+			date: "2026-05-13",
+			notes: [
+				{ path: "Learning/cache.md", status: "test", sprint: "S01" },
+				{ path: "Learning/queue.md", status: "done", done: true },
+			],
+		});
+		expect(
+			parseLearningSnapshot({
+				date: snapshot.date,
+				notes: [...snapshot.notes, { path: "Learning/bad.md" }],
+			}),
+		).toEqual(snapshot);
+	});
+});
+
+function scanOf(notes: LearningNote[]): LearningScanResult {
+	return {
+		notes,
+		roadmaps: [],
+		cycles: [],
+		weakNotes: [],
+		missingArtifacts: [],
+		dueReviews: [],
+		blockedNotes: [],
+		masteryGaps: [],
+		artifactQualityIssues: [],
+		summary: {
+			totalNotes: notes.length,
+			missingType: 0,
+			missingArea: 0,
+			missingStatus: 0,
+			weakNotes: 0,
+			missingArtifacts: 0,
+			dueReviews: 0,
+			blockedNotes: 0,
+			masteryGaps: 0,
+			artifactQualityIssues: 0,
+		},
+		scannedAt: "2026-05-13T08:00:00.000Z",
+	};
+}
+
+function learningNote(overrides: Partial<LearningNote> = {}): LearningNote {
+	return {
+		path: "Learning/example.md",
+		title: "Example",
+		type: "concept",
+		area: "systems",
+		status: "explain",
+		maturity: 2,
+		priority: 50,
+		links: [],
+		backlinks: [],
+		graphScore: 0,
+		missingFields: [],
+		...overrides,
+	};
+}
@@ -0,0 +1,394 @@
+import { normalizePath } from "obsidian";
+import type { LearningActionLogEntry } from "@/learning/action-log-format";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	type FocusSessionEntry,
+	type FocusTimeTotals,
+	summarizeFocusTime,
+} from "@/learning/focus-session";
+import { getNotePipeline } from "@/learning/learning-pipeline";
+import { addLearningDays } from "@/learning/spaced-repetition";
+import type {
+	LearningNote,
+	LearningScanResult,
+	LearningStatus,
+} from "@/learning/types";
+
+/** Status of one note on the day a snapshot was taken. */
+export interface LearningSnapshotEntry {
+	path: string;
+	status: LearningStatus;
+	sprint?: string;
+	done?: boolean;
+}
+
+export interface LearningSnapshot {
+	date: string;
+	notes: LearningSnapshotEntry[];
+}
+
+export interface LearningStatusTransition {
+	path: string;
+	from: LearningStatus;
+	to: LearningStatus;
+	date: string;
+}
+
+export interface LearningWeeklyThroughput {
+	/** Monday of the week. */
+	week: string;
+	entered: Partial<Record<LearningStatus, number>>;
+	transitions: number;
+	actions: number;
+}
+
+export interface LearningDwellTime {
+	status: LearningStatus;
+	averageDays: number;
+	samples: number;
+}
+
+export interface LearningStuckNote {
+	path: string;
+	status: LearningStatus;
+	since: string;
+	days: number;
+	lastAction?: string;
+}
+
+export interface LearningBurnDownPoint {
+	date: string;
+	remaining: number;
+	total: number;
+}
+
+export interface LearningAnalytics {
+	snapshotCount: number;
+	firstSnapshot?: string;
+	weeks: LearningWeeklyThroughput[];
+	dwellTimes: LearningDwellTime[];
+	stuckNotes: LearningStuckNote[];
+	burnDown: { sprint: string; points: LearningBurnDownPoint[] } | null;
+	/** Focus session minutes over the same weeks as `weeks`. */
+	focus: FocusTimeTotals & { weeks: { week: string; minutes: number }[] };
+}
+
+export interface LearningAnalyticsOptions {
+	today: string;
+	activeSprint?: string;
+	stuckAfterDays?: number;
+	weeks?: number;
+}
+
+export const LEARNING_SNAPSHOT_FOLDER = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/learning-snapshots`,
+);
+
+export const DEFAULT_STUCK_AFTER_DAYS = 14;
+
+const DEFAULT_WEEKS = 6;
+
+export function getLearningSnapshotPath(date: string): string {
+	return normalizePath(`${LEARNING_SNAPSHOT_FOLDER}/${date}.md`);
+}
+
+export function createLearningSnapshot(
+	scan: LearningScanResult,
+	date: string,
+): LearningSnapshot {
+	return {
+		date,
+		notes: scan.notes
+			.filter((note): note is LearningNote & { status: LearningStatus } =>
+				Boolean(note.status),
+			)
+			.map((note) => ({
+				path: note.path,
+				status: note.status,
+				...(note.sprint ? { sprint: note.sprint } : {}),
+				...(isLearningNoteDone(note) ? { done: true } : {}),
+			})),
+	};
+}
+
+/**
+ * A note counts as done once it reaches the pipeline's spaced-review stage,
+ * or its final stage when the pipeline has no spaced review.
+ */
+export function isLearningNoteDone(note: LearningNote): boolean {
+	const stages = getNotePipeline(note).stages;
+	const index = stages.findIndex((stage) => stage.id === note.status);
+	if (index === -1) return false;
+	const reviewIndex = stages.findIndex((stage) => stage.spacedReview);
+	return index >= (reviewIndex === -1 ? stages.length - 1 : reviewIndex);
+}
+
+/** Reads a snapshot file's frontmatter, skipping malformed note entries. */
+export function parseLearningSnapshot(
+	frontmatter: Record<string, unknown> | undefined,
+): LearningSnapshot | null {
+	const date = frontmatter?.date;
+	if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+	const notes = Array.isArray(frontmatter?.notes) ? frontmatter.notes : [];
+	return {
+		date,
+		notes: notes
+			.map((item): LearningSnapshotEntry | null => {
+				if (typeof item !== "object" || item === null) return null;
+				const record = item as Record<string, unknown>;
+				if (typeof record.path !== "string" || typeof record.status !== "string") {
+					return null;
+				}
+				return {
+					path: record.path,
+					status: record.status,
+					...(typeof record.sprint === "string" && record.sprint
+						? { sprint: record.sprint }
+						: {}),
+					...(record.done === true ? { done: true } : {}),
+				};
+			})
+			.filter((entry): entry is LearningSnapshotEntry => entry !== null),
+	};
+}
+
+export function formatLearningSnapshotBody(snapshot: LearningSnapshot): string {
+	const counts = new Map<LearningStatus, number>();
+	for (const entry of snapshot.notes) {
+		counts.set(entry.status, (counts.get(entry.status) ?? 0) + 1);
+	}
+	const rows = [...counts.entries()].map(
+		([status, count]) => `| ${status} | ${count} |`,
+	);
+	return `# Learning snapshot ${snapshot.date}
+
+| Status | Notes |
+| --- | --- |
+${rows.join("\n")}
+`;
+}
+
+/** Status changes between consecutive snapshots, oldest first. */
+export function getSnapshotTransitions(
+	snapshots: readonly LearningSnapshot[],
+): LearningStatusTransition[] {
+	const transitions: LearningStatusTransition[] = [];
+	const previous = new Map<string, LearningStatus>();
+	for (const snapshot of sortSnapshots(snapshots)) {
+		for (const entry of snapshot.notes) {
+			const from = previous.get(entry.path);
+			if (from && from !== entry.status) {
+				transitions.push({
+					path: entry.path,
+					from,
+					to: entry.status,
+					date: snapshot.date,
+				});
+			}
+			previous.set(entry.path, entry.status);
+		}
+	}
+	return transitions;
+}
+
+/**
+ * Builds the dashboard from daily scan snapshots and the action log. Dwell
+ * time only counts stays that ended in a transition; a note still sitting in
+ * its first observed status shows up as stuck once it passes the threshold.
+ */
+export function computeLearningAnalytics(
+	snapshots: readonly LearningSnapshot[],
+	actionLog: readonly LearningActionLogEntry[],
+	options: LearningAnalyticsOptions,
+	focusSessions: readonly FocusSessionEntry[] = [],
+): LearningAnalytics {
+	const sorted = sortSnapshots(snapshots);
+	const transitions = getSnapshotTransitions(sorted);
+	const weekCount = options.weeks ?? DEFAULT_WEEKS;
+	return {
+		snapshotCount: sorted.length,
+		...(sorted[0] ? { firstSnapshot: sorted[0].date } : {}),
+		weeks: getWeeklyThroughput(
+			transitions,
+			actionLog,
+			options.today,
+			weekCount,
+		),
+		dwellTimes: getDwellTimes(sorted),
+		stuckNotes: getStuckNotes(
+			sorted,
+			actionLog,
+			options.today,
+			options.stuckAfterDays ?? DEFAULT_STUCK_AFTER_DAYS,
+		),
+		burnDown: options.activeSprint
+			? {
+					sprint: options.activeSprint,
+					points: getBurnDown(sorted, options.activeSprint),
+				}
+			: null,
+		focus: getFocusTime(focusSessions, options.today, weekCount),
+	};
+}
+
+export function getWeekStart(date: string): string {
+	const parsed = parseLearningDate(date);
+	if (!parsed) return date;
+	return addLearningDays(date, -((parsed.getDay() + 6) % 7));
+}
+
+function getWeeklyThroughput(
+	transitions: readonly LearningStatusTransition[],
+	actionLog: readonly LearningActionLogEntry[],
+	today: string,
+	weekCount: number,
+): LearningWeeklyThroughput[] {
+	const currentWeek = getWeekStart(today);
+	const weeks = Array.from({ length: weekCount }, (_, index) => ({
+		week: addLearningDays(currentWeek, (index - weekCount + 1) * 7),
+		entered: {} as Partial<Record<LearningStatus, number>>,
+		transitions: 0,
+		actions: 0,
+	}));
+	const byWeek = new Map(weeks.map((week) => [week.week, week]));
+
+	for (const transition of transitions) {
+		const week = byWeek.get(getWeekStart(transition.date));
+		if (!week) continue;
+		week.entered[transition.to] = (week.entered[transition.to] ?? 0) + 1;
+		week.transitions += 1;
+	}
+	for (const entry of actionLog) {
+		const week = byWeek.get(getWeekStart(entry.date));
+		if (week) week.actions += 1;
+	}
+	return weeks;
+}
+
+function getFocusTime(
+	sessions: readonly FocusSessionEntry[],
+	today: string,
+	weekCount: number,
+): LearningAnalytics["focus"] {
+	const currentWeek = getWeekStart(today);
+	const weeks = Array.from({ length: weekCount }, (_, index) => ({
+		week: addLearningDays(currentWeek, (index - weekCount + 1) * 7),
+		minutes: 0,
+	}));
+	const byWeek = new Map(weeks.map((week) => [week.week, week]));
+	for (const session of sessions) {
+		const week = byWeek.get(getWeekStart(session.date));
+		if (week) week.minutes += session.minutes;
+	}
+	return {
+		...summarizeFocusTime(sessions, { from: weeks[0]?.week, to: today }),
+		weeks,
+	};
+}
+
+function getDwellTimes(snapshots: readonly LearningSnapshot[]): LearningDwellTime[] {
+	const totals = new Map<LearningStatus, { days: number; samples: number }>();
+	for (const stay of getStatusStays(snapshots)) {
+		if (!stay.until) continue;
+		const days = daysBetween(stay.since, stay.until) ?? 0;
+		const total = totals.get(stay.status) ?? { days: 0, samples: 0 };
+		totals.set(stay.status, {
+			days: total.days + days,
+			samples: total.samples + 1,
+		});
+	}
+	return [...totals.entries()].map(([status, total]) => ({
+		status,
+		averageDays: Math.round((total.days / total.samples) * 10) / 10,
+		samples: total.samples,
+	}));
+}
+
+function getStuckNotes(
+	snapshots: readonly LearningSnapshot[],
+	actionLog: readonly LearningActionLogEntry[],
+	today: string,
+	stuckAfterDays: number,
+): LearningStuckNote[] {
+	const latest = snapshots[snapshots.length - 1];
+	if (!latest) return [];
+	const current = new Set(
+		latest.notes.filter((entry) => !entry.done).map((entry) => entry.path),
+	);
+	const lastActions = new Map<string, string>();
+	for (const entry of actionLog) {
+		if (entry.notePath) lastActions.set(entry.notePath, entry.date);
+	}
+
+	return getStatusStays(snapshots)
+		.filter((stay) => !stay.until && current.has(stay.path))
+		.map((stay) => {
+			const lastAction = lastActions.get(stay.path);
+			return {
+				path: stay.path,
+				status: stay.status,
+				since: stay.since,
+				days: daysBetween(stay.since, today) ?? 0,
+				...(lastAction ? { lastAction } : {}),
+			};
+		})
+		.filter((note) => note.days >= stuckAfterDays)
+		.sort((left, right) => right.days - left.days);
+}
+
+function getBurnDown(
+	snapshots: readonly LearningSnapshot[],
+	sprint: string,
+): LearningBurnDownPoint[] {
+	return snapshots
+		.map((snapshot) => {
+			const notes = snapshot.notes.filter((entry) => entry.sprint === sprint);
+			return {
+				date: snapshot.date,
+				remaining: notes.filter((entry) => !entry.done).length,
+				total: notes.length,
+			};
+		})
+		.filter((point) => point.total > 0);
+}
+
+interface StatusStay {
+	path: string;
+	status: LearningStatus;
+	since: string;
+	/** Snapshot date the note left the status; absent while it is still there. */
+	until?: string;
+}
+
+function getStatusStays(snapshots: readonly LearningSnapshot[]): StatusStay[] {
+	const stays: StatusStay[] = [];
+	const open = new Map<string, StatusStay>();
+	for (const snapshot of snapshots) {
+		for (const entry of snapshot.notes) {
+			const stay = open.get(entry.path);
+			if (stay?.status === entry.status) continue;
+			if (stay) stay.until = snapshot.date;
+			const next = { path: entry.path, status: entry.status, since: snapshot.date };
+			stays.push(next);
+			open.set(entry.path, next);
+		}
+	}
+	return stays;
+}
+
+function sortSnapshots(snapshots: readonly LearningSnapshot[]): LearningSnapshot[] {
+	return [...snapshots].sort((left, right) => left.date.localeCompare(right.date));
+}
+
+function daysBetween(from: string, to: string): number | null {
+	const start = parseLearningDate(from);
+	const end = parseLearningDate(to);
+	if (!start || !end) return null;
+	return Math.round((end.getTime() - start.getTime()) / 86400000);
+}
+
+function parseLearningDate(value: string): Date | null {
+	const [year, month, day] = value.split("-").map(Number);
+	if (!year || !month || !day) return null;
+	return new Date(year, month - 1, day);
+}
@@ -1,8 +1,10 @@
 import type { LearningFrontmatterPatch } from "@/learning/frontmatter-writer";
-import type { LearningNote } from "@/learning/types";
+import { resolveLearningPipeline } from "@/learning/learning-pipeline";
+import type { LearningNote, LearningPipeline } from "@/learning/types";
 
 export interface StarterLearningMetadataOptions {
 	defaultArea?: string;
+	pipelines?: readonly LearningPipeline[];
 }
 
 export function buildStarterLearningMetadataPatch(
@@ -21,7 +23,11 @@ export function buildStarterLearningMetadataPatch(
 			inferAreaFromPath(note.path);
 	}
 	if (!note.status) {
-		patch.status = "seed";
+		const pipeline = resolveLearningPipeline(
+			{ type: note.type ?? patch.type, area: note.area ?? patch.area },
+			options.pipelines,
+		);
+		patch.status = pipeline.stages[0]?.id ?? "seed";
 	}
 	if (typeof note.maturity !== "number") {
 		patch.maturity = 0;
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+	evaluateDefinitionOfDone,
+	getPromotionBlockers,
+} from "@/learning/definition-of-done";
+import {
+	DEFAULT_LEARNING_PIPELINE,
+	LEARNING_PIPELINE_PRESETS,
+	parseLearningPipelines,
+	resolveLearningPipeline,
+} from "@/learning/learning-pipeline";
+import { inferDeterministicTransition } from "@/learning/learning-state";
+import {
+	inferNextAction,
+	scoreLearningNote,
+} from "@/learning/next-action-engine";
+import type { LearningNote, LearningPipeline } from "@/learning/types";
+
+const [LANGUAGE, TOOL] = LEARNING_PIPELINE_PRESETS as [
+	LearningPipeline,
+	LearningPipeline,
+];
+const PRESETS = LEARNING_PIPELINE_PRESETS;
+
+describe("learning pipeline", () => {
+	it("selects a pipeline by area before type and falls back to the default", () => {
+		expect(
+			resolveLearningPipeline({ type: "tool", area: "Language" }, PRESETS),
+		).toBe(LANGUAGE);
+		expect(
+			resolveLearningPipeline({ type: "tool", area: "systems" }, PRESETS),
+		).toBe(TOOL);
+		expect(
+			resolveLearningPipeline({ type: "concept", area: "systems" }, PRESETS),
+		).toBe(DEFAULT_LEARNING_PIPELINE);
+	});
+
+	it("skips stages the pipeline does not define", () => {
+		const transition = inferDeterministicTransition({
+			note: learningNote({
+				area: "language",
+				status: "explain",
+				pipeline: LANGUAGE,
+			}),
+			action: "Run transition",
+			reason: [],
+			suggestedAgent: "deterministic",
+			score: 0,
+		});
+
+		expect(transition).toMatchObject({
+			patch: { status: "connect" },
+			message: "Moved explanation to connect.",
+		});
+	});
+
+	it("drives actions, weights, and gates from custom stages", () => {
+		const practicing = learningNote({
+			type: "tool",
+			status: "practice",
+			pipeline: TOOL,
+		});
+
+		expect(inferNextAction(practicing)).toBe(
+			"Build a hands-on lab that exercises the tool",
+		);
+		expect(scoreLearningNote(practicing, undefined, "2026-05-13")).toBe(
+			50 + 80 + 36 + 5,
+		);
+		expect(getPromotionBlockers(practicing, "connect")).toEqual([
+			"Case study evidence is missing.",
+		]);
+
+		const practiced = learningNote({
+			type: "tool",
+			status: "practice",
+			pipeline: TOOL,
+			artifacts: {
+				case_study: {
+					path: "05_Case_Studies/git-case-study.md",
+					quality_score: 80,
+				},
+			},
+		});
+		expect(inferNextAction(practiced)).toBe(
+			"Review the practice lab and move to connect stage",
+		);
+		expect(getPromotionBlockers(practiced, "connect")).toEqual([]);
+	});
+
+	it("blocks statuses that are not stages of the note pipeline", () => {
+		const note = learningNote({
+			area: "language",
+			status: "visualize",
+			pipeline: LANGUAGE,
+		});
+
+		expect(evaluateDefinitionOfDone(note)).toMatchObject({
+			passed: false,
+			blockers: ['"visualize" is not a stage of the Language pipeline.'],
+		});
+	});
+
+	it("parses pipelines from settings and drops invalid stages", () => {
+		const [pipeline] = parseLearningPipelines([
+			{
+				id: "reading",
+				types: ["source"],
+				stages: [
+					{
+						id: "Skim",
+						action: "Skim the source",
+						builder: "structure",
+						weight: "70",
+					},
+					{
+						id: "summarize",
+						action: "Summarize",
+						promotionRules: ["explanation_reviewed", "not a rule"],
+					},
+					{ id: "summarize", action: "Duplicate" },
+					{ action: "No id" },
+				],
+			},
+			{ id: "empty", stages: [] },
+		]);
+
+		expect(pipeline).toEqual({
+			id: "reading",
+			name: "reading",
+			types: ["source"],
+			stages: [
+				{
+					id: "skim",
+					weight: 70,
+					action: "Skim the source",
+					agent: "reasoning-model",
+					builder: "structure",
+				},
+				{
+					id: "summarize",
+					weight: 50,
+					action: "Summarize",
+					agent: "reasoning-model",
+					promotionRules: ["explanation_reviewed"],
+				},
+			],
+		});
+		expect(parseLearningPipelines(JSON.parse(JSON.stringify(PRESETS)))).toEqual(
+			PRESETS,
+		);
+	});
+});
+
+function learningNote(overrides: Partial<LearningNote> = {}): LearningNote {
+	return {
+		path: "Learning/example.md",
+		title: "Example",
+		type: "concept",
+		area: "systems",
+		status: "explain",
+		maturity: 2,
+		priority: 50,
+		links: ["a.md", "b.md", "c.md", "d.md", "e.md"],
+		backlinks: [],
+		graphScore: 5,
+		missingFields: [],
+		...overrides,
+	};
+}
@@ -0,0 +1,515 @@
+import type {
+	LearningArtifactType,
+	LearningNote,
+	LearningNoteType,
+	LearningPipeline,
+	LearningPipelineStage,
+	LearningPromotionRule,
+	LearningStageBuilder,
+	LearningStatus,
+	NextActionAgent,
+} from "@/learning/types";
+
+export const DEFAULT_LEARNING_PIPELINE: LearningPipeline = {
+	id: "default",
+	name: "Default",
+	stages: [
+		{
+			id: "seed",
+			weight: 90,
+			action: "Convert raw note into structured learning note",
+			expectedOutput:
+				"00_Command_Center/learning-drafts/<note-slug>-structure.md and status = explain",
+			agent: "reasoning-model",
+			builder: "structure",
+		},
+		{
+			id: "explain",
+			weight: 82,
+			action: "Generate explanation, mechanism, examples, and failure modes",
+			expectedOutput:
+				"00_Command_Center/learning-drafts/<note-slug>-explanation.md and status = visualize",
+			agent: "reasoning-model",
+			builder: "explanation",
+			promotionMessage: "Moved seed to explain.",
+		},
+		{
+			id: "visualize",
+			weight: 78,
+			action: "Generate HTML explorable explanation",
+			reviewAction: "Review existing visualization and move to connect stage",
+			expectedOutput: "_explainers/<note-slug>.html and status = connect",
+			agent: "coding-agent",
+			reviewAgent: "deterministic",
+			builder: "html_explainer",
+			requiredArtifacts: ["html_explainer"],
+			promotionRules: ["explanation_reviewed"],
+			promotionMessage: "Moved explanation to visualize.",
+		},
+		{
+			id: "connect",
+			weight: 68,
+			action: "Add links to related notes, MOCs, and bridge notes",
+			reviewAction: "Validate connections and move to test stage",
+			expectedOutput:
+				"03_Bridge_Notes/<note-slug>-bridge.md and next_action = review bridge note",
+			agent: "reasoning-model",
+			builder: "bridge_note",
+			promotionMessage: "Moved visualization to connect.",
+		},
+		{
+			id: "test",
+			weight: 72,
+			action: "Generate quiz and test understanding",
+			expectedOutput: "_quizzes/<note-slug>.md and next_action = complete quiz",
+			agent: "reasoning-model",
+			builder: "quiz",
+			promotionRules: ["connections"],
+			promotionMessage: "Connections validated. Moved to test.",
+		},
+		{
+			id: "apply",
+			weight: 62,
+			action: "Create case study, lab, or implementation example",
+			expectedOutput:
+				"05_Case_Studies/<note-slug>-case-study.md and next_action = complete case study",
+			agent: "reasoning-model",
+			builder: "case_study",
+			promotionRules: ["quiz_passed"],
+			promotionMessage: "Quiz passed. Moved to apply.",
+		},
+		{
+			id: "review",
+			weight: 58,
+			action: "Review note and promote maturity if passed",
+			expectedOutput: "_reviews/<note-slug>-review.md and next_action = complete review",
+			agent: "reasoning-model",
+			builder: "review",
+			promotionRules: ["application_evidence"],
+			promotionMessage: "Application evidence moved to review.",
+		},
+		{
+			id: "done",
+			weight: 18,
+			action: "Schedule spaced review",
+			agent: "deterministic",
+			promotionRules: ["done_mastery"],
+			promotionMessage: "Review evidence moved to done.",
+			spacedReview: true,
+		},
+		{
+			id: "mastered",
+			weight: 0,
+			action: "No immediate action required",
+			agent: "deterministic",
+			promotionRules: ["mastered_mastery"],
+			promotionMessage: "Mastery evidence accepted.",
+		},
+	],
+};
+
+/**
+ * Example pipelines offered in settings. Language notes skip the HTML
+ * explainer; tool notes swap it for a hands-on practice lab.
+ */
+export const LEARNING_PIPELINE_PRESETS: LearningPipeline[] = [
+	{
+		id: "language",
+		name: "Language",
+		areas: ["language"],
+		stages: DEFAULT_LEARNING_PIPELINE.stages
+			.filter((stage) => stage.id !== "visualize")
+			.map((stage) =>
+				stage.id === "explain"
+					? {
+							...stage,
+							expectedOutput:
+								"00_Command_Center/learning-drafts/<note-slug>-explanation.md and status = connect",
+						}
+					: stage.id === "connect"
+						? {
+								...stage,
+								promotionRules: ["explanation_reviewed"],
+								promotionMessage: "Moved explanation to connect.",
+							}
+						: stage,
+			),
+	},
+	{
+		id: "tool",
+		name: "Tool",
+		types: ["tool"],
+		stages: DEFAULT_LEARNING_PIPELINE.stages.flatMap((stage) => {
+			if (stage.id === "visualize") {
+				return [
+					{
+						id: "practice",
+						weight: 80,
+						action: "Build a hands-on lab that exercises the tool",
+						reviewAction: "Review the practice lab and move to connect stage",
+						expectedOutput:
+							"05_Case_Studies/<note-slug>-case-study.md and status = connect",
+						agent: "coding-agent",
+						reviewAgent: "deterministic",
+						builder: "case_study",
+						requiredArtifacts: ["case_study"],
+						promotionRules: ["explanation_reviewed"],
+						promotionMessage: "Moved explanation to practice.",
+					},
+				];
+			}
+			if (stage.id === "connect") {
+				return [{ ...stage, promotionMessage: "Practice lab passed. Moved to connect." }];
+			}
+			return [stage];
+		}),
+	},
+];
+
+/**
+ * Built-in workflows for note types that are not concepts. A question is
+ * answered rather than explained, a source is mined for concepts that get
+ * their own seed notes, and an ADR is reviewed against its consequences.
+ * Configured pipelines for the same type take precedence.
+ */
+export const NOTE_TYPE_PIPELINES: LearningPipeline[] = [
+	{
+		id: "question",
+		name: "Question",
+		types: ["question"],
+		stages: [
+			{
+				id: "seed",
+				weight: 88,
+				action: "Research the question and draft an answer",
+				reviewAction: "Check the drafted answer and mark it reviewed",
+				expectedOutput: "_answers/<note-slug>-answer.md and status = answered",
+				agent: "reasoning-model",
+				reviewAgent: "deterministic",
+				builder: "answer",
+				requiredArtifacts: ["answer"],
+			},
+			{
+				id: "answered",
+				weight: 60,
+				action: "Link the answer to the concepts it relies on",
+				reviewAction: "Validate connections and move to done",
+				expectedOutput:
+					"03_Bridge_Notes/<note-slug>-bridge.md and next_action = review bridge note",
+				agent: "reasoning-model",
+				builder: "bridge_note",
+				promotionRules: ["answer_accepted"],
+				promotionMessage: "Answer accepted. Moved to answered.",
+				effortHours: 0.5,
+			},
+			{
+				id: "done",
+				weight: 0,
+				action: "No immediate action required",
+				agent: "deterministic",
+				promotionRules: ["connections"],
+				promotionMessage: "Answer connected. Question resolved.",
+			},
+		],
+	},
+	{
+		id: "source",
+		name: "Source",
+		types: ["source"],
+		stages: [
+			{
+				id: "seed",
+				weight: 86,
+				action: "Extract concepts into new seed notes",
+				reviewAction: "Review the extracted concepts and mark them reviewed",
+				expectedOutput:
+					"_extracts/<note-slug>-concepts.md, one seed note per new concept, and status = extracted",
+				agent: "reasoning-model",
+				reviewAgent: "deterministic",
+				builder: "concept_extraction",
+				requiredArtifacts: ["concept_extraction"],
+				effortHours: 1.5,
+			},
+			{
+				id: "extracted",
+				weight: 54,
+				action: "Connect the source to the concepts it introduced",
+				reviewAction: "Validate connections and move to done",
+				expectedOutput:
+					"03_Bridge_Notes/<note-slug>-bridge.md and next_action = review bridge note",
+				agent: "reasoning-model",
+				builder: "bridge_note",
+				promotionRules: ["extraction_reviewed"],
+				promotionMessage: "Extraction reviewed. Moved to extracted.",
+				effortHours: 0.5,
+			},
+			{
+				id: "done",
+				weight: 0,
+				action: "No immediate action required",
+				agent: "deterministic",
+				promotionRules: ["connections"],
+				promotionMessage: "Source connected to its concepts.",
+			},
+		],
+	},
+	{
+		id: "adr",
+		name: "Decision record",
+		types: ["adr"],
+		stages: [
+			{
+				id: "seed",
+				weight: 84,
+				action: "Review the decision, its alternatives and consequences",
+				reviewAction: "Confirm the decision review and mark it reviewed",
+				expectedOutput:
+					"_decision_reviews/<note-slug>-decision-review.md and status = decided",
+				agent: "reasoning-model",
+				reviewAgent: "deterministic",
+				builder: "decision_review",
+				requiredArtifacts: ["decision_review"],
+				effortHours: 1,
+			},
+			{
+				id: "decided",
+				weight: 30,
+				action: "Revisit the decision against its observed consequences",
+				agent: "deterministic",
+				promotionRules: ["decision_reviewed"],
+				promotionMessage: "Decision review confirmed. Moved to decided.",
+				spacedReview: true,
+				effortHours: 0.5,
+			},
+		],
+	},
+];
+
+const ARTIFACT_EVIDENCE_LABELS: Record<LearningArtifactType, string> = {
+	html_explainer: "HTML explainer",
+	quiz: "Quiz",
+	bridge_note: "Bridge note",
+	case_study: "Case study",
+	review: "Review",
+	answer: "Answer",
+	concept_extraction: "Concept extraction",
+	decision_review: "Decision review",
+};
+
+const STAGE_BUILDERS: readonly LearningStageBuilder[] = [
+	"structure",
+	"explanation",
+	"html_explainer",
+	"bridge_note",
+	"quiz",
+	"case_study",
+	"review",
+	"answer",
+	"concept_extraction",
+	"decision_review",
+];
+
+const NEXT_ACTION_AGENTS: readonly NextActionAgent[] = [
+	"deterministic",
+	"reasoning-model",
+	"coding-agent",
+];
+
+/**
+ * Picks the first configured pipeline whose `areas` list the note's area,
+ * then the first whose `types` list its type, then the built-in pipeline
+ * for the type, and falls back to the default.
+ */
+export function resolveLearningPipeline(
+	note: Pick<LearningNote, "type" | "area">,
+	pipelines: readonly LearningPipeline[] = [],
+): LearningPipeline {
+	const area = note.area?.toLowerCase();
+	const byArea = area
+		? pipelines.find((pipeline) =>
+				pipeline.areas?.some((item) => item.toLowerCase() === area),
+			)
+		: undefined;
+	if (byArea) return byArea;
+	const byType = note.type
+		? [...pipelines, ...NOTE_TYPE_PIPELINES].find((pipeline) =>
+				pipeline.types?.includes(note.type!),
+			)
+		: undefined;
+	return byType ?? DEFAULT_LEARNING_PIPELINE;
+}
+
+export function getNotePipeline(note: LearningNote): LearningPipeline {
+	return note.pipeline ?? DEFAULT_LEARNING_PIPELINE;
+}
+
+export function getPipelineStage(
+	pipeline: LearningPipeline,
+	status: LearningStatus | undefined,
+): LearningPipelineStage | undefined {
+	return status ? pipeline.stages.find((stage) => stage.id === status) : undefined;
+}
+
+export function getPipelineStatusIndex(
+	pipeline: LearningPipeline,
+	status: LearningStatus | undefined,
+): number {
+	return pipeline.stages.findIndex((stage) => stage.id === status);
+}
+
+export function getNextPipelineStatus(
+	pipeline: LearningPipeline,
+	status: LearningStatus,
+): LearningStatus | null {
+	const index = getPipelineStatusIndex(pipeline, status);
+	if (index === -1) return null;
+	return pipeline.stages[index + 1]?.id ?? null;
+}
+
+export function findPipelineStageByBuilder(
+	pipeline: LearningPipeline,
+	builder: LearningStageBuilder,
+): LearningPipelineStage | undefined {
+	return pipeline.stages.find((stage) => stage.builder === builder);
+}
+
+export function hasLearningArtifact(
+	note: LearningNote,
+	type: LearningArtifactType,
+): boolean {
+	if (type === "html_explainer" && note.artifactHtml) return true;
+	return Boolean(note.artifacts?.[type]?.path);
+}
+
+export function getMissingStageArtifacts(
+	stage: LearningPipelineStage,
+	note: LearningNote,
+): LearningArtifactType[] {
+	return (stage.requiredArtifacts ?? []).filter(
+		(type) => !hasLearningArtifact(note, type),
+	);
+}
+
+export function formatArtifactEvidenceLabel(type: LearningArtifactType): string {
+	return ARTIFACT_EVIDENCE_LABELS[type];
+}
+
+/**
+ * True while the stage builder still has something to produce. Builders
+ * whose output is tracked on the note stop once it exists; the rest run
+ * every time the note is in the stage.
+ */
+export function isStageWorkPending(
+	stage: LearningPipelineStage,
+	note: LearningNote,
+): boolean {
+	if (getMissingStageArtifacts(stage, note).length > 0) return true;
+	switch (stage.builder) {
+		case "html_explainer":
+			return !hasLearningArtifact(note, "html_explainer");
+		case "bridge_note":
+			return note.links.length < 5;
+		case "quiz":
+			return typeof note.quizScore !== "number";
+		case undefined:
+			return false;
+		default:
+			return (stage.requiredArtifacts ?? []).length === 0;
+	}
+}
+
+/**
+ * Reads pipelines from settings data, dropping stages and fields that do not
+ * match the schema so one bad edit cannot break the scanner.
+ */
+export function parseLearningPipelines(value: unknown): LearningPipeline[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.map((item): LearningPipeline | null => {
+			if (!isRecord(item)) return null;
+			const id = parseString(item.id);
+			if (!id || !Array.isArray(item.stages)) return null;
+			const stages = item.stages
+				.map(parseStage)
+				.filter((stage): stage is LearningPipelineStage => stage !== null)
+				.filter(
+					(stage, index, list) =>
+						list.findIndex((other) => other.id === stage.id) === index,
+				);
+			if (stages.length === 0) return null;
+			const pipeline: LearningPipeline = {
+				id,
+				name: parseString(item.name) ?? id,
+				stages,
+			};
+			const types = parseStringList(item.types) as LearningNoteType[];
+			const areas = parseStringList(item.areas);
+			if (types.length > 0) pipeline.types = types;
+			if (areas.length > 0) pipeline.areas = areas;
+			return pipeline;
+		})
+		.filter((pipeline): pipeline is LearningPipeline => pipeline !== null);
+}
+
+function parseStage(value: unknown): LearningPipelineStage | null {
+	if (!isRecord(value)) return null;
+	const id = parseString(value.id)?.toLowerCase();
+	const action = parseString(value.action);
+	if (!id || !action) return null;
+	const weight = Number(value.weight);
+	const stage: LearningPipelineStage = {
+		id,
+		weight: Number.isFinite(weight) ? weight : 50,
+		action,
+		agent: parseAgent(value.agent) ?? "reasoning-model",
+	};
+	const reviewAction = parseString(value.reviewAction);
+	const expectedOutput = parseString(value.expectedOutput);
+	const reviewAgent = parseAgent(value.reviewAgent);
+	const builder = STAGE_BUILDERS.find((item) => item === value.builder);
+	const requiredArtifacts = parseStringList(value.requiredArtifacts).filter(
+		(item): item is LearningArtifactType => item in ARTIFACT_EVIDENCE_LABELS,
+	);
+	const promotionRules: LearningPromotionRule[] = parseStringList(
+		value.promotionRules,
+	).filter((item) => /^[a-z0-9][a-z0-9_-]*$/.test(item));
+	const promotionMessage = parseString(value.promotionMessage);
+	if (reviewAction) stage.reviewAction = reviewAction;
+	if (expectedOutput) stage.expectedOutput = expectedOutput;
+	if (reviewAgent) stage.reviewAgent = reviewAgent;
+	if (builder) stage.builder = builder;
+	if (requiredArtifacts.length > 0) stage.requiredArtifacts = requiredArtifacts;
+	if (promotionRules.length > 0) stage.promotionRules = promotionRules;
+	if (promotionMessage) stage.promotionMessage = promotionMessage;
+	if (value.spacedReview === true) stage.spacedReview = true;
+	const effortHours = value.effortHours;
+	if (
+		typeof effortHours === "number" &&
+		Number.isFinite(effortHours) &&
+		effortHours >= 0
+	) {
+		stage.effortHours = effortHours;
+	}
+	return stage;
+}
+
+function parseAgent(value: unknown): NextActionAgent | undefined {
+	return NEXT_ACTION_AGENTS.find((agent) => agent === value);
+}
+
+function parseString(value: unknown): string | undefined {
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function parseStringList(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.map(parseString)
+		.filter((item): item is string => item !== undefined);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
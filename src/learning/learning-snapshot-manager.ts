@@ -0,0 +1,76 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	formatLearningSnapshotBody,
+	getLearningSnapshotPath,
+	LEARNING_SNAPSHOT_FOLDER,
+	type LearningSnapshot,
+	parseLearningSnapshot,
+} from "@/learning/learning-analytics";
+
+/**
+ * Stores the scan as the snapshot for its day. Later scans on the same day
+ * replace it, and an unchanged snapshot is not rewritten.
+ */
+export async function writeLearningSnapshot(
+	app: App,
+	snapshot: LearningSnapshot,
+): Promise<void> {
+	const snapshotPath = getLearningSnapshotPath(snapshot.date);
+	let file = app.vault.getAbstractFileByPath(snapshotPath);
+	if (file instanceof TFile) {
+		const existing = parseLearningSnapshot(
+			app.metadataCache.getFileCache(file)?.frontmatter as
+				| Record<string, unknown>
+				| undefined,
+		);
+		if (JSON.stringify(existing) === JSON.stringify(snapshot)) return;
+	} else {
+		if (file) throw new Error(`${snapshotPath} exists but is not a file`);
+		await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+		await ensureFolder(app, LEARNING_SNAPSHOT_FOLDER);
+		file = await app.vault.create(snapshotPath, "---\ntype: learning-snapshot\n---\n");
+	}
+	if (!(file instanceof TFile)) {
+		throw new Error(`Could not create ${snapshotPath}`);
+	}
+
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		frontmatter.date = snapshot.date;
+		frontmatter.notes = snapshot.notes.map((entry) => ({ ...entry }));
+	});
+	await app.vault.process(file, (content) =>
+		replaceBody(content, formatLearningSnapshotBody(snapshot)),
+	);
+}
+
+export function readLearningSnapshots(app: App): LearningSnapshot[] {
+	const folder = app.vault.getAbstractFileByPath(LEARNING_SNAPSHOT_FOLDER);
+	if (!(folder instanceof TFolder)) return [];
+	return folder.children
+		.filter((file): file is TFile => file instanceof TFile && file.extension === "md")
+		.map((file) =>
+			parseLearningSnapshot(
+				app.metadataCache.getFileCache(file)?.frontmatter as
+					| Record<string, unknown>
+					| undefined,
+			),
+		)
+		.filter((snapshot): snapshot is LearningSnapshot => snapshot !== null)
+		.sort((left, right) => left.date.localeCompare(right.date));
+}
+
+function replaceBody(content: string, body: string): string {
+	if (!content.startsWith("---")) return body;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return body;
+	return `${content.slice(0, end + 4)}\n\n${body}`;
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) throw new Error(`${normalized} exists but is not a folder`);
+	await app.vault.createFolder(normalized);
+}
@@ -41,11 +41,18 @@ describe("learning state", () => {
 		expect(transition?.patch.status).toBe("explain");
 	});
 
-	it("schedules done notes for review", () => {
+	it("schedules done notes for spaced review from retention evidence", () => {
 		const transition = inferDeterministicTransition(
 			candidate(
 				learningNote({
 					status: "done",
+					quizScore: 8,
+					reviewSchedule: {
+						ease: 2.5,
+						interval: 6,
+						repetitions: 2,
+						last_reviewed: "2026-05-07",
+					},
 				}),
 			),
 			"2026-05-13",
@@ -53,7 +60,12 @@ describe("learning state", () => {
 
 		expect(transition?.patch).toMatchObject({
 			status: "review",
-			reviewDue: "2026-05-20",
+			reviewDue: "2026-05-28",
+			reviewSchedule: {
+				interval: 15,
+				repetitions: 3,
+				last_reviewed: "2026-05-13",
+			},
 		});
 	});
 });
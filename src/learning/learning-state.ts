@@ -1,8 +1,21 @@
 import { formatLearningDate } from "@/learning/frontmatter";
 import { canPromoteStatus } from "@/learning/definition-of-done";
+import {
+	DEFAULT_DEFINITION_OF_DONE_RULES,
+	type DefinitionOfDoneRules,
+} from "@/learning/definition-of-done-rules";
 import type { LearningFrontmatterPatch } from "@/learning/frontmatter-writer";
+import {
+	DEFAULT_LEARNING_PIPELINE,
+	findPipelineStageByBuilder,
+	getNextPipelineStatus,
+	getNotePipeline,
+	getPipelineStage,
+} from "@/learning/learning-pipeline";
+import { inferReviewGrade, scheduleReview } from "@/learning/spaced-repetition";
 import type {
 	LearningNote,
+	LearningPipeline,
 	LearningStatus,
 	NextActionCandidate,
 } from "@/learning/types";
@@ -14,15 +27,20 @@ export interface LearningTransition {
 
 export function getNextLearningStatus(
 	status: LearningStatus,
+	pipeline: LearningPipeline = DEFAULT_LEARNING_PIPELINE,
 ): LearningStatus | null {
-	const index = LEARNING_STATUS_ORDER.indexOf(status);
-	if (index === -1) return null;
-	return LEARNING_STATUS_ORDER[index + 1] ?? null;
+	return getNextPipelineStatus(pipeline, status);
 }
 
+/**
+ * Promotes a note one stage along its pipeline when the Definition of Done
+ * allows it. A failed quiz sends the note back to the explanation stage, and
+ * spaced-review stages reschedule instead of idling.
+ */
 export function inferDeterministicTransition(
 	candidate: NextActionCandidate,
 	today = formatLearningDate(),
+	rules: DefinitionOfDoneRules = DEFAULT_DEFINITION_OF_DONE_RULES,
 ): LearningTransition | null {
 	const note = candidate.note;
 
@@ -30,52 +48,30 @@ export function inferDeterministicTransition(
 		return null;
 	}
 
-	switch (note.status) {
-		case "seed":
-			return canPromoteStatus(note, "explain")
-				? transitionTo(note, "explain", "Moved seed to explain.")
-				: null;
-		case "explain":
-			return canPromoteStatus(note, "visualize")
-				? transitionTo(note, "visualize", "Moved explanation to visualize.")
-				: null;
-		case "visualize":
-			return canPromoteStatus(note, "connect")
-				? transitionTo(note, "connect", "Moved visualization to connect.")
-				: null;
-		case "connect":
-			return canPromoteStatus(note, "test")
-				? transitionTo(note, "test", "Connections validated. Moved to test.")
-				: null;
-		case "test":
-			if (canPromoteStatus(note, "apply")) {
-				return transitionTo(note, "apply", "Quiz passed. Moved to apply.");
-			}
-			return typeof note.quizScore === "number" && note.quizScore < 7
-				? transitionTo(note, "explain", "Quiz was weak. Moved back to explain.")
-				: null;
-		case "apply":
-			return canPromoteStatus(note, "review")
-				? transitionTo(note, "review", "Application evidence moved to review.")
-				: null;
-		case "review":
-			return canPromoteStatus(note, "done")
-				? transitionTo(note, "done", "Review evidence moved to done.")
-				: null;
-		case "done":
-			if (canPromoteStatus(note, "mastered")) {
-				return transitionTo(note, "mastered", "Mastery evidence accepted.");
-			}
-			return {
-				patch: {
-					status: "review",
-					reviewDue: addDays(today, 7),
-				},
-				message: "Scheduled spaced review.",
-			};
-		default:
-			return null;
+	const pipeline = getNotePipeline(note);
+	const stage = getPipelineStage(pipeline, note.status);
+	if (!stage) return null;
+	const next = getNextPipelineStatus(pipeline, stage.id);
+	const target = next ? getPipelineStage(pipeline, next) : undefined;
+
+	if (target && canPromoteStatus(note, target.id, today, rules)) {
+		return transitionTo(
+			note,
+			target.id,
+			target.promotionMessage ?? `Moved ${stage.id} to ${target.id}.`,
+		);
+	}
+	if (stage.builder === "quiz") {
+		const explain = findPipelineStageByBuilder(pipeline, "explanation");
+		return explain && typeof note.quizScore === "number" && note.quizScore < 7
+			? transitionTo(
+					note,
+					explain.id,
+					`Quiz was weak. Moved back to ${explain.id}.`,
+				)
+			: null;
 	}
+	return stage.spacedReview ? scheduleSpacedReview(note, today) : null;
 }
 
 function transitionTo(
@@ -92,27 +88,26 @@ function transitionTo(
 	};
 }
 
-function bumpMaturity(maturity: number | undefined): number {
-	return Math.min((maturity ?? 0) + 1, 5);
+function scheduleSpacedReview(
+	note: LearningNote,
+	today: string,
+): LearningTransition {
+	const reviewStage = findPipelineStageByBuilder(getNotePipeline(note), "review");
+	const { schedule, reviewDue } = scheduleReview(
+		note.reviewSchedule,
+		inferReviewGrade(note),
+		today,
+	);
+	return {
+		patch: {
+			status: reviewStage?.id ?? note.status,
+			reviewDue,
+			reviewSchedule: schedule,
+		},
+		message: `Scheduled spaced review in ${schedule.interval ?? 1} days.`,
+	};
 }
 
-function addDays(dateValue: string, days: number): string {
-	const [year, month, day] = dateValue.split("-").map(Number);
-	if (!year || !month || !day) return dateValue;
-
-	const date = new Date(year, month - 1, day);
-	date.setDate(date.getDate() + days);
-	return formatLearningDate(date);
+function bumpMaturity(maturity: number | undefined): number {
+	return Math.min((maturity ?? 0) + 1, 5);
 }
-
-const LEARNING_STATUS_ORDER: LearningStatus[] = [
-	"seed",
-	"explain",
-	"visualize",
-	"connect",
-	"test",
-	"apply",
-	"review",
-	"done",
-	"mastered",
-];
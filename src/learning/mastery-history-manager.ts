@@ -0,0 +1,80 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	formatMasteryHistoryBody,
+	getLegacyMasteryHistoryPath,
+	getMasteryHistoryPath,
+	MASTERY_HISTORY_FOLDER,
+	parseMasteryHistoryEntries,
+} from "@/learning/mastery-history";
+import type { MasteryHistoryEntry } from "@/learning/types";
+
+/**
+ * Appends one dated examination to the note's `_reviews/mastery` sidecar and
+ * re-renders its timeline table. Returns the sidecar path.
+ */
+export async function appendMasteryHistoryEntry(
+	app: App,
+	file: TFile,
+	entry: MasteryHistoryEntry,
+): Promise<string> {
+	await ensureFolder(app, ARTIFACT_FOLDERS.reviews);
+	await ensureFolder(app, MASTERY_HISTORY_FOLDER);
+	const historyPath = getMasteryHistoryPath(file.path);
+	let historyFile = app.vault.getAbstractFileByPath(historyPath);
+	const legacyFile = findLegacyMasteryHistory(app, file);
+	if (!(historyFile instanceof TFile) && legacyFile) {
+		await app.fileManager.renameFile(legacyFile, historyPath);
+		historyFile = app.vault.getAbstractFileByPath(historyPath);
+	}
+	if (!(historyFile instanceof TFile)) {
+		historyFile = await app.vault.create(
+			historyPath,
+			`---\ntype: mastery-history\nsource_note: "${file.path}"\n---\n\n${formatMasteryHistoryBody(file.basename, [])}`,
+		);
+	}
+	if (!(historyFile instanceof TFile)) {
+		throw new Error(`Could not create ${historyPath}`);
+	}
+
+	let entries: MasteryHistoryEntry[] = [];
+	await app.fileManager.processFrontMatter(historyFile, (frontmatter) => {
+		entries = parseMasteryHistoryEntries([
+			...(Array.isArray(frontmatter.entries) ? frontmatter.entries : []),
+			entry,
+		]);
+		frontmatter.entries = entries.map((item) => ({ ...item }));
+	});
+	await app.vault.process(historyFile, (content) =>
+		replaceBody(content, formatMasteryHistoryBody(file.basename, entries)),
+	);
+	return historyPath;
+}
+
+/**
+ * The note's sidecar under its old basename path, if that sidecar records
+ * this note as its source. Another note with the same name is not matched.
+ */
+export function findLegacyMasteryHistory(app: App, file: TFile): TFile | null {
+	const legacy = app.vault.getAbstractFileByPath(
+		getLegacyMasteryHistoryPath(file.basename),
+	);
+	if (!(legacy instanceof TFile)) return null;
+	const source = app.metadataCache.getFileCache(legacy)?.frontmatter?.source_note;
+	return source === file.path ? legacy : null;
+}
+
+function replaceBody(content: string, body: string): string {
+	if (!content.startsWith("---")) return body;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return body;
+	return `${content.slice(0, end + 4)}\n\n${body}`;
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) throw new Error(`${normalized} exists but is not a folder`);
+	await app.vault.createFolder(normalized);
+}
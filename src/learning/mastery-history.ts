@@ -0,0 +1,100 @@
+import { normalizePath } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import type { MasteryHistoryEntry } from "@/learning/types";
+
+export const MASTERY_HISTORY_FOLDER = normalizePath(
+	`${ARTIFACT_FOLDERS.reviews}/mastery`,
+);
+
+const HISTORY_SCORE_KEYS = [
+	"recall",
+	"mechanism",
+	"transfer",
+	"application",
+] as const;
+
+/**
+ * Sidecar path for a note, slugged from its full path so notes with the
+ * same name in different folders keep separate timelines.
+ */
+export function getMasteryHistoryPath(notePath: string): string {
+	const slug = slugify(notePath.replace(/\.md$/i, ""));
+	return normalizePath(`${MASTERY_HISTORY_FOLDER}/${slug}-history.md`);
+}
+
+/** Basename-only path used before sidecars were keyed by the note path. */
+export function getLegacyMasteryHistoryPath(noteBasename: string): string {
+	return normalizePath(`${MASTERY_HISTORY_FOLDER}/${slugify(noteBasename)}-history.md`);
+}
+
+/**
+ * Reads `entries` from a history sidecar's frontmatter, oldest first.
+ * Malformed entries are skipped so one bad edit does not hide the timeline.
+ */
+export function parseMasteryHistoryEntries(value: unknown): MasteryHistoryEntry[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.map((item): MasteryHistoryEntry | null => {
+			if (typeof item !== "object" || item === null) return null;
+			const record = item as Record<string, unknown>;
+			const date = parseDate(record.date);
+			if (!date) return null;
+			const entry: MasteryHistoryEntry = {
+				date,
+				source: record.source === "quiz" ? "quiz" : "examiner",
+			};
+			for (const key of HISTORY_SCORE_KEYS) {
+				const score = parseScore(record[key]);
+				if (score !== undefined) entry[key] = score;
+			}
+			if (typeof record.evidence === "string" && record.evidence.trim()) {
+				entry.evidence = record.evidence.trim();
+			}
+			return entry;
+		})
+		.filter((entry): entry is MasteryHistoryEntry => entry !== null)
+		.sort((left, right) => left.date.localeCompare(right.date));
+}
+
+export function formatMasteryHistoryBody(
+	noteTitle: string,
+	entries: MasteryHistoryEntry[],
+): string {
+	const rows = entries.map(
+		(entry) =>
+			`| ${entry.date} | ${entry.source} | ${formatScore(entry.recall)} | ${formatScore(entry.mechanism)} | ${formatScore(entry.transfer)} | ${formatScore(entry.application)} | ${entry.evidence ? `[[${entry.evidence}]]` : ""} |`,
+	);
+	return `# ${noteTitle} mastery history
+
+Source note: [[${noteTitle}]]
+
+| Date | Source | Recall | Mechanism | Transfer | Application | Evidence |
+| --- | --- | --- | --- | --- | --- | --- |
+${rows.join("\n")}
+`;
+}
+
+function parseDate(value: unknown): string | undefined {
+	if (value instanceof Date) return value.toISOString().slice(0, 10);
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? trimmed : undefined;
+}
+
+function parseScore(value: unknown): number | undefined {
+	const score = typeof value === "string" ? Number(value) : value;
+	if (typeof score !== "number" || !Number.isFinite(score)) return undefined;
+	return Math.max(0, Math.min(10, score));
+}
+
+function formatScore(value: number | undefined): string {
+	return value === undefined ? "-" : String(value);
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "learning-note";
+}
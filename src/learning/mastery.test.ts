@@ -1,6 +1,8 @@
 import { describe, expect, it } from "vitest";
 import {
 	DONE_MASTERY_THRESHOLD,
+	estimateCurrentMastery,
+	getMasteryStability,
 	MASTERED_MASTERY_THRESHOLD,
 	extractWeakPoints,
 	meetsMasteryThreshold,
@@ -23,6 +25,22 @@ describe("mastery evidence", () => {
 		expect(mastery.last_examined).toBe("2026-05-15");
 	});
 
+	it("restarts decay only for the categories that were examined", () => {
+		const mastery = updateMasteryScore(
+			{ recall_score: 8, mechanism_score: 8, last_examined: "2026-01-01" },
+			{ category: "recall", score: 8, examinedAt: "2026-06-30" },
+		);
+
+		expect(mastery.examined_dates).toEqual({
+			recall: "2026-06-30",
+			mechanism: "2026-01-01",
+		});
+		expect(estimateCurrentMastery(mastery, "2026-06-30")).toMatchObject({
+			recall_score: 8,
+			mechanism_score: 5.3,
+		});
+	});
+
 	it("checks done and mastered thresholds", () => {
 		const done = {
 			recall_score: 6,
@@ -50,4 +68,41 @@ describe("mastery evidence", () => {
 			]),
 		).toEqual(["transfer: missed analogy"]);
 	});
+
+	it("decays stale scores once recall drops below the retention target", () => {
+		const mastery = {
+			recall_score: 8,
+			mechanism_score: 8,
+			transfer_score: 8,
+			application_score: 8,
+			last_examined: "2026-01-01",
+		};
+
+		expect(estimateCurrentMastery(mastery, "2026-01-31")?.recall_score).toBe(8);
+		expect(estimateCurrentMastery(mastery, "2026-06-30")?.recall_score).toBe(5.3);
+		expect(
+			meetsMasteryThreshold(mastery, MASTERED_MASTERY_THRESHOLD, "2026-01-20"),
+		).toBe(true);
+		expect(
+			meetsMasteryThreshold(mastery, DONE_MASTERY_THRESHOLD, "2026-06-30"),
+		).toBe(false);
+	});
+
+	it("holds scores longer after repeated passing examinations", () => {
+		const history = [
+			{ date: "2025-10-01", source: "examiner" as const, recall: 7 },
+			{ date: "2025-11-15", source: "quiz" as const, recall: 8 },
+			{ date: "2026-01-01", source: "examiner" as const, recall: 8, mechanism: 4 },
+		];
+
+		expect(getMasteryStability(history, "recall")).toBe(120);
+		expect(getMasteryStability(history, "mechanism")).toBe(30);
+		expect(
+			estimateCurrentMastery(
+				{ recall_score: 8, last_examined: "2026-01-01" },
+				"2026-04-01",
+				history,
+			)?.recall_score,
+		).toBe(8);
+	});
 });
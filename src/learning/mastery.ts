@@ -1,5 +1,5 @@
 import { formatLearningDate } from "@/learning/frontmatter";
-import type { LearningMastery } from "@/learning/types";
+import type { LearningMastery, MasteryHistoryEntry } from "@/learning/types";
 
 export type MasteryCategory =
 	| "recall"
@@ -17,14 +17,29 @@ export interface MasteryUpdate {
 
 export const DONE_MASTERY_THRESHOLD = 6;
 export const MASTERED_MASTERY_THRESHOLD = 8;
+export const BASE_MASTERY_STABILITY_DAYS = 30;
+export const MAX_MASTERY_STABILITY_DAYS = 365;
+export const MASTERY_RETENTION_TARGET = 0.9;
+
+const MASTERY_CATEGORIES: readonly MasteryCategory[] = [
+	"recall",
+	"mechanism",
+	"transfer",
+	"application",
+];
 
 export function updateMasteryScore(
 	mastery: LearningMastery | undefined,
 	update: MasteryUpdate,
 ): LearningMastery {
+	const examinedAt = update.examinedAt ?? formatLearningDate();
 	const next: LearningMastery = {
 		...mastery,
-		last_examined: update.examinedAt ?? formatLearningDate(),
+		examined_dates: {
+			...getCategoryExaminedDates(mastery),
+			[update.category]: examinedAt,
+		},
+		last_examined: examinedAt,
 	};
 	next[scoreKey(update.category)] = clampScore(update.score);
 	if (update.evidenceNote) {
@@ -39,9 +54,78 @@ export function updateMasteryScore(
 	return next;
 }
 
+/**
+ * Estimates today's mastery from the last examination. Scores hold until
+ * predicted recall drops below the retention target, then fade along the
+ * same power curve as spaced review. Each passing examination in the history
+ * doubles how long a category holds.
+ */
+export function estimateCurrentMastery(
+	mastery: LearningMastery | undefined,
+	today = formatLearningDate(),
+	history: MasteryHistoryEntry[] = [],
+): LearningMastery | undefined {
+	if (!mastery?.last_examined) return mastery;
+
+	const next: LearningMastery = { ...mastery };
+	for (const category of MASTERY_CATEGORIES) {
+		const key = scoreKey(category);
+		const score = mastery[key];
+		if (typeof score !== "number") continue;
+		const examined = mastery.examined_dates?.[category] ?? mastery.last_examined;
+		const elapsedDays = daysBetween(examined, today);
+		if (elapsedDays === null || elapsedDays <= 0) continue;
+		const stability = getMasteryStability(history, category);
+		const retrievability = 1 / (1 + elapsedDays / (9 * stability));
+		const factor = Math.min(1, retrievability / MASTERY_RETENTION_TARGET);
+		next[key] = Math.round(score * factor * 10) / 10;
+	}
+	return next;
+}
+
+/**
+ * Date each scored category was last examined. Notes written before dates
+ * were kept per category fall back to `last_examined` for every score.
+ */
+function getCategoryExaminedDates(
+	mastery: LearningMastery | undefined,
+): Partial<Record<MasteryCategory, string>> {
+	const dates = { ...mastery?.examined_dates };
+	if (!mastery?.last_examined) return dates;
+	for (const category of MASTERY_CATEGORIES) {
+		if (typeof mastery[scoreKey(category)] === "number") {
+			dates[category] ??= mastery.last_examined;
+		}
+	}
+	return dates;
+}
+
+export function getMasteryStability(
+	history: MasteryHistoryEntry[],
+	category: MasteryCategory,
+): number {
+	const passes = history.filter(
+		(entry) => (entry[category] ?? 0) >= DONE_MASTERY_THRESHOLD,
+	).length;
+	return Math.min(
+		MAX_MASTERY_STABILITY_DAYS,
+		BASE_MASTERY_STABILITY_DAYS * 2 ** Math.max(0, passes - 1),
+	);
+}
+
 export function meetsMasteryThreshold(
 	mastery: LearningMastery | undefined,
 	threshold: number,
+	today = formatLearningDate(),
+	history: MasteryHistoryEntry[] = [],
+): boolean {
+	const current = estimateCurrentMastery(mastery, today, history);
+	return meetsRawMasteryThreshold(current, threshold);
+}
+
+function meetsRawMasteryThreshold(
+	mastery: LearningMastery | undefined,
+	threshold: number,
 ): boolean {
 	return (
 		(mastery?.recall_score ?? 0) >= threshold &&
@@ -60,7 +144,9 @@ export function extractWeakPoints(
 		.map((result) => `${result.category}: ${result.note}`);
 }
 
-function scoreKey(category: MasteryCategory): keyof LearningMastery {
+function scoreKey(
+	category: MasteryCategory,
+): "recall_score" | "mechanism_score" | "transfer_score" | "application_score" {
 	switch (category) {
 		case "recall":
 			return "recall_score";
@@ -73,6 +159,19 @@ function scoreKey(category: MasteryCategory): keyof LearningMastery {
 	}
 }
 
+function daysBetween(from: string, to: string): number | null {
+	const start = parseDate(from);
+	const end = parseDate(to);
+	if (!start || !end) return null;
+	return Math.round((end.getTime() - start.getTime()) / 86400000);
+}
+
+function parseDate(value: string): Date | null {
+	const [year, month, day] = value.split("-").map(Number);
+	if (!year || !month || !day) return null;
+	return new Date(year, month - 1, day);
+}
+
 function clampScore(score: number): number {
 	if (!Number.isFinite(score)) return 0;
 	return Math.max(0, Math.min(10, score));
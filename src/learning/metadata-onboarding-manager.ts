@@ -0,0 +1,188 @@
+import {
+	type App,
+	getAllTags,
+	normalizePath,
+	TFile,
+	TFolder,
+} from "obsidian";
+import { planFrontmatterRevert } from "@/learning/action-undo";
+import {
+	ARTIFACT_FOLDERS,
+	LEARNING_FRONTMATTER_KEYS,
+} from "@/learning/constants";
+import { hasLearningFrontmatter } from "@/learning/frontmatter";
+import {
+	chunkOnboardingPatches,
+	createOnboardingBatchId,
+	formatOnboardingBatchRecord,
+	getOnboardingBatchPath,
+	ONBOARDING_UNDO_FOLDER,
+	type OnboardingBatchRecord,
+	type OnboardingNote,
+	type OnboardingNotePatch,
+	parseOnboardingBatchRecord,
+} from "@/learning/metadata-onboarding";
+
+export interface OnboardingRevertResult {
+	record: OnboardingBatchRecord;
+	reverted: number;
+	/** `path: key` for fields edited after the batch; they keep their value. */
+	conflicts: string[];
+}
+
+/** Every markdown note outside the system folders with no learning frontmatter. */
+export function collectOnboardingNotes(app: App): OnboardingNote[] {
+	const systemFolders = Object.values(ARTIFACT_FOLDERS);
+	return app.vault
+		.getMarkdownFiles()
+		.filter(
+			(file) => !systemFolders.some((folder) => file.path.startsWith(`${folder}/`)),
+		)
+		.flatMap((file) => {
+			const cache = app.metadataCache.getFileCache(file);
+			const frontmatter = cache?.frontmatter as
+				| Record<string, unknown>
+				| undefined;
+			if (hasLearningFrontmatter(frontmatter)) return [];
+			return [
+				{
+					path: file.path,
+					title: file.basename,
+					tags: cache ? (getAllTags(cache) ?? []) : [],
+					links: Object.keys(app.metadataCache.resolvedLinks[file.path] ?? {}),
+				},
+			];
+		});
+}
+
+/**
+ * Writes the patches in batches and saves one undo record per batch. Only
+ * fields a note still lacks are written, so learning metadata added since
+ * the preview is kept.
+ */
+export async function applyOnboardingPatches(
+	app: App,
+	patches: readonly OnboardingNotePatch[],
+	createdAt = new Date(),
+	onBatch?: (done: number, total: number) => void,
+): Promise<OnboardingBatchRecord[]> {
+	await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+	await ensureFolder(app, ONBOARDING_UNDO_FOLDER);
+
+	const records: OnboardingBatchRecord[] = [];
+	const batches = chunkOnboardingPatches(patches);
+	for (const [index, batch] of batches.entries()) {
+		const notes: OnboardingBatchRecord["notes"] = [];
+		for (const { notePath, patch } of batch) {
+			const file = app.vault.getAbstractFileByPath(notePath);
+			if (!(file instanceof TFile)) continue;
+			const before: Record<string, unknown> = {};
+			const after: Record<string, unknown> = {};
+			await app.fileManager.processFrontMatter(file, (frontmatter) => {
+				for (const [field, value] of Object.entries(patch)) {
+					const key = toFrontmatterKey(field);
+					if (value === undefined || frontmatter[key] !== undefined) continue;
+					frontmatter[key] = value;
+					after[key] = value;
+				}
+			});
+			if (Object.keys(after).length > 0) {
+				notes.push({ path: notePath, before, after });
+			}
+		}
+
+		const id = createOnboardingBatchId(createdAt, index);
+		const record: OnboardingBatchRecord = {
+			id,
+			path: getOnboardingBatchPath(id),
+			createdAt: createdAt.toISOString(),
+			notes,
+			status: "active",
+		};
+		await app.vault.create(record.path, formatOnboardingBatchRecord(record));
+		records.push(record);
+		onBatch?.(index + 1, batches.length);
+	}
+	return records;
+}
+
+export async function readOnboardingBatches(
+	app: App,
+): Promise<OnboardingBatchRecord[]> {
+	const records: OnboardingBatchRecord[] = [];
+	for (const file of app.vault.getFiles()) {
+		if (
+			file.extension !== "json" ||
+			!file.path.startsWith(`${ONBOARDING_UNDO_FOLDER}/`)
+		) {
+			continue;
+		}
+		const record = parseOnboardingBatchRecord(
+			file.path,
+			await app.vault.cachedRead(file),
+		);
+		if (record) records.push(record);
+	}
+	return records.sort(
+		(left, right) =>
+			left.createdAt.localeCompare(right.createdAt) ||
+			left.id.localeCompare(right.id),
+	);
+}
+
+/**
+ * Removes the fields a batch wrote. Fields edited since keep their current
+ * value and are reported as conflicts.
+ */
+export async function revertOnboardingBatch(
+	app: App,
+	record: OnboardingBatchRecord,
+	revertedAt = new Date(),
+): Promise<OnboardingRevertResult> {
+	if (record.status === "reverted") {
+		throw new Error(`Onboarding ${record.id} was already undone`);
+	}
+
+	let reverted = 0;
+	const conflicts: string[] = [];
+	for (const note of record.notes) {
+		const file = app.vault.getAbstractFileByPath(note.path);
+		if (!(file instanceof TFile)) continue;
+		await app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const plan = planFrontmatterRevert(note, frontmatter);
+			for (const [key, value] of Object.entries(plan.set)) {
+				frontmatter[key] = value;
+			}
+			for (const key of plan.remove) {
+				delete frontmatter[key];
+			}
+			conflicts.push(...plan.conflicts.map((key) => `${note.path}: ${key}`));
+		});
+		reverted++;
+	}
+
+	const updated: OnboardingBatchRecord = {
+		...record,
+		status: "reverted",
+		revertedAt: revertedAt.toISOString(),
+	};
+	const recordFile = app.vault.getAbstractFileByPath(record.path);
+	if (recordFile instanceof TFile) {
+		await app.vault.process(recordFile, () => formatOnboardingBatchRecord(updated));
+	}
+	return { record: updated, reverted, conflicts };
+}
+
+function toFrontmatterKey(field: string): string {
+	return field in LEARNING_FRONTMATTER_KEYS
+		? LEARNING_FRONTMATTER_KEYS[field as keyof typeof LEARNING_FRONTMATTER_KEYS]
+		: field;
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) throw new Error(`${normalized} exists but is not a folder`);
+	await app.vault.createFolder(normalized);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+	applyOnboardingModelHints,
+	buildOnboardingPatches,
+	chunkOnboardingPatches,
+	groupOnboardingNotes,
+	type OnboardingNote,
+	parseOnboardingModelHints,
+} from "@/learning/metadata-onboarding";
+
+describe("metadata onboarding", () => {
+	it("groups by shared tag, then folder, then link community", () => {
+		const groups = groupOnboardingNotes([
+			note("Inbox/B-tree.md", { tags: ["#databases/indexing"] }),
+			note("Inbox/LSM tree.md", { tags: ["databases/indexing"] }),
+			note("Books/Designing Data-Intensive Applications.md"),
+			note("Books/Database Internals.md"),
+			note("Raft.md", { links: ["Paxos.md"] }),
+			note("Paxos.md", { links: ["Raft.md"] }),
+			note("Why is consensus hard?.md"),
+		]);
+
+		expect(
+			groups.map((group) => [
+				group.id,
+				group.notePaths.length,
+				group.proposal.type,
+				group.proposal.area,
+				group.proposal.status,
+			]),
+		).toEqual([
+			["tag:databases/indexing", 2, "concept", "databases", "seed"],
+			["folder:Books", 2, "source", "books", "seed"],
+			["community:Raft.md", 2, "concept", "learning", "seed"],
+			["loose", 1, "question", "learning", "seed"],
+		]);
+		expect(groups[1]!.reasons).toContain("The folder name suggests source notes.");
+	});
+
+	it("takes model hints and batches one patch per note", () => {
+		const [group] = groupOnboardingNotes([
+			note("Raft.md", { links: ["Paxos.md"] }),
+			note("Paxos.md", { links: ["Raft.md"] }),
+		]);
+		const hints = parseOnboardingModelHints(
+			'Sure: {"groups": [{"id": "community:Raft.md", "type": "concept", "area": "Distributed Systems", "reason": "Consensus protocols."}, {"id": "other", "type": "essay"}]}',
+		);
+		expect(hints).toEqual([
+			{
+				groupId: "community:Raft.md",
+				type: "concept",
+				area: "distributed-systems",
+				reason: "Consensus protocols.",
+			},
+			{ groupId: "other", reason: "Suggested by the model." },
+		]);
+
+		const [refined] = applyOnboardingModelHints([group!], hints);
+		expect(refined!.proposal.area).toBe("distributed-systems");
+		expect(refined!.reasons).toContain("Model: Consensus protocols.");
+
+		const patches = buildOnboardingPatches([refined!]);
+		expect(patches[0]).toEqual({
+			notePath: "Paxos.md",
+			patch: {
+				type: "concept",
+				area: "distributed-systems",
+				status: "seed",
+				maturity: 0,
+			},
+		});
+		expect(chunkOnboardingPatches(patches, 1)).toHaveLength(2);
+	});
+});
+
+function note(
+	path: string,
+	overrides: Partial<OnboardingNote> = {},
+): OnboardingNote {
+	return {
+		path,
+		title: path.split("/").pop()!.replace(/\.md$/, ""),
+		tags: [],
+		links: [],
+		...overrides,
+	};
+}
@@ -0,0 +1,490 @@
+import { normalizePath } from "obsidian";
+import { ARTIFACT_FOLDERS, LEARNING_NOTE_TYPES } from "@/learning/constants";
+import type { LearningFrontmatterPatch } from "@/learning/frontmatter-writer";
+import { resolveLearningPipeline } from "@/learning/learning-pipeline";
+import type {
+	LearningNoteType,
+	LearningPipeline,
+	LearningStatus,
+} from "@/learning/types";
+
+/** A vault note that has no learning frontmatter yet. */
+export interface OnboardingNote {
+	path: string;
+	title: string;
+	/** Tags without the leading `#`. */
+	tags: string[];
+	/** Resolved paths this note links to. */
+	links: string[];
+}
+
+export type OnboardingGroupKind = "tag" | "folder" | "community" | "loose";
+
+export interface OnboardingProposal {
+	type: LearningNoteType;
+	area: string;
+	status: LearningStatus;
+}
+
+export interface OnboardingGroup {
+	id: string;
+	kind: OnboardingGroupKind;
+	label: string;
+	notePaths: string[];
+	proposal: OnboardingProposal;
+	reasons: string[];
+}
+
+export interface OnboardingModelHint {
+	groupId: string;
+	type?: LearningNoteType;
+	area?: string;
+	reason: string;
+}
+
+export interface OnboardingNotePatch {
+	notePath: string;
+	patch: LearningFrontmatterPatch;
+}
+
+/** One applied batch: the frontmatter each note had before and after it. */
+export interface OnboardingBatchRecord {
+	id: string;
+	path: string;
+	createdAt: string;
+	notes: {
+		path: string;
+		before: Record<string, unknown>;
+		after: Record<string, unknown>;
+	}[];
+	status: "active" | "reverted";
+	revertedAt?: string;
+}
+
+export const ONBOARDING_UNDO_FOLDER = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/onboarding-undo`,
+);
+export const ONBOARDING_BATCH_SIZE = 50;
+
+const MIN_GROUP_SIZE = 2;
+const COMMUNITY_ROUNDS = 10;
+const MOC_LINK_COUNT = 10;
+
+const TYPE_KEYWORDS: [LearningNoteType, RegExp][] = [
+	["moc", /\b(moc|index|map of content|overview|hub)\b/],
+	["case-study", /\b(case[- ]stud(y|ies)|post[- ]?mortem|incident)\b/],
+	["project", /\b(projects?|side[- ]project)\b/],
+	[
+		"source",
+		/\b(sources?|books?|papers?|articles?|readings?|literature|course)\b/,
+	],
+	["adr", /\b(adrs?|decisions?|decision record)\b/],
+	["tool", /\b(tools?|cli|library|framework|cheat ?sheet)\b/],
+	["question", /^(how|why|what|when|which|should|can|is|does)\b|\?$/],
+];
+
+/**
+ * Puts every note into one group. A tag shared by at least two notes wins,
+ * then the note's folder, then the link community it falls into, so notes
+ * in a flat vault still group by what they link to. Notes left alone form
+ * a single loose group.
+ */
+export function groupOnboardingNotes(
+	notes: readonly OnboardingNote[],
+	pipelines: readonly LearningPipeline[] = [],
+): OnboardingGroup[] {
+	const buckets = new Map<
+		string,
+		{ kind: OnboardingGroupKind; label: string; notes: OnboardingNote[] }
+	>();
+	const add = (
+		key: string,
+		kind: OnboardingGroupKind,
+		label: string,
+		note: OnboardingNote,
+	) => {
+		const bucket = buckets.get(key) ?? { kind, label, notes: [] };
+		bucket.notes.push(note);
+		buckets.set(key, bucket);
+	};
+
+	const tagCounts = countBy(notes.flatMap((note) => uniqueTags(note)));
+	const folderCounts = countBy(
+		notes.map((note) => getFolder(note.path)).filter(Boolean),
+	);
+	const communities = findLinkCommunities(notes);
+	const communitySizes = countBy([...communities.values()]);
+
+	for (const note of notes) {
+		const tag = uniqueTags(note)
+			.filter((candidate) => (tagCounts.get(candidate) ?? 0) >= MIN_GROUP_SIZE)
+			.sort(
+				(left, right) =>
+					(tagCounts.get(right) ?? 0) - (tagCounts.get(left) ?? 0) ||
+					left.localeCompare(right),
+			)[0];
+		const folder = getFolder(note.path);
+		const community = communities.get(note.path);
+		if (tag) {
+			add(`tag:${tag}`, "tag", `#${tag}`, note);
+		} else if (folder && (folderCounts.get(folder) ?? 0) >= MIN_GROUP_SIZE) {
+			add(`folder:${folder}`, "folder", folder, note);
+		} else if (
+			community &&
+			(communitySizes.get(community) ?? 0) >= MIN_GROUP_SIZE
+		) {
+			add(
+				`community:${community}`,
+				"community",
+				`Linked around ${titleOf(notes, community)}`,
+				note,
+			);
+		} else {
+			add("loose", "loose", "Ungrouped notes", note);
+		}
+	}
+
+	return [...buckets.entries()]
+		.map(([id, bucket]) => {
+			const { proposal, reasons } = proposeGroupMetadata(
+				bucket.kind,
+				id,
+				bucket.notes,
+				pipelines,
+			);
+			return {
+				id,
+				kind: bucket.kind,
+				label: bucket.label,
+				notePaths: bucket.notes.map((note) => note.path).sort(),
+				proposal,
+				reasons,
+			};
+		})
+		.sort(
+			(left, right) =>
+				right.notePaths.length - left.notePaths.length ||
+				left.label.localeCompare(right.label),
+		);
+}
+
+/** Overrides type and area where the model gave a valid answer. */
+export function applyOnboardingModelHints(
+	groups: readonly OnboardingGroup[],
+	hints: readonly OnboardingModelHint[],
+	pipelines: readonly LearningPipeline[] = [],
+): OnboardingGroup[] {
+	const byGroup = new Map(hints.map((hint) => [hint.groupId, hint]));
+	return groups.map((group) => {
+		const hint = byGroup.get(group.id);
+		if (!hint || (!hint.type && !hint.area)) return group;
+		const type = hint.type ?? group.proposal.type;
+		const area = hint.area ?? group.proposal.area;
+		return {
+			...group,
+			proposal: { type, area, status: getFirstStatus(type, area, pipelines) },
+			reasons: [...group.reasons, `Model: ${hint.reason}`],
+		};
+	});
+}
+
+/** One patch per note of the given groups, all starting at maturity 0. */
+export function buildOnboardingPatches(
+	groups: readonly OnboardingGroup[],
+): OnboardingNotePatch[] {
+	return groups.flatMap((group) =>
+		group.notePaths.map((notePath) => ({
+			notePath,
+			patch: {
+				type: group.proposal.type,
+				area: group.proposal.area,
+				status: group.proposal.status,
+				maturity: 0,
+			},
+		})),
+	);
+}
+
+export function chunkOnboardingPatches(
+	patches: readonly OnboardingNotePatch[],
+	size = ONBOARDING_BATCH_SIZE,
+): OnboardingNotePatch[][] {
+	const batches: OnboardingNotePatch[][] = [];
+	for (let index = 0; index < patches.length; index += size) {
+		batches.push(patches.slice(index, index + size));
+	}
+	return batches;
+}
+
+export function getOnboardingBatchPath(id: string): string {
+	return normalizePath(`${ONBOARDING_UNDO_FOLDER}/${id}.json`);
+}
+
+export function createOnboardingBatchId(
+	createdAt: Date,
+	index: number,
+): string {
+	const stamp = createdAt.toISOString().replace(/[-:.]/g, "").slice(0, 18);
+	return `${stamp}-batch-${index + 1}`;
+}
+
+export function buildOnboardingModelPrompt(
+	groups: readonly OnboardingGroup[],
+	titles: ReadonlyMap<string, string>,
+): string {
+	const lines = groups.map((group) => {
+		const sample = group.notePaths
+			.slice(0, 8)
+			.map((path) => titles.get(path) ?? path)
+			.join("; ");
+		return `- id: ${group.id} | ${group.label} | ${group.notePaths.length} notes | proposed ${group.proposal.type} in ${group.proposal.area} | e.g. ${sample}`;
+	});
+	return `You are setting up learning metadata for groups of notes in an Obsidian vault.
+
+Note types: ${LEARNING_NOTE_TYPES.join(", ")}.
+Areas are short kebab-case subject names such as "databases" or "distributed-systems".
+
+Groups:
+${lines.join("\n")}
+
+For each group, pick the note type most of its notes are and the subject area they belong to. Keep the proposal when it already fits.
+Reply with JSON only: {"groups": [{"id": "<group id>", "type": "<note type>", "area": "<area>", "reason": "<one sentence>"}]}`;
+}
+
+export function parseOnboardingModelHints(text: string): OnboardingModelHint[] {
+	const match = /\{[\s\S]*\}/.exec(text);
+	if (!match) return [];
+	try {
+		const parsed = JSON.parse(match[0]) as { groups?: unknown };
+		if (!Array.isArray(parsed.groups)) return [];
+		return parsed.groups
+			.map((item): OnboardingModelHint | null => {
+				if (typeof item !== "object" || item === null) return null;
+				const record = item as Record<string, unknown>;
+				if (typeof record.id !== "string" || !record.id.trim()) return null;
+				const type = LEARNING_NOTE_TYPES.find((known) => known === record.type);
+				const area =
+					typeof record.area === "string"
+						? normalizeArea(record.area)
+						: undefined;
+				return {
+					groupId: record.id.trim(),
+					...(type ? { type } : {}),
+					...(area ? { area } : {}),
+					reason:
+						typeof record.reason === "string" && record.reason.trim()
+							? record.reason.trim()
+							: "Suggested by the model.",
+				};
+			})
+			.filter((hint): hint is OnboardingModelHint => hint !== null);
+	} catch {
+		return [];
+	}
+}
+
+export function parseOnboardingBatchRecord(
+	path: string,
+	content: string,
+): OnboardingBatchRecord | null {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch {
+		return null;
+	}
+	if (
+		!isRecord(raw) ||
+		typeof raw.id !== "string" ||
+		typeof raw.createdAt !== "string"
+	) {
+		return null;
+	}
+	const notes = Array.isArray(raw.notes)
+		? raw.notes
+				.filter((note): note is Record<string, unknown> => isRecord(note))
+				.filter((note) => typeof note.path === "string")
+				.map((note) => ({
+					path: note.path as string,
+					before: isRecord(note.before) ? note.before : {},
+					after: isRecord(note.after) ? note.after : {},
+				}))
+		: [];
+	return {
+		id: raw.id,
+		path,
+		createdAt: raw.createdAt,
+		notes,
+		status: raw.status === "reverted" ? "reverted" : "active",
+		...(typeof raw.revertedAt === "string"
+			? { revertedAt: raw.revertedAt }
+			: {}),
+	};
+}
+
+export function formatOnboardingBatchRecord(
+	record: OnboardingBatchRecord,
+): string {
+	return `${JSON.stringify({ ...record, path: undefined }, null, 2)}\n`;
+}
+
+function proposeGroupMetadata(
+	kind: OnboardingGroupKind,
+	id: string,
+	notes: readonly OnboardingNote[],
+	pipelines: readonly LearningPipeline[],
+): { proposal: OnboardingProposal; reasons: string[] } {
+	const reasons: string[] = [];
+	const key = id.slice(id.indexOf(":") + 1);
+
+	const groupType =
+		kind === "tag" || kind === "folder" ? inferType(key) : undefined;
+	const votes = countBy(notes.map((note) => groupType ?? inferNoteType(note)));
+	const [type, typeVotes]: [LearningNoteType, number] = [
+		...votes.entries(),
+	].sort(
+		(left, right) => right[1] - left[1] || left[0].localeCompare(right[0]),
+	)[0] ?? ["concept", 0];
+	if (groupType) {
+		reasons.push(`The ${kind} name suggests ${groupType} notes.`);
+	} else if (type !== "concept") {
+		reasons.push(
+			`${typeVotes} of ${notes.length} titles read like ${type} notes.`,
+		);
+	}
+
+	let area: string | undefined;
+	if (kind === "tag") {
+		area = normalizeArea(key.split("/")[0]);
+		if (area) reasons.push(`Area from tag #${key}.`);
+	} else if (kind === "folder") {
+		area = normalizeArea(key.split("/").pop());
+		if (area) reasons.push(`Area from folder ${key}.`);
+	}
+	if (!area) {
+		const folders = countBy(
+			notes.map((note) =>
+				normalizeArea(note.path.split("/").slice(0, -1).pop()),
+			),
+		);
+		const [folder] =
+			[...folders.entries()]
+				.filter((entry): entry is [string, number] => entry[0] !== undefined)
+				.sort((left, right) => right[1] - left[1])[0] ?? [];
+		area = folder ?? "learning";
+		reasons.push(
+			folder
+				? `Area from the most common folder, ${folder}.`
+				: "No folder or tag to name the area.",
+		);
+	}
+
+	const status = getFirstStatus(type, area, pipelines);
+	return { proposal: { type, area, status }, reasons };
+}
+
+function inferNoteType(note: OnboardingNote): LearningNoteType {
+	if (note.links.length >= MOC_LINK_COUNT) return "moc";
+	return inferType(note.title) ?? "concept";
+}
+
+function inferType(text: string): LearningNoteType | undefined {
+	const normalized = text
+		.trim()
+		.toLowerCase()
+		.replace(/[_/-]+/g, " ");
+	return TYPE_KEYWORDS.find(([, pattern]) => pattern.test(normalized))?.[0];
+}
+
+function getFirstStatus(
+	type: LearningNoteType,
+	area: string,
+	pipelines: readonly LearningPipeline[],
+): LearningStatus {
+	return (
+		resolveLearningPipeline({ type, area }, pipelines).stages[0]?.id ?? "seed"
+	);
+}
+
+/**
+ * Label propagation over the undirected link graph: each note repeatedly
+ * takes the label most of its neighbours carry, ties going to the smaller
+ * path so the result does not depend on note order.
+ */
+function findLinkCommunities(
+	notes: readonly OnboardingNote[],
+): Map<string, string> {
+	const paths = new Set(notes.map((note) => note.path));
+	const neighbours = new Map<string, Set<string>>(
+		notes.map((note) => [note.path, new Set<string>()]),
+	);
+	for (const note of notes) {
+		for (const link of note.links) {
+			if (!paths.has(link) || link === note.path) continue;
+			neighbours.get(note.path)?.add(link);
+			neighbours.get(link)?.add(note.path);
+		}
+	}
+
+	const labels = new Map([...paths].map((path) => [path, path]));
+	const order = [...paths].sort();
+	for (let round = 0; round < COMMUNITY_ROUNDS; round++) {
+		let changed = false;
+		for (const path of order) {
+			const counts = countBy(
+				[...(neighbours.get(path) ?? [])].map(
+					(other) => labels.get(other) ?? other,
+				),
+			);
+			const [best] =
+				[...counts.entries()].sort(
+					(left, right) =>
+						right[1] - left[1] || left[0].localeCompare(right[0]),
+				)[0] ?? [];
+			if (best && best !== labels.get(path)) {
+				labels.set(path, best);
+				changed = true;
+			}
+		}
+		if (!changed) break;
+	}
+	for (const [path, others] of neighbours) {
+		if (others.size === 0) labels.delete(path);
+	}
+	return labels;
+}
+
+function uniqueTags(note: OnboardingNote): string[] {
+	return [
+		...new Set(note.tags.map((tag) => tag.replace(/^#/, "").toLowerCase())),
+	];
+}
+
+function getFolder(path: string): string {
+	return path.split("/").slice(0, -1).join("/");
+}
+
+function titleOf(notes: readonly OnboardingNote[], path: string): string {
+	return notes.find((note) => note.path === path)?.title ?? path;
+}
+
+function countBy<T>(values: readonly T[]): Map<T, number> {
+	const counts = new Map<T, number>();
+	for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+	return counts;
+}
+
+function normalizeArea(value: string | undefined): string | undefined {
+	if (!value) return undefined;
+	const normalized = value
+		.trim()
+		.toLowerCase()
+		.replace(/^\d+[\s._-]*/, "")
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return normalized.length > 0 ? normalized : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,9 +1,11 @@
 import { describe, expect, it } from "vitest";
 import {
+	explainLearningScore,
 	generateNextActionQueue,
 	inferNextAction,
 	scoreLearningNote,
 } from "@/learning/next-action-engine";
+import { DEFAULT_NEXT_ACTION_WEIGHTS } from "@/learning/next-action-weights";
 import type {
 	LearningNote,
 	LearningScanResult,
@@ -175,6 +177,52 @@ describe("next action engine", () => {
 		expect(queue[0]?.reason).toContain("Review evidence is missing.");
 		expect(queue[0]?.reason).toContain("weak point: mechanism: stale reads");
 	});
+
+	it("leaves out actions already logged for the same note", () => {
+		const queue = generateNextActionQueue(
+			scanWith([
+				learningNote({ path: "Learning/cache.md", status: "review" }),
+				learningNote({ path: "Learning/queue.md", status: "review" }),
+			]),
+			undefined,
+			[
+				{
+					date: "2026-05-13",
+					action: "Review note and promote maturity if passed",
+					notePath: "Learning/cache.md",
+					reasons: [],
+				},
+			],
+		);
+
+		expect(queue.map((candidate) => candidate.note.path)).toEqual([
+			"Learning/queue.md",
+		]);
+	});
+
+	it("explains the score as weighted terms", () => {
+		const note = learningNote({
+			unmetPrerequisites: ["[[Cache basics]]"],
+			lastTouched: "2026-05-12",
+		});
+		const weights = { ...DEFAULT_NEXT_ACTION_WEIGHTS, blocked: 0.5 };
+
+		const terms = explainLearningScore(note, undefined, "2026-05-12", weights);
+
+		expect(terms.find((term) => term.key === "blocked")).toEqual({
+			key: "blocked",
+			value: -48,
+			weight: 0.5,
+			contribution: -24,
+		});
+		expect(terms.some((term) => term.key === "touchedToday")).toBe(true);
+		expect(scoreLearningNote(note, undefined, "2026-05-12", weights)).toBe(
+			terms.reduce((sum, term) => sum + term.contribution, 0),
+		);
+		expect(scoreLearningNote(note, undefined, "2026-05-12", weights)).toBe(
+			scoreLearningNote(note, undefined, "2026-05-12") + 24,
+		);
+	});
 });
 
 function learningNote(overrides: Partial<LearningNote> = {}): LearningNote {
@@ -197,6 +245,8 @@ function learningNote(overrides: Partial<LearningNote> = {}): LearningNote {
 function scanWith(notes: LearningNote[]): LearningScanResult {
 	return {
 		notes,
+		roadmaps: [],
+		cycles: [],
 		weakNotes: [],
 		missingArtifacts: [],
 		dueReviews: [],
@@ -1,9 +1,26 @@
-import { STATUS_WEIGHT } from "@/learning/constants";
-import { formatLearningDate, isReviewDue } from "@/learning/frontmatter";
+import type { LearningActionLogEntry } from "@/learning/action-log-format";
+import { wasActionLogged } from "@/learning/action-log-query";
+import { formatLearningDate } from "@/learning/frontmatter";
+import {
+	getMissingStageArtifacts,
+	getNextPipelineStatus,
+	getNotePipeline,
+	getPipelineStage,
+	isStageWorkPending,
+} from "@/learning/learning-pipeline";
+import {
+	DEFAULT_NEXT_ACTION_WEIGHTS,
+	NEXT_ACTION_WEIGHT_KEYS,
+} from "@/learning/next-action-weights";
+import { isNoteReviewDue } from "@/learning/spaced-repetition";
 import type {
 	LearningNote,
 	LearningScanResult,
+	NextActionAgent,
 	NextActionCandidate,
+	NextActionScoreTerm,
+	NextActionWeightKey,
+	NextActionWeights,
 } from "@/learning/types";
 
 export function inferNextAction(note: LearningNote): string {
@@ -12,91 +29,106 @@ export function inferNextAction(note: LearningNote): string {
 	if (!note.area) return "Add learning area";
 	if (!note.status) return "Set learning status";
 
-	switch (note.status) {
-		case "seed":
-			return "Convert raw note into structured learning note";
-		case "explain":
-			return "Generate explanation, mechanism, examples, and failure modes";
-		case "visualize":
-			if (!hasHtmlExplainer(note)) {
-				return "Generate HTML explorable explanation";
-			}
-			return "Review existing visualization and move to connect stage";
-		case "connect":
-			if (note.links.length < 5) {
-				return "Add links to related notes, MOCs, and bridge notes";
-			}
-			return "Validate connections and move to test stage";
-		case "test":
-			if (typeof note.quizScore !== "number") {
-				return "Generate quiz and test understanding";
-			}
-			if (note.quizScore < 7) return "Review weak points from quiz";
-			return "Move to apply stage";
-		case "apply":
-			return "Create case study, lab, or implementation example";
-		case "review":
-			return "Review note and promote maturity if passed";
-		case "done":
-			return "Schedule spaced review";
-		case "mastered":
-			return "No immediate action required";
+	const pipeline = getNotePipeline(note);
+	const stage = getPipelineStage(pipeline, note.status);
+	if (!stage) return `Set a status from the ${pipeline.name} pipeline`;
+	if (
+		stage.builder === "quiz" &&
+		typeof note.quizScore === "number" &&
+		note.quizScore < 7
+	) {
+		return "Review weak points from quiz";
 	}
+	if (!stage.builder || isStageWorkPending(stage, note)) return stage.action;
+	if (stage.reviewAction) return stage.reviewAction;
+	const next = getNextPipelineStatus(pipeline, stage.id);
+	return next ? `Move to ${next} stage` : stage.action;
+}
+
+/**
+ * Unweighted points behind a note's score. The defaults are hand-tuned;
+ * penalties are negative so a weight of 1 reproduces the original sum.
+ */
+export function getNextActionScoreFeatures(
+	note: LearningNote,
+	activeSprint?: string,
+	today = formatLearningDate(),
+): Record<NextActionWeightKey, number> {
+	const stage = getPipelineStage(getNotePipeline(note), note.status);
+	const blocked = (note.unmetPrerequisites ?? []).length > 0;
+	return {
+		priority: note.priority ?? 0,
+		stage: stage?.weight ?? 94,
+		missingFields: note.missingFields.length * 22,
+		missingArtifact:
+			stage && getMissingStageArtifacts(stage, note).length > 0 ? 36 : 0,
+		reviewDue: isNoteReviewDue(note, today) ? 28 : 0,
+		sprint: activeSprint && note.sprint === activeSprint && !blocked ? 24 : 0,
+		graphImportance: Math.min(note.graphScore ?? 0, 20),
+		weakPoints: (note.mastery?.weak_points ?? []).length * 10,
+		unlocks: Math.min((note.unlockCount ?? 0) * 10, 30),
+		touchedToday: isRecentlyTouched(note.lastTouched, today) ? -16 : 0,
+		blocked: blocked ? -48 : 0,
+		blockers: (note.blockers ?? []).length > 0 ? -16 : 0,
+	};
+}
+
+/** Weighted score terms of a note, largest contribution first. */
+export function explainLearningScore(
+	note: LearningNote,
+	activeSprint?: string,
+	today = formatLearningDate(),
+	weights: NextActionWeights = DEFAULT_NEXT_ACTION_WEIGHTS,
+): NextActionScoreTerm[] {
+	const features = getNextActionScoreFeatures(note, activeSprint, today);
+	return NEXT_ACTION_WEIGHT_KEYS.filter((key) => features[key] !== 0)
+		.map((key) => ({
+			key,
+			value: features[key],
+			weight: weights[key],
+			contribution: features[key] * weights[key],
+		}))
+		.sort(
+			(left, right) =>
+				Math.abs(right.contribution) - Math.abs(left.contribution),
+		);
 }
 
 export function scoreLearningNote(
 	note: LearningNote,
 	activeSprint?: string,
 	today = formatLearningDate(),
+	weights: NextActionWeights = DEFAULT_NEXT_ACTION_WEIGHTS,
 ): number {
-	const priority = note.priority ?? 0;
-	const statusWeight = note.status ? STATUS_WEIGHT[note.status] : 94;
-	const missingFieldWeight = note.missingFields.length * 22;
-	const missingArtifactWeight =
-		note.status === "visualize" &&
-		!note.artifactHtml &&
-		!note.artifacts?.html_explainer?.path
-			? 36
-			: 0;
-	const reviewDueWeight = isReviewDue(note.reviewDue, today) ? 28 : 0;
-	const blockedPenalty = (note.unmetPrerequisites ?? []).length > 0 ? 48 : 0;
-	const blockerPenalty = (note.blockers ?? []).length > 0 ? 16 : 0;
-	const weakPointWeight = (note.mastery?.weak_points ?? []).length * 10;
-	const unlockWeight = Math.min((note.unlockCount ?? 0) * 10, 30);
-	const sprintWeight =
-		activeSprint &&
-		note.sprint === activeSprint &&
-		(note.unmetPrerequisites ?? []).length === 0
-			? 24
-			: 0;
-	const graphImportanceWeight = Math.min(note.graphScore ?? 0, 20);
-	const recentlyTouchedPenalty = isRecentlyTouched(note.lastTouched, today)
-		? 16
-		: 0;
-
-	return (
-		priority +
-		statusWeight +
-		missingFieldWeight +
-		missingArtifactWeight +
-		reviewDueWeight +
-		sprintWeight +
-		graphImportanceWeight -
-		recentlyTouchedPenalty -
-		blockedPenalty -
-		blockerPenalty +
-		weakPointWeight +
-		unlockWeight
+	return explainLearningScore(note, activeSprint, today, weights).reduce(
+		(sum, term) => sum + term.contribution,
+		0,
 	);
 }
 
+/**
+ * Ranks one action per note. Actions listed in `recentActions` for the same
+ * note are left out, so pass only the entries that should suppress a repeat.
+ */
 export function generateNextActionQueue(
 	scan: LearningScanResult,
 	activeSprint?: string,
+	recentActions: readonly LearningActionLogEntry[] = [],
+	weights: NextActionWeights = DEFAULT_NEXT_ACTION_WEIGHTS,
 ): NextActionCandidate[] {
+	const today = formatLearningDate();
 	return scan.notes
 		.map((note) => {
-			const score = scoreLearningNote(note, activeSprint);
+			const scoreBreakdown = explainLearningScore(
+				note,
+				activeSprint,
+				today,
+				weights,
+			);
+			const score = scoreBreakdown.reduce(
+				(sum, term) => sum + term.contribution,
+				0,
+			);
 			const scoredNote = { ...note, finalScore: score };
 			return {
 				note: scoredNote,
@@ -105,9 +137,14 @@ export function generateNextActionQueue(
 				expectedOutput: expectedOutput(scoredNote),
 				suggestedAgent: suggestedAgent(scoredNote),
 				score,
+				scoreBreakdown,
 			};
 		})
 		.filter((candidate) => candidate.action !== "No immediate action required")
+		.filter(
+			(candidate) =>
+				!wasActionLogged(recentActions, candidate.note.path, candidate.action),
+		)
 		.sort((a, b) => b.score - a.score);
 }
 
@@ -118,8 +155,11 @@ function buildReasons(note: LearningNote, activeSprint?: string): string[] {
 	}
 	if (note.status) reasons.push(`status = ${note.status}`);
 	if (typeof note.priority === "number") reasons.push(`priority = ${note.priority}`);
-	if (note.status === "visualize" && !hasHtmlExplainer(note)) {
-		reasons.push("artifact_html is missing");
+	const stage = getPipelineStage(getNotePipeline(note), note.status);
+	for (const type of stage ? getMissingStageArtifacts(stage, note) : []) {
+		reasons.push(
+			type === "html_explainer" ? "artifact_html is missing" : `${type} is missing`,
+		);
 	}
 	for (const blocker of note.blockers ?? []) {
 		reasons.push(blocker);
@@ -133,8 +173,12 @@ function buildReasons(note: LearningNote, activeSprint?: string): string[] {
 	if ((note.unlockCount ?? 0) > 0) {
 		reasons.push(`unlocks ${note.unlockCount} notes`);
 	}
-	if (note.reviewDue && isReviewDue(note.reviewDue, formatLearningDate())) {
-		reasons.push(`review_due = ${note.reviewDue}`);
+	if (isNoteReviewDue(note, formatLearningDate())) {
+		reasons.push(
+			note.reviewDue
+				? `review_due = ${note.reviewDue}`
+				: "retention below review target",
+		);
 	}
 	if (activeSprint && note.sprint === activeSprint) {
 		reasons.push(`active sprint = ${activeSprint}`);
@@ -146,55 +190,21 @@ function buildReasons(note: LearningNote, activeSprint?: string): string[] {
 }
 
 function expectedOutput(note: LearningNote): string | undefined {
-	if (note.status === "seed") {
-		return "00_Command_Center/learning-drafts/<note-slug>-structure.md and status = explain";
-	}
-	if (note.status === "explain") {
-		return "00_Command_Center/learning-drafts/<note-slug>-explanation.md and status = visualize";
-	}
-	if (note.status === "visualize" && !hasHtmlExplainer(note)) {
-		return "_explainers/<note-slug>.html and status = connect";
-	}
-	if (note.status === "test" && typeof note.quizScore !== "number") {
-		return "_quizzes/<note-slug>.md and next_action = complete quiz";
-	}
-	if (note.status === "connect" && note.links.length < 5) {
-		return "03_Bridge_Notes/<note-slug>-bridge.md and next_action = review bridge note";
-	}
-	if (note.status === "apply") {
-		return "05_Case_Studies/<note-slug>-case-study.md and next_action = complete case study";
-	}
-	if (note.status === "review") {
-		return "_reviews/<note-slug>-review.md and next_action = complete review";
-	}
 	if (!note.type || !note.area || !note.status) {
 		return "Updated learning frontmatter";
 	}
-	return undefined;
+	const stage = getPipelineStage(getNotePipeline(note), note.status);
+	return stage && isStageWorkPending(stage, note) ? stage.expectedOutput : undefined;
 }
 
-function suggestedAgent(
-	note: LearningNote,
-): "deterministic" | "reasoning-model" | "coding-agent" {
+function suggestedAgent(note: LearningNote): NextActionAgent {
 	if (!note.type || !note.area || !note.status) return "deterministic";
-	if (note.status === "visualize" && !hasHtmlExplainer(note)) return "coding-agent";
-	if (
-		note.status === "seed" ||
-		note.status === "explain" ||
-		note.status === "connect" ||
-		note.status === "test" ||
-		note.status === "apply" ||
-		note.status === "review"
-	) {
-		return "reasoning-model";
-	}
-	return "deterministic";
+	const stage = getPipelineStage(getNotePipeline(note), note.status);
+	if (!stage) return "deterministic";
+	if (!stage.builder || isStageWorkPending(stage, note)) return stage.agent;
+	return stage.reviewAgent ?? stage.agent;
 }
 
 function isRecentlyTouched(lastTouched: string | undefined, today: string): boolean {
 	return lastTouched === today;
 }
-
-function hasHtmlExplainer(note: LearningNote): boolean {
-	return Boolean(note.artifactHtml || note.artifacts?.html_explainer?.path);
-}
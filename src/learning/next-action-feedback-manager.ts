@@ -0,0 +1,54 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	formatNextActionFeedbackEntry,
+	type NextActionFeedbackEntry,
+	parseNextActionFeedbackLog,
+} from "@/learning/next-action-weights";
+
+const FEEDBACK_LOG_PATH = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/next-action-feedback.md`,
+);
+const FEEDBACK_LOG_HEADER = "# Next action feedback";
+
+export async function appendNextActionFeedback(
+	app: App,
+	entries: readonly NextActionFeedbackEntry[],
+): Promise<void> {
+	if (entries.length === 0) return;
+	await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+	const text = entries.map(formatNextActionFeedbackEntry).join("\n\n");
+	const existing = app.vault.getAbstractFileByPath(FEEDBACK_LOG_PATH);
+
+	if (existing instanceof TFile) {
+		await app.vault.process(existing, (content) => `${content.trimEnd()}\n\n${text}`);
+		return;
+	}
+
+	await app.vault.create(FEEDBACK_LOG_PATH, `${FEEDBACK_LOG_HEADER}\n\n${text}`);
+}
+
+export async function readNextActionFeedback(
+	app: App,
+): Promise<NextActionFeedbackEntry[]> {
+	const file = app.vault.getAbstractFileByPath(FEEDBACK_LOG_PATH);
+	if (!(file instanceof TFile)) return [];
+	return parseNextActionFeedbackLog(await app.vault.cachedRead(file));
+}
+
+/** Empties the log so weights are learned from scratch. */
+export async function clearNextActionFeedback(app: App): Promise<void> {
+	const file = app.vault.getAbstractFileByPath(FEEDBACK_LOG_PATH);
+	if (!(file instanceof TFile)) return;
+	await app.vault.process(file, () => `${FEEDBACK_LOG_HEADER}\n`);
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) {
+		throw new Error(`${normalized} exists but is not a folder`);
+	}
+	await app.vault.createFolder(normalized);
+}
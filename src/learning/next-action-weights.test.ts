@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+	createPickFeedback,
+	DEFAULT_NEXT_ACTION_WEIGHTS,
+	filterDismissedActions,
+	fitNextActionWeights,
+	formatNextActionFeedbackEntry,
+	type NextActionFeedbackEntry,
+	parseNextActionFeedbackLog,
+	resolveNextActionWeights,
+} from "@/learning/next-action-weights";
+import type { LearningNote, NextActionCandidate } from "@/learning/types";
+
+describe("next action weights", () => {
+	it("keeps the defaults until there is enough feedback", () => {
+		const fit = fitNextActionWeights([
+			feedback("picked", { reviewDue: 28 }),
+			feedback("skipped", { missingArtifact: 36 }),
+		]);
+
+		expect(fit.learned).toBe(false);
+		expect(fit.weights).toEqual(DEFAULT_NEXT_ACTION_WEIGHTS);
+	});
+
+	it("raises terms the user picks and lowers terms they pass over", () => {
+		const entries = [
+			...repeat(6, () => feedback("picked", { reviewDue: 28, stage: 80 })),
+			...repeat(4, () => feedback("skipped", { missingArtifact: 36, stage: 80 })),
+			feedback("dismissed", { missingArtifact: 36, blocked: -48, stage: 80 }),
+		];
+
+		const fit = fitNextActionWeights(entries);
+
+		expect(fit).toMatchObject({ learned: true, picked: 6, rejected: 5 });
+		expect(fit.weights.reviewDue).toBeGreaterThan(1);
+		expect(fit.weights.missingArtifact).toBeLessThan(1);
+		// Rejected blocked notes make the penalty count for more.
+		expect(fit.weights.blocked).toBeGreaterThan(1);
+		expect(fit.weights.stage).toBe(1);
+		expect(
+			resolveNextActionWeights(fit.weights, { reviewDue: 0.5, bogus: 2 }).reviewDue,
+		).toBe(0.5);
+	});
+
+	it("logs skips above a pick and round-trips the log", () => {
+		const queue = [candidate("a.md"), candidate("b.md"), candidate("c.md")];
+		const entries = createPickFeedback(
+			queue,
+			queue[2]!,
+			(item) => (item.note.path === "c.md" ? { reviewDue: 28 } : { stage: 80 }),
+			"2026-05-12",
+		);
+
+		expect(entries.map((entry) => [entry.outcome, entry.notePath, entry.rank])).toEqual([
+			["skipped", "a.md", 0],
+			["skipped", "b.md", 1],
+			["picked", "c.md", 2],
+		]);
+		const log = `# Next action feedback\n\n${entries
+			.map(formatNextActionFeedbackEntry)
+			.join("\n\n")}`;
+		expect(parseNextActionFeedbackLog(log)).toEqual(entries);
+		expect(
+			filterDismissedActions(
+				queue,
+				[{ ...entries[0]!, outcome: "dismissed" }],
+				"2026-05-12",
+			).map((item) => item.note.path),
+		).toEqual(["b.md", "c.md"]);
+	});
+});
+
+function feedback(
+	outcome: NextActionFeedbackEntry["outcome"],
+	features: NextActionFeedbackEntry["features"],
+): NextActionFeedbackEntry {
+	return { date: "2026-05-12", outcome, notePath: "a.md", action: "Review", features };
+}
+
+function repeat<T>(count: number, create: () => T): T[] {
+	return Array.from({ length: count }, create);
+}
+
+function candidate(path: string): NextActionCandidate {
+	const note: LearningNote = {
+		path,
+		title: path,
+		links: [],
+		backlinks: [],
+		graphScore: 0,
+		missingFields: [],
+	};
+	return {
+		note,
+		action: "Review",
+		reason: [],
+		suggestedAgent: "deterministic",
+		score: 0,
+	};
+}
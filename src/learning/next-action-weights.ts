@@ -0,0 +1,318 @@
+import type {
+	NextActionCandidate,
+	NextActionWeightKey,
+	NextActionWeights,
+} from "@/learning/types";
+
+export type NextActionFeedbackOutcome = "picked" | "skipped" | "dismissed";
+
+/** One queue candidate the user acted on, with the score terms it had then. */
+export interface NextActionFeedbackEntry {
+	date: string;
+	outcome: NextActionFeedbackOutcome;
+	notePath: string;
+	action: string;
+	/** Zero-based queue position when the user acted. */
+	rank?: number;
+	features: Partial<Record<NextActionWeightKey, number>>;
+}
+
+export interface NextActionWeightFit {
+	weights: NextActionWeights;
+	picked: number;
+	rejected: number;
+	/** False until there is enough feedback; `weights` are the defaults then. */
+	learned: boolean;
+}
+
+export const NEXT_ACTION_WEIGHT_KEYS: readonly NextActionWeightKey[] = [
+	"priority",
+	"stage",
+	"missingFields",
+	"missingArtifact",
+	"reviewDue",
+	"sprint",
+	"graphImportance",
+	"weakPoints",
+	"unlocks",
+	"touchedToday",
+	"blocked",
+	"blockers",
+];
+
+export const NEXT_ACTION_WEIGHT_LABELS: Record<NextActionWeightKey, string> = {
+	priority: "Priority",
+	stage: "Pipeline stage",
+	missingFields: "Missing metadata",
+	missingArtifact: "Missing stage artifact",
+	reviewDue: "Review due",
+	sprint: "Active sprint",
+	graphImportance: "Graph importance",
+	weakPoints: "Weak points",
+	unlocks: "Unlocks other notes",
+	touchedToday: "Touched today",
+	blocked: "Unmet prerequisites",
+	blockers: "Blockers",
+};
+
+export const DEFAULT_NEXT_ACTION_WEIGHTS: NextActionWeights = {
+	priority: 1,
+	stage: 1,
+	missingFields: 1,
+	missingArtifact: 1,
+	reviewDue: 1,
+	sprint: 1,
+	graphImportance: 1,
+	weakPoints: 1,
+	unlocks: 1,
+	touchedToday: 1,
+	blocked: 1,
+	blockers: 1,
+};
+
+export const MIN_NEXT_ACTION_WEIGHT = 0.25;
+export const MAX_NEXT_ACTION_WEIGHT = 3;
+
+/** Picks plus rejections needed before learned weights replace the defaults. */
+const MIN_FEEDBACK_SAMPLES = 10;
+/** Feedback count at which a weight moves halfway to what the data says. */
+const FEEDBACK_PRIOR_STRENGTH = 20;
+/** A dismissal says more than passing a candidate over. */
+const DISMISSED_SAMPLE_WEIGHT = 2;
+
+/**
+ * Fits one multiplier per score term from picked versus skipped and
+ * dismissed candidates. Each term is scaled to [-1, 1] by its largest
+ * magnitude in the log, and the weight moves by the gap between its mean
+ * over picks and over rejections, shrunk toward 1 while feedback is thin.
+ * Penalties are stored negative, so picking blocked notes anyway lowers the
+ * blocked weight and shrinks the penalty.
+ */
+export function fitNextActionWeights(
+	entries: readonly NextActionFeedbackEntry[],
+): NextActionWeightFit {
+	const picked = entries.filter((entry) => entry.outcome === "picked");
+	const rejected = entries.filter((entry) => entry.outcome !== "picked");
+	const rejectedWeight = (entry: NextActionFeedbackEntry) =>
+		entry.outcome === "dismissed" ? DISMISSED_SAMPLE_WEIGHT : 1;
+	const samples = picked.length + rejected.length;
+	if (picked.length === 0 || rejected.length === 0 || samples < MIN_FEEDBACK_SAMPLES) {
+		return {
+			weights: { ...DEFAULT_NEXT_ACTION_WEIGHTS },
+			picked: picked.length,
+			rejected: rejected.length,
+			learned: false,
+		};
+	}
+
+	const shrink = samples / (samples + FEEDBACK_PRIOR_STRENGTH);
+	const weights = { ...DEFAULT_NEXT_ACTION_WEIGHTS };
+	for (const key of NEXT_ACTION_WEIGHT_KEYS) {
+		const scale = Math.max(
+			...entries.map((entry) => Math.abs(entry.features[key] ?? 0)),
+		);
+		if (scale === 0) continue;
+		const pickedMean = mean(picked.map((entry) => (entry.features[key] ?? 0) / scale));
+		const rejectedMean = weightedMean(
+			rejected.map((entry) => [
+				(entry.features[key] ?? 0) / scale,
+				rejectedWeight(entry),
+			]),
+		);
+		weights[key] = clampWeight(
+			DEFAULT_NEXT_ACTION_WEIGHTS[key] + (pickedMean - rejectedMean) * shrink,
+		);
+	}
+	return { weights, picked: picked.length, rejected: rejected.length, learned: true };
+}
+
+/** Learned weights with the user's overrides on top. */
+export function resolveNextActionWeights(
+	learned: NextActionWeights,
+	overrides: Partial<Record<string, unknown>> = {},
+): NextActionWeights {
+	const weights = { ...learned };
+	for (const key of NEXT_ACTION_WEIGHT_KEYS) {
+		const override = overrides[key];
+		if (typeof override === "number" && Number.isFinite(override)) {
+			weights[key] = Math.max(0, override);
+		}
+	}
+	return weights;
+}
+
+/**
+ * Feedback for picking `picked` out of `queue`: the pick itself and a skip
+ * for every candidate ranked above it.
+ */
+export function createPickFeedback(
+	queue: readonly NextActionCandidate[],
+	picked: NextActionCandidate,
+	features: (candidate: NextActionCandidate) => NextActionFeedbackEntry["features"],
+	date: string,
+): NextActionFeedbackEntry[] {
+	const rank = queue.findIndex((candidate) => isSameAction(candidate, picked));
+	const skipped = rank > 0 ? queue.slice(0, rank) : [];
+	return [
+		...skipped.map((candidate, index) =>
+			toFeedback(candidate, "skipped", index, features(candidate), date),
+		),
+		toFeedback(picked, "picked", rank >= 0 ? rank : undefined, features(picked), date),
+	];
+}
+
+export function createDismissFeedback(
+	queue: readonly NextActionCandidate[],
+	dismissed: NextActionCandidate,
+	features: NextActionFeedbackEntry["features"],
+	date: string,
+): NextActionFeedbackEntry {
+	const rank = queue.findIndex((candidate) => isSameAction(candidate, dismissed));
+	return toFeedback(dismissed, "dismissed", rank >= 0 ? rank : undefined, features, date);
+}
+
+/** Leaves out candidates the user dismissed on `date`. */
+export function filterDismissedActions(
+	queue: readonly NextActionCandidate[],
+	entries: readonly NextActionFeedbackEntry[],
+	date: string,
+): NextActionCandidate[] {
+	const dismissed = new Set(
+		entries
+			.filter((entry) => entry.outcome === "dismissed" && entry.date === date)
+			.map((entry) => `${entry.notePath}\u0000${entry.action}`),
+	);
+	return queue.filter(
+		(candidate) =>
+			!dismissed.has(`${candidate.note.path}\u0000${candidate.action}`),
+	);
+}
+
+export function formatNextActionFeedbackEntry(entry: NextActionFeedbackEntry): string {
+	const features = NEXT_ACTION_WEIGHT_KEYS.filter(
+		(key) => (entry.features[key] ?? 0) !== 0,
+	).map((key) => `${key}=${roundFeature(entry.features[key] ?? 0)}`);
+	const lines = [
+		`## ${entry.date} - ${entry.outcome}`,
+		"",
+		`- Path: \`${entry.notePath}\``,
+		`- Action: ${entry.action}`,
+	];
+	if (entry.rank !== undefined) lines.push(`- Rank: ${entry.rank + 1}`);
+	lines.push(`- Features: ${features.join("; ") || "none"}`);
+	return lines.join("\n");
+}
+
+/**
+ * Reads entries written by `formatNextActionFeedbackEntry`, oldest first.
+ * Entries without a path or action are dropped, as are unknown features.
+ */
+export function parseNextActionFeedbackLog(content: string): NextActionFeedbackEntry[] {
+	const entries: NextActionFeedbackEntry[] = [];
+	let current: NextActionFeedbackEntry | null = null;
+	const finish = () => {
+		if (current?.notePath && current.action) entries.push(current);
+		current = null;
+	};
+
+	for (const line of content.split(/\r?\n/)) {
+		const heading = line.match(
+			/^##\s+(\d{4}-\d{2}-\d{2})\s+-\s+(picked|skipped|dismissed)\s*$/,
+		);
+		if (heading) {
+			finish();
+			current = {
+				date: heading[1]!,
+				outcome: heading[2] as NextActionFeedbackOutcome,
+				notePath: "",
+				action: "",
+				features: {},
+			};
+			continue;
+		}
+		if (line.startsWith("#")) {
+			finish();
+			continue;
+		}
+		const field = current ? line.match(/^-\s+(\w+):\s*(.*)$/) : null;
+		if (current && field) readField(current, field[1]!, field[2]!.trim());
+	}
+	finish();
+	return entries;
+}
+
+function readField(entry: NextActionFeedbackEntry, name: string, value: string): void {
+	switch (name) {
+		case "Path":
+			entry.notePath = value.replace(/^`|`$/g, "");
+			return;
+		case "Action":
+			entry.action = value;
+			return;
+		case "Rank": {
+			const rank = Number.parseInt(value, 10);
+			if (Number.isFinite(rank) && rank > 0) entry.rank = rank - 1;
+			return;
+		}
+		case "Features":
+			for (const part of value.split(";")) {
+				const [key, raw] = part.split("=").map((item) => item.trim());
+				const number = Number(raw);
+				if (isWeightKey(key) && Number.isFinite(number)) {
+					entry.features[key] = number;
+				}
+			}
+			return;
+	}
+}
+
+function toFeedback(
+	candidate: NextActionCandidate,
+	outcome: NextActionFeedbackOutcome,
+	rank: number | undefined,
+	features: NextActionFeedbackEntry["features"],
+	date: string,
+): NextActionFeedbackEntry {
+	return {
+		date,
+		outcome,
+		notePath: candidate.note.path,
+		action: candidate.action,
+		...(rank !== undefined ? { rank } : {}),
+		features,
+	};
+}
+
+function isSameAction(left: NextActionCandidate, right: NextActionCandidate): boolean {
+	return left.note.path === right.note.path && left.action === right.action;
+}
+
+function isWeightKey(value: string | undefined): value is NextActionWeightKey {
+	return NEXT_ACTION_WEIGHT_KEYS.includes(value as NextActionWeightKey);
+}
+
+function mean(values: number[]): number {
+	return values.length > 0
+		? values.reduce((sum, value) => sum + value, 0) / values.length
+		: 0;
+}
+
+function weightedMean(values: [number, number][]): number {
+	const total = values.reduce((sum, [, weight]) => sum + weight, 0);
+	return total > 0
+		? values.reduce((sum, [value, weight]) => sum + value * weight, 0) / total
+		: 0;
+}
+
+function clampWeight(value: number): number {
+	return (
+		Math.round(
+			Math.min(MAX_NEXT_ACTION_WEIGHT, Math.max(MIN_NEXT_ACTION_WEIGHT, value)) *
+				100,
+		) / 100
+	);
+}
+
+function roundFeature(value: number): number {
+	return Math.round(value * 100) / 100;
+}
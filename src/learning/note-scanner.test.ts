@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import type { App, TFile } from "obsidian";
+import { type App, TFile } from "obsidian";
 import { scanVaultLearningNotes } from "@/learning/note-scanner";
 
 describe("note scanner", () => {
@@ -149,6 +149,87 @@ describe("note scanner", () => {
 			"_explainers/legacy.html",
 		);
 	});
+
+	it("attaches mastery history sidecars without scanning them as notes", () => {
+		const app = createApp([
+			createFile("Learning/cache.md", "Cache", {
+				type: "concept",
+				area: "systems",
+				status: "done",
+			}),
+			{
+				file: Object.assign(Object.create(TFile.prototype) as TFile, {
+					path: "_reviews/mastery/learning-cache-history.md",
+					basename: "learning-cache-history",
+					extension: "md",
+				}),
+				frontmatter: {
+					type: "mastery-history",
+					entries: [
+						{ date: "2026-06-01", source: "examiner", recall: 8 },
+						{ date: "2026-05-01", source: "quiz", recall: 6 },
+					],
+				},
+			},
+		]);
+
+		const scan = scanVaultLearningNotes(app);
+
+		expect(scan.summary.totalNotes).toBe(1);
+		expect(scan.notes[0]?.masteryHistory?.map((entry) => entry.date)).toEqual([
+			"2026-05-01",
+			"2026-06-01",
+		]);
+	});
+
+	it("collects roadmap notes without scanning them as learning notes", () => {
+		const app = createApp([
+			createFile("Roadmaps/data.md", "data", {
+				type: "roadmap",
+				roadmap: "Data Systems",
+				goal: "Reason about storage engines",
+				target_date: "2026-09-01",
+				milestones: [
+					{
+						name: "Indexes",
+						target_date: "2026-06-15",
+						notes: ["[[B-tree]]", [["LSM tree"]]],
+					},
+					{ notes: ["[[Unnamed]]"] },
+				],
+			}),
+			createFile("Maps/runtime.md", "Runtime map", {
+				type: "moc",
+				area: "runtime",
+				status: "connect",
+				milestones: [{ name: "Event loop", notes: ["[[Event loop]]"] }],
+			}),
+		]);
+
+		const scan = scanVaultLearningNotes(app);
+
+		expect(scan.notes.map((note) => note.path)).toEqual(["Maps/runtime.md"]);
+		expect(scan.roadmaps).toEqual([
+			{
+				path: "Roadmaps/data.md",
+				name: "Data Systems",
+				goal: "Reason about storage engines",
+				targetDate: "2026-09-01",
+				milestones: [
+					{
+						name: "Indexes",
+						targetDate: "2026-06-15",
+						notes: ["[[B-tree]]", "LSM tree"],
+					},
+				],
+			},
+			{
+				path: "Maps/runtime.md",
+				name: "Runtime map",
+				milestones: [{ name: "Event loop", notes: ["[[Event loop]]"] }],
+			},
+		]);
+	});
 });
 
 interface FileFixture {
@@ -182,6 +263,8 @@ function createApp(fixtures: FileFixture[]): App {
 	return {
 		vault: {
 			getMarkdownFiles: () => fixtures.map((fixture) => fixture.file),
+			getAbstractFileByPath: (path: string) =>
+				fixtures.find((fixture) => fixture.file.path === path)?.file ?? null,
 		},
 		metadataCache: {
 			getFileCache: (file: TFile) => cacheByPath.get(file.path),
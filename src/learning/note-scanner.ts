@@ -1,18 +1,52 @@
-import type { App, TFile } from "obsidian";
+import { type App, TFile } from "obsidian";
 import {
 	detectMissingFields,
 	formatLearningDate,
 	hasLearningFrontmatter,
-	isReviewDue,
 	parseLearningFrontmatter,
 } from "@/learning/frontmatter";
 import { ARTIFACT_FOLDERS } from "@/learning/constants";
 import { evaluateDefinitionOfDone } from "@/learning/definition-of-done";
+import type { DefinitionOfDoneRules } from "@/learning/definition-of-done-rules";
 import { enrichNotesWithCurriculumGraph } from "@/learning/curriculum-graph";
-import type { LearningNote, LearningScanResult } from "@/learning/types";
+import {
+	DEFAULT_LEARNING_PIPELINE,
+	getMissingStageArtifacts,
+	getNotePipeline,
+	getPipelineStage,
+	resolveLearningPipeline,
+} from "@/learning/learning-pipeline";
+import { DONE_MASTERY_THRESHOLD, meetsMasteryThreshold } from "@/learning/mastery";
+import {
+	getMasteryHistoryPath,
+	parseMasteryHistoryEntries,
+} from "@/learning/mastery-history";
+import { findLegacyMasteryHistory } from "@/learning/mastery-history-manager";
+import {
+	parseLearningRoadmap,
+	ROADMAP_NOTE_TYPE,
+} from "@/learning/roadmap";
+import { isNoteReviewDue } from "@/learning/spaced-repetition";
+import type {
+	LearningNote,
+	LearningPipeline,
+	LearningRoadmap,
+	LearningScanResult,
+	MasteryHistoryEntry,
+} from "@/learning/types";
 
-export function scanVaultLearningNotes(app: App): LearningScanResult {
+export interface LearningScanOptions {
+	/** Configured pipelines; notes that match none use the default pipeline. */
+	pipelines?: readonly LearningPipeline[];
+	dodRules?: DefinitionOfDoneRules;
+}
+
+export function scanVaultLearningNotes(
+	app: App,
+	options: LearningScanOptions = {},
+): LearningScanResult {
 	const today = formatLearningDate();
+	const roadmaps: LearningRoadmap[] = [];
 	const scannedNotes = app.vault
 		.getMarkdownFiles()
 		.filter((file) => {
@@ -20,31 +54,33 @@ export function scanVaultLearningNotes(app: App): LearningScanResult {
 			const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter as
 				| Record<string, unknown>
 				| undefined;
+			const roadmap = parseLearningRoadmap(file.path, file.basename, frontmatter);
+			if (roadmap) roadmaps.push(roadmap);
 			return isLearningNoteFrontmatter(frontmatter);
 		})
-		.map((file) => scanLearningNote(app, file));
+		.map((file) => scanLearningNote(app, file, options.pipelines));
 	const graph = enrichNotesWithCurriculumGraph(scannedNotes);
 	const notes = graph.notes.map((note) => {
-		const dod = evaluateDefinitionOfDone(note);
+		const dod = evaluateDefinitionOfDone(note, today, options.dodRules);
 		return {
 			...note,
 			blockers: [...(note.blockers ?? []), ...dod.blockers],
 		};
 	});
 	const weakNotes = notes.filter(isWeakLearningNote);
-	const missingArtifacts = notes.filter(
-		(note) =>
-			note.status === "visualize" &&
-			!note.artifactHtml &&
-			!note.artifacts?.html_explainer?.path,
-	);
-	const dueReviews = notes.filter((note) => isReviewDue(note.reviewDue, today));
+	const missingArtifacts = notes.filter((note) => {
+		const stage = getPipelineStage(getNotePipeline(note), note.status);
+		return stage ? getMissingStageArtifacts(stage, note).length > 0 : false;
+	});
+	const dueReviews = notes.filter((note) => isNoteReviewDue(note, today));
 	const blockedNotes = notes.filter((note) => (note.blockers ?? []).length > 0);
 	const masteryGaps = notes.filter(hasMasteryGap);
 	const artifactQualityIssues = notes.filter(hasArtifactQualityIssue);
 
 	return {
 		notes,
+		roadmaps: roadmaps.sort((a, b) => a.name.localeCompare(b.name)),
+		cycles: graph.cycles,
 		weakNotes,
 		missingArtifacts,
 		dueReviews,
@@ -71,10 +107,19 @@ export function scanVaultLearningNotes(app: App): LearningScanResult {
 	};
 }
 
+const SYSTEM_NOTE_TYPES = new Set([
+	"agent-task",
+	"exam-transcript",
+	"mastery-history",
+	ROADMAP_NOTE_TYPE,
+]);
+
 function isLearningNoteFrontmatter(
 	frontmatter: Record<string, unknown> | undefined,
 ): boolean {
-	if (frontmatter?.type === "agent-task") return false;
+	if (typeof frontmatter?.type === "string" && SYSTEM_NOTE_TYPES.has(frontmatter.type)) {
+		return false;
+	}
 	return hasLearningFrontmatter(frontmatter);
 }
 
@@ -85,6 +130,7 @@ function isLearningSystemArtifactPath(path: string): boolean {
 export function scanLearningNote(
 	app: App,
 	file: TFile,
+	pipelines: readonly LearningPipeline[] = [],
 ): LearningNote {
 	const cache = app.metadataCache.getFileCache(file);
 	const frontmatter = parseLearningFrontmatter(
@@ -94,11 +140,15 @@ export function scanLearningNote(
 	const backlinks = getBacklinks(app, file.path);
 	const graphScore = links.length + backlinks.length;
 	const missingFields = detectMissingFields(frontmatter);
+	const masteryHistory = getMasteryHistory(app, file);
+	const pipeline = resolveLearningPipeline(frontmatter, pipelines);
 
 	return {
 		path: file.path,
 		title: file.basename,
 		...frontmatter,
+		...(masteryHistory.length > 0 ? { masteryHistory } : {}),
+		...(pipeline !== DEFAULT_LEARNING_PIPELINE ? { pipeline } : {}),
 		links,
 		backlinks,
 		graphScore,
@@ -115,16 +165,16 @@ export function isWeakLearningNote(note: LearningNote): boolean {
 	if (note.status === "test" && typeof note.quizScore === "number") {
 		return note.quizScore < 7;
 	}
-	return note.status === "review" && isReviewDue(note.reviewDue, formatLearningDate());
+	return note.status === "review" && isNoteReviewDue(note, formatLearningDate());
 }
 
 function hasMasteryGap(note: LearningNote): boolean {
 	if (note.status !== "done" && note.status !== "mastered") return false;
-	return (
-		(note.mastery?.recall_score ?? 0) < 6 ||
-		(note.mastery?.mechanism_score ?? 0) < 6 ||
-		(note.mastery?.transfer_score ?? 0) < 6 ||
-		(note.mastery?.application_score ?? 0) < 6
+	return !meetsMasteryThreshold(
+		note.mastery,
+		DONE_MASTERY_THRESHOLD,
+		formatLearningDate(),
+		note.masteryHistory,
 	);
 }
 
@@ -137,6 +187,17 @@ function hasArtifactQualityIssue(note: LearningNote): boolean {
 	);
 }
 
+function getMasteryHistory(app: App, file: TFile): MasteryHistoryEntry[] {
+	const current = app.vault.getAbstractFileByPath(getMasteryHistoryPath(file.path));
+	const historyFile =
+		current instanceof TFile ? current : findLegacyMasteryHistory(app, file);
+	if (!historyFile) return [];
+	const frontmatter = app.metadataCache.getFileCache(historyFile)?.frontmatter as
+		| Record<string, unknown>
+		| undefined;
+	return parseMasteryHistoryEntries(frontmatter?.entries);
+}
+
 function getBacklinks(app: App, targetPath: string): string[] {
 	const backlinks: string[] = [];
 	for (const [sourcePath, targets] of Object.entries(
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { enrichNotesWithCurriculumGraph } from "@/learning/curriculum-graph";
+import {
+	getPrerequisiteChain,
+	layoutPrerequisiteGraph,
+	PREREQUISITE_GRAPH_METRICS,
+} from "@/learning/prerequisite-graph";
+import type { LearningNote } from "@/learning/types";
+
+describe("prerequisite graph layout", () => {
+	it("places prerequisites in earlier columns and marks cycle edges", () => {
+		const graph = enrichNotesWithCurriculumGraph([
+			note("Learning/pages.md", "Pages", { status: "done" }),
+			note("Learning/btree.md", "B-tree", { prerequisites: ["[[Pages]]"] }),
+			note("Learning/index.md", "Index", { prerequisites: ["[[B-tree]]"] }),
+			note("Learning/a.md", "A", { prerequisites: ["[[B]]"] }),
+			note("Learning/b.md", "B", { prerequisites: ["[[A]]"] }),
+			note("Learning/alone.md", "Alone"),
+		]);
+
+		const layout = layoutPrerequisiteGraph(graph.notes, graph.cycles);
+		const byTitle = new Map(layout.nodes.map((node) => [node.title, node]));
+
+		expect(byTitle.has("Alone")).toBe(false);
+		expect(byTitle.get("Pages")?.layer).toBe(0);
+		expect(byTitle.get("B-tree")?.layer).toBe(1);
+		expect(byTitle.get("Index")?.x).toBe(
+			PREREQUISITE_GRAPH_METRICS.padding +
+				2 *
+					(PREREQUISITE_GRAPH_METRICS.nodeWidth +
+						PREREQUISITE_GRAPH_METRICS.columnGap),
+		);
+		expect(byTitle.get("Index")?.blocked).toBe(true);
+		expect(byTitle.get("A")?.inCycle).toBe(true);
+		expect(
+			layout.edges.find(
+				(edge) => edge.from === "Learning/pages.md" && edge.to === "Learning/btree.md",
+			),
+		).toMatchObject({ unmet: false, inCycle: false });
+		expect(layout.edges.filter((edge) => edge.inCycle)).toHaveLength(2);
+		expect(
+			layoutPrerequisiteGraph(graph.notes, graph.cycles, { includeIsolated: true })
+				.nodes,
+		).toHaveLength(6);
+	});
+
+	it("traces the prerequisite chain through a note", () => {
+		const graph = enrichNotesWithCurriculumGraph([
+			note("pages.md", "Pages"),
+			note("btree.md", "B-tree", { prerequisites: ["[[Pages]]"] }),
+			note("index.md", "Index", { prerequisites: ["[[B-tree]]"] }),
+			note("wal.md", "WAL", { prerequisites: ["[[Pages]]"] }),
+		]);
+		const layout = layoutPrerequisiteGraph(graph.notes, graph.cycles);
+
+		expect([...getPrerequisiteChain(layout.edges, "btree.md")].sort()).toEqual([
+			"btree.md",
+			"index.md",
+			"pages.md",
+		]);
+	});
+});
+
+function note(
+	path: string,
+	title: string,
+	overrides: Partial<LearningNote> = {},
+): LearningNote {
+	return {
+		path,
+		title,
+		type: "concept",
+		area: "systems",
+		status: "explain",
+		links: [],
+		backlinks: [],
+		graphScore: 0,
+		missingFields: [],
+		...overrides,
+	};
+}
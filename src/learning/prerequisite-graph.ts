@@ -0,0 +1,200 @@
+import type { LearningNote, LearningStatus } from "@/learning/types";
+
+export interface PrerequisiteGraphNode {
+	path: string;
+	title: string;
+	status?: LearningStatus;
+	area?: string;
+	/** Column; prerequisites sit in columns to the left of the notes needing them. */
+	layer: number;
+	x: number;
+	y: number;
+	blocked: boolean;
+	inCycle: boolean;
+}
+
+/** Points from a prerequisite to the note that depends on it. */
+export interface PrerequisiteGraphEdge {
+	from: string;
+	to: string;
+	/** The prerequisite is not done yet, so it still blocks `to`. */
+	unmet: boolean;
+	inCycle: boolean;
+}
+
+export interface PrerequisiteGraphLayout {
+	nodes: PrerequisiteGraphNode[];
+	edges: PrerequisiteGraphEdge[];
+	width: number;
+	height: number;
+}
+
+export interface PrerequisiteGraphOptions {
+	/** Keep notes with no prerequisite or unlock edges. */
+	includeIsolated?: boolean;
+	area?: string;
+}
+
+export const PREREQUISITE_GRAPH_METRICS = {
+	nodeWidth: 160,
+	nodeHeight: 36,
+	columnGap: 56,
+	rowGap: 14,
+	padding: 16,
+} as const;
+
+/**
+ * Lays the curriculum graph out in columns by dependency depth. Within a
+ * column, notes sit near the average row of their prerequisites so edges
+ * mostly run straight. Expects notes enriched by the curriculum graph.
+ */
+export function layoutPrerequisiteGraph(
+	notes: readonly LearningNote[],
+	cycles: readonly string[][],
+	options: PrerequisiteGraphOptions = {},
+): PrerequisiteGraphLayout {
+	const area = options.area?.toLowerCase();
+	const visible = notes.filter(
+		(note) => !area || note.area?.toLowerCase() === area,
+	);
+	const byPath = new Map(visible.map((note) => [note.path, note]));
+	const cycleEdges = getCycleEdgeKeys(cycles);
+	const edges = collectEdges(visible, byPath, cycleEdges);
+	const linked = new Set(edges.flatMap((edge) => [edge.from, edge.to]));
+	const included = visible.filter(
+		(note) => options.includeIsolated || linked.has(note.path),
+	);
+
+	const layers = new Map<number, LearningNote[]>();
+	for (const note of included) {
+		const layer = note.dependencyDepth ?? 0;
+		layers.set(layer, [...(layers.get(layer) ?? []), note]);
+	}
+
+	const { nodeWidth, nodeHeight, columnGap, rowGap, padding } =
+		PREREQUISITE_GRAPH_METRICS;
+	const rows = new Map<string, number>();
+	const nodes: PrerequisiteGraphNode[] = [];
+	const columns = [...layers.keys()].sort((left, right) => left - right);
+	let maxRows = 0;
+	columns.forEach((layer, column) => {
+		const ordered = orderLayer(layers.get(layer) ?? [], edges, rows);
+		ordered.forEach((note, row) => {
+			rows.set(note.path, row);
+			nodes.push({
+				path: note.path,
+				title: note.title,
+				...(note.status ? { status: note.status } : {}),
+				...(note.area ? { area: note.area } : {}),
+				layer,
+				x: padding + column * (nodeWidth + columnGap),
+				y: padding + row * (nodeHeight + rowGap),
+				blocked: (note.unmetPrerequisites?.length ?? 0) > 0,
+				inCycle: note.circularDependency === true,
+			});
+		});
+		maxRows = Math.max(maxRows, ordered.length);
+	});
+
+	const shown = new Set(nodes.map((node) => node.path));
+	return {
+		nodes,
+		edges: edges.filter((edge) => shown.has(edge.from) && shown.has(edge.to)),
+		width:
+			padding * 2 +
+			Math.max(0, columns.length * (nodeWidth + columnGap) - columnGap),
+		height: padding * 2 + Math.max(0, maxRows * (nodeHeight + rowGap) - rowGap),
+	};
+}
+
+/** The note plus everything it depends on and everything that depends on it. */
+export function getPrerequisiteChain(
+	edges: readonly PrerequisiteGraphEdge[],
+	path: string,
+): Set<string> {
+	const chain = new Set([path]);
+	const walk = (from: "from" | "to", to: "from" | "to") => {
+		const queue = [path];
+		const seen = new Set(queue);
+		while (queue.length > 0) {
+			const current = queue.shift()!;
+			for (const edge of edges) {
+				if (edge[to] !== current || seen.has(edge[from])) continue;
+				seen.add(edge[from]);
+				chain.add(edge[from]);
+				queue.push(edge[from]);
+			}
+		}
+	};
+	walk("from", "to");
+	walk("to", "from");
+	return chain;
+}
+
+function collectEdges(
+	notes: readonly LearningNote[],
+	byPath: Map<string, LearningNote>,
+	cycleEdges: Set<string>,
+): PrerequisiteGraphEdge[] {
+	const edges = new Map<string, PrerequisiteGraphEdge>();
+	const add = (from: string | undefined, to: string) => {
+		if (!from || from === to || !byPath.has(from)) return;
+		const key = edgeKey(from, to);
+		if (edges.has(key)) return;
+		const prerequisite = byPath.get(from)!;
+		edges.set(key, {
+			from,
+			to,
+			unmet:
+				prerequisite.status !== "done" && prerequisite.status !== "mastered",
+			inCycle: cycleEdges.has(key),
+		});
+	};
+	for (const note of notes) {
+		for (const link of note.prerequisiteLinks ?? []) add(link.path, note.path);
+		for (const link of note.unlockLinks ?? []) {
+			if (link.path && byPath.has(link.path)) add(note.path, link.path);
+		}
+	}
+	return [...edges.values()];
+}
+
+/**
+ * `detectCycles` lists each loop as a path where every note requires the
+ * next one, so consecutive pairs are prerequisite edges in reverse.
+ */
+function getCycleEdgeKeys(cycles: readonly string[][]): Set<string> {
+	const keys = new Set<string>();
+	for (const cycle of cycles) {
+		for (let index = 0; index < cycle.length - 1; index += 1) {
+			keys.add(edgeKey(cycle[index + 1]!, cycle[index]!));
+		}
+	}
+	return keys;
+}
+
+function orderLayer(
+	notes: readonly LearningNote[],
+	edges: readonly PrerequisiteGraphEdge[],
+	rows: Map<string, number>,
+): LearningNote[] {
+	const barycenter = (note: LearningNote): number => {
+		const placed = edges
+			.filter((edge) => edge.to === note.path && rows.has(edge.from))
+			.map((edge) => rows.get(edge.from)!);
+		if (placed.length === 0) return Number.POSITIVE_INFINITY;
+		return placed.reduce((total, row) => total + row, 0) / placed.length;
+	};
+	return [...notes]
+		.map((note) => ({ note, center: barycenter(note) }))
+		.sort(
+			(left, right) =>
+				left.center - right.center ||
+				left.note.title.localeCompare(right.note.title),
+		)
+		.map((item) => item.note);
+}
+
+function edgeKey(from: string, to: string): string {
+	return `${from}\u0000${to}`;
+}
@@ -0,0 +1,85 @@
+import { type App, TFile } from "obsidian";
+import type { GraphService } from "@/infra/obsidian/graph-service";
+import {
+	buildPrerequisiteModelPrompt,
+	type ModelPrerequisiteHint,
+	parsePrerequisiteModelHints,
+	type PrerequisiteEvidence,
+} from "@/learning/prerequisite-suggester";
+import type { LearningNote } from "@/learning/types";
+
+export type PrerequisiteLinkGraph = Pick<
+	GraphService,
+	"getResolvedForwardLinks" | "getBacklinks"
+>;
+
+const MAX_MODEL_NOTES = 8;
+const MAX_MODEL_CANDIDATES = 40;
+
+/** Reads each note's content and link counts for the suggester. */
+export async function collectPrerequisiteEvidence(
+	app: App,
+	graph: PrerequisiteLinkGraph,
+	notes: readonly LearningNote[],
+): Promise<PrerequisiteEvidence[]> {
+	const evidence: PrerequisiteEvidence[] = [];
+	for (const note of notes) {
+		const file = app.vault.getAbstractFileByPath(note.path);
+		if (!(file instanceof TFile)) continue;
+		evidence.push({
+			note,
+			content: await app.vault.cachedRead(file),
+			outgoingLinks: { ...graph.getResolvedForwardLinks(file) },
+			backlinkCount: graph.getBacklinks(file.path).length,
+		});
+	}
+	return evidence;
+}
+
+/**
+ * Asks the model about notes that have no prerequisites yet, a few at a
+ * time. Candidates are notes the note links to, then notes in its area. A
+ * failed reply only drops that note's hints.
+ */
+export async function collectModelPrerequisiteHints(
+	evidence: readonly PrerequisiteEvidence[],
+	complete: (prompt: string) => Promise<string>,
+): Promise<Map<string, ModelPrerequisiteHint[]>> {
+	const hints = new Map<string, ModelPrerequisiteHint[]>();
+	const targets = evidence
+		.filter((item) => (item.note.prerequisites ?? []).length === 0)
+		.slice(0, MAX_MODEL_NOTES);
+	for (const item of targets) {
+		const candidates = evidence
+			.filter((other) => other.note.path !== item.note.path)
+			.sort(
+				(left, right) =>
+					rankCandidate(item, right.note) - rankCandidate(item, left.note),
+			)
+			.slice(0, MAX_MODEL_CANDIDATES)
+			.map((other) => other.note.title);
+		if (candidates.length === 0) continue;
+		try {
+			const reply = await complete(
+				buildPrerequisiteModelPrompt({
+					noteTitle: item.note.title,
+					content: item.content,
+					candidates,
+				}),
+			);
+			hints.set(item.note.path, parsePrerequisiteModelHints(reply));
+		} catch (error) {
+			console.error("[Eragear] Prerequisite model pass failed", error);
+		}
+	}
+	return hints;
+}
+
+function rankCandidate(item: PrerequisiteEvidence, other: LearningNote): number {
+	const linked = (item.outgoingLinks[other.path] ?? 0) > 0 ? 2 : 0;
+	const sameArea =
+		item.note.area && item.note.area.toLowerCase() === other.area?.toLowerCase()
+			? 1
+			: 0;
+	return linked + sameArea;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+	findDefinitionReferences,
+	findPrerequisiteHeadingLinks,
+	groupPrerequisitePatches,
+	parsePrerequisiteModelHints,
+	type PrerequisiteEvidence,
+	suggestPrerequisites,
+} from "@/learning/prerequisite-suggester";
+import type { LearningNote } from "@/learning/types";
+
+describe("prerequisite suggester", () => {
+	it("finds definition phrases and prerequisite headings", () => {
+		const content = `# Index
+
+A page is defined in [[Pages|page]]. This builds on [[B-tree]].
+
+## Prerequisites
+
+- [[Disk IO]]
+- [[B-tree]]
+
+## Related
+
+- [[WAL]]`;
+
+		const sentence = "A page is defined in [[Pages|page]]. This builds on [[B-tree]].";
+		expect(findDefinitionReferences(content)).toEqual([
+			{ target: "Pages", sentence },
+			{ target: "B-tree", sentence },
+		]);
+		expect(findPrerequisiteHeadingLinks(content)).toEqual(["Disk IO", "B-tree"]);
+	});
+
+	it("combines signals and skips edges the frontmatter already states", () => {
+		const evidence = [
+			item(note("index.md", "Index"), {
+				content:
+					"Each key is defined in [[B-tree]].\n\n## Background\n\n- [[B-tree]]",
+				outgoingLinks: { "btree.md": 2, "wal.md": 1, "pages.md": 1 },
+				backlinkCount: 1,
+			}),
+			item(note("btree.md", "B-tree"), { backlinkCount: 6 }),
+			item(note("wal.md", "WAL", { prerequisites: ["[[Index]]"] }), {
+				backlinkCount: 4,
+			}),
+			item(note("pages.md", "Pages"), { backlinkCount: 1 }),
+		];
+
+		const suggestions = suggestPrerequisites(evidence, {
+			modelHints: new Map([
+				[
+					"pages.md",
+					[{ title: "B-tree", confidence: 0.4, reason: "Pages fill trees." }],
+				],
+			]),
+		});
+
+		expect(
+			suggestions.map((item) => [item.noteTitle, item.prerequisiteTitle]),
+		).toEqual([
+			["Index", "B-tree"],
+			["Pages", "B-tree"],
+		]);
+		expect(suggestions[0]).toMatchObject({
+			signals: ["definition", "heading", "link"],
+		});
+		expect(suggestions[0]!.confidence).toBeGreaterThan(0.95);
+		expect(suggestions[1]).toMatchObject({ confidence: 0.4, signals: ["model"] });
+		const notes = evidence.map((entry) =>
+			entry.note.path === "index.md"
+				? { ...entry.note, prerequisites: ["[[Disk IO]]"] }
+				: entry.note,
+		);
+		expect(groupPrerequisitePatches(suggestions, notes)).toEqual([
+			{ notePath: "index.md", prerequisites: ["[[Disk IO]]", "[[B-tree]]"] },
+			{ notePath: "pages.md", prerequisites: ["[[B-tree]]"] },
+		]);
+	});
+
+	it("never suggests an edge that closes a longer prerequisite loop", () => {
+		const evidence = [
+			item(note("a.md", "A", { prerequisites: ["[[B]]"] })),
+			item(note("b.md", "B", { prerequisites: ["[[C]]"] })),
+			item(note("c.md", "C"), { content: "This builds on [[A]]." }),
+			item(note("x.md", "X"), { content: "This builds on [[Y]]." }),
+			item(note("y.md", "Y"), {
+				content: "## Prerequisites\n\n- [[Z]]",
+			}),
+			item(note("z.md", "Z"), {
+				content: "Z is defined in [[X]].",
+			}),
+		];
+
+		expect(
+			suggestPrerequisites(evidence).map((item) => [
+				item.noteTitle,
+				item.prerequisiteTitle,
+			]),
+		).toEqual([
+			["X", "Y"],
+			["Z", "X"],
+		]);
+	});
+
+	it("parses model hints leniently", () => {
+		expect(
+			parsePrerequisiteModelHints(
+				'Sure: {"prerequisites": [{"title": "Pages", "confidence": 2}, {"title": ""}]}',
+			),
+		).toEqual([
+			{ title: "Pages", confidence: 1, reason: "Suggested as a prerequisite." },
+		]);
+		expect(parsePrerequisiteModelHints("no json")).toEqual([]);
+	});
+});
+
+function item(
+	learningNote: LearningNote,
+	overrides: Partial<PrerequisiteEvidence> = {},
+): PrerequisiteEvidence {
+	return {
+		note: learningNote,
+		content: "",
+		outgoingLinks: {},
+		backlinkCount: 0,
+		...overrides,
+	};
+}
+
+function note(
+	path: string,
+	title: string,
+	overrides: Partial<LearningNote> = {},
+): LearningNote {
+	return {
+		path,
+		title,
+		type: "concept",
+		area: "database",
+		status: "explain",
+		links: [],
+		backlinks: [],
+		graphScore: 0,
+		missingFields: [],
+		...overrides,
+	};
+}
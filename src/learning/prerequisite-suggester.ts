@@ -0,0 +1,412 @@
+import type { LearningNote } from "@/learning/types";
+
+export type PrerequisiteSignal = "definition" | "heading" | "link" | "model";
+
+/** A proposed `prerequisites` edge: `notePath` should require the other note. */
+export interface PrerequisiteSuggestion {
+	notePath: string;
+	noteTitle: string;
+	prerequisitePath: string;
+	prerequisiteTitle: string;
+	/** 0-1, combined across every signal that proposed the edge. */
+	confidence: number;
+	signals: PrerequisiteSignal[];
+	justification: string;
+}
+
+/** What the suggester knows about one learning note besides its frontmatter. */
+export interface PrerequisiteEvidence {
+	note: LearningNote;
+	content: string;
+	/** Resolved outgoing links and their counts, from the vault link graph. */
+	outgoingLinks: Record<string, number>;
+	backlinkCount: number;
+}
+
+export interface ModelPrerequisiteHint {
+	title: string;
+	confidence: number;
+	reason: string;
+}
+
+export interface PrerequisiteSuggestionOptions {
+	minConfidence?: number;
+	/** Model hints keyed by note path. */
+	modelHints?: ReadonlyMap<string, readonly ModelPrerequisiteHint[]>;
+}
+
+export interface PrerequisitePatch {
+	notePath: string;
+	prerequisites: string[];
+}
+
+export const DEFAULT_MIN_PREREQUISITE_CONFIDENCE = 0.3;
+
+const DEFINITION_CONFIDENCE = 0.8;
+const HEADING_CONFIDENCE = 0.7;
+const LINK_BASE_CONFIDENCE = 0.2;
+const LINK_MAX_CONFIDENCE = 0.5;
+
+/**
+ * Phrases that say a linked note must be understood first. Each pattern
+ * captures the link target.
+ */
+const DEFINITION_PATTERNS: readonly RegExp[] = [
+	/\b(?:is|are)\s+(?:defined|introduced|explained)\s+in\s+\[\[([^\]|#]+)/gi,
+	/\bsee\s+\[\[([^\]|#]+)[^\]]*\]\]\s+for\s+(?:the\s+|a\s+)?definition/gi,
+	/\b(?:builds|based)\s+on\s+\[\[([^\]|#]+)/gi,
+	/\b(?:requires|assumes)\s+(?:(?:an?\s+)?(?:understanding|knowledge)\s+of\s+)?\[\[([^\]|#]+)/gi,
+	/\bassumes\s+familiarity\s+with\s+\[\[([^\]|#]+)/gi,
+];
+
+const PREREQUISITE_HEADING =
+	/^#{1,6}\s+(?:prerequisites?|background|before you (?:start|begin)|foundations?)\s*$/i;
+
+/** Links the note's prose names as definitions or foundations, one per target. */
+export function findDefinitionReferences(
+	content: string,
+): { target: string; sentence: string }[] {
+	const references = new Map<string, { target: string; sentence: string }>();
+	for (const pattern of DEFINITION_PATTERNS) {
+		for (const match of content.matchAll(pattern)) {
+			const target = match[1]!.trim();
+			const key = target.toLowerCase();
+			if (references.has(key)) continue;
+			const index = match.index ?? 0;
+			const start = content.lastIndexOf("\n", index) + 1;
+			const end = content.indexOf("\n", index);
+			references.set(key, {
+				target,
+				sentence: content.slice(start, end === -1 ? undefined : end).trim(),
+			});
+		}
+	}
+	return [...references.values()];
+}
+
+/** Link targets listed under a "Prerequisites" or "Background" heading. */
+export function findPrerequisiteHeadingLinks(content: string): string[] {
+	const targets: string[] = [];
+	let inSection = false;
+	let sectionLevel = 0;
+	for (const line of content.split(/\r?\n/)) {
+		const heading = /^(#{1,6})\s/.exec(line);
+		if (heading) {
+			const level = heading[1]!.length;
+			if (PREREQUISITE_HEADING.test(line.trim())) {
+				inSection = true;
+				sectionLevel = level;
+				continue;
+			}
+			if (inSection && level <= sectionLevel) inSection = false;
+		}
+		if (!inSection) continue;
+		for (const match of line.matchAll(/\[\[([^\]|#]+)/g)) {
+			const target = match[1]!.trim();
+			if (!targets.includes(target)) targets.push(target);
+		}
+	}
+	return targets;
+}
+
+/**
+ * Proposes prerequisite edges from explicit definition phrases, links under
+ * prerequisite headings, one-way links to more widely referenced notes, and
+ * optional model hints. Signals for the same edge combine as independent
+ * evidence. Edges that already exist, or that would close a prerequisite
+ * loop with the current graph or a stronger suggestion, are left out.
+ */
+export function suggestPrerequisites(
+	evidence: readonly PrerequisiteEvidence[],
+	options: PrerequisiteSuggestionOptions = {},
+): PrerequisiteSuggestion[] {
+	const notes = evidence.map((item) => item.note);
+	const byPath = new Map(evidence.map((item) => [item.note.path, item]));
+	const resolve = createResolver(notes);
+	const requires = buildRequirementGraph(notes, resolve);
+	const suggestions = new Map<
+		string,
+		{ suggestion: PrerequisiteSuggestion; misses: number; reasons: string[] }
+	>();
+
+	const propose = (
+		item: PrerequisiteEvidence,
+		target: LearningNote | undefined,
+		signal: PrerequisiteSignal,
+		confidence: number,
+		reason: string,
+	) => {
+		if (!target || !canSuggest(item.note, target, resolve, requires)) return;
+		const key = `${item.note.path}\u0000${target.path}`;
+		const existing = suggestions.get(key) ?? {
+			suggestion: {
+				notePath: item.note.path,
+				noteTitle: item.note.title,
+				prerequisitePath: target.path,
+				prerequisiteTitle: target.title,
+				confidence: 0,
+				signals: [],
+				justification: "",
+			},
+			misses: 1,
+			reasons: [],
+		};
+		if (!existing.suggestion.signals.includes(signal)) {
+			existing.suggestion.signals.push(signal);
+		}
+		existing.misses *= 1 - Math.max(0, Math.min(1, confidence));
+		existing.reasons.push(reason);
+		suggestions.set(key, existing);
+	};
+
+	for (const item of evidence) {
+		for (const reference of findDefinitionReferences(item.content)) {
+			propose(
+				item,
+				resolve(reference.target),
+				"definition",
+				DEFINITION_CONFIDENCE,
+				`"${truncate(reference.sentence, 100)}"`,
+			);
+		}
+		for (const target of findPrerequisiteHeadingLinks(item.content)) {
+			propose(
+				item,
+				resolve(target),
+				"heading",
+				HEADING_CONFIDENCE,
+				"Listed under a prerequisites heading.",
+			);
+		}
+		for (const [path, count] of Object.entries(item.outgoingLinks)) {
+			const target = byPath.get(path);
+			if (!target || (target.outgoingLinks[item.note.path] ?? 0) > 0) continue;
+			if (target.backlinkCount <= item.backlinkCount) continue;
+			const foundational = target.backlinkCount >= item.backlinkCount * 2;
+			propose(
+				item,
+				target.note,
+				"link",
+				Math.min(
+					LINK_MAX_CONFIDENCE,
+					LINK_BASE_CONFIDENCE +
+						0.05 * (count - 1) +
+						(foundational ? 0.1 : 0),
+				),
+				`Links one way to ${target.note.title} (${count}x), which has ${target.backlinkCount} backlinks to this note's ${item.backlinkCount}.`,
+			);
+		}
+		for (const hint of options.modelHints?.get(item.note.path) ?? []) {
+			propose(
+				item,
+				resolve(hint.title),
+				"model",
+				hint.confidence,
+				`Model: ${hint.reason}`,
+			);
+		}
+	}
+
+	const minConfidence =
+		options.minConfidence ?? DEFAULT_MIN_PREREQUISITE_CONFIDENCE;
+	const scored = [...suggestions.values()].map(
+		({ suggestion, misses, reasons }) => ({
+			...suggestion,
+			confidence: Math.round((1 - misses) * 100) / 100,
+			justification: reasons.join(" "),
+		}),
+	);
+	// When both directions were proposed, keep the stronger one.
+	const confidenceOf = new Map(
+		scored.map((item) => [
+			`${item.notePath}\u0000${item.prerequisitePath}`,
+			item.confidence,
+		]),
+	);
+	const ranked = scored
+		.filter((suggestion) => {
+			const reverse = confidenceOf.get(
+				`${suggestion.prerequisitePath}\u0000${suggestion.notePath}`,
+			);
+			return (
+				suggestion.confidence >= minConfidence &&
+				(reverse === undefined ||
+					suggestion.confidence > reverse ||
+					(suggestion.confidence === reverse &&
+						suggestion.notePath > suggestion.prerequisitePath))
+			);
+		})
+		.sort(
+			(left, right) =>
+				right.confidence - left.confidence ||
+				left.noteTitle.localeCompare(right.noteTitle),
+		);
+	// Accept the strongest first; a weaker one that would close a loop with
+	// them is dropped, so accepting the whole list never creates a cycle.
+	return ranked.filter((suggestion) => {
+		if (reaches(requires, suggestion.prerequisitePath, suggestion.notePath)) {
+			return false;
+		}
+		addRequirement(requires, suggestion.notePath, suggestion.prerequisitePath);
+		return true;
+	});
+}
+
+/**
+ * Merges accepted suggestions into each note's existing `prerequisites`,
+ * keeping the links already there and adding `[[Title]]` for new ones.
+ */
+export function groupPrerequisitePatches(
+	suggestions: readonly PrerequisiteSuggestion[],
+	notes: readonly LearningNote[],
+): PrerequisitePatch[] {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const patches = new Map<string, PrerequisitePatch>();
+	for (const suggestion of suggestions) {
+		const note = byPath.get(suggestion.notePath);
+		if (!note) continue;
+		const patch = patches.get(note.path) ?? {
+			notePath: note.path,
+			prerequisites: [...(note.prerequisites ?? [])],
+		};
+		const link = `[[${suggestion.prerequisiteTitle}]]`;
+		if (!patch.prerequisites.includes(link)) patch.prerequisites.push(link);
+		patches.set(note.path, patch);
+	}
+	return [...patches.values()];
+}
+
+export function buildPrerequisiteModelPrompt(input: {
+	noteTitle: string;
+	content: string;
+	candidates: readonly string[];
+}): string {
+	return `You are mapping prerequisites between notes in a learning vault.
+
+Note: "${input.noteTitle}"
+${input.content.slice(0, 6000) || "(empty note)"}
+
+Candidate notes:
+${input.candidates.map((title) => `- ${title}`).join("\n") || "(none)"}
+
+List the candidates a learner must understand before this note. Only use titles from the list, and leave out notes that merely relate to it.
+Reply with JSON only: {"prerequisites": [{"title": "<candidate>", "confidence": <0-1>, "reason": "<one sentence>"}]}`;
+}
+
+export function parsePrerequisiteModelHints(text: string): ModelPrerequisiteHint[] {
+	const match = /\{[\s\S]*\}/.exec(text);
+	if (!match) return [];
+	try {
+		const parsed = JSON.parse(match[0]) as { prerequisites?: unknown };
+		if (!Array.isArray(parsed.prerequisites)) return [];
+		return parsed.prerequisites
+			.map((item): ModelPrerequisiteHint | null => {
+				if (typeof item !== "object" || item === null) return null;
+				const record = item as Record<string, unknown>;
+				const confidence = Number(record.confidence);
+				if (typeof record.title !== "string" || !record.title.trim()) return null;
+				return {
+					title: record.title.trim(),
+					confidence: Number.isFinite(confidence)
+						? Math.max(0, Math.min(1, confidence))
+						: 0.5,
+					reason:
+						typeof record.reason === "string" && record.reason.trim()
+							? record.reason.trim()
+							: "Suggested as a prerequisite.",
+				};
+			})
+			.filter((hint): hint is ModelPrerequisiteHint => hint !== null);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Skips edges the frontmatter already states in either direction, through
+ * `prerequisites` or `unlocks`, and edges whose prerequisite already
+ * requires the note, directly or through other notes.
+ */
+function canSuggest(
+	note: LearningNote,
+	target: LearningNote,
+	resolve: (value: string) => LearningNote | undefined,
+	requires: ReadonlyMap<string, ReadonlySet<string>>,
+): boolean {
+	if (note.path === target.path) return false;
+	const links = (from: LearningNote, to: LearningNote) =>
+		[...(from.prerequisites ?? []), ...(from.unlocks ?? [])].some(
+			(link) => resolve(link)?.path === to.path,
+		);
+	return (
+		!links(note, target) &&
+		!links(target, note) &&
+		!reaches(requires, target.path, note.path)
+	);
+}
+
+/** Note path to the paths it requires, from `prerequisites` and reversed `unlocks`. */
+function buildRequirementGraph(
+	notes: readonly LearningNote[],
+	resolve: (value: string) => LearningNote | undefined,
+): Map<string, Set<string>> {
+	const requires = new Map<string, Set<string>>();
+	for (const note of notes) {
+		for (const link of note.prerequisites ?? []) {
+			const prerequisite = resolve(link);
+			if (prerequisite) addRequirement(requires, note.path, prerequisite.path);
+		}
+		for (const link of note.unlocks ?? []) {
+			const unlocked = resolve(link);
+			if (unlocked) addRequirement(requires, unlocked.path, note.path);
+		}
+	}
+	return requires;
+}
+
+function addRequirement(
+	requires: Map<string, Set<string>>,
+	notePath: string,
+	prerequisitePath: string,
+): void {
+	const set = requires.get(notePath) ?? new Set<string>();
+	set.add(prerequisitePath);
+	requires.set(notePath, set);
+}
+
+function reaches(
+	requires: ReadonlyMap<string, ReadonlySet<string>>,
+	from: string,
+	to: string,
+): boolean {
+	const seen = new Set<string>();
+	const stack = [from];
+	while (stack.length > 0) {
+		const path = stack.pop()!;
+		if (path === to) return true;
+		if (seen.has(path)) continue;
+		seen.add(path);
+		stack.push(...(requires.get(path) ?? []));
+	}
+	return false;
+}
+
+function createResolver(
+	notes: readonly LearningNote[],
+): (value: string) => LearningNote | undefined {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const byTitle = new Map(notes.map((note) => [note.title.toLowerCase(), note]));
+	return (value) => {
+		const match = /^\[\[([^|\]#]+)(?:[#|][^\]]*)?\]\]$/.exec(value.trim());
+		const title = (match?.[1] ?? value).trim();
+		return (
+			byPath.get(title) ??
+			byPath.get(`${title}.md`) ??
+			byTitle.get(title.toLowerCase())
+		);
+	};
+}
+
+function truncate(value: string, length: number): string {
+	return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
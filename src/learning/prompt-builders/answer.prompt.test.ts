@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { buildAnswerPrompt } from "@/learning/prompt-builders/answer.prompt";
+
+describe("answer prompt", () => {
+	it("asks for a short answer backed by evidence and confidence", () => {
+		const prompt = buildAnswerPrompt({
+			title: "Why do B-trees beat binary trees on disk?",
+			sourcePath: "Questions/btree-disk.md",
+			source: "Came up while reading about page sizes.",
+			relatedNotes: [
+				{
+					title: "Disk pages",
+					path: "Systems/disk-pages.md",
+					excerpt: "Reads happen a page at a time.",
+				},
+			],
+		});
+
+		expect(prompt).toContain("Short answer");
+		expect(prompt).toContain("Confidence");
+		expect(prompt).toContain("Questions/btree-disk.md");
+		expect(prompt).toContain("Disk pages");
+	});
+});
@@ -0,0 +1,39 @@
+export interface AnswerPromptInput {
+	title: string;
+	sourcePath: string;
+	source: string;
+	relatedNotes: Array<{
+		title: string;
+		path: string;
+		excerpt: string;
+	}>;
+}
+
+export function buildAnswerPrompt(input: AnswerPromptInput): string {
+	return `You are resolving an open question from a learning vault.
+
+Requirements:
+- Treat the note title and body as the question and its context.
+- Answer from the related notes first; say where you rely on outside knowledge.
+- Keep the short answer to a few sentences a learner could repeat.
+- Include:
+  1. Question restated in one sentence
+  2. Short answer
+  3. Reasoning, step by step
+  4. Evidence with links to the notes it comes from
+  5. Confidence (low, medium or high) and what would change it
+  6. Follow-up questions the answer opens up
+
+Question:
+${input.title}
+Path: ${input.sourcePath}
+
+Question note:
+${input.source}
+
+Related notes:
+${input.relatedNotes
+	.map((note) => `## ${note.title}\nPath: ${note.path}\n${note.excerpt}`)
+	.join("\n\n")}
+`;
+}
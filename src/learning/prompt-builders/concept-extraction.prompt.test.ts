@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { buildConceptExtractionPrompt } from "@/learning/prompt-builders/concept-extraction.prompt";
+
+describe("concept extraction prompt", () => {
+	it("lists the candidate concepts and asks for definitions", () => {
+		const prompt = buildConceptExtractionPrompt({
+			title: "Designing Data-Intensive Applications",
+			sourcePath: "Books/ddia.md",
+			source: "## Replication\nLeaders and followers.",
+			candidates: ["Replication", "Leader election"],
+			relatedNotes: [],
+		});
+
+		expect(prompt).toContain("- Leader election");
+		expect(prompt).toContain("One-sentence definition");
+		expect(prompt).toContain("Books/ddia.md");
+	});
+});
@@ -0,0 +1,45 @@
+export interface ConceptExtractionPromptInput {
+	title: string;
+	sourcePath: string;
+	source: string;
+	/** Concepts already found in headings and bold terms. */
+	candidates: string[];
+	relatedNotes: Array<{
+		title: string;
+		path: string;
+		excerpt: string;
+	}>;
+}
+
+export function buildConceptExtractionPrompt(
+	input: ConceptExtractionPromptInput,
+): string {
+	return `You are extracting concepts from a source (a book, paper, article or course) in a learning vault.
+
+Requirements:
+- Use the source note as ground truth.
+- List only concepts a learner would study on their own, not chapter titles or examples.
+- Reuse an existing note title from the related notes when the concept already has a note.
+- Include for each concept:
+  1. Concept name as a [[wikilink]]
+  2. One-sentence definition in the source's terms
+  3. Where in the source it appears
+  4. Prerequisite concepts from the same list
+- End with the source's main claim and what it leaves open.
+
+Source:
+${input.title}
+Path: ${input.sourcePath}
+
+Candidates found in headings and bold terms:
+${input.candidates.map((candidate) => `- ${candidate}`).join("\n") || "- (none)"}
+
+Source note:
+${input.source}
+
+Related notes:
+${input.relatedNotes
+	.map((note) => `## ${note.title}\nPath: ${note.path}\n${note.excerpt}`)
+	.join("\n\n")}
+`;
+}
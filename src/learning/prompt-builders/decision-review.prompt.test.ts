@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { buildDecisionReviewPrompt } from "@/learning/prompt-builders/decision-review.prompt";
+
+describe("decision review prompt", () => {
+	it("asks for alternatives, consequences and a verdict", () => {
+		const prompt = buildDecisionReviewPrompt({
+			title: "ADR 7 - Use Postgres for the queue",
+			sourcePath: "Decisions/adr-7.md",
+			source: "We chose Postgres over Kafka to keep one datastore.",
+			relatedNotes: [],
+		});
+
+		expect(prompt).toContain("Alternatives considered");
+		expect(prompt).toContain("Consequences: expected, observed");
+		expect(prompt).toContain("Verdict: keep, amend, or supersede");
+		expect(prompt).toContain("Decisions/adr-7.md");
+	});
+});
@@ -0,0 +1,41 @@
+export interface DecisionReviewPromptInput {
+	title: string;
+	sourcePath: string;
+	source: string;
+	relatedNotes: Array<{
+		title: string;
+		path: string;
+		excerpt: string;
+	}>;
+}
+
+export function buildDecisionReviewPrompt(
+	input: DecisionReviewPromptInput,
+): string {
+	return `You are reviewing an architecture decision record (ADR) from a learning vault.
+
+Requirements:
+- Use the ADR as ground truth for what was decided and why.
+- Use related notes only as context for concepts and later outcomes.
+- Separate the consequences the ADR expected from the ones observed since.
+- Include:
+  1. Context and forces at the time
+  2. Decision in one sentence
+  3. Alternatives considered and why each lost
+  4. Consequences: expected, observed, and surprises
+  5. Revisit triggers that would reopen the decision
+  6. Verdict: keep, amend, or supersede, with the reason
+
+Decision record:
+${input.title}
+Path: ${input.sourcePath}
+
+ADR note:
+${input.source}
+
+Related notes:
+${input.relatedNotes
+	.map((note) => `## ${note.title}\nPath: ${note.path}\n${note.excerpt}`)
+	.join("\n\n")}
+`;
+}
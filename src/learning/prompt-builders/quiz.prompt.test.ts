@@ -16,6 +16,8 @@ describe("quiz prompt", () => {
 		});
 
 		expect(prompt).toContain("Five short-answer questions");
+		expect(prompt).toContain("- Distractors: wrong option | wrong option");
+		expect(prompt).toContain("- Rubric: criterion | criterion");
 		expect(prompt).toContain("Load balancing");
 		expect(prompt).toContain("Health checks");
 		expect(prompt).toContain("Systems/health-checks.md");
@@ -20,6 +20,20 @@ Requirements:
   2. Three misconception checks
   3. Two application prompts
   4. An answer key grounded in the source
+- Cover every category: recall, mechanism, transfer, application.
+- Write each question as a numbered item with a category tag and indented
+  fields so it can be graded and reused:
+
+1. [recall] Question prompt
+   - ID: q1
+   - Type: short_answer or multiple_choice
+   - Answer: expected answer
+   - Distractors: wrong option | wrong option (multiple_choice only)
+   - Keywords: term, term (for keyword grading)
+   - Rubric: criterion | criterion (for open answers)
+   - Source: #Heading in the source note
+
+- Give every question a unique ID and either an Answer, Keywords, or a Rubric.
 
 Title:
 ${input.title}
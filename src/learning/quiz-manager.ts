@@ -1,8 +1,16 @@
 import { type App, normalizePath, TFile, TFolder } from "obsidian";
 import { ARTIFACT_FOLDERS, LEARNING_FRONTMATTER_KEYS } from "@/learning/constants";
-import { formatLearningDate } from "@/learning/frontmatter";
+import { formatLearningDate, parseLearningFrontmatter } from "@/learning/frontmatter";
+import { type MasteryCategory, updateMasteryScore } from "@/learning/mastery";
+import { appendMasteryHistoryEntry } from "@/learning/mastery-history-manager";
 import { buildQuizPrompt } from "@/learning/prompt-builders/quiz.prompt";
-import type { GeneratedArtifact } from "@/learning/types";
+import type { QuizAttemptSummary } from "@/learning/quiz-runner";
+import {
+	type ParsedQuiz,
+	parseQuizArtifact,
+	parseQuizJson,
+} from "@/learning/quiz-schema";
+import type { GeneratedArtifact, LearningMastery } from "@/learning/types";
 import type { HtmlExplainerRelatedNote } from "@/learning/artifact-manager";
 
 export interface QuizGenerationOptions {
@@ -39,6 +47,91 @@ export async function generateQuizForNote(
 	};
 }
 
+export interface LoadedQuiz extends ParsedQuiz {
+	notePath: string;
+	quizPath: string;
+}
+
+/**
+ * Reads the note's quiz, from markdown or from a JSON export. Without a
+ * markdown quiz at the default path, a `.json` file beside it is used.
+ */
+export async function loadQuizForNote(app: App, file: TFile): Promise<LoadedQuiz> {
+	const resolvedPath = resolveQuizPath(app, file);
+	const quizFile =
+		app.vault.getAbstractFileByPath(resolvedPath) ??
+		app.vault.getAbstractFileByPath(resolvedPath.replace(/\.md$/, ".json"));
+	if (!(quizFile instanceof TFile)) {
+		throw new Error(`No quiz found at ${resolvedPath}. Generate a quiz first.`);
+	}
+	const quizPath = quizFile.path;
+	const content = await app.vault.cachedRead(quizFile);
+	const quiz =
+		quizFile.extension === "json"
+			? parseQuizJson(content)
+			: parseQuizArtifact(content);
+	if (!quiz || quiz.questions.length === 0) {
+		throw new Error(
+			quizFile.extension === "json"
+				? `${quizPath} is not a quiz JSON export with questions.`
+				: `${quizPath} has no numbered quiz questions.`,
+		);
+	}
+	if (!quiz.answerSource) {
+		quiz.answerSource = stripFrontmatter(await app.vault.cachedRead(file));
+	}
+	return { ...quiz, notePath: file.path, quizPath };
+}
+
+/**
+ * Writes quiz_score, last_quiz, category mastery scores, and weak points
+ * back to the source note in a single frontmatter transaction.
+ */
+export async function recordQuizAttempt(
+	app: App,
+	file: TFile,
+	quizPath: string,
+	summary: QuizAttemptSummary,
+): Promise<void> {
+	if (summary.quizScore === null) {
+		throw new Error("Quiz attempt has no graded answers to record.");
+	}
+	const quizScore = summary.quizScore;
+	const today = formatLearningDate();
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		let mastery: LearningMastery | undefined =
+			parseLearningFrontmatter(frontmatter).mastery;
+		for (const [category, score] of Object.entries(summary.categoryScores)) {
+			mastery = updateMasteryScore(mastery, {
+				category: category as MasteryCategory,
+				score,
+				evidenceNote: quizPath,
+				weakPoints: summary.weakPoints,
+				examinedAt: today,
+			});
+		}
+		if (mastery) frontmatter.mastery = mastery;
+		frontmatter[LEARNING_FRONTMATTER_KEYS.quizScore] = quizScore;
+		frontmatter[LEARNING_FRONTMATTER_KEYS.lastQuiz] = today;
+		frontmatter[LEARNING_FRONTMATTER_KEYS.lastTouched] = today;
+	});
+	await appendMasteryHistoryEntry(app, file, {
+		date: today,
+		source: "quiz",
+		...summary.categoryScores,
+		evidence: quizPath,
+	});
+}
+
+function resolveQuizPath(app: App, file: TFile): string {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+	const recorded = frontmatter
+		? parseLearningFrontmatter(frontmatter).artifacts?.quiz?.path
+		: undefined;
+	if (recorded) return normalizePath(recorded);
+	return normalizePath(`${ARTIFACT_FOLDERS.quizzes}/${slugify(file.basename)}.md`);
+}
+
 async function ensureFolder(app: App, folderPath: string): Promise<void> {
 	const normalized = normalizePath(folderPath);
 	const existing = app.vault.getAbstractFileByPath(normalized);
@@ -70,21 +163,51 @@ Generated: ${generatedAt}
 ## Short-answer questions
 
 1. [recall] What is the core idea of this note?
+   - ID: q1
+   - Type: short_answer
+   - Rubric: states the idea in own words | matches the source note
 2. [mechanism] What mechanism makes the idea work?
+   - ID: q2
+   - Type: short_answer
+   - Rubric: names the causal steps | explains why they produce the result
 3. [transfer] What is one concrete example outside the source context?
+   - ID: q3
+   - Type: short_answer
+   - Rubric: example is outside the source | maps each part of the idea
 4. [application] What failure mode should you watch for in practice?
+   - ID: q4
+   - Type: short_answer
+   - Rubric: names a realistic failure | explains how to detect it
 5. [transfer] How does this connect to another note in the vault?
+   - ID: q5
+   - Type: short_answer
+   - Rubric: names a related note | explains the shared mechanism
 
 ## Misconception checks
 
-1. What is a tempting but wrong simplification?
-2. Which part of the idea is often overgeneralized?
-3. What would make this idea fail in practice?
+1. [mechanism] What is a tempting but wrong simplification?
+   - ID: q6
+   - Type: short_answer
+   - Rubric: states the wrong belief | corrects it from the source
+2. [mechanism] Which part of the idea is often overgeneralized?
+   - ID: q7
+   - Type: short_answer
+   - Rubric: names the boundary where the idea stops applying
+3. [application] What would make this idea fail in practice?
+   - ID: q8
+   - Type: short_answer
+   - Rubric: names a concrete condition | explains the consequence
 
 ## Application prompts
 
-1. Apply the idea to a current project or case study.
-2. Explain the idea to someone who knows the related context but not this note.
+1. [application] Apply the idea to a current project or case study.
+   - ID: q9
+   - Type: short_answer
+   - Rubric: concrete project context | steps follow from the idea
+2. [transfer] Explain the idea to someone who knows the related context but not this note.
+   - ID: q10
+   - Type: short_answer
+   - Rubric: builds on the related context | stays accurate to the source
 
 ## Answer key source
 
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+	getQuizChoices,
+	gradeQuizAnswer,
+	parseQuizModelGrade,
+	summarizeQuizAttempt,
+	ungradedQuizAnswer,
+} from "@/learning/quiz-runner";
+import { parseQuizArtifact } from "@/learning/quiz-schema";
+
+const QUIZ = `# Cache quiz
+
+Generated: 2026-05-15
+
+## Short-answer questions
+
+1. [recall] What is a cache hit?
+   - Answer: served from cache
+2. [mechanism] How does write-through keep data fresh?
+   - Keywords: write, store, same time
+
+## Misconception checks
+
+1. Why is caching everything a bad idea?
+
+## Application prompts
+
+1. Apply caching to a slow profile page.
+
+## Answer key source
+
+\`\`\`markdown
+A cache stores recent reads.
+\`\`\`
+
+## Agent handoff prompt
+
+\`\`\`text
+1. Not a question.
+\`\`\`
+`;
+
+describe("quiz runner", () => {
+	it("grades exact and keyword answers and defers open questions", () => {
+		const [recall, mechanism, misconception] = parseQuizArtifact(QUIZ).questions;
+
+		expect(gradeQuizAnswer(recall!, "It is Served from cache.")?.score).toBe(10);
+		expect(gradeQuizAnswer(recall!, "computed again")?.score).toBe(0);
+		expect(gradeQuizAnswer(recall!, "Not served from cache")?.score).toBe(0);
+		const keywordGrade = gradeQuizAnswer(mechanism!, "Each write hits the store");
+		expect(keywordGrade?.score).toBe(6.7);
+		expect(keywordGrade?.feedback).toBe("Missing: same time");
+		expect(gradeQuizAnswer(misconception!, "Memory pressure")).toBeNull();
+		expect(gradeQuizAnswer(misconception!, "  ")?.score).toBe(0);
+	});
+
+	it("shuffles multiple-choice options stably and grades the exact choice", () => {
+		const question = {
+			id: "q7",
+			category: "recall" as const,
+			kind: "multiple_choice" as const,
+			section: "Questions",
+			prompt: "Where is a cache hit served from?",
+			answer: "cache",
+			distractors: ["origin cache miss", "disk"],
+		};
+
+		const choices = getQuizChoices(question);
+		expect([...choices].sort()).toEqual(["cache", "disk", "origin cache miss"]);
+		expect(getQuizChoices(question)).toEqual(choices);
+		expect(gradeQuizAnswer(question, "cache")?.score).toBe(10);
+		expect(gradeQuizAnswer(question, "origin cache miss")?.score).toBe(0);
+	});
+
+	it("parses model grades from JSON replies", () => {
+		const [, , misconception] = parseQuizArtifact(QUIZ).questions;
+
+		expect(
+			parseQuizModelGrade(
+				misconception!,
+				'Here you go: {"score": 12, "feedback": "Missed eviction."}',
+			),
+		).toMatchObject({ score: 10, method: "model", feedback: "Missed eviction." });
+		expect(parseQuizModelGrade(misconception!, "looks fine")).toBeNull();
+	});
+
+	it("summarizes graded answers into quiz and mastery scores", () => {
+		const questions = parseQuizArtifact(QUIZ).questions;
+		const summary = summarizeQuizAttempt(questions, [
+			gradeQuizAnswer(questions[0]!, "served from cache")!,
+			gradeQuizAnswer(questions[1]!, "write it down")!,
+			{ ...ungradedQuizAnswer(questions[2]!), method: "model", score: 7.3 },
+			ungradedQuizAnswer(questions[3]!),
+		]);
+
+		expect(summary.quizScore).toBe(6.9);
+		expect(summary.categoryScores).toEqual({ recall: 10, mechanism: 5.3 });
+		expect(summary.gradedCount).toBe(3);
+		expect(summary.ungradedCount).toBe(1);
+		expect(summary.weakPoints).toEqual([
+			"mechanism: How does write-through keep data fresh? (Missing: store, same time)",
+		]);
+	});
+});
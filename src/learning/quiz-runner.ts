@@ -0,0 +1,233 @@
+import type { MasteryCategory } from "@/learning/mastery";
+import { extractWeakPoints } from "@/learning/mastery";
+import { MASTERY_CATEGORIES, type QuizQuestion } from "@/learning/quiz-schema";
+
+export type QuizGradingMethod = "exact" | "keyword" | "model" | "ungraded";
+
+export interface QuizAnswerGrade {
+	questionId: string;
+	category: MasteryCategory;
+	score: number | null;
+	method: QuizGradingMethod;
+	feedback?: string;
+}
+
+export interface QuizAttemptSummary {
+	quizScore: number | null;
+	categoryScores: Partial<Record<MasteryCategory, number>>;
+	weakPoints: string[];
+	gradedCount: number;
+	ungradedCount: number;
+}
+
+const ANSWER_FILLER_WORDS = new Set(["a", "an", "the", "it", "is", "are", "was", "were"]);
+
+/**
+ * Answer plus distractors for a multiple-choice question, shuffled with a
+ * seed from the question id so reopening the quiz keeps the same order.
+ */
+export function getQuizChoices(question: QuizQuestion): string[] {
+	if (question.kind !== "multiple_choice" || !question.answer) return [];
+	let seed = hashString(question.id);
+	const choices = [question.answer, ...(question.distractors ?? [])];
+	for (let index = choices.length - 1; index > 0; index--) {
+		seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+		const swapIndex = seed % (index + 1);
+		[choices[index], choices[swapIndex]] = [choices[swapIndex]!, choices[index]!];
+	}
+	return choices;
+}
+
+/**
+ * Grades answers that have a deterministic key. Returns null for open
+ * questions so the caller can fall back to model grading.
+ */
+export function gradeQuizAnswer(
+	question: QuizQuestion,
+	response: string,
+): QuizAnswerGrade | null {
+	const normalizedResponse = normalizeAnswer(response);
+	if (!normalizedResponse) return emptyQuizAnswer(question);
+
+	if (question.answer && !question.keywords?.length) {
+		const expected = normalizeAnswer(question.answer);
+		const matched =
+			normalizedResponse === expected ||
+			(question.kind === "short_answer" &&
+				stripFillerWords(normalizedResponse) === stripFillerWords(expected));
+		return {
+			questionId: question.id,
+			category: question.category,
+			score: matched ? 10 : 0,
+			method: "exact",
+			feedback: matched ? undefined : `Expected: ${question.answer}`,
+		};
+	}
+
+	if (question.keywords?.length) {
+		const missing = question.keywords.filter(
+			(keyword) => !normalizedResponse.includes(normalizeAnswer(keyword)),
+		);
+		const found = question.keywords.length - missing.length;
+		return {
+			questionId: question.id,
+			category: question.category,
+			score: roundScore((found / question.keywords.length) * 10),
+			method: "keyword",
+			feedback:
+				missing.length > 0 ? `Missing: ${missing.join(", ")}` : undefined,
+		};
+	}
+
+	return null;
+}
+
+export function buildQuizGradingPrompt(input: {
+	noteTitle: string;
+	question: QuizQuestion;
+	response: string;
+	answerSource: string;
+}): string {
+	return `You are grading one answer from a learning quiz about "${input.noteTitle}".
+
+Question category: ${input.question.category}
+Question: ${input.question.prompt}
+${input.question.answer ? `Reference answer: ${input.question.answer}\n` : ""}${
+		input.question.rubric?.length
+			? `Rubric:\n${input.question.rubric.map((item) => `- ${item}`).join("\n")}\n`
+			: ""
+	}
+Learner answer:
+${input.response.trim() || "(no answer)"}
+
+Source note used as the answer key:
+${input.answerSource.slice(0, 8000) || "(source unavailable)"}
+
+Score the answer from 0 to 10 for correctness and depth for this category.
+Reply with JSON only: {"score": <0-10>, "feedback": "<one sentence naming the gap>"}`;
+}
+
+export function parseQuizModelGrade(
+	question: QuizQuestion,
+	text: string,
+): QuizAnswerGrade | null {
+	const match = /\{[\s\S]*\}/.exec(text);
+	if (!match) return null;
+	try {
+		const parsed = JSON.parse(match[0]) as { score?: unknown; feedback?: unknown };
+		const score = Number(parsed.score);
+		if (!Number.isFinite(score)) return null;
+		return {
+			questionId: question.id,
+			category: question.category,
+			score: roundScore(Math.max(0, Math.min(10, score))),
+			method: "model",
+			feedback:
+				typeof parsed.feedback === "string" && parsed.feedback.trim()
+					? parsed.feedback.trim()
+					: undefined,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/** A blank answer scores zero, open questions included. */
+export function emptyQuizAnswer(question: QuizQuestion): QuizAnswerGrade {
+	return {
+		questionId: question.id,
+		category: question.category,
+		score: 0,
+		method: question.keywords?.length ? "keyword" : "exact",
+		feedback: "No answer given.",
+	};
+}
+
+export function ungradedQuizAnswer(question: QuizQuestion): QuizAnswerGrade {
+	return {
+		questionId: question.id,
+		category: question.category,
+		score: null,
+		method: "ungraded",
+		feedback: "No grader was available for this open question.",
+	};
+}
+
+/**
+ * Rolls graded answers into a 0-10 quiz score, per-category mastery scores,
+ * and weak points. Ungraded answers are left out rather than counted as zero;
+ * blank answers are graded, so they count as zero.
+ */
+export function summarizeQuizAttempt(
+	questions: QuizQuestion[],
+	grades: QuizAnswerGrade[],
+): QuizAttemptSummary {
+	const graded = grades.filter(
+		(grade): grade is QuizAnswerGrade & { score: number } => grade.score !== null,
+	);
+	const categoryScores: Partial<Record<MasteryCategory, number>> = {};
+	for (const category of MASTERY_CATEGORIES) {
+		const scores = graded
+			.filter((grade) => grade.category === category)
+			.map((grade) => grade.score);
+		if (scores.length > 0) categoryScores[category] = roundScore(average(scores));
+	}
+
+	const weakPoints = extractWeakPoints(
+		graded.map((grade) => {
+			const question = questions.find((item) => item.id === grade.questionId);
+			return {
+				category: grade.category,
+				score: grade.score,
+				note: grade.feedback
+					? `${question?.prompt ?? grade.questionId} (${grade.feedback})`
+					: (question?.prompt ?? grade.questionId),
+			};
+		}),
+	);
+
+	return {
+		quizScore:
+			graded.length > 0
+				? roundScore(average(graded.map((grade) => grade.score)))
+				: null,
+		categoryScores,
+		weakPoints,
+		gradedCount: graded.length,
+		ungradedCount: grades.length - graded.length,
+	};
+}
+
+function normalizeAnswer(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+}
+
+/**
+ * Drops articles and linking verbs so "It is served from cache" matches
+ * "Served from cache" without accepting answers that merely contain the key.
+ */
+function stripFillerWords(normalized: string): string {
+	return normalized
+		.split(" ")
+		.filter((word) => !ANSWER_FILLER_WORDS.has(word))
+		.join(" ");
+}
+
+function average(values: number[]): number {
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function roundScore(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+function hashString(value: string): number {
+	let hash = 0;
+	for (const char of value) {
+		hash = (Math.imul(hash, 31) + char.charCodeAt(0)) >>> 0;
+	}
+	return hash;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatQuizJson,
+	formatQuizMarkdown,
+	parseQuizArtifact,
+	parseQuizJson,
+	validateQuizStructure,
+} from "@/learning/quiz-schema";
+
+const LEGACY_QUIZ = `# Cache quiz
+
+## Short-answer questions
+
+1. [recall] What is a cache hit?
+   - Answer: served from cache
+2. [mechanism] How does write-through keep data fresh?
+   - Keywords: write, store, same time
+
+## Misconception checks
+
+1. Why is caching everything a bad idea?
+
+## Application prompts
+
+1. Apply caching to a slow profile page.
+
+## Answer key source
+
+\`\`\`markdown
+A cache stores recent reads.
+\`\`\`
+
+## Agent handoff prompt
+
+\`\`\`text
+1. Not a question.
+\`\`\`
+`;
+
+const STRUCTURED_QUIZ = `# Cache quiz
+
+## Questions
+
+1. [recall] Where is a cache hit served from?
+   - ID: q1
+   - Type: multiple_choice
+   - Answer: the cache
+   - Distractors: the origin | the disk
+   - Source: #Cache hits
+2. [mechanism] How does write-through keep data fresh?
+   - ID: q2
+   - Type: short_answer
+   - Keywords: write, store
+   - Rubric: names both writes | explains ordering
+3. [transfer] How would a CDN change this?
+   - ID: q3
+   - Type: short_answer
+   - Rubric: compares edge and origin
+4. [application] Apply caching to a slow profile page.
+   - ID: q4
+   - Type: short_answer
+   - Rubric: picks a key | names invalidation
+5. [recall] What does eviction do?
+   - ID: q5
+   - Type: short_answer
+   - Answer: removes entries
+`;
+
+describe("quiz schema", () => {
+	it("parses legacy quizzes with section categories and the answer source", () => {
+		const quiz = parseQuizArtifact(LEGACY_QUIZ);
+
+		expect(quiz.title).toBe("Cache quiz");
+		expect(quiz.answerSource).toBe("A cache stores recent reads.");
+		expect(quiz.questions.map((question) => question.category)).toEqual([
+			"recall",
+			"mechanism",
+			"mechanism",
+			"application",
+		]);
+		expect(quiz.questions[0]).toMatchObject({
+			id: "short-answer-questions-1",
+			kind: "short_answer",
+			answer: "served from cache",
+		});
+		expect(quiz.questions[1]?.keywords).toEqual(["write", "store", "same time"]);
+	});
+
+	it("parses structured question fields", () => {
+		const [mcq, open] = parseQuizArtifact(STRUCTURED_QUIZ).questions;
+
+		expect(mcq).toMatchObject({
+			id: "q1",
+			kind: "multiple_choice",
+			answer: "the cache",
+			distractors: ["the origin", "the disk"],
+			sourceAnchor: "#Cache hits",
+		});
+		expect(open?.rubric).toEqual(["names both writes", "explains ordering"]);
+	});
+
+	it("round-trips between markdown and JSON", () => {
+		const quiz = parseQuizArtifact(STRUCTURED_QUIZ);
+		const fromJson = parseQuizJson(formatQuizJson(quiz));
+
+		expect(fromJson).toEqual(quiz);
+		expect(parseQuizArtifact(formatQuizMarkdown(fromJson!))).toEqual(quiz);
+		expect(formatQuizMarkdown(quiz)).toBe(STRUCTURED_QUIZ);
+		expect(parseQuizJson("{}")).toBeNull();
+	});
+
+	it("reports missing keys, distractors, and category coverage", () => {
+		expect(validateQuizStructure(parseQuizArtifact(STRUCTURED_QUIZ))).toEqual([]);
+
+		const issues = validateQuizStructure(parseQuizArtifact(LEGACY_QUIZ));
+		expect(issues).toContain(
+			"Quiz has 4 structured questions; expected at least 5.",
+		);
+		expect(issues).toContain(
+			"Quiz question misconception-checks-1 has no answer key or rubric.",
+		);
+		expect(issues).toContain("Quiz has no transfer questions.");
+	});
+});
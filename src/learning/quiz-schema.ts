@@ -0,0 +1,327 @@
+import type { MasteryCategory } from "@/learning/mastery";
+
+export type QuizQuestionKind = "short_answer" | "multiple_choice";
+
+export interface QuizQuestion {
+	id: string;
+	category: MasteryCategory;
+	kind: QuizQuestionKind;
+	section: string;
+	prompt: string;
+	answer?: string;
+	keywords?: string[];
+	distractors?: string[];
+	rubric?: string[];
+	sourceAnchor?: string;
+}
+
+export interface ParsedQuiz {
+	title: string;
+	questions: QuizQuestion[];
+	answerSource: string;
+}
+
+export const QUIZ_SCHEMA_VERSION = 1;
+export const MIN_QUIZ_QUESTIONS = 5;
+export const MIN_QUIZ_DISTRACTORS = 2;
+
+export const MASTERY_CATEGORIES: readonly MasteryCategory[] = [
+	"recall",
+	"mechanism",
+	"transfer",
+	"application",
+];
+
+const NON_QUESTION_SECTIONS = ["answer key source", "agent handoff prompt"];
+const QUESTION_PATTERN = /^(\d+)\.\s+(?:\[([a-z-]+)\]\s*)?(.+)$/i;
+const FIELD_PATTERN = /^\s+[-*]\s+([a-z ]+):\s*(.*)$/i;
+
+/**
+ * Reads a `_quizzes/*.md` artifact into structured questions. Numbered items
+ * become questions; an optional `[category]` tag wins over the section
+ * heading, and indented `- Field: value` lines carry the answer key.
+ */
+export function parseQuizArtifact(content: string): ParsedQuiz {
+	const questions: QuizQuestion[] = [];
+	let title = "";
+	let section = "";
+	let answerSource = "";
+	let inFence = false;
+	let fenceLines: string[] = [];
+	let current: QuizQuestion | null = null;
+
+	for (const line of stripFrontmatter(content).split(/\r?\n/)) {
+		if (line.trimStart().startsWith("```")) {
+			if (inFence && section.toLowerCase() === "answer key source") {
+				answerSource = fenceLines.join("\n").trim();
+			}
+			inFence = !inFence;
+			fenceLines = [];
+			continue;
+		}
+		if (inFence) {
+			fenceLines.push(line);
+			continue;
+		}
+
+		const heading = /^(#{1,6})\s+(.+)$/.exec(line);
+		if (heading) {
+			if (heading[1] === "#" && !title) title = heading[2]!.trim();
+			else section = heading[2]!.trim();
+			current = null;
+			continue;
+		}
+		if (!section || NON_QUESTION_SECTIONS.includes(section.toLowerCase())) {
+			continue;
+		}
+
+		const question = QUESTION_PATTERN.exec(line);
+		if (question) {
+			current = {
+				id: `${slugify(section)}-${question[1]}`,
+				category: resolveCategory(question[2], section),
+				kind: "short_answer",
+				section,
+				prompt: question[3]!.trim(),
+			};
+			questions.push(current);
+			continue;
+		}
+
+		const field = current ? FIELD_PATTERN.exec(line) : null;
+		if (current && field) {
+			applyQuestionField(current, field[1]!.trim().toLowerCase(), field[2]!.trim());
+		}
+	}
+
+	return { title, questions, answerSource };
+}
+
+/**
+ * Renders questions in the markdown shape `parseQuizArtifact` reads back, so
+ * agent-authored quizzes and JSON exports stay interchangeable.
+ */
+export function formatQuizMarkdown(quiz: ParsedQuiz): string {
+	const sections = new Map<string, QuizQuestion[]>();
+	for (const question of quiz.questions) {
+		const section = question.section || "Questions";
+		sections.set(section, [...(sections.get(section) ?? []), question]);
+	}
+
+	const body = Array.from(sections.entries())
+		.map(
+			([section, questions]) =>
+				`## ${section}\n\n${questions
+					.map((question, index) => formatQuestion(question, index + 1))
+					.join("\n")}`,
+		)
+		.join("\n\n");
+	const answerSource = quiz.answerSource
+		? `\n\n## Answer key source\n\n\`\`\`markdown\n${quiz.answerSource}\n\`\`\``
+		: "";
+
+	return `# ${quiz.title}\n\n${body}${answerSource}\n`;
+}
+
+export function formatQuizJson(quiz: ParsedQuiz): string {
+	return JSON.stringify(
+		{
+			version: QUIZ_SCHEMA_VERSION,
+			title: quiz.title,
+			answerSource: quiz.answerSource || undefined,
+			questions: quiz.questions,
+		},
+		null,
+		2,
+	);
+}
+
+export function parseQuizJson(content: string): ParsedQuiz | null {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch {
+		return null;
+	}
+
+	if (!isRecord(raw) || !Array.isArray(raw.questions)) return null;
+	const questions = raw.questions
+		.map(parseJsonQuestion)
+		.filter((question): question is QuizQuestion => question !== null);
+	if (questions.length === 0) return null;
+
+	return {
+		title: parseString(raw.title) ?? "Quiz",
+		questions,
+		answerSource: parseString(raw.answerSource) ?? "",
+	};
+}
+
+/**
+ * Structural problems that stop a quiz from being graded or reused. Empty
+ * when every question has an answer key and the categories are covered.
+ */
+export function validateQuizStructure(quiz: ParsedQuiz): string[] {
+	const issues: string[] = [];
+	if (quiz.questions.length < MIN_QUIZ_QUESTIONS) {
+		issues.push(
+			`Quiz has ${quiz.questions.length} structured questions; expected at least ${MIN_QUIZ_QUESTIONS}.`,
+		);
+	}
+
+	const seenIds = new Set<string>();
+	for (const question of quiz.questions) {
+		if (seenIds.has(question.id)) {
+			issues.push(`Quiz question id ${question.id} is duplicated.`);
+		}
+		seenIds.add(question.id);
+
+		if (!question.answer && !question.keywords?.length && !question.rubric?.length) {
+			issues.push(`Quiz question ${question.id} has no answer key or rubric.`);
+		}
+		if (
+			question.kind === "multiple_choice" &&
+			(!question.answer ||
+				(question.distractors?.length ?? 0) < MIN_QUIZ_DISTRACTORS)
+		) {
+			issues.push(
+				`Quiz question ${question.id} needs an answer and ${MIN_QUIZ_DISTRACTORS} distractors.`,
+			);
+		}
+	}
+
+	const categories = new Set(quiz.questions.map((question) => question.category));
+	for (const category of MASTERY_CATEGORIES) {
+		if (quiz.questions.length > 0 && !categories.has(category)) {
+			issues.push(`Quiz has no ${category} questions.`);
+		}
+	}
+	return issues;
+}
+
+function formatQuestion(question: QuizQuestion, number: number): string {
+	const fields: Array<[string, string | undefined]> = [
+		["ID", question.id],
+		["Type", question.kind],
+		["Answer", question.answer],
+		["Distractors", question.distractors?.join(" | ")],
+		["Keywords", question.keywords?.join(", ")],
+		["Rubric", question.rubric?.join(" | ")],
+		["Source", question.sourceAnchor],
+	];
+	return [
+		`${number}. [${question.category}] ${question.prompt}`,
+		...fields
+			.filter((field): field is [string, string] => Boolean(field[1]))
+			.map(([label, value]) => `   - ${label}: ${value}`),
+	].join("\n");
+}
+
+function applyQuestionField(question: QuizQuestion, field: string, value: string): void {
+	if (!value) return;
+	switch (field) {
+		case "id":
+			question.id = value;
+			return;
+		case "type":
+			question.kind = parseKind(value);
+			return;
+		case "answer":
+			question.answer = value;
+			return;
+		case "distractors":
+			question.distractors = splitList(value, "|");
+			return;
+		case "keywords":
+			question.keywords = splitList(value, ",");
+			return;
+		case "rubric":
+			question.rubric = splitList(value, "|");
+			return;
+		case "source":
+			question.sourceAnchor = value;
+			return;
+	}
+}
+
+function parseJsonQuestion(value: unknown, index: number): QuizQuestion | null {
+	if (!isRecord(value)) return null;
+	const prompt = parseString(value.prompt);
+	if (!prompt) return null;
+	const category = parseString(value.category)?.toLowerCase();
+
+	return {
+		id: parseString(value.id) ?? `q${index + 1}`,
+		category: MASTERY_CATEGORIES.includes(category as MasteryCategory)
+			? (category as MasteryCategory)
+			: "recall",
+		kind: parseKind(parseString(value.kind) ?? ""),
+		section: parseString(value.section) ?? "Questions",
+		prompt,
+		answer: parseString(value.answer),
+		keywords: parseStringList(value.keywords),
+		distractors: parseStringList(value.distractors),
+		rubric: parseStringList(value.rubric),
+		sourceAnchor: parseString(value.sourceAnchor),
+	};
+}
+
+function resolveCategory(tag: string | undefined, section: string): MasteryCategory {
+	const normalizedTag = tag?.toLowerCase();
+	if (MASTERY_CATEGORIES.includes(normalizedTag as MasteryCategory)) {
+		return normalizedTag as MasteryCategory;
+	}
+	const normalizedSection = section.toLowerCase();
+	if (normalizedSection.includes("misconception")) return "mechanism";
+	if (normalizedSection.includes("mechanism")) return "mechanism";
+	if (normalizedSection.includes("transfer")) return "transfer";
+	if (normalizedSection.includes("application")) return "application";
+	return "recall";
+}
+
+function parseKind(value: string): QuizQuestionKind {
+	const normalized = value.toLowerCase().replace(/[\s-]+/g, "_");
+	return normalized === "multiple_choice" || normalized === "mcq"
+		? "multiple_choice"
+		: "short_answer";
+}
+
+function splitList(value: string, separator: string): string[] {
+	return value
+		.split(separator)
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+function parseStringList(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const items = value
+		.map(parseString)
+		.filter((item): item is string => item !== undefined);
+	return items.length > 0 ? items : undefined;
+}
+
+function parseString(value: unknown): string | undefined {
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+function stripFrontmatter(content: string): string {
+	if (!content.startsWith("---")) return content;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return content;
+	return content.slice(end + 4).trimStart();
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "question";
+}
@@ -0,0 +1,93 @@
+import type { LearningRoadmap, LearningRoadmapMilestone } from "@/learning/types";
+
+export const ROADMAP_NOTE_TYPE = "roadmap";
+
+/**
+ * Roadmaps are `type: roadmap` notes, or MOC notes that list `milestones`.
+ * Either way the milestones carry the order and membership.
+ */
+export function isRoadmapFrontmatter(
+	frontmatter: Record<string, unknown> | undefined,
+): boolean {
+	if (frontmatter?.type === ROADMAP_NOTE_TYPE) return true;
+	return frontmatter?.type === "moc" && Array.isArray(frontmatter.milestones);
+}
+
+/**
+ * Reads a roadmap note. Milestones without a name are dropped; a roadmap that
+ * lists notes but no milestones gets a single milestone named after itself.
+ */
+export function parseLearningRoadmap(
+	path: string,
+	basename: string,
+	frontmatter: Record<string, unknown> | undefined,
+): LearningRoadmap | null {
+	if (!frontmatter || !isRoadmapFrontmatter(frontmatter)) return null;
+	const name =
+		parseString(frontmatter.roadmap) ?? parseString(frontmatter.name) ?? basename;
+	const milestones = Array.isArray(frontmatter.milestones)
+		? frontmatter.milestones
+				.map(parseMilestone)
+				.filter((item): item is LearningRoadmapMilestone => item !== null)
+		: [];
+	const notes = parseStringList(frontmatter.notes);
+	if (milestones.length === 0 && notes.length > 0) {
+		milestones.push({ name, notes });
+	}
+
+	const roadmap: LearningRoadmap = { path, name, milestones };
+	const goal = parseString(frontmatter.goal);
+	const targetDate = parseDate(frontmatter.target_date);
+	if (goal) roadmap.goal = goal;
+	if (targetDate) roadmap.targetDate = targetDate;
+	return roadmap;
+}
+
+export function findLearningRoadmap(
+	roadmaps: readonly LearningRoadmap[],
+	nameOrPath: string,
+): LearningRoadmap | undefined {
+	const key = nameOrPath.trim().toLowerCase();
+	return roadmaps.find(
+		(roadmap) =>
+			roadmap.name.toLowerCase() === key || roadmap.path.toLowerCase() === key,
+	);
+}
+
+function parseMilestone(value: unknown): LearningRoadmapMilestone | null {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return null;
+	}
+	const record = value as Record<string, unknown>;
+	const name = parseString(record.name) ?? parseString(record.milestone);
+	if (!name) return null;
+	const milestone: LearningRoadmapMilestone = {
+		name,
+		notes: parseStringList(record.notes),
+	};
+	const goal = parseString(record.goal);
+	const targetDate = parseDate(record.target_date);
+	if (goal) milestone.goal = goal;
+	if (targetDate) milestone.targetDate = targetDate;
+	return milestone;
+}
+
+function parseDate(value: unknown): string | undefined {
+	if (value instanceof Date) return value.toISOString().slice(0, 10);
+	const date = parseString(value);
+	return date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined;
+}
+
+function parseString(value: unknown): string | undefined {
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/** Unquoted `[[Note]]` in YAML parses as a nested list, so unwrap it. */
+function parseStringList(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.map((item) => parseString(Array.isArray(item) ? item.flat(2)[0] : item))
+		.filter((item): item is string => item !== undefined);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+	estimateRetrievability,
+	gradeFromQuizScore,
+	inferReviewGrade,
+	isNoteReviewDue,
+	scheduleReview,
+} from "@/learning/spaced-repetition";
+
+describe("spaced repetition", () => {
+	it("grows the interval after each successful review", () => {
+		const first = scheduleReview(undefined, 4, "2026-05-01");
+		const second = scheduleReview(first.schedule, 4, "2026-05-02");
+		const third = scheduleReview(second.schedule, 5, "2026-05-08");
+
+		expect(first.reviewDue).toBe("2026-05-02");
+		expect(second.reviewDue).toBe("2026-05-08");
+		expect(third.schedule.interval).toBe(16);
+		expect(third.schedule.ease).toBeGreaterThan(2.5);
+	});
+
+	it("resets repetitions and counts a lapse on failed recall", () => {
+		const result = scheduleReview(
+			{ ease: 2.5, interval: 20, repetitions: 4, lapses: 1, stability: 20 },
+			1,
+			"2026-05-13",
+		);
+
+		expect(result.reviewDue).toBe("2026-05-14");
+		expect(result.schedule).toMatchObject({
+			interval: 1,
+			repetitions: 0,
+			lapses: 2,
+			stability: 4,
+		});
+		expect(result.schedule.ease).toBeLessThan(2.5);
+	});
+
+	it("prefers examiner evidence newer than the last review", () => {
+		expect(
+			inferReviewGrade({
+				quizScore: 10,
+				mastery: {
+					recall_score: 4,
+					mechanism_score: 4,
+					transfer_score: 4,
+					application_score: 4,
+					last_examined: "2026-05-10",
+				},
+				reviewSchedule: { last_reviewed: "2026-05-01" },
+			}),
+		).toBe(2);
+		expect(gradeFromQuizScore(7)).toBe(4);
+	});
+
+	it("ignores a quiz score older than the last review", () => {
+		const note = {
+			quizScore: 10,
+			lastQuiz: "2026-05-01",
+			reviewSchedule: { last_reviewed: "2026-04-20" },
+		};
+		const first = scheduleReview(note.reviewSchedule, inferReviewGrade(note), "2026-05-02");
+		const second = inferReviewGrade({ ...note, reviewSchedule: first.schedule });
+
+		expect(first.schedule.last_grade).toBe(5);
+		expect(second).toBe(4);
+		expect(inferReviewGrade({ quizScore: 10, reviewSchedule: first.schedule })).toBe(4);
+	});
+
+	it("flags notes whose estimated retention fell below target", () => {
+		const schedule = { stability: 10, last_reviewed: "2026-05-01" };
+
+		expect(estimateRetrievability(schedule, "2026-05-11")).toBeCloseTo(0.9);
+		expect(isNoteReviewDue({ reviewSchedule: schedule }, "2026-05-05")).toBe(false);
+		expect(isNoteReviewDue({ reviewSchedule: schedule }, "2026-05-20")).toBe(true);
+	});
+});
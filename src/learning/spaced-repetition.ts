@@ -0,0 +1,178 @@
+import { formatLearningDate, isReviewDue } from "@/learning/frontmatter";
+import type {
+	LearningMastery,
+	LearningNote,
+	LearningReviewSchedule,
+} from "@/learning/types";
+
+/**
+ * Recall quality on the SM-2 scale: 0-2 is a lapse, 3 is a hard pass,
+ * 4 is a good pass, and 5 is effortless recall.
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ScheduledReview {
+	schedule: LearningReviewSchedule;
+	reviewDue: string;
+}
+
+export const DEFAULT_EASE = 2.5;
+export const MINIMUM_EASE = 1.3;
+export const TARGET_RETENTION = 0.9;
+export const PASSING_REVIEW_GRADE: ReviewGrade = 3;
+
+const MAX_INTERVAL_DAYS = 365;
+const DEFAULT_REVIEW_GRADE: ReviewGrade = 4;
+
+export function scheduleReview(
+	schedule: LearningReviewSchedule | undefined,
+	grade: ReviewGrade,
+	today = formatLearningDate(),
+): ScheduledReview {
+	const ease = schedule?.ease ?? DEFAULT_EASE;
+	const repetitions = schedule?.repetitions ?? 0;
+	const lapses = schedule?.lapses ?? 0;
+	const nextEase = Math.max(
+		MINIMUM_EASE,
+		roundTo(ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)), 2),
+	);
+
+	if (grade < PASSING_REVIEW_GRADE) {
+		const next: LearningReviewSchedule = {
+			ease: nextEase,
+			interval: 1,
+			repetitions: 0,
+			lapses: lapses + 1,
+			stability: lapseStability(schedule?.stability),
+			last_reviewed: today,
+			last_grade: grade,
+		};
+		return { schedule: next, reviewDue: addLearningDays(today, 1) };
+	}
+
+	const nextRepetitions = repetitions + 1;
+	const interval = Math.min(
+		MAX_INTERVAL_DAYS,
+		nextInterval(nextRepetitions, schedule?.interval, nextEase),
+	);
+	const next: LearningReviewSchedule = {
+		ease: nextEase,
+		interval,
+		repetitions: nextRepetitions,
+		lapses,
+		stability: interval,
+		last_reviewed: today,
+		last_grade: grade,
+	};
+	return { schedule: next, reviewDue: addLearningDays(today, interval) };
+}
+
+/**
+ * Estimated probability of recalling the note today (FSRS power curve).
+ * Stability is the number of days after which recall drops to 90%.
+ */
+export function estimateRetrievability(
+	schedule: LearningReviewSchedule | undefined,
+	today = formatLearningDate(),
+): number | null {
+	if (!schedule?.last_reviewed || !schedule.stability) return null;
+	const elapsedDays = daysBetween(schedule.last_reviewed, today);
+	if (elapsedDays === null) return null;
+	return 1 / (1 + Math.max(0, elapsedDays) / (9 * schedule.stability));
+}
+
+export function isNoteReviewDue(
+	note: Pick<LearningNote, "reviewDue" | "reviewSchedule">,
+	today = formatLearningDate(),
+): boolean {
+	if (isReviewDue(note.reviewDue, today)) return true;
+	const retrievability = estimateRetrievability(note.reviewSchedule, today);
+	return retrievability !== null && retrievability < TARGET_RETENTION;
+}
+
+export function gradeFromQuizScore(score: number): ReviewGrade {
+	return toReviewGrade(score / 2);
+}
+
+export function gradeFromMastery(
+	mastery: LearningMastery | undefined,
+): ReviewGrade | null {
+	const scores = [
+		mastery?.recall_score,
+		mastery?.mechanism_score,
+		mastery?.transfer_score,
+		mastery?.application_score,
+	].filter((score): score is number => typeof score === "number");
+	if (scores.length === 0) return null;
+	const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+	return toReviewGrade(average / 2);
+}
+
+/**
+ * Picks the freshest retention evidence for a note: examiner mastery scores
+ * recorded since the last review, then a quiz taken since it, then a
+ * neutral pass. Older evidence was already graded by an earlier review.
+ */
+export function inferReviewGrade(
+	note: Pick<
+		LearningNote,
+		"mastery" | "quizScore" | "lastQuiz" | "reviewSchedule"
+	>,
+): ReviewGrade {
+	const lastReviewed = note.reviewSchedule?.last_reviewed;
+	const isFresh = (date: string | undefined) =>
+		!lastReviewed || (date !== undefined && date >= lastReviewed);
+	const masteryGrade = gradeFromMastery(note.mastery);
+	if (masteryGrade !== null && isFresh(note.mastery?.last_examined)) {
+		return masteryGrade;
+	}
+	if (typeof note.quizScore === "number" && isFresh(note.lastQuiz)) {
+		return gradeFromQuizScore(note.quizScore);
+	}
+	return DEFAULT_REVIEW_GRADE;
+}
+
+export function addLearningDays(dateValue: string, days: number): string {
+	const date = parseLearningDate(dateValue);
+	if (!date) return dateValue;
+	date.setDate(date.getDate() + days);
+	return formatLearningDate(date);
+}
+
+function nextInterval(
+	repetitions: number,
+	previousInterval: number | undefined,
+	ease: number,
+): number {
+	if (repetitions === 1) return 1;
+	if (repetitions === 2) return 6;
+	return Math.max(1, Math.round((previousInterval ?? 6) * ease));
+}
+
+function lapseStability(stability: number | undefined): number {
+	if (!stability) return 1;
+	return Math.max(1, roundTo(stability * 0.2, 1));
+}
+
+function toReviewGrade(value: number): ReviewGrade {
+	if (!Number.isFinite(value)) return 0;
+	return Math.max(0, Math.min(5, Math.round(value))) as ReviewGrade;
+}
+
+function daysBetween(from: string, to: string): number | null {
+	const start = parseLearningDate(from);
+	const end = parseLearningDate(to);
+	if (!start || !end) return null;
+	return Math.round((end.getTime() - start.getTime()) / 86400000);
+}
+
+function parseLearningDate(value: string): Date | null {
+	const [year, month, day] = value.split("-").map(Number);
+	if (!year || !month || !day) return null;
+	return new Date(year, month - 1, day);
+}
+
+function roundTo(value: number, digits: number): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,114 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	formatLearningSprintBody,
+	formatLearningSprintFrontmatter,
+	getLearningSprintPath,
+	LEARNING_SPRINT_FOLDER,
+	type LearningSprintPlan,
+	type LearningSprintReview,
+	parseLearningSprintPlan,
+} from "@/learning/sprint-planner";
+
+/**
+ * The plan under a name no sprint note uses yet: `<name>`, then `<name>-2`,
+ * `<name>-3`, and so on. Replanning on the day a sprint closed keeps the
+ * closed sprint's note.
+ */
+export function withUnusedSprintName(
+	app: App,
+	plan: LearningSprintPlan,
+): LearningSprintPlan {
+	let name = plan.name;
+	let suffix = 1;
+	while (app.vault.getAbstractFileByPath(getLearningSprintPath(name))) {
+		suffix += 1;
+		name = `${plan.name}-${suffix}`;
+	}
+	return name === plan.name ? plan : { ...plan, name };
+}
+
+/**
+ * Writes the sprint note and tags every planned note with the sprint name so
+ * the queue and burn-down pick it up. Refuses to replace another sprint's note.
+ */
+export async function writeLearningSprint(
+	app: App,
+	plan: LearningSprintPlan,
+): Promise<TFile> {
+	const sprintPath = getLearningSprintPath(plan.name);
+	if (app.vault.getAbstractFileByPath(sprintPath)) {
+		throw new Error(
+			`${sprintPath} already exists; plan the sprint under another name`,
+		);
+	}
+	const file = await writeSprintNote(app, plan);
+	for (const item of plan.items) {
+		const note = app.vault.getAbstractFileByPath(item.path);
+		if (!(note instanceof TFile)) continue;
+		await app.fileManager.processFrontMatter(note, (frontmatter) => {
+			frontmatter.sprint = plan.name;
+		});
+	}
+	return file;
+}
+
+/** Records planned versus completed work in the sprint note and closes it. */
+export async function closeLearningSprint(
+	app: App,
+	plan: LearningSprintPlan,
+	review: LearningSprintReview,
+): Promise<TFile> {
+	return writeSprintNote(app, plan, review);
+}
+
+export function readLearningSprint(app: App, name: string): LearningSprintPlan | null {
+	const file = app.vault.getAbstractFileByPath(getLearningSprintPath(name));
+	if (!(file instanceof TFile)) return null;
+	return parseLearningSprintPlan(
+		app.metadataCache.getFileCache(file)?.frontmatter as
+			| Record<string, unknown>
+			| undefined,
+	);
+}
+
+async function writeSprintNote(
+	app: App,
+	plan: LearningSprintPlan,
+	review?: LearningSprintReview,
+): Promise<TFile> {
+	const sprintPath = getLearningSprintPath(plan.name);
+	let file = app.vault.getAbstractFileByPath(sprintPath);
+	if (!file) {
+		await ensureFolder(app, ARTIFACT_FOLDERS.commandCenter);
+		await ensureFolder(app, LEARNING_SPRINT_FOLDER);
+		file = await app.vault.create(sprintPath, "---\ntype: learning-sprint\n---\n");
+	}
+	if (!(file instanceof TFile)) {
+		throw new Error(`${sprintPath} exists but is not a file`);
+	}
+
+	const fields = formatLearningSprintFrontmatter(plan, review);
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		Object.assign(frontmatter, fields);
+	});
+	await app.vault.process(file, (content) =>
+		replaceBody(content, formatLearningSprintBody(plan, review)),
+	);
+	return file;
+}
+
+function replaceBody(content: string, body: string): string {
+	if (!content.startsWith("---")) return body;
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return body;
+	return `${content.slice(0, end + 4)}\n\n${body}`;
+}
+
+async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalized = normalizePath(folderPath);
+	const existing = app.vault.getAbstractFileByPath(normalized);
+	if (existing instanceof TFolder) return;
+	if (existing) throw new Error(`${normalized} exists but is not a folder`);
+	await app.vault.createFolder(normalized);
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LEARNING_PIPELINE } from "@/learning/learning-pipeline";
+import {
+	calibrateStageEffort,
+	estimateNoteEffort,
+	formatLearningSprintFrontmatter,
+	parseLearningSprintPlan,
+	planLearningSprint,
+	reviewLearningSprint,
+} from "@/learning/sprint-planner";
+import type { LearningNote } from "@/learning/types";
+
+describe("sprint planner", () => {
+	it("estimates the effort left until a note is done", () => {
+		expect(estimateNoteEffort(note("a.md", "A", { status: "apply" }))).toBe(2.5);
+		expect(
+			estimateNoteEffort(note("b.md", "B", { status: "apply", type: "project" })),
+		).toBe(5);
+		expect(estimateNoteEffort(note("c.md", "C", { status: "done" }))).toBe(0);
+		expect(
+			estimateNoteEffort(
+				note("d.md", "D", {
+					status: "review",
+					pipeline: {
+						...DEFAULT_LEARNING_PIPELINE,
+						stages: DEFAULT_LEARNING_PIPELINE.stages.map((stage) =>
+							stage.id === "review" ? { ...stage, effortHours: 3 } : stage,
+						),
+					},
+				}),
+			),
+		).toBe(3);
+	});
+
+	it("pulls stage estimates toward focus time on notes that left the stage", () => {
+		const notes = [
+			note("x.md", "X", { status: "review" }),
+			note("y.md", "Y", { status: "review", type: "project" }),
+			note("z.md", "Z", { status: "apply" }),
+		];
+		const calibration = calibrateStageEffort(
+			[
+				{ notePath: "x.md", stage: "apply", minutes: 180 },
+				{ notePath: "x.md", stage: "apply", minutes: 60 },
+				{ notePath: "y.md", stage: "apply", minutes: 480 },
+				{ notePath: "z.md", stage: "apply", minutes: 15 },
+				{ notePath: "x.md", minutes: 90 },
+			],
+			notes,
+		);
+
+		expect(calibration).toEqual(new Map([["apply", { hours: 4, notes: 2 }]]));
+		expect(estimateNoteEffort(notes[2]!, calibration)).toBe(3.5);
+	});
+
+	it("fills capacity in prerequisite order and schedules each day", () => {
+		const notes = [
+			note("Learning/index.md", "Index", {
+				status: "review",
+				prerequisites: ["[[B-tree]]"],
+				priority: 90,
+			}),
+			note("Learning/btree.md", "B-tree", { status: "review", priority: 10 }),
+			note("Learning/big.md", "Big topic", { status: "explain" }),
+			note("Learning/planner.md", "Query planner", {
+				status: "review",
+				prerequisites: ["[[Big topic]]"],
+			}),
+			note("Learning/wal.md", "WAL", { status: "apply" }),
+			note("Learning/done.md", "Finished", { status: "done" }),
+		];
+
+		const plan = planLearningSprint(notes, {
+			start: "2026-05-04",
+			weeklyCapacityHours: 3.5,
+		});
+
+		expect(plan.name).toBe("sprint-2026-05-04");
+		expect(plan.end).toBe("2026-05-10");
+		expect(plan.items.map((item) => [item.title, item.hours])).toEqual([
+			["WAL", 2.5],
+			["B-tree", 0.5],
+			["Index", 0.5],
+		]);
+		expect(plan.plannedHours).toBe(3.5);
+		expect(plan.days).toHaveLength(7);
+		expect(plan.days[0]).toEqual({
+			date: "2026-05-04",
+			hours: 0.5,
+			items: [{ path: "Learning/wal.md", title: "WAL", hours: 0.5 }],
+		});
+		expect(plan.days[6]?.items.map((item) => item.title)).toEqual(["Index"]);
+		expect(parseLearningSprintPlan(formatLearningSprintFrontmatter(plan))).toEqual(
+			plan,
+		);
+	});
+
+	it("compares planned and completed work at close", () => {
+		const plan = planLearningSprint(
+			[
+				note("Learning/wal.md", "WAL", { status: "apply" }),
+				note("Learning/btree.md", "B-tree", { status: "review" }),
+			],
+			{ start: "2026-05-04", weeklyCapacityHours: 6 },
+		);
+
+		const review = reviewLearningSprint(
+			plan,
+			[
+				note("Learning/wal.md", "WAL", { status: "review" }),
+				note("Learning/btree.md", "B-tree", { status: "done" }),
+			],
+			"2026-05-10",
+			new Map([["Learning/wal.md", 45]]),
+		);
+
+		expect(review).toMatchObject({
+			plannedHours: 3,
+			completedHours: 2.5,
+			focusedHours: 0.75,
+			completedNotes: 1,
+		});
+		expect(review.items.map((item) => item.completedHours)).toEqual([0.5, 2]);
+	});
+});
+
+function note(
+	path: string,
+	title: string,
+	overrides: Partial<LearningNote> = {},
+): LearningNote {
+	return {
+		path,
+		title,
+		type: "concept",
+		area: "systems",
+		status: "explain",
+		priority: 50,
+		links: [],
+		backlinks: [],
+		graphScore: 0,
+		missingFields: [],
+		...overrides,
+	};
+}
@@ -0,0 +1,507 @@
+import { normalizePath } from "obsidian";
+import { ARTIFACT_FOLDERS } from "@/learning/constants";
+import {
+	enrichNotesWithCurriculumGraph,
+	generateCurriculumSprint,
+} from "@/learning/curriculum-graph";
+import type { FocusSessionEntry } from "@/learning/focus-session";
+import { isLearningNoteDone } from "@/learning/learning-analytics";
+import { getNotePipeline } from "@/learning/learning-pipeline";
+import { addLearningDays } from "@/learning/spaced-repetition";
+import type {
+	LearningNote,
+	LearningNoteType,
+	LearningPipelineStage,
+	LearningRoadmap,
+	LearningStatus,
+} from "@/learning/types";
+
+export interface LearningSprintItem {
+	path: string;
+	title: string;
+	status?: LearningStatus;
+	/** Estimated hours to take the note from its stage to done. */
+	hours: number;
+}
+
+export interface LearningSprintDay {
+	date: string;
+	hours: number;
+	items: { path: string; title: string; hours: number }[];
+}
+
+export interface LearningSprintPlan {
+	name: string;
+	start: string;
+	end: string;
+	capacityHours: number;
+	plannedHours: number;
+	roadmap?: string;
+	items: LearningSprintItem[];
+	days: LearningSprintDay[];
+}
+
+export interface LearningSprintPlanOptions {
+	start: string;
+	weeklyCapacityHours: number;
+	/** Sprint length; capacity scales with it. */
+	days?: number;
+	name?: string;
+	roadmap?: LearningRoadmap;
+	stageEffort?: StageEffortCalibration;
+}
+
+/**
+ * Focused hours per stage id, averaged over the notes that were timed in
+ * the stage and have since left it, scaled to a concept note.
+ */
+export type StageEffortCalibration = ReadonlyMap<
+	string,
+	{ hours: number; notes: number }
+>;
+
+export interface LearningSprintResult {
+	path: string;
+	title: string;
+	plannedHours: number;
+	completedHours: number;
+	/** Hours logged in focus sessions on the note during the sprint. */
+	focusedHours: number;
+	done: boolean;
+}
+
+export interface LearningSprintReview {
+	closedAt: string;
+	plannedHours: number;
+	completedHours: number;
+	focusedHours: number;
+	completedNotes: number;
+	items: LearningSprintResult[];
+}
+
+export const LEARNING_SPRINT_FOLDER = normalizePath(
+	`${ARTIFACT_FOLDERS.commandCenter}/sprints`,
+);
+
+export const DEFAULT_SPRINT_DAYS = 7;
+
+/** Hours a stage takes when the pipeline does not set `effortHours`. */
+export const DEFAULT_STAGE_EFFORT_HOURS: Record<string, number> = {
+	seed: 0.5,
+	explain: 1,
+	visualize: 1.5,
+	practice: 2,
+	connect: 0.5,
+	test: 0.5,
+	apply: 2,
+	review: 0.5,
+};
+
+/** Scales stage effort by note type; small notes move faster than projects. */
+export const NOTE_TYPE_EFFORT_FACTORS: Record<LearningNoteType, number> = {
+	moc: 0.5,
+	concept: 1,
+	bridge: 0.75,
+	tool: 1,
+	"case-study": 1.5,
+	project: 2,
+	question: 0.5,
+	source: 1,
+	adr: 0.75,
+};
+
+const FALLBACK_STAGE_EFFORT_HOURS = 1;
+
+/** Notes' worth of weight the configured estimate keeps against focus logs. */
+const STAGE_EFFORT_PRIOR_NOTES = 2;
+
+export function getLearningSprintPath(name: string): string {
+	return normalizePath(`${LEARNING_SPRINT_FOLDER}/${slugify(name)}.md`);
+}
+
+/**
+ * Configured effort for the stage, pulled toward the focus time logged for
+ * it. The configured estimate weighs as much as two timed notes, so a few
+ * sessions nudge the number and many replace it.
+ */
+export function getStageEffortHours(
+	stage: LearningPipelineStage,
+	calibration?: StageEffortCalibration,
+): number {
+	const configured =
+		stage.effortHours ??
+		DEFAULT_STAGE_EFFORT_HOURS[stage.id] ??
+		FALLBACK_STAGE_EFFORT_HOURS;
+	const observed = calibration?.get(stage.id);
+	if (!observed || observed.notes === 0) return configured;
+	return (
+		(configured * STAGE_EFFORT_PRIOR_NOTES + observed.hours * observed.notes) /
+		(STAGE_EFFORT_PRIOR_NOTES + observed.notes)
+	);
+}
+
+/**
+ * Learns stage effort from focus sessions. Sessions are grouped by note and
+ * the stage the note was in; a stage counts only once the note has moved on,
+ * so time on unfinished work does not pull estimates down.
+ */
+export function calibrateStageEffort(
+	sessions: readonly Pick<FocusSessionEntry, "notePath" | "stage" | "minutes">[],
+	notes: readonly LearningNote[],
+): StageEffortCalibration {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const minutes = new Map<string, { note: LearningNote; stage: string; minutes: number }>();
+	for (const session of sessions) {
+		const note = byPath.get(session.notePath);
+		if (!note || !session.stage || note.status === session.stage) continue;
+		const key = `${note.path}\u0000${session.stage}`;
+		const entry = minutes.get(key) ?? { note, stage: session.stage, minutes: 0 };
+		entry.minutes += session.minutes;
+		minutes.set(key, entry);
+	}
+
+	const totals = new Map<string, { hours: number; notes: number }>();
+	for (const { note, stage, minutes: spent } of minutes.values()) {
+		if (spent <= 0) continue;
+		const factor = note.type ? NOTE_TYPE_EFFORT_FACTORS[note.type] : 1;
+		const total = totals.get(stage) ?? { hours: 0, notes: 0 };
+		total.hours += spent / 60 / factor;
+		total.notes += 1;
+		totals.set(stage, total);
+	}
+	return new Map(
+		[...totals].map(([stage, total]) => [
+			stage,
+			{ hours: total.hours / total.notes, notes: total.notes },
+		]),
+	);
+}
+
+/**
+ * Sums the effort of every stage from the note's current one up to, but not
+ * including, the stage where it counts as done. Notes without a known status
+ * start from the first stage.
+ */
+export function estimateNoteEffort(
+	note: LearningNote,
+	calibration?: StageEffortCalibration,
+): number {
+	const stages = getNotePipeline(note).stages;
+	const reviewIndex = stages.findIndex((stage) => stage.spacedReview);
+	const doneIndex = reviewIndex === -1 ? stages.length - 1 : reviewIndex;
+	const current = Math.max(
+		0,
+		stages.findIndex((stage) => stage.id === note.status),
+	);
+	const hours = stages
+		.slice(current, doneIndex)
+		.reduce((total, stage) => total + getStageEffortHours(stage, calibration), 0);
+	const factor = note.type ? NOTE_TYPE_EFFORT_FACTORS[note.type] : 1;
+	return roundHours(hours * factor);
+}
+
+/**
+ * Fills the sprint in prerequisite order until capacity runs out. A note is
+ * only planned once every unmet prerequisite is planned ahead of it, so a
+ * prerequisite that does not fit also holds back the notes that need it.
+ * With a roadmap, candidates follow its milestone order.
+ */
+export function planLearningSprint(
+	notes: LearningNote[],
+	options: LearningSprintPlanOptions,
+): LearningSprintPlan {
+	const days = Math.max(1, options.days ?? DEFAULT_SPRINT_DAYS);
+	const capacityHours = roundHours(
+		(Math.max(0, options.weeklyCapacityHours) * days) / 7,
+	);
+	const candidates = (
+		options.roadmap
+			? generateCurriculumSprint(notes, options.roadmap, notes.length).notes
+			: enrichNotesWithCurriculumGraph(notes).notes.sort(compareBacklogOrder)
+	).filter((note) => !isLearningNoteDone(note));
+
+	const items: LearningSprintItem[] = [];
+	const planned = new Set<string>();
+	let plannedHours = 0;
+	let pending = candidates;
+	let added = true;
+	while (added) {
+		added = false;
+		const skipped: LearningNote[] = [];
+		for (const note of pending) {
+			const hours = estimateNoteEffort(note, options.stageEffort);
+			if (!hasPlannedPrerequisites(note, planned)) {
+				skipped.push(note);
+				continue;
+			}
+			if (hours <= 0 || plannedHours + hours > capacityHours) continue;
+			items.push({
+				path: note.path,
+				title: note.title,
+				...(note.status ? { status: note.status } : {}),
+				hours,
+			});
+			planned.add(note.path);
+			plannedHours += hours;
+			added = true;
+		}
+		pending = skipped;
+	}
+
+	const start = options.start;
+	return {
+		name:
+			options.name ??
+			`${options.roadmap ? slugify(options.roadmap.name) : "sprint"}-${start}`,
+		start,
+		end: addLearningDays(start, days - 1),
+		capacityHours,
+		plannedHours: roundHours(plannedHours),
+		...(options.roadmap ? { roadmap: options.roadmap.name } : {}),
+		items,
+		days: scheduleSprintDays(items, start, days, capacityHours / days),
+	};
+}
+
+/**
+ * Lays planned notes out day by day in plan order, splitting a note across
+ * days when it does not fit in what is left of one. Work is counted in
+ * quarter hours so the split adds up exactly.
+ */
+export function scheduleSprintDays(
+	items: readonly LearningSprintItem[],
+	start: string,
+	dayCount: number,
+	dailyHours: number,
+): LearningSprintDay[] {
+	const days: LearningSprintDay[] = Array.from({ length: dayCount }, (_, index) => ({
+		date: addLearningDays(start, index),
+		hours: 0,
+		items: [],
+	}));
+	const dailyQuarters = Math.max(1, Math.ceil(dailyHours * 4));
+	let dayIndex = 0;
+	let used = 0;
+	for (const item of items) {
+		let remaining = Math.round(item.hours * 4);
+		while (remaining > 0) {
+			const lastDay = dayIndex === days.length - 1;
+			const quarters = lastDay
+				? remaining
+				: Math.min(remaining, dailyQuarters - used);
+			const day = days[dayIndex]!;
+			day.items.push({ path: item.path, title: item.title, hours: quarters / 4 });
+			day.hours += quarters / 4;
+			remaining -= quarters;
+			used += quarters;
+			if (!lastDay && used >= dailyQuarters) {
+				dayIndex += 1;
+				used = 0;
+			}
+		}
+	}
+	return days;
+}
+
+/**
+ * Compares the plan with the notes as they stand at close. A planned note
+ * earns the effort it no longer needs, so partial progress counts.
+ */
+export function reviewLearningSprint(
+	plan: LearningSprintPlan,
+	notes: readonly LearningNote[],
+	closedAt: string,
+	focusMinutesByNote: ReadonlyMap<string, number> = new Map(),
+	stageEffort?: StageEffortCalibration,
+): LearningSprintReview {
+	const byPath = new Map(notes.map((note) => [note.path, note]));
+	const items = plan.items.map((item): LearningSprintResult => {
+		const note = byPath.get(item.path);
+		const done = note ? isLearningNoteDone(note) : false;
+		const remaining = note && !done ? estimateNoteEffort(note, stageEffort) : 0;
+		return {
+			path: item.path,
+			title: item.title,
+			plannedHours: item.hours,
+			completedHours: note
+				? roundHours(Math.max(0, item.hours - remaining))
+				: 0,
+			focusedHours: roundHours((focusMinutesByNote.get(item.path) ?? 0) / 60),
+			done,
+		};
+	});
+	return {
+		closedAt,
+		plannedHours: plan.plannedHours,
+		completedHours: roundHours(
+			items.reduce((total, item) => total + item.completedHours, 0),
+		),
+		focusedHours: roundHours(
+			items.reduce((total, item) => total + item.focusedHours, 0),
+		),
+		completedNotes: items.filter((item) => item.done).length,
+		items,
+	};
+}
+
+/** Reads a sprint note's frontmatter back into its plan. */
+export function parseLearningSprintPlan(
+	frontmatter: Record<string, unknown> | undefined,
+): LearningSprintPlan | null {
+	const name = parseString(frontmatter?.sprint);
+	const start = parseString(frontmatter?.start);
+	const end = parseString(frontmatter?.end);
+	if (!frontmatter || !name || !start || !end) return null;
+	const items = (Array.isArray(frontmatter.planned) ? frontmatter.planned : [])
+		.map((value): LearningSprintItem | null => {
+			if (!isRecord(value)) return null;
+			const path = parseString(value.path);
+			const hours = Number(value.hours);
+			if (!path || !Number.isFinite(hours)) return null;
+			const status = parseString(value.status);
+			return {
+				path,
+				title: parseString(value.title) ?? path.replace(/\.md$/, ""),
+				...(status ? { status } : {}),
+				hours,
+			};
+		})
+		.filter((item): item is LearningSprintItem => item !== null);
+	const capacityHours = Number(frontmatter.capacity_hours);
+	const roadmap = parseString(frontmatter.roadmap);
+	const dayCount = Math.max(1, (daysBetween(start, end) ?? 0) + 1);
+	const capacity = Number.isFinite(capacityHours) ? capacityHours : 0;
+	return {
+		name,
+		start,
+		end,
+		capacityHours: capacity,
+		plannedHours: roundHours(items.reduce((total, item) => total + item.hours, 0)),
+		...(roadmap ? { roadmap } : {}),
+		items,
+		days: scheduleSprintDays(items, start, dayCount, capacity / dayCount),
+	};
+}
+
+/** Frontmatter written for a sprint note; `review` is added at close. */
+export function formatLearningSprintFrontmatter(
+	plan: LearningSprintPlan,
+	review?: LearningSprintReview,
+): Record<string, unknown> {
+	return {
+		type: "learning-sprint",
+		sprint: plan.name,
+		status: review ? "closed" : "active",
+		start: plan.start,
+		end: plan.end,
+		capacity_hours: plan.capacityHours,
+		planned_hours: plan.plannedHours,
+		...(plan.roadmap ? { roadmap: plan.roadmap } : {}),
+		planned: plan.items.map((item) => ({ ...item })),
+		...(review
+			? {
+					closed_at: review.closedAt,
+					completed_hours: review.completedHours,
+					focused_hours: review.focusedHours,
+					completed: review.items
+						.filter((item) => item.done)
+						.map((item) => item.path),
+				}
+			: {}),
+	};
+}
+
+export function formatLearningSprintBody(
+	plan: LearningSprintPlan,
+	review?: LearningSprintReview,
+): string {
+	const schedule = plan.days.map((day) => {
+		const items =
+			day.items.length > 0
+				? day.items
+						.map((item) => `- [ ] [[${item.title}]] - ${formatHours(item.hours)}`)
+						.join("\n")
+				: "- Rest or catch up";
+		return `### ${day.date} (${formatHours(day.hours)})\n\n${items}`;
+	});
+	const sections = [
+		`# Sprint ${plan.name}`,
+		[
+			`- Dates: ${plan.start} to ${plan.end}`,
+			`- Capacity: ${formatHours(plan.capacityHours)}`,
+			`- Planned: ${formatHours(plan.plannedHours)} across ${plan.items.length} notes`,
+			...(plan.roadmap ? [`- Roadmap: ${plan.roadmap}`] : []),
+		].join("\n"),
+		`## Schedule\n\n${schedule.join("\n\n")}`,
+	];
+	if (review) sections.push(formatSprintReview(review));
+	return `${sections.join("\n\n")}\n`;
+}
+
+function formatSprintReview(review: LearningSprintReview): string {
+	const rows = review.items.map(
+		(item) =>
+			`| [[${item.title}]] | ${formatHours(item.plannedHours)} | ${formatHours(item.completedHours)} | ${formatHours(item.focusedHours)} | ${item.done ? "yes" : "no"} |`,
+	);
+	return `## Planned vs completed
+
+Closed ${review.closedAt}: ${formatHours(review.completedHours)} of ${formatHours(review.plannedHours)} completed, ${review.completedNotes} of ${review.items.length} notes done. Focus sessions logged ${formatHours(review.focusedHours)}.
+
+| Note | Planned | Completed | Focused | Done |
+| --- | --- | --- | --- | --- |
+${rows.join("\n")}`;
+}
+
+function hasPlannedPrerequisites(note: LearningNote, planned: Set<string>): boolean {
+	const unmet = new Set(note.unmetPrerequisites ?? []);
+	return (note.prerequisiteLinks ?? [])
+		.filter((link) => unmet.has(link.raw))
+		.every((link) => link.path !== undefined && planned.has(link.path));
+}
+
+function compareBacklogOrder(a: LearningNote, b: LearningNote): number {
+	const depthDelta = (a.dependencyDepth ?? 0) - (b.dependencyDepth ?? 0);
+	if (depthDelta !== 0) return depthDelta;
+	const priorityDelta = (b.priority ?? 0) - (a.priority ?? 0);
+	if (priorityDelta !== 0) return priorityDelta;
+	return a.title.localeCompare(b.title);
+}
+
+function formatHours(hours: number): string {
+	return `${roundHours(hours)}h`;
+}
+
+function roundHours(hours: number): number {
+	return Math.round(hours * 4) / 4;
+}
+
+function daysBetween(from: string, to: string): number | null {
+	const start = parseLearningDate(from);
+	const end = parseLearningDate(to);
+	if (!start || !end) return null;
+	return Math.round((end.getTime() - start.getTime()) / 86400000);
+}
+
+function parseLearningDate(value: string): Date | null {
+	const [year, month, day] = value.split("-").map(Number);
+	if (!year || !month || !day) return null;
+	return new Date(year, month - 1, day);
+}
+
+function parseString(value: unknown): string | undefined {
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function slugify(value: string): string {
+	const slug = value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || "learning-sprint";
+}
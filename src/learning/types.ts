@@ -1,4 +1,5 @@
-export type LearningStatus =
+/** Stages of the default pipeline; custom pipelines may define their own ids. */
+export type BuiltInLearningStatus =
 	| "seed"
 	| "explain"
 	| "visualize"
@@ -9,6 +10,8 @@ export type LearningStatus =
 	| "done"
 	| "mastered";
 
+export type LearningStatus = BuiltInLearningStatus | (string & {});
+
 export type LearningNoteType =
 	| "moc"
 	| "concept"
@@ -25,7 +28,10 @@ export type LearningArtifactType =
 	| "quiz"
 	| "bridge_note"
 	| "case_study"
-	| "review";
+	| "review"
+	| "answer"
+	| "concept_extraction"
+	| "decision_review";
 
 export interface LearningArtifactRecord {
 	path?: string;
@@ -41,6 +47,9 @@ export interface LearningArtifacts {
 	bridge_note?: LearningArtifactRecord;
 	case_study?: LearningArtifactRecord;
 	review?: LearningArtifactRecord;
+	answer?: LearningArtifactRecord;
+	concept_extraction?: LearningArtifactRecord;
+	decision_review?: LearningArtifactRecord;
 }
 
 export interface LearningMastery {
@@ -48,11 +57,36 @@ export interface LearningMastery {
 	mechanism_score?: number;
 	transfer_score?: number;
 	application_score?: number;
+	/** Most recent examination of any category. */
 	last_examined?: string;
+	/** Last examination per category, so decay restarts only for what was tested. */
+	examined_dates?: Partial<
+		Record<"recall" | "mechanism" | "transfer" | "application", string>
+	>;
 	evidence_notes?: string[];
 	weak_points?: string[];
 }
 
+export interface MasteryHistoryEntry {
+	date: string;
+	source: "examiner" | "quiz";
+	recall?: number;
+	mechanism?: number;
+	transfer?: number;
+	application?: number;
+	evidence?: string;
+}
+
+export interface LearningReviewSchedule {
+	ease?: number;
+	interval?: number;
+	repetitions?: number;
+	lapses?: number;
+	stability?: number;
+	last_reviewed?: string;
+	last_grade?: number;
+}
+
 export interface LearningDefinitionOfDone {
 	evidence_notes?: string[];
 	explanation_reviewed?: boolean;
@@ -61,6 +95,9 @@ export interface LearningDefinitionOfDone {
 	quiz_reviewed?: boolean;
 	application_reviewed?: boolean;
 	reviewed?: boolean;
+	answer_reviewed?: boolean;
+	extraction_reviewed?: boolean;
+	decision_reviewed?: boolean;
 }
 
 export interface LearningDependencyLink {
@@ -82,13 +119,17 @@ export interface LearningNote {
 	nextAction?: string;
 	artifactHtml?: string;
 	quizScore?: number;
+	/** Date of the attempt that set `quizScore`. */
+	lastQuiz?: string;
 	reviewDue?: string;
 	lastTouched?: string;
 	prerequisites?: string[];
 	unlocks?: string[];
 	mastery?: LearningMastery;
+	masteryHistory?: MasteryHistoryEntry[];
 	artifacts?: LearningArtifacts;
 	dod?: LearningDefinitionOfDone;
+	reviewSchedule?: LearningReviewSchedule;
 	prerequisiteLinks?: LearningDependencyLink[];
 	unlockLinks?: LearningDependencyLink[];
 	blockers?: string[];
@@ -101,6 +142,7 @@ export interface LearningNote {
 	graphScore?: number;
 	finalScore?: number;
 	missingFields: LearningField[];
+	pipeline?: LearningPipeline;
 }
 
 export type LearningField = "type" | "area" | "status";
@@ -118,8 +160,28 @@ export interface LearningScanSummary {
 	artifactQualityIssues: number;
 }
 
+/** One ordered step of a roadmap; `notes` are the raw membership links. */
+export interface LearningRoadmapMilestone {
+	name: string;
+	goal?: string;
+	targetDate?: string;
+	notes: string[];
+}
+
+/** A vault note with `type: roadmap`, or a `type: moc` note with milestones. */
+export interface LearningRoadmap {
+	path: string;
+	name: string;
+	goal?: string;
+	targetDate?: string;
+	milestones: LearningRoadmapMilestone[];
+}
+
 export interface LearningScanResult {
 	notes: LearningNote[];
+	roadmaps: LearningRoadmap[];
+	/** Prerequisite loops; each lists notes that require the next one. */
+	cycles: string[][];
 	weakNotes: LearningNote[];
 	missingArtifacts: LearningNote[];
 	dueReviews: LearningNote[];
@@ -130,17 +192,102 @@ export interface LearningScanResult {
 	scannedAt: string;
 }
 
+export type NextActionAgent = "deterministic" | "reasoning-model" | "coding-agent";
+
+/** Terms of the next-action score; each is scaled by a per-user weight. */
+export type NextActionWeightKey =
+	| "priority"
+	| "stage"
+	| "missingFields"
+	| "missingArtifact"
+	| "reviewDue"
+	| "sprint"
+	| "graphImportance"
+	| "weakPoints"
+	| "unlocks"
+	| "touchedToday"
+	| "blocked"
+	| "blockers";
+
+export type NextActionWeights = Record<NextActionWeightKey, number>;
+
+export interface NextActionScoreTerm {
+	key: NextActionWeightKey;
+	/** Unweighted points; penalties are negative. */
+	value: number;
+	weight: number;
+	contribution: number;
+}
+
 export interface NextActionCandidate {
 	note: LearningNote;
 	action: string;
 	reason: string[];
 	expectedOutput?: string;
-	suggestedAgent: "deterministic" | "reasoning-model" | "coding-agent";
+	suggestedAgent: NextActionAgent;
 	score: number;
+	/** Non-zero terms that add up to `score`, largest first. */
+	scoreBreakdown?: NextActionScoreTerm[];
+}
+
+/** Generator the action runner calls while a note sits in a stage. */
+export type LearningStageBuilder =
+	| "structure"
+	| "explanation"
+	| "html_explainer"
+	| "bridge_note"
+	| "quiz"
+	| "case_study"
+	| "review"
+	| "answer"
+	| "concept_extraction"
+	| "decision_review";
+
+/**
+ * Definition of Done rules checked before a note enters a stage. The rules
+ * file may define more names than the built-in ones.
+ */
+export type LearningPromotionRule =
+	| "explanation_reviewed"
+	| "connections"
+	| "quiz_passed"
+	| "application_evidence"
+	| "done_mastery"
+	| "mastered_mastery"
+	| (string & {});
+
+export interface LearningPipelineStage {
+	id: LearningStatus;
+	weight: number;
+	action: string;
+	/** Action shown once the stage builder has nothing left to produce. */
+	reviewAction?: string;
+	expectedOutput?: string;
+	agent: NextActionAgent;
+	reviewAgent?: NextActionAgent;
+	builder?: LearningStageBuilder;
+	/** Artifacts that must exist and pass quality checks before leaving the stage. */
+	requiredArtifacts?: LearningArtifactType[];
+	promotionRules?: LearningPromotionRule[];
+	promotionMessage?: string;
+	/** Schedules a spaced review when the next stage is still blocked. */
+	spacedReview?: boolean;
+	/** Hours the sprint planner budgets for the stage. */
+	effortHours?: number;
+}
+
+export interface LearningPipeline {
+	id: string;
+	name: string;
+	types?: LearningNoteType[];
+	areas?: string[];
+	stages: LearningPipelineStage[];
 }
 
 export interface GeneratedArtifact {
 	notePath: string;
 	artifactPath: string;
 	nextStatus?: LearningStatus;
+	/** Notes the builder created next to the artifact, such as extracted seeds. */
+	createdNotes?: string[];
 }
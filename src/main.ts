@@ -11,25 +11,49 @@
  * All business logic is delegated to Core and Services layers.
  */
 
-import { Notice, Plugin, TFile } from "obsidian";
+import { Notice, Platform, Plugin, TFile } from "obsidian";
 import { createContextAssembler } from "@/core/context-assembler";
+import { getActiveAgentConfig } from "@/agent/acp-agent-config";
 import {
 	scanLearningAgentTasks,
+	updateLearningAgentTaskQueueState,
 	updateLearningAgentTaskStatus,
 	type LearningAgentTaskSummary,
 } from "@/agent/task-store";
 import {
+	createJsonModeProposalGenerator,
+	runLearningAgentTaskWithApi,
+} from "@/agent/api-agent-executor";
+import type { AgentTaskQueuePolicy } from "@/agent/task-queue";
+import {
+	ERAGEAR_CLOUD_ROUTE_ID,
+	getApiModelSettings,
+	resolveAgentTaskRoute,
+} from "@/agent/task-routing";
+import {
+	type AgentTaskRunOutcome,
+	LearningAgentTaskScheduler,
+} from "@/agent/task-scheduler";
+import {
+	runAcpJsonPrompt,
 	runLearningAgentTaskWithAcp,
 	type LearningAgentExecutionEvent,
 } from "@/agent/learning-agent-executor";
 import { createLearningAgentTaskFile } from "@/agent/task-writer";
 import {
 	applyAgentWriteProposal,
+	applyAgentWriteProposalReview,
+	loadAgentWriteProposalReview,
 	rejectAgentWriteProposal,
 	scanAgentWriteProposals,
 	type AgentWriteProposalSummary,
+	type AgentWriteReviewDecision,
+	type AgentWriteReviewItem,
 } from "@/agent/write-proposal";
-import { createGraphService } from "@/infra/obsidian/graph-service";
+import {
+	createGraphService,
+	type GraphService,
+} from "@/infra/obsidian/graph-service";
 import { createVaultManager } from "@/infra/obsidian/vault-manager";
 import { getWorkerClient } from "@/infra/workers/worker-client";
 import type { ContextAssembler } from "@/core/context-assembler";
@@ -38,30 +62,182 @@ import {
 	createCloudflareService,
 } from "@/infra/ai/cloudflare-api";
 import type { VaultManager } from "@/infra/obsidian/vault-manager";
+import { AIService } from "@/infra/ai/ai-service";
 import { diffViewExtension } from "@/app/editor/diff-view-plugin";
 import {
+	AIProviderType,
 	DEFAULT_SETTINGS,
 	initializeSettingsWithVaultPath,
 	type MyPluginSettings,
 } from "@/app/settings/plugin-settings";
 import { ERAGEAR_VIEW_TYPE, EragearView } from "@/app/views/eragear-view";
 import { CopilotSettingTab } from "@/app/views/settings/CopilotSettingTab";
-import { runLearningAction } from "@/learning/action-runner";
-import { appendLearningActionLog } from "@/learning/action-log";
+import type { LearningActionLogEntry } from "@/learning/action-log-format";
+import {
+	type LearningActionLogQuery,
+	queryLearningActionLog,
+	wasActionLogged,
+	withoutRevertedActions,
+} from "@/learning/action-log-query";
+import {
+	type LearningActionRunResult,
+	runLearningAction,
+} from "@/learning/action-runner";
+import type { LearningActionUndoRecord } from "@/learning/action-undo";
+import {
+	captureLearningActionState,
+	readLearningActionUndoRecords,
+	recordLearningActionUndo,
+	revertLearningAction,
+} from "@/learning/action-undo-manager";
+import {
+	appendLearningActionLog,
+	readLearningActionLog,
+} from "@/learning/action-log";
 import {
 	generateHtmlExplainerForNote,
 	type HtmlExplainerRelatedNote,
 } from "@/learning/artifact-manager";
 import { generateBridgeNoteForNote } from "@/learning/bridge-note-manager";
 import { generateCaseStudyForNote } from "@/learning/case-study-manager";
-import { generateExaminerForNote } from "@/learning/examiner-manager";
+import {
+	type CycleResolutionFix,
+	planCycleResolution,
+} from "@/learning/cycle-resolution";
+import { applyCycleResolution } from "@/learning/cycle-resolution-manager";
+import type { DefinitionOfDoneRules } from "@/learning/definition-of-done-rules";
+import {
+	createDefinitionOfDoneRulesFile,
+	readDefinitionOfDoneRules,
+} from "@/learning/definition-of-done-rules-manager";
+import {
+	generateExaminerForNote,
+	type LoadedExaminerSession,
+	loadExaminerForNote,
+	saveExaminerTranscript,
+	writeExaminerResultFrontmatter,
+} from "@/learning/examiner-manager";
+import {
+	buildExaminerScoringPrompt,
+	type ExaminerScoring,
+	formatExaminerTranscript,
+	parseExaminerScoring,
+	toExaminerResult,
+} from "@/learning/examiner-session";
+import type { MasteryCategory } from "@/learning/mastery";
 import {
 	patchLearningFrontmatter,
 	type LearningFrontmatterPatch,
 } from "@/learning/frontmatter-writer";
 import { formatLearningDate } from "@/learning/frontmatter";
-import { generateNextActionQueue } from "@/learning/next-action-engine";
+import {
+	type FocusSessionEntry,
+	type FocusSessionState,
+	type FocusUnderstanding,
+	finishFocusSession,
+	formatFocusClock,
+	getFocusRemainingMs,
+	pauseFocusSession,
+	resumeFocusSession,
+	startFocusSession,
+	summarizeFocusTime,
+} from "@/learning/focus-session";
+import {
+	appendFocusSession,
+	readFocusSessions,
+} from "@/learning/focus-session-manager";
+import {
+	isDailyPlanPath,
+	parseDailyPlanItems,
+	planDailyLearning,
+} from "@/learning/daily-plan";
+import {
+	readDailyLearningPlanItems,
+	writeDailyLearningPlan,
+} from "@/learning/daily-plan-manager";
+import {
+	computeLearningAnalytics,
+	createLearningSnapshot,
+	type LearningAnalytics,
+} from "@/learning/learning-analytics";
+import { parseLearningPipelines } from "@/learning/learning-pipeline";
+import {
+	readLearningSnapshots,
+	writeLearningSnapshot,
+} from "@/learning/learning-snapshot-manager";
+import {
+	generateNextActionQueue,
+	getNextActionScoreFeatures,
+} from "@/learning/next-action-engine";
+import {
+	appendNextActionFeedback,
+	clearNextActionFeedback,
+	readNextActionFeedback,
+} from "@/learning/next-action-feedback-manager";
+import {
+	createDismissFeedback,
+	createPickFeedback,
+	filterDismissedActions,
+	fitNextActionWeights,
+	type NextActionFeedbackEntry,
+	type NextActionWeightFit,
+	resolveNextActionWeights,
+} from "@/learning/next-action-weights";
 import { scanLearningNote, scanVaultLearningNotes } from "@/learning/note-scanner";
+import {
+	groupPrerequisitePatches,
+	type PrerequisiteSuggestion,
+	suggestPrerequisites,
+} from "@/learning/prerequisite-suggester";
+import {
+	collectModelPrerequisiteHints,
+	collectPrerequisiteEvidence,
+} from "@/learning/prerequisite-suggester-manager";
+import {
+	applyOnboardingModelHints,
+	buildOnboardingModelPrompt,
+	buildOnboardingPatches,
+	groupOnboardingNotes,
+	type OnboardingBatchRecord,
+	type OnboardingGroup,
+	parseOnboardingModelHints,
+} from "@/learning/metadata-onboarding";
+import {
+	applyOnboardingPatches,
+	collectOnboardingNotes,
+	readOnboardingBatches,
+	revertOnboardingBatch,
+} from "@/learning/metadata-onboarding-manager";
+import { findLearningRoadmap } from "@/learning/roadmap";
+import {
+	closeLearningSprint,
+	readLearningSprint,
+	withUnusedSprintName,
+	writeLearningSprint,
+} from "@/learning/sprint-manager";
+import {
+	calibrateStageEffort,
+	getLearningSprintPath,
+	type LearningSprintPlan,
+	type LearningSprintReview,
+	planLearningSprint,
+	reviewLearningSprint,
+} from "@/learning/sprint-planner";
+import {
+	type LoadedQuiz,
+	loadQuizForNote,
+	recordQuizAttempt,
+} from "@/learning/quiz-manager";
+import {
+	buildQuizGradingPrompt,
+	emptyQuizAnswer,
+	gradeQuizAnswer,
+	parseQuizModelGrade,
+	type QuizAnswerGrade,
+	type QuizAttemptSummary,
+	summarizeQuizAttempt,
+	ungradedQuizAnswer,
+} from "@/learning/quiz-runner";
 import type { AgentTaskFileResult } from "@/agent/agent-task";
 import type { AgentTaskStatus } from "@/agent/agent-task";
 import type {
@@ -69,15 +245,25 @@ import type {
 	LearningNote,
 	LearningScanResult,
 	NextActionCandidate,
+	NextActionWeights,
 } from "@/learning/types";
 
 const MAX_LEARNING_ACP_RUN_EVENTS = 40;
+const AGENT_TASK_QUEUE_POLL_MS = 30_000;
 
 export interface LearningAcpRunEvent extends LearningAgentExecutionEvent {
 	id: string;
 	sequence: number;
 }
 
+export interface AgentTaskQueueStatus {
+	paused: boolean;
+	/** False while neither an ACP agent nor a routed API model can run tasks. */
+	available: boolean;
+	concurrency: number;
+	runningPaths: string[];
+}
+
 /**
  * Main Plugin Class
  *
@@ -90,18 +276,33 @@ export default class EragearPlugin extends Plugin {
 	vaultManager: VaultManager | null = null;
 	contextAssembler: ContextAssembler | null = null;
 	cloudflareService: CloudflareService | null = null;
+	private graphService: GraphService | null = null;
 
 	// UI state
 	private statusBar: HTMLElement | null = null;
+	private focusSession: FocusSessionState | null = null;
+	private focusTimer: number | null = null;
+	/** Set once the running session has passed its planned length. */
+	private focusOvertimeNotified = false;
+	private focusSessions: FocusSessionEntry[] = [];
 	private lastLearningScan: LearningScanResult | null = null;
+	private learningActionLog: LearningActionLogEntry[] = [];
+	private nextActionFeedback: NextActionFeedbackEntry[] = [];
+	/** Serializes daily plan syncs so one tick is never logged twice. */
+	private dailyPlanSync: Promise<void> = Promise.resolve();
+	/** Serializes snapshot writes so back-to-back scans never both create the day's file. */
+	private learningSnapshotWrite: Promise<void> = Promise.resolve();
+	private learningActionUndoRecords: LearningActionUndoRecord[] = [];
 	private learningStateListeners = new Set<() => void>();
 	private learningAcpRunEvents: LearningAcpRunEvent[] = [];
 	private learningAcpRunEventSequence = 0;
+	private agentTaskScheduler: LearningAgentTaskScheduler;
 
 	async onload() {
 		try {
 			// 1. Load settings
 			await this.loadSettings();
+			this.agentTaskScheduler = this.createAgentTaskScheduler();
 
 			// 2. Initialize core services
 			await this.initializeServices();
@@ -117,6 +318,14 @@ export default class EragearPlugin extends Plugin {
 
 			// 5. Listen for vault changes (keep Worker index updated)
 			this.setupVaultListeners();
+			this.app.workspace.onLayoutReady(() => {
+				void Promise.all([
+					this.loadLearningActionHistory(),
+					this.loadNextActionFeedback(),
+					this.loadFocusSessions(),
+				]).then(() => this.notifyLearningStateChanged());
+				this.agentTaskScheduler.start(AGENT_TASK_QUEUE_POLL_MS);
+			});
 
 			// 6. Update status bar
 			this.updateStatusBar("ready");
@@ -131,6 +340,7 @@ export default class EragearPlugin extends Plugin {
 			// Terminate worker gracefully
 			const workerClient = getWorkerClient();
 			workerClient.terminate();
+			this.agentTaskScheduler.stop();
 
 			// Clean up listeners (if any)
 			// Vue framework/React should handle component cleanup
@@ -151,6 +361,7 @@ export default class EragearPlugin extends Plugin {
 		// Create GraphService (now required for ContextAssembler)
 		const graphService = createGraphService(this.app);
 		await graphService.initializeGraph();
+		this.graphService = graphService;
 
 		// Create ContextAssembler (orchestrates data flow)
 		if (!this.vaultManager) throw new Error("VaultManager not initialized");
@@ -309,6 +520,31 @@ export default class EragearPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "edit-definition-of-done-rules",
+			name: "Edit Definition of Done rules",
+			callback: async () => {
+				const file = await createDefinitionOfDoneRulesFile(this.app);
+				await this.app.workspace.openLinkText(file.path, "", false);
+			},
+		});
+
+		this.addCommand({
+			id: "plan-learning-sprint",
+			name: "Plan learning sprint",
+			callback: async () => {
+				await this.planLearningSprint();
+			},
+		});
+
+		this.addCommand({
+			id: "close-learning-sprint",
+			name: "Close learning sprint",
+			callback: async () => {
+				await this.closeActiveLearningSprint();
+			},
+		});
+
 		this.addCommand({
 			id: "scan-learning-notes",
 			name: "Scan learning notes",
@@ -351,6 +587,14 @@ export default class EragearPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "generate-todays-learning-plan",
+			name: "Generate today's plan",
+			callback: async () => {
+				await this.generateDailyLearningPlan();
+			},
+		});
+
 		this.addCommand({
 			id: "generate-html-explainer",
 			name: "Generate HTML explainer",
@@ -373,7 +617,7 @@ export default class EragearPlugin extends Plugin {
 				}
 				const artifact = await generateBridgeNoteForNote(this.app, activeFile, {
 					relatedNotes: await this.getLearningRelatedNotes({
-						note: scanLearningNote(this.app, activeFile),
+						note: scanLearningNote(this.app, activeFile, this.settings.learningPipelines),
 						action: "Generate bridge note",
 					}),
 				});
@@ -393,7 +637,7 @@ export default class EragearPlugin extends Plugin {
 				}
 				const artifact = await generateCaseStudyForNote(this.app, activeFile, {
 					relatedNotes: await this.getLearningRelatedNotes({
-						note: scanLearningNote(this.app, activeFile),
+						note: scanLearningNote(this.app, activeFile, this.settings.learningPipelines),
 						action: "Generate case study",
 					}),
 				});
@@ -419,6 +663,14 @@ export default class EragearPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "undo-last-learning-action",
+			name: "Undo last learning action",
+			callback: async () => {
+				await this.undoLastLearningAction();
+			},
+		});
+
 		this.addCommand({
 			id: "create-next-learning-agent-task",
 			name: "Create next learning agent task",
@@ -453,6 +705,14 @@ export default class EragearPlugin extends Plugin {
 				await this.runLearningAgentTask(task.path);
 			},
 		});
+
+		this.addCommand({
+			id: "toggle-learning-agent-task-queue",
+			name: "Pause or resume agent task queue",
+			callback: async () => {
+				await this.setAgentTaskQueuePaused(!this.agentTaskScheduler.isPaused());
+			},
+		});
 	}
 
 	/**
@@ -467,6 +727,13 @@ export default class EragearPlugin extends Plugin {
 			if (this.settings.enableDebugMode) {
 				console.debug(`[Eragear] Metadata changed: ${file.path}`);
 			}
+			if (isDailyPlanPath(file.path)) {
+				this.dailyPlanSync = this.dailyPlanSync
+					.then(() => this.syncDailyLearningPlan(file))
+					.catch((error) => {
+						console.error("[Eragear] Daily plan sync failed", error);
+					});
+			}
 		});
 
 		// Register cleanup
@@ -503,6 +770,9 @@ export default class EragearPlugin extends Plugin {
 			DEFAULT_SETTINGS,
 			(await this.loadData()) as Partial<MyPluginSettings>,
 		);
+		this.settings.learningPipelines = parseLearningPipelines(
+			this.settings.learningPipelines,
+		);
 
 		// Initialize settings with vault path (set workingDir to vault directory)
 		const adapter = this.app.vault.adapter as { basePath?: string };
@@ -557,30 +827,597 @@ export default class EragearPlugin extends Plugin {
 	}
 
 	scanLearningNotes(): LearningScanResult {
-		const scan = scanVaultLearningNotes(this.app);
+		const scan = scanVaultLearningNotes(this.app, {
+			pipelines: this.settings.learningPipelines,
+			dodRules: this.getDefinitionOfDoneRules(),
+		});
 		this.lastLearningScan = scan;
+		this.learningSnapshotWrite = this.learningSnapshotWrite.then(() =>
+			this.recordLearningSnapshot(scan),
+		);
 		return scan;
 	}
 
+	async getLearningAnalytics(): Promise<LearningAnalytics> {
+		return computeLearningAnalytics(
+			readLearningSnapshots(this.app),
+			(await this.loadLearningActionHistory()).log,
+			{
+				today: formatLearningDate(),
+				activeSprint: this.settings.activeLearningSprint || undefined,
+				stuckAfterDays: this.settings.learningStuckAfterDays,
+			},
+			this.focusSessions,
+		);
+	}
+
+	getFocusSession(): FocusSessionState | null {
+		return this.focusSession;
+	}
+
+	/** Starts a timed session on a note; only one session runs at a time. */
+	startFocusSession(note: LearningNote, action?: string): void {
+		if (this.focusSession) {
+			new Notice(
+				`Finish the focus session on ${this.focusSession.noteTitle} first.`,
+			);
+			return;
+		}
+		this.focusSession = startFocusSession(
+			{
+				notePath: note.path,
+				noteTitle: note.title,
+				...(note.area ? { area: note.area } : {}),
+				...(action ? { action } : {}),
+				...(note.status ? { stage: note.status } : {}),
+			},
+			this.settings.focusSessionMinutes,
+			Date.now(),
+		);
+		this.focusOvertimeNotified = false;
+		this.focusTimer = window.setInterval(() => this.tickFocusSession(), 1000);
+		this.registerInterval(this.focusTimer);
+		this.tickFocusSession();
+		this.notifyLearningStateChanged();
+	}
+
+	pauseFocusSession(): void {
+		if (!this.focusSession) return;
+		this.focusSession = pauseFocusSession(this.focusSession, Date.now());
+		this.tickFocusSession();
+		this.notifyLearningStateChanged();
+	}
+
+	resumeFocusSession(): void {
+		if (!this.focusSession) return;
+		this.focusSession = resumeFocusSession(this.focusSession, Date.now());
+		this.tickFocusSession();
+		this.notifyLearningStateChanged();
+	}
+
+	/** Ends the session and logs its minutes with the user's summary. */
+	async finishFocusSession(review: {
+		understanding?: FocusUnderstanding;
+		summary?: string;
+	}): Promise<FocusSessionEntry | null> {
+		if (!this.focusSession) return null;
+		const entry = finishFocusSession(this.focusSession, review, Date.now());
+		this.stopFocusTimer();
+		await appendFocusSession(this.app, entry);
+		this.focusSessions = [...this.focusSessions, entry];
+		this.notifyLearningStateChanged();
+		new Notice(`Logged ${entry.minutes} focused min on ${entry.noteTitle}.`);
+		return entry;
+	}
+
+	/** Drops the running session without logging it. */
+	cancelFocusSession(): void {
+		if (!this.focusSession) return;
+		this.stopFocusTimer();
+		this.notifyLearningStateChanged();
+	}
+
+	private tickFocusSession(): void {
+		const session = this.focusSession;
+		if (!session) return;
+		const remaining = getFocusRemainingMs(session, Date.now());
+		const state = session.pausedAt !== undefined ? "paused" : "focus";
+		this.statusBar?.setText(
+			`Eragear: ${state} ${formatFocusClock(remaining)} · ${session.noteTitle}`,
+		);
+		if (remaining <= 0 && !this.focusOvertimeNotified) {
+			this.focusOvertimeNotified = true;
+			new Notice(
+				`Focus session on ${session.noteTitle} is up. Finish it to log the summary.`,
+			);
+		}
+	}
+
+	private stopFocusTimer(): void {
+		if (this.focusTimer !== null) window.clearInterval(this.focusTimer);
+		this.focusTimer = null;
+		this.focusSession = null;
+		this.updateStatusBar("ready");
+	}
+
+	private getSprintFocusMinutes(plan: LearningSprintPlan): Map<string, number> {
+		return new Map(
+			summarizeFocusTime(this.focusSessions, { from: plan.start, to: plan.end })
+				.byNote.map((note) => [note.path, note.minutes]),
+		);
+	}
+
+	private async loadFocusSessions(): Promise<void> {
+		this.focusSessions = await readFocusSessions(this.app);
+	}
+
+	getActiveLearningSprintPlan(): LearningSprintPlan | null {
+		const name = this.settings.activeLearningSprint;
+		return name ? readLearningSprint(this.app, name) : null;
+	}
+
+	/** Planned versus completed work of the active sprint as of today. */
+	getActiveLearningSprintProgress(): LearningSprintReview | null {
+		const plan = this.getActiveLearningSprintPlan();
+		if (!plan) return null;
+		const notes = this.getLearningScan().notes;
+		return reviewLearningSprint(
+			plan,
+			notes,
+			formatLearningDate(),
+			this.getSprintFocusMinutes(plan),
+			calibrateStageEffort(this.focusSessions, notes),
+		);
+	}
+
+	async planLearningSprint(): Promise<void> {
+		const active = this.getActiveLearningSprintPlan();
+		if (active) {
+			new Notice(`Close ${active.name} before planning a new sprint.`);
+			return;
+		}
+
+		const scan = this.scanLearningNotes();
+		const roadmapName = this.settings.activeLearningRoadmap.trim();
+		const roadmap = roadmapName
+			? findLearningRoadmap(scan.roadmaps, roadmapName)
+			: undefined;
+		if (roadmapName && !roadmap) {
+			new Notice(`Roadmap not found: ${roadmapName}`);
+			return;
+		}
+
+		const planned = planLearningSprint(scan.notes, {
+			start: formatLearningDate(),
+			weeklyCapacityHours: this.settings.learningWeeklyCapacityHours,
+			...(roadmap ? { roadmap } : {}),
+			stageEffort: calibrateStageEffort(this.focusSessions, scan.notes),
+		});
+		if (planned.items.length === 0) {
+			new Notice("No learning notes fit the sprint capacity.");
+			return;
+		}
+
+		const plan = withUnusedSprintName(this.app, planned);
+
+		const file = await writeLearningSprint(this.app, plan);
+		this.settings.activeLearningSprint = plan.name;
+		await this.saveSettings();
+		this.scanLearningNotes();
+		this.notifyLearningStateChanged();
+		new Notice(
+			`Planned ${plan.name}: ${plan.items.length} notes, ${plan.plannedHours}h of ${plan.capacityHours}h.`,
+		);
+		await this.app.workspace.openLinkText(file.path, "", false);
+	}
+
+	async closeActiveLearningSprint(): Promise<void> {
+		const plan = this.getActiveLearningSprintPlan();
+		if (!plan) {
+			new Notice("No planned learning sprint to close.");
+			return;
+		}
+
+		const notes = this.scanLearningNotes().notes;
+		const review = reviewLearningSprint(
+			plan,
+			notes,
+			formatLearningDate(),
+			this.getSprintFocusMinutes(plan),
+			calibrateStageEffort(this.focusSessions, notes),
+		);
+		await closeLearningSprint(this.app, plan, review);
+		this.settings.activeLearningSprint = "";
+		await this.saveSettings();
+		this.notifyLearningStateChanged();
+		new Notice(
+			`Closed ${plan.name}: ${review.completedHours}h of ${review.plannedHours}h completed, ${review.completedNotes} of ${review.items.length} notes done.`,
+		);
+		await this.app.workspace.openLinkText(
+			getLearningSprintPath(plan.name),
+			"",
+			false,
+		);
+	}
+
+	canSuggestPrerequisitesWithModel(): boolean {
+		return this.canUseApiModel();
+	}
+
+	/**
+	 * Proposes prerequisite edges from the link graph and note content, with
+	 * an optional model pass over notes that have none yet.
+	 */
+	async suggestLearningPrerequisites(
+		useModel = false,
+	): Promise<PrerequisiteSuggestion[]> {
+		const scan = this.scanLearningNotes();
+		const evidence = await collectPrerequisiteEvidence(
+			this.app,
+			this.graphService ?? createGraphService(this.app),
+			scan.notes,
+		);
+		const modelHints =
+			useModel && this.canUseApiModel()
+				? await collectModelPrerequisiteHints(evidence, (prompt) =>
+						new AIService(this.settings).completeText(prompt),
+					)
+				: undefined;
+		return suggestPrerequisites(evidence, modelHints ? { modelHints } : {});
+	}
+
+	async acceptPrerequisiteSuggestions(
+		suggestions: readonly PrerequisiteSuggestion[],
+	): Promise<void> {
+		const patches = groupPrerequisitePatches(
+			suggestions,
+			this.getLearningScan().notes,
+		);
+		for (const patch of patches) {
+			const file = this.app.vault.getAbstractFileByPath(patch.notePath);
+			if (!(file instanceof TFile)) continue;
+			await patchLearningFrontmatter(this.app, file, {
+				prerequisites: patch.prerequisites,
+			});
+		}
+		this.scanLearningNotes();
+		this.notifyLearningStateChanged();
+		new Notice(
+			`Added ${suggestions.length} prerequisite(s) to ${patches.length} note(s).`,
+		);
+	}
+
+	/** Applies a fix to one prerequisite cycle and re-scans the vault. */
+	async resolvePrerequisiteCycle(fix: CycleResolutionFix): Promise<void> {
+		const plan = planCycleResolution(
+			fix,
+			this.scanLearningNotes().notes,
+			formatLearningDate(),
+		);
+		try {
+			const result = await applyCycleResolution(this.app, plan);
+			const scan = this.scanLearningNotes();
+			this.notifyLearningStateChanged();
+			const remaining =
+				scan.cycles.length > 0
+					? ` ${scan.cycles.length} cycle(s) remain.`
+					: " No cycles remain.";
+			if (result.createdPath) {
+				new Notice(`Created ${result.createdPath}.${remaining}`);
+				await this.app.workspace.openLinkText(result.createdPath, "", false);
+			} else if (result.removedPath && plan.keepPath) {
+				const redirected = result.redirectedPaths?.length ?? 0;
+				new Notice(
+					`Merged ${result.removedPath} into ${plan.keepPath}.${
+						redirected > 0 ? ` Repointed links in ${redirected} note(s).` : ""
+					}${remaining}`,
+				);
+			} else {
+				new Notice(
+					`Dropped ${fix.edge.noteTitle} → ${fix.edge.prerequisiteTitle}.${remaining}`,
+				);
+			}
+		} catch (error) {
+			console.error("[Eragear] Cycle resolution failed", error);
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Could not resolve the cycle: ${message}`);
+		}
+	}
+
+	canOnboardWithModel(): boolean {
+		return this.canUseApiModel();
+	}
+
+	/**
+	 * Groups notes that have no learning frontmatter and proposes a type,
+	 * area and status for each group, optionally refined by the model.
+	 */
+	async getOnboardingGroups(useModel = false): Promise<OnboardingGroup[]> {
+		const notes = collectOnboardingNotes(this.app);
+		const groups = groupOnboardingNotes(notes, this.settings.learningPipelines);
+		if (!useModel || !this.canUseApiModel() || groups.length === 0) return groups;
+		try {
+			const reply = await new AIService(this.settings).completeText(
+				buildOnboardingModelPrompt(
+					groups,
+					new Map(notes.map((note) => [note.path, note.title])),
+				),
+			);
+			return applyOnboardingModelHints(
+				groups,
+				parseOnboardingModelHints(reply),
+				this.settings.learningPipelines,
+			);
+		} catch (error) {
+			console.error("[Eragear] Onboarding model pass failed", error);
+			new Notice("The model pass failed; showing heuristic proposals.");
+			return groups;
+		}
+	}
+
+	async applyOnboardingGroups(
+		groups: readonly OnboardingGroup[],
+	): Promise<OnboardingBatchRecord[]> {
+		const patches = buildOnboardingPatches(groups);
+		if (patches.length === 0) return [];
+		const progress = new Notice(`Onboarding ${patches.length} note(s)...`, 0);
+		try {
+			const records = await applyOnboardingPatches(
+				this.app,
+				patches,
+				new Date(),
+				(done, total) => progress.setMessage(`Onboarding batch ${done} of ${total}...`),
+			);
+			const written = records.reduce((total, record) => total + record.notes.length, 0);
+			new Notice(
+				`Added learning metadata to ${written} note(s) in ${records.length} batch(es).`,
+			);
+			return records;
+		} catch (error) {
+			console.error("[Eragear] Onboarding failed", error);
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Onboarding stopped: ${message}`);
+			return [];
+		} finally {
+			progress.hide();
+			this.scanLearningNotes();
+			this.notifyLearningStateChanged();
+		}
+	}
+
+	getOnboardingBatches(): Promise<OnboardingBatchRecord[]> {
+		return readOnboardingBatches(this.app);
+	}
+
+	async undoOnboardingBatch(record: OnboardingBatchRecord): Promise<void> {
+		try {
+			const result = await revertOnboardingBatch(this.app, record);
+			this.scanLearningNotes();
+			this.notifyLearningStateChanged();
+			const kept =
+				result.conflicts.length > 0
+					? ` Kept edited fields: ${result.conflicts.join(", ")}.`
+					: "";
+			new Notice(`Undid onboarding for ${result.reverted} note(s).${kept}`);
+		} catch (error) {
+			console.error("[Eragear] Onboarding undo failed", error);
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Could not undo the batch: ${message}`);
+		}
+	}
+
+	getDefinitionOfDoneRules(): DefinitionOfDoneRules {
+		return readDefinitionOfDoneRules(this.app);
+	}
+
 	getLearningScan(): LearningScanResult {
 		return this.lastLearningScan ?? this.scanLearningNotes();
 	}
 
 	getNextLearningAction(): NextActionCandidate | null {
-		const scan = this.getLearningScan();
-		return generateNextActionQueue(
-			scan,
-			this.settings.activeLearningSprint || undefined,
-		)[0] ?? null;
+		return this.getLearningActionQueue()[0] ?? null;
 	}
 
 	getLearningActionQueue(): NextActionCandidate[] {
-		return generateNextActionQueue(
-			this.getLearningScan(),
+		const today = formatLearningDate();
+		return filterDismissedActions(
+			generateNextActionQueue(
+				this.getLearningScan(),
+				this.settings.activeLearningSprint || undefined,
+				this.getUnrevertedLearningActionHistory({ from: today }),
+				this.getNextActionWeights(),
+			),
+			this.nextActionFeedback,
+			today,
+		);
+	}
+
+	/**
+	 * Writes today's plan note from the queue. Items already ticked off in an
+	 * earlier plan today are kept, and the rest of the day is planned again.
+	 */
+	async generateDailyLearningPlan(): Promise<void> {
+		const date = formatLearningDate();
+		const notes = new Map(
+			this.getLearningScan().notes.map((note) => [note.path, note]),
+		);
+		const completed = (await readDailyLearningPlanItems(this.app, date))
+			.filter((item) => item.done)
+			.map((item) => {
+				const area = notes.get(item.notePath)?.area;
+				return area ? { ...item, area } : item;
+			});
+		const plan = planDailyLearning(this.getLearningActionQueue(), {
+			date,
+			budgetMinutes: this.settings.learningDailyPlanMinutes,
+			completed,
+		});
+		const file = await writeDailyLearningPlan(this.app, plan);
+		new Notice(
+			`Planned ${plan.items.length} learning action(s), ${plan.plannedMinutes} of ${plan.budgetMinutes} min.`,
+		);
+		await this.app.workspace.openLinkText(file.path, "", false);
+	}
+
+	/**
+	 * Records plan items ticked off since the last sync: touches the note and
+	 * logs the action. An item already in the action log for the plan's day
+	 * counts as recorded, so re-ticking or running it from the queue is not
+	 * logged twice.
+	 */
+	private async syncDailyLearningPlan(file: TFile): Promise<void> {
+		const date = file.basename;
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+		const items = parseDailyPlanItems(await this.app.vault.read(file)).filter(
+			(item) => item.done,
+		);
+		if (items.length === 0) return;
+
+		const logged = this.getUnrevertedLearningActionHistory({ from: date });
+		const notes = new Map(
+			this.getLearningScan().notes.map((note) => [note.path, note]),
+		);
+		const today = formatLearningDate();
+		let recorded = 0;
+		for (const item of items) {
+			if (wasActionLogged(logged, item.notePath, item.action)) continue;
+			const note = notes.get(item.notePath);
+			const noteFile = this.app.vault.getAbstractFileByPath(item.notePath);
+			if (!note || !(noteFile instanceof TFile)) continue;
+			await patchLearningFrontmatter(this.app, noteFile, { lastTouched: today });
+			await appendLearningActionLog(
+				this.app,
+				{
+					note,
+					action: item.action,
+					reason: [`checked off in daily plan ${date}`],
+					...(item.expectedOutput ? { expectedOutput: item.expectedOutput } : {}),
+					suggestedAgent: "deterministic",
+					score: note.finalScore ?? 0,
+				},
+				{ type: "notice", message: `checked off in \`${file.path}\`` },
+				today,
+			);
+			recorded += 1;
+		}
+		if (recorded === 0) return;
+
+		await this.loadLearningActionHistory();
+		this.scanLearningNotes();
+		this.notifyLearningStateChanged();
+		new Notice(`Logged ${recorded} completed plan item(s).`);
+	}
+
+	/** Weights fitted from queue feedback, before the user's overrides. */
+	getLearnedNextActionWeights(): NextActionWeightFit {
+		return fitNextActionWeights(this.nextActionFeedback);
+	}
+
+	getNextActionWeights(): NextActionWeights {
+		return resolveNextActionWeights(
+			this.getLearnedNextActionWeights().weights,
+			this.settings.nextActionWeightOverrides,
+		);
+	}
+
+	/** Forgets the queue feedback; overrides live in settings. */
+	async resetLearnedNextActionWeights(): Promise<void> {
+		await clearNextActionFeedback(this.app);
+		this.nextActionFeedback = [];
+		this.notifyLearningStateChanged();
+		new Notice("Cleared next action feedback.");
+	}
+
+	/** Hides a queue candidate for today and counts it against its score terms. */
+	async dismissLearningAction(candidate: NextActionCandidate): Promise<void> {
+		await this.recordNextActionFeedback([
+			createDismissFeedback(
+				this.getLearningActionQueue(),
+				candidate,
+				this.getScoreFeatures(candidate),
+				formatLearningDate(),
+			),
+		]);
+		this.notifyLearningStateChanged();
+	}
+
+	/**
+	 * Logs a pick, and a skip for each candidate ranked above it, before the
+	 * queue changes under the action. Feedback is best effort.
+	 */
+	private async recordLearningActionPick(
+		candidate: NextActionCandidate,
+	): Promise<void> {
+		await this.recordNextActionFeedback(
+			createPickFeedback(
+				this.getLearningActionQueue(),
+				candidate,
+				(item) => this.getScoreFeatures(item),
+				formatLearningDate(),
+			),
+		);
+	}
+
+	private async recordNextActionFeedback(
+		entries: NextActionFeedbackEntry[],
+	): Promise<void> {
+		try {
+			await appendNextActionFeedback(this.app, entries);
+			this.nextActionFeedback = [...this.nextActionFeedback, ...entries];
+		} catch (error) {
+			console.error("[Eragear] Next action feedback failed", error);
+		}
+	}
+
+	private getScoreFeatures(
+		candidate: NextActionCandidate,
+	): NextActionFeedbackEntry["features"] {
+		return getNextActionScoreFeatures(
+			candidate.note,
 			this.settings.activeLearningSprint || undefined,
 		);
 	}
 
+	private async loadNextActionFeedback(): Promise<void> {
+		this.nextActionFeedback = await readNextActionFeedback(this.app);
+	}
+
+	/** Logged learning actions matching `query`, oldest first. */
+	getLearningActionHistory(
+		query: LearningActionLogQuery = {},
+	): LearningActionLogEntry[] {
+		return queryLearningActionLog(this.learningActionLog, query);
+	}
+
+	/** Logged actions matching `query`, leaving out runs that were undone. */
+	private getUnrevertedLearningActionHistory(
+		query: LearningActionLogQuery,
+	): LearningActionLogEntry[] {
+		return withoutRevertedActions(
+			this.getLearningActionHistory(query),
+			this.learningActionUndoRecords,
+		);
+	}
+
+	getLearningActionUndoRecord(path: string): LearningActionUndoRecord | null {
+		return (
+			this.learningActionUndoRecords.find((record) => record.path === path) ??
+			null
+		);
+	}
+
+	private async loadLearningActionHistory(): Promise<{
+		log: LearningActionLogEntry[];
+		undoRecords: LearningActionUndoRecord[];
+	}> {
+		this.learningActionLog = await readLearningActionLog(this.app);
+		this.learningActionUndoRecords = await readLearningActionUndoRecords(this.app);
+		return {
+			log: this.learningActionLog,
+			undoRecords: this.learningActionUndoRecords,
+		};
+	}
+
 	subscribeLearningState(listener: () => void): () => void {
 		this.learningStateListeners.add(listener);
 		return () => {
@@ -630,7 +1467,7 @@ export default class EragearPlugin extends Plugin {
 	getActiveLearningNote(): LearningNote | null {
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) return null;
-		return scanLearningNote(this.app, activeFile);
+		return scanLearningNote(this.app, activeFile, this.settings.learningPipelines);
 	}
 
 	async runNextLearningAction(): Promise<void> {
@@ -647,14 +1484,39 @@ export default class EragearPlugin extends Plugin {
 	async runLearningActionCandidate(
 		candidate: NextActionCandidate,
 	): Promise<void> {
+		await this.recordLearningActionPick(candidate);
 		const relatedNotes = await this.getLearningRelatedNotes(candidate);
+		const file = this.app.vault.getAbstractFileByPath(candidate.note.path);
+		const before =
+			file instanceof TFile
+				? await captureLearningActionState(this.app, file)
+				: null;
 		const result = await runLearningAction(this.app, candidate, {
 			relatedNotes,
 			defaultArea: this.settings.activeLearningSprint || undefined,
+			pipelines: this.settings.learningPipelines,
+			dodRules: this.getDefinitionOfDoneRules(),
 		});
-		await appendLearningActionLog(this.app, candidate, result);
+		const undo =
+			file instanceof TFile && before
+				? await recordLearningActionUndo(
+						this.app,
+						file,
+						candidate.action,
+						before,
+						result,
+					)
+				: null;
+		await appendLearningActionLog(
+			this.app,
+			candidate,
+			result,
+			formatLearningDate(),
+			undo?.path,
+		);
+		await this.loadLearningActionHistory();
 		await this.completeMatchingAgentTasks(candidate);
-		this.lastLearningScan = scanVaultLearningNotes(this.app);
+		this.scanLearningNotes();
 		this.notifyLearningStateChanged();
 
 		if (result.type === "artifact") {
@@ -670,6 +1532,50 @@ export default class EragearPlugin extends Plugin {
 		new Notice(result.message);
 	}
 
+	async undoLastLearningAction(): Promise<void> {
+		const { undoRecords } = await this.loadLearningActionHistory();
+		const last = [...undoRecords]
+			.reverse()
+			.find((record) => record.status === "active");
+		if (!last) {
+			new Notice("No learning action to undo.");
+			return;
+		}
+
+		await this.revertLearningAction(last.path);
+	}
+
+	async revertLearningAction(undoPath: string): Promise<void> {
+		const record = this.getLearningActionUndoRecord(undoPath);
+		if (!record) {
+			new Notice(`Undo record not found: ${undoPath}`);
+			return;
+		}
+
+		try {
+			const reverted = await revertLearningAction(this.app, record);
+			await this.loadLearningActionHistory();
+			this.scanLearningNotes();
+			this.notifyLearningStateChanged();
+			const removed = reverted.removedArtifacts.length;
+			new Notice(
+				[
+					`Reverted: ${record.action}.`,
+					removed > 0 ? `Moved ${removed} artifact(s) to trash.` : "",
+					reverted.conflicts.length > 0
+						? `Kept later edits to ${reverted.conflicts.join(", ")}.`
+						: "",
+				]
+					.filter(Boolean)
+					.join(" "),
+			);
+		} catch (error) {
+			console.error("[Eragear] Learning action revert failed", error);
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Could not revert ${record.action}: ${message}`);
+		}
+	}
+
 	async createLearningAgentTask(
 		candidate: NextActionCandidate,
 	): Promise<AgentTaskFileResult | null> {
@@ -684,6 +1590,7 @@ export default class EragearPlugin extends Plugin {
 			return null;
 		}
 
+		await this.recordLearningActionPick(candidate);
 		const relatedNotes = await this.getLearningRelatedNotes(candidate);
 		const source = await this.app.vault.cachedRead(file);
 		const result = await createLearningAgentTaskFile(
@@ -701,7 +1608,16 @@ export default class EragearPlugin extends Plugin {
 		taskPath: string,
 		status: AgentTaskStatus,
 	): Promise<void> {
-		await updateLearningAgentTaskStatus(this.app, taskPath, status);
+		if (status === "queued") {
+			// Requeueing by hand gives the task a fresh set of attempts.
+			await updateLearningAgentTaskQueueState(this.app, taskPath, {
+				status,
+				attempts: 0,
+			});
+			this.agentTaskScheduler.tick();
+		} else {
+			await updateLearningAgentTaskStatus(this.app, taskPath, status);
+		}
 		this.notifyLearningStateChanged();
 		new Notice(`Agent task marked ${status}.`);
 	}
@@ -719,63 +1635,201 @@ export default class EragearPlugin extends Plugin {
 			return;
 		}
 
+		new Notice("ACP agent started. Watch the Learning OS ACP lane.");
+		const outcome = await this.agentTaskScheduler.runNow(task);
+		if (outcome.status === "proposed") {
+			new Notice(`Agent proposal created: ${outcome.proposalCount}`);
+		} else if (outcome.nextAttemptAt) {
+			new Notice(`Agent task failed and will be retried: ${outcome.reason}`);
+		} else {
+			new Notice(`Agent task ${outcome.status}: ${outcome.reason}`);
+		}
+	}
+
+	/** Aborts a running agent task or takes a queued one out of the queue. */
+	async cancelLearningAgentTask(taskPath: string): Promise<void> {
+		const task = this.getLearningAgentTasks().find(
+			(candidate) => candidate.path === taskPath,
+		);
+		if (!task) {
+			new Notice("Agent task not found.");
+			return;
+		}
+		await this.agentTaskScheduler.cancel(task);
+		this.notifyLearningStateChanged();
+		new Notice(`Agent task cancelled: ${task.title}`);
+	}
+
+	getAgentTaskQueueStatus(): AgentTaskQueueStatus {
+		return {
+			paused: this.agentTaskScheduler.isPaused(),
+			available:
+				this.canRunAcpAgent() ||
+				this.settings.agentRoutingRules.some((rule) =>
+					rule.modelId === ERAGEAR_CLOUD_ROUTE_ID
+						? this.canCallEragearCloud()
+						: this.settings.chatModels.some(
+								(model) =>
+									model.id === rule.modelId &&
+									model.enabled &&
+									model.type === "api",
+							),
+				),
+			concurrency: this.settings.agentQueueConcurrency,
+			runningPaths: this.agentTaskScheduler.getRunningPaths(),
+		};
+	}
+
+	async setAgentTaskQueuePaused(paused: boolean): Promise<void> {
+		if (paused) this.agentTaskScheduler.pause();
+		else this.agentTaskScheduler.resume();
+		this.settings.agentQueuePaused = paused;
+		await this.saveSettings();
+		this.notifyLearningStateChanged();
+		new Notice(paused ? "Agent task queue paused." : "Agent task queue resumed.");
+	}
+
+	private createAgentTaskScheduler(): LearningAgentTaskScheduler {
+		return new LearningAgentTaskScheduler({
+			listTasks: () => this.getLearningAgentTasks(),
+			runTask: (task, signal) => this.executeLearningAgentTask(task, signal),
+			saveState: (taskPath, state) =>
+				updateLearningAgentTaskQueueState(this.app, taskPath, state),
+			getPolicy: () => this.getAgentTaskQueuePolicy(),
+			canRun: (task) => this.canRunLearningAgentTask(task),
+			onSettled: (task, outcome) => this.recordAgentTaskOutcome(task, outcome),
+			paused: this.settings.agentQueuePaused,
+		});
+	}
+
+	private getAgentTaskQueuePolicy(): AgentTaskQueuePolicy {
+		return {
+			concurrency: this.settings.agentQueueConcurrency,
+			maxAttempts: this.settings.agentQueueMaxAttempts,
+			retryBaseMs: this.settings.agentQueueRetryMinutes * 60_000,
+			retryMaxMs: 60 * 60_000,
+		};
+	}
+
+	private canRunAcpAgent(): boolean {
+		return (
+			Platform.isDesktopApp &&
+			Boolean(getActiveAgentConfig(this.settings)?.command)
+		);
+	}
+
+	/**
+	 * ACP routes need the desktop app; routed API models and Eragear Cloud
+	 * run anywhere, including mobile.
+	 */
+	private canRunLearningAgentTask(task: LearningAgentTaskSummary): boolean {
+		const route = resolveAgentTaskRoute(task, this.settings);
+		if (!route) return false;
+		if (route.kind === "cloud") return this.canCallEragearCloud();
+		return route.kind === "api" || Platform.isDesktopApp;
+	}
+
+	private canCallEragearCloud(): boolean {
+		return Boolean(
+			this.cloudflareService && this.settings.cloudflareApiEndpoint,
+		);
+	}
+
+	private async executeLearningAgentTask(
+		task: LearningAgentTaskSummary,
+		signal: AbortSignal,
+	) {
+		const route = resolveAgentTaskRoute(task, this.settings);
+		if (!route) throw new Error("No enabled ACP agent is configured.");
+
 		this.updateStatusBar("processing");
 		this.clearLearningAcpRunEventsForTask(task.path);
 		this.recordLearningAcpRunEvent({
 			kind: "task_status",
 			taskPath: task.path,
 			taskTitle: task.title,
-			message: "ACP agent started",
+			message:
+				route.kind === "api"
+					? `API model started: ${route.model.name}`
+					: route.kind === "cloud"
+						? "Eragear Cloud started"
+						: `ACP agent started: ${route.agent.name}`,
 			createdAt: new Date().toISOString(),
 			severity: "info",
 			status: "running",
 		});
 		this.notifyLearningStateChanged();
-		new Notice("ACP agent started. Watch the Learning OS ACP lane.");
 
+		const onEvent = (event: LearningAgentExecutionEvent) => {
+			this.recordLearningAcpRunEvent(event);
+			this.notifyLearningStateChanged();
+		};
 		try {
-			const result = await runLearningAgentTaskWithAcp(
-				this.app,
-				this.settings,
-				task,
-				{
-					onEvent: (event) => {
-						this.recordLearningAcpRunEvent(event);
-						this.notifyLearningStateChanged();
-					},
-				},
-			);
-			if (result.proposalCount > 0) {
-				this.notifyLearningStateChanged();
-				new Notice(`Agent proposal created: ${result.proposalCount}`);
-				return;
+			if (route.kind === "api") {
+				const apiSettings = getApiModelSettings(this.settings, route.model);
+				if (!apiSettings) {
+					throw new Error(
+						`${route.model.name} uses a provider agent tasks cannot call.`,
+					);
+				}
+				return await runLearningAgentTaskWithApi(
+					this.app,
+					task,
+					(prompt, schema) =>
+						new AIService(apiSettings).completeObject(prompt, schema),
+					{ signal, onEvent },
+				);
 			}
-			this.notifyLearningStateChanged();
-			new Notice("Agent task blocked. No proposal created.");
-		} catch (error) {
-			const message = error instanceof Error ? error.message : String(error);
-			const latestEvent =
-				this.learningAcpRunEvents[this.learningAcpRunEvents.length - 1];
-			if (
-				latestEvent?.kind !== "agent_error" ||
-				latestEvent.message !== message
-			) {
-				this.recordLearningAcpRunEvent({
-					kind: "agent_error",
-					taskPath: task.path,
-					taskTitle: task.title,
-					message,
-					createdAt: new Date().toISOString(),
-					severity: "error",
-				});
+			if (route.kind === "cloud") {
+				const cloudflareService = this.cloudflareService;
+				if (!cloudflareService || !this.settings.cloudflareApiEndpoint) {
+					throw new Error(
+						"Eragear Cloud is not configured; agent tasks cannot call it.",
+					);
+				}
+				return await runLearningAgentTaskWithApi(
+					this.app,
+					task,
+					createJsonModeProposalGenerator((prompt) =>
+						cloudflareService.completeJson(prompt),
+					),
+					{ signal, onEvent },
+				);
 			}
-			this.notifyLearningStateChanged();
-			new Notice(`Agent task failed: ${message}`);
+			return await runLearningAgentTaskWithAcp(this.app, this.settings, task, {
+				signal,
+				onEvent,
+				agent: route.agent,
+				...(route.sessionModel ? { sessionModel: route.sessionModel } : {}),
+			});
 		} finally {
-			this.updateStatusBar("ready");
+			if (this.agentTaskScheduler.getRunningPaths().length <= 1) {
+				this.updateStatusBar("ready");
+			}
 		}
 	}
 
+	private recordAgentTaskOutcome(
+		task: LearningAgentTaskSummary,
+		outcome: AgentTaskRunOutcome,
+	): void {
+		if (outcome.status !== "proposed") {
+			this.recordLearningAcpRunEvent({
+				kind: "task_status",
+				taskPath: task.path,
+				taskTitle: task.title,
+				message: outcome.nextAttemptAt
+					? `Retry queued for ${new Date(outcome.nextAttemptAt).toLocaleTimeString()}`
+					: `Agent task ${outcome.status}`,
+				createdAt: new Date().toISOString(),
+				severity: outcome.status === "cancelled" ? "warning" : "error",
+				status: outcome.status,
+				...(outcome.reason ? { detail: outcome.reason } : {}),
+			});
+		}
+		this.notifyLearningStateChanged();
+	}
+
 	async applyAgentWriteProposal(
 		proposal: AgentWriteProposalSummary,
 	): Promise<void> {
@@ -788,11 +1842,58 @@ export default class EragearPlugin extends Plugin {
 		}
 
 		await applyAgentWriteProposal(this.app, proposal, task);
-		this.lastLearningScan = scanVaultLearningNotes(this.app);
+		this.scanLearningNotes();
 		this.notifyLearningStateChanged();
 		new Notice("Agent proposal applied.");
 	}
 
+	getAgentWriteProposalReview(
+		proposal: AgentWriteProposalSummary,
+	): Promise<AgentWriteReviewItem[]> {
+		return loadAgentWriteProposalReview(this.app, proposal);
+	}
+
+	/** Applies the files accepted in the review; returns false when nothing was saved. */
+	async applyAgentWriteProposalReview(
+		proposal: AgentWriteProposalSummary,
+		decisions: AgentWriteReviewDecision[],
+	): Promise<boolean> {
+		const task = this.getLearningAgentTasks().find(
+			(candidate) => candidate.path === proposal.taskPath,
+		);
+		if (!task) {
+			new Notice("Agent task not found for proposal.");
+			return false;
+		}
+
+		let status: AgentWriteProposalSummary["status"];
+		try {
+			status = await applyAgentWriteProposalReview(
+				this.app,
+				proposal,
+				task,
+				decisions,
+			);
+		} catch (error) {
+			console.error("[Eragear] Agent proposal review failed", error);
+			new Notice(
+				`Agent proposal not applied: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return false;
+		}
+		this.scanLearningNotes();
+		this.notifyLearningStateChanged();
+		const accepted = decisions.filter((decision) => decision.accept).length;
+		new Notice(
+			status === "rejected"
+				? "Agent proposal rejected."
+				: status === "partially_applied"
+					? `Agent proposal partially applied (${accepted} of ${decisions.length} files).`
+					: "Agent proposal applied.",
+		);
+		return true;
+	}
+
 	async rejectAgentWriteProposal(
 		proposal: AgentWriteProposalSummary,
 	): Promise<void> {
@@ -813,13 +1914,50 @@ export default class EragearPlugin extends Plugin {
 			throw new Error(`Learning note not found: ${notePath}`);
 		}
 
+		const today = formatLearningDate();
+		const before = await captureLearningActionState(this.app, file);
 		await patchLearningFrontmatter(this.app, file, {
 			...patch,
-			lastTouched: patch.lastTouched ?? formatLearningDate(),
+			lastTouched: patch.lastTouched ?? today,
 		});
-		this.lastLearningScan = scanVaultLearningNotes(this.app);
+		const action = patch.status
+			? `Set status to ${patch.status}`
+			: "Edit learning metadata";
+		const result: LearningActionRunResult = {
+			type: "transition",
+			message: "Learning metadata updated.",
+		};
+		const undo = await recordLearningActionUndo(
+			this.app,
+			file,
+			action,
+			before,
+			result,
+		);
+		if (undo) {
+			const note = scanLearningNote(
+				this.app,
+				file,
+				this.settings.learningPipelines,
+			);
+			await appendLearningActionLog(
+				this.app,
+				{
+					note,
+					action,
+					reason: ["learning metadata edited by hand"],
+					suggestedAgent: "deterministic",
+					score: note.finalScore ?? 0,
+				},
+				result,
+				today,
+				undo.path,
+			);
+			await this.loadLearningActionHistory();
+		}
+		this.scanLearningNotes();
 		this.notifyLearningStateChanged();
-		new Notice("Learning metadata updated.");
+		new Notice(result.message);
 	}
 
 	async patchLearningMetadataForActiveNote(
@@ -842,7 +1980,7 @@ export default class EragearPlugin extends Plugin {
 		}
 
 		const relatedNotes = await this.getLearningRelatedNotes({
-			note: scanLearningNote(this.app, activeFile),
+			note: scanLearningNote(this.app, activeFile, this.settings.learningPipelines),
 			action: "Generate HTML explorable explanation",
 			reason: [],
 			suggestedAgent: "coding-agent",
@@ -851,7 +1989,7 @@ export default class EragearPlugin extends Plugin {
 		const artifact = await generateHtmlExplainerForNote(this.app, activeFile, {
 			relatedNotes,
 		});
-		this.lastLearningScan = scanVaultLearningNotes(this.app);
+		this.scanLearningNotes();
 		this.notifyLearningStateChanged();
 		return artifact;
 	}
@@ -864,12 +2002,202 @@ export default class EragearPlugin extends Plugin {
 		}
 
 		const artifact = await generateExaminerForNote(this.app, activeFile);
-		this.lastLearningScan = scanVaultLearningNotes(this.app);
+		this.scanLearningNotes();
 		this.notifyLearningStateChanged();
 		new Notice(`Examiner created: ${artifact.artifactPath}`);
 		return artifact;
 	}
 
+	async loadExaminerForActiveNote(): Promise<LoadedExaminerSession | null> {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice("Open a note first.");
+			return null;
+		}
+
+		try {
+			return await loadExaminerForNote(this.app, activeFile);
+		} catch (error) {
+			new Notice(error instanceof Error ? error.message : String(error));
+			return null;
+		}
+	}
+
+	async submitExaminerSession(
+		session: LoadedExaminerSession,
+		answers: Partial<Record<MasteryCategory, string>>,
+	): Promise<{ scoring: ExaminerScoring; transcriptPath: string } | null> {
+		const file = this.app.vault.getAbstractFileByPath(session.notePath);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Learning note not found: ${session.notePath}`);
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		const prompt = buildExaminerScoringPrompt({
+			noteTitle: file.basename,
+			source: content,
+			session,
+			answers,
+		});
+
+		this.updateStatusBar("processing");
+		try {
+			const grader =
+				this.settings.provider === AIProviderType.ACP_LOCAL ? "acp" : "api";
+			if (grader === "api" && !this.canUseApiModel()) {
+				new Notice("Configure an API model or ACP agent to score exams.");
+				return null;
+			}
+			const reply =
+				grader === "acp"
+					? await this.scoreExaminerWithAcp(session, prompt)
+					: await new AIService(this.settings).completeText(prompt);
+			const scoring = parseExaminerScoring(reply);
+			if (!scoring) {
+				new Notice("Examiner reply did not include scores for every category.");
+				return null;
+			}
+
+			const date = formatLearningDate();
+			const transcriptPath = await saveExaminerTranscript(
+				this.app,
+				file,
+				formatExaminerTranscript({
+					noteTitle: file.basename,
+					notePath: file.path,
+					examPath: session.examPath,
+					session,
+					answers,
+					scoring,
+					grader,
+					date,
+				}),
+				date,
+			);
+			await writeExaminerResultFrontmatter(
+				this.app,
+				file,
+				toExaminerResult(scoring, transcriptPath),
+			);
+			this.scanLearningNotes();
+			this.notifyLearningStateChanged();
+			new Notice(`Exam scored. Transcript saved: ${transcriptPath}`);
+			return { scoring, transcriptPath };
+		} catch (error) {
+			new Notice(
+				`Exam scoring failed: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return null;
+		} finally {
+			this.updateStatusBar("ready");
+		}
+	}
+
+	private async scoreExaminerWithAcp(
+		session: LoadedExaminerSession,
+		prompt: string,
+	): Promise<string> {
+		const outputPath = session.examPath.replace(/-exam\.md$/, "-score.json");
+		const previous = this.app.vault.getAbstractFileByPath(outputPath);
+		if (previous instanceof TFile) {
+			await this.app.vault.delete(previous);
+		}
+		return runAcpJsonPrompt(this.app, this.settings, { prompt, outputPath });
+	}
+
+	async loadQuizForActiveNote(): Promise<LoadedQuiz | null> {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice("Open a note first.");
+			return null;
+		}
+
+		try {
+			return await loadQuizForNote(this.app, activeFile);
+		} catch (error) {
+			new Notice(error instanceof Error ? error.message : String(error));
+			return null;
+		}
+	}
+
+	async submitQuizAttempt(
+		quiz: LoadedQuiz,
+		responses: Record<string, string>,
+	): Promise<{ grades: QuizAnswerGrade[]; summary: QuizAttemptSummary } | null> {
+		const file = this.app.vault.getAbstractFileByPath(quiz.notePath);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Learning note not found: ${quiz.notePath}`);
+		}
+
+		const grades: QuizAnswerGrade[] = [];
+		for (const question of quiz.questions) {
+			const response = responses[question.id] ?? "";
+			grades.push(
+				gradeQuizAnswer(question, response) ??
+					(await this.gradeOpenQuizAnswer(quiz, question, response)),
+			);
+		}
+
+		const summary = summarizeQuizAttempt(quiz.questions, grades);
+		if (summary.quizScore === null) {
+			new Notice("No quiz answers could be graded. Configure an API model for open questions.");
+			return { grades, summary };
+		}
+
+		await recordQuizAttempt(this.app, file, quiz.quizPath, summary);
+		this.scanLearningNotes();
+		this.notifyLearningStateChanged();
+		new Notice(
+			summary.ungradedCount > 0
+				? `Quiz scored ${summary.quizScore}/10 (${summary.ungradedCount} open answers ungraded).`
+				: `Quiz scored ${summary.quizScore}/10.`,
+		);
+		return { grades, summary };
+	}
+
+	private async gradeOpenQuizAnswer(
+		quiz: LoadedQuiz,
+		question: LoadedQuiz["questions"][number],
+		response: string,
+	): Promise<QuizAnswerGrade> {
+		if (!response.trim()) return emptyQuizAnswer(question);
+		if (!this.canUseApiModel()) return ungradedQuizAnswer(question);
+
+		try {
+			const text = await new AIService(this.settings).completeText(
+				buildQuizGradingPrompt({
+					noteTitle: quiz.title,
+					question,
+					response,
+					answerSource: quiz.answerSource,
+				}),
+			);
+			return parseQuizModelGrade(question, text) ?? ungradedQuizAnswer(question);
+		} catch (error) {
+			console.error("[Eragear] Quiz grading failed", error);
+			return ungradedQuizAnswer(question);
+		}
+	}
+
+	private async recordLearningSnapshot(scan: LearningScanResult): Promise<void> {
+		try {
+			await writeLearningSnapshot(
+				this.app,
+				createLearningSnapshot(scan, formatLearningDate()),
+			);
+		} catch (error) {
+			console.error("[Eragear] Learning snapshot failed", error);
+		}
+	}
+
+	private canUseApiModel(): boolean {
+		return (
+			this.settings.provider === AIProviderType.BYOK_OPENAI ||
+			this.settings.provider === AIProviderType.BYOK_GEMINI ||
+			this.settings.provider === AIProviderType.BYOK_DEEPSEEK
+		);
+	}
+
 	private async getLearningRelatedNotes(
 		candidate: Pick<NextActionCandidate, "note" | "action">,
 	): Promise<HtmlExplainerRelatedNote[]> {
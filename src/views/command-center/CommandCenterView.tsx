@@ -1,7 +1,9 @@
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
 	IconBrain,
+	IconBranch,
+	IconChart,
 	IconCheckCircle,
 	IconCode,
 	IconFileText,
@@ -10,24 +12,93 @@ import {
 	IconPackage,
 	IconRotate,
 	IconTag,
+	IconX,
 } from "@/components/ui/Icons";
 import type EragearPlugin from "@/main";
-import type { LearningAcpRunEvent } from "@/main";
+import type { AgentTaskQueueStatus, LearningAcpRunEvent } from "@/main";
 import type { AgentTaskStatus } from "@/agent/agent-task";
 import type { LearningAgentTaskSummary } from "@/agent/task-store";
-import type { AgentWriteProposalSummary } from "@/agent/write-proposal";
-import { LEARNING_NOTE_TYPES, LEARNING_STATUSES } from "@/learning/constants";
+import type {
+	AgentWriteProposalSummary,
+	AgentWriteReviewItem,
+} from "@/agent/write-proposal";
+import {
+	countDiffChanges,
+	diffProposalLines,
+	toSideBySideRows,
+} from "@/agent/write-proposal-diff";
+import type { LearningActionLogEntry } from "@/learning/action-log-format";
+import { evaluateArtifactQualityForPath } from "@/learning/artifact-quality";
+import {
+	getActionLogResultType,
+	type LearningActionLogResultType,
+} from "@/learning/action-log-query";
+import { LEARNING_NOTE_TYPES } from "@/learning/constants";
+import type {
+	OnboardingBatchRecord,
+	OnboardingGroup,
+} from "@/learning/metadata-onboarding";
 import {
-	canPromoteStatus,
-	getPromotionBlockers,
+	type DefinitionOfDoneBlocker,
+	explainPromotionBlockers,
 } from "@/learning/definition-of-done";
+import type { DefinitionOfDoneRules } from "@/learning/definition-of-done-rules";
+import {
+	FOCUS_UNDERSTANDING_LABELS,
+	type FocusUnderstanding,
+	formatFocusClock,
+	getFocusRemainingMs,
+} from "@/learning/focus-session";
+import { formatLearningDate } from "@/learning/frontmatter";
 import type { LearningFrontmatterPatch } from "@/learning/frontmatter-writer";
+import {
+	DEFAULT_LEARNING_PIPELINE,
+	getNotePipeline,
+	getPipelineStatusIndex,
+	resolveLearningPipeline,
+} from "@/learning/learning-pipeline";
+import type { LearningAnalytics } from "@/learning/learning-analytics";
 import { getNextLearningStatus } from "@/learning/learning-state";
+import { NEXT_ACTION_WEIGHT_LABELS } from "@/learning/next-action-weights";
+import type { LoadedExaminerSession } from "@/learning/examiner-manager";
+import {
+	EXAMINER_CATEGORIES,
+	type ExaminerScoring,
+} from "@/learning/examiner-session";
+import {
+	estimateCurrentMastery,
+	type MasteryCategory,
+} from "@/learning/mastery";
+import {
+	getPrerequisiteChain,
+	layoutPrerequisiteGraph,
+	PREREQUISITE_GRAPH_METRICS,
+} from "@/learning/prerequisite-graph";
+import type { PrerequisiteSuggestion } from "@/learning/prerequisite-suggester";
+import {
+	analyzePrerequisiteCycles,
+	type CycleResolutionFix,
+	type PrerequisiteCycleEdge,
+} from "@/learning/cycle-resolution";
+import type { LoadedQuiz } from "@/learning/quiz-manager";
+import {
+	getQuizChoices,
+	type QuizAnswerGrade,
+	type QuizAttemptSummary,
+} from "@/learning/quiz-runner";
+import { inferReviewGrade, scheduleReview } from "@/learning/spaced-repetition";
+import {
+	getLearningSprintPath,
+	type LearningSprintPlan,
+	type LearningSprintReview,
+} from "@/learning/sprint-planner";
 import type {
 	LearningNote,
 	LearningNoteType,
+	LearningPipeline,
 	LearningScanResult,
 	LearningStatus,
+	MasteryHistoryEntry,
 	NextActionCandidate,
 } from "@/learning/types";
 import "./CommandCenterView.css";
@@ -41,7 +112,10 @@ export type CommandCenterMode =
 	| "learning"
 	| "inspector"
 	| "examiner"
-	| "artifacts";
+	| "artifacts"
+	| "analytics"
+	| "graph"
+	| "onboarding";
 
 export function CommandCenterView({
 	plugin,
@@ -136,7 +210,9 @@ export function CommandCenterView({
 			task.suggestedAgent !== "deterministic",
 	).length;
 	const acpWorkCount = aiActionCount + runnableAgentTasks;
+	const agentQueue = plugin.getAgentTaskQueueStatus();
 	const activeSprint = plugin.settings.activeLearningSprint || "S01-Systems-Bridge";
+	const sprintPlan = mode === "learning" ? plugin.getActiveLearningSprintPlan() : null;
 
 	useEffect(() => {
 		setMetadataDraft(createMetadataDraft(nextAction?.note ?? null));
@@ -169,6 +245,16 @@ export function CommandCenterView({
 		}
 	};
 
+	const dismissQueuedAction = async (candidate: NextActionCandidate) => {
+		setBusy(true);
+		try {
+			await plugin.dismissLearningAction(candidate);
+			refresh();
+		} finally {
+			setBusy(false);
+		}
+	};
+
 	const createAgentTask = async (candidate: NextActionCandidate) => {
 		setBusy(true);
 		try {
@@ -205,6 +291,16 @@ export function CommandCenterView({
 		}
 	};
 
+	const cancelAgentTask = async (task: LearningAgentTaskSummary) => {
+		await plugin.cancelLearningAgentTask(task.path);
+		refresh();
+	};
+
+	const toggleAgentTaskQueue = async () => {
+		await plugin.setAgentTaskQueuePaused(!agentQueue.paused);
+		refresh();
+	};
+
 	const runAgentTask = async (task: LearningAgentTaskSummary) => {
 		setBusy(true);
 		setAgentTasks((current) =>
@@ -240,13 +336,43 @@ export function CommandCenterView({
 		}
 	};
 
+	const planSprint = async () => {
+		setBusy(true);
+		try {
+			await plugin.planLearningSprint();
+			refresh();
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const closeSprint = async () => {
+		setBusy(true);
+		try {
+			await plugin.closeActiveLearningSprint();
+			refresh();
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const revertLearningAction = async (undoPath: string) => {
+		setBusy(true);
+		try {
+			await plugin.revertLearningAction(undoPath);
+			refresh();
+		} finally {
+			setBusy(false);
+		}
+	};
+
 	const saveMetadata = async () => {
 		if (!nextAction) return;
 		setBusy(true);
 		try {
 			await plugin.patchLearningMetadataForNote(
 				nextAction.note.path,
-				draftToPatch(metadataDraft),
+				draftToPatch(metadataDraft, plugin.settings.learningPipelines),
 			);
 			refresh();
 		} finally {
@@ -258,7 +384,9 @@ export function CommandCenterView({
 		if (!activeNote) return;
 		setBusy(true);
 		try {
-			await plugin.patchLearningMetadataForActiveNote(draftToPatch(activeDraft));
+			await plugin.patchLearningMetadataForActiveNote(
+				draftToPatch(activeDraft, plugin.settings.learningPipelines),
+			);
 			refresh();
 		} finally {
 			setBusy(false);
@@ -355,6 +483,7 @@ export function CommandCenterView({
 						onRunAction={runQueuedAction}
 						onRunWithAcp={runWithAcp}
 						onCreateAgentTask={createAgentTask}
+						onDismiss={dismissQueuedAction}
 						disabled={busy}
 					/>
 
@@ -364,6 +493,7 @@ export function CommandCenterView({
 						onRunWithAcp={runWithAcp}
 						onCreateAgentTask={createAgentTask}
 						onRunAgentTask={runAgentTask}
+						onCancelAgentTask={cancelAgentTask}
 						runningTask={runningAcpTask}
 						blockedTask={blockedAcpTask}
 						events={acpRunEvents}
@@ -376,10 +506,20 @@ export function CommandCenterView({
 						plugin={plugin}
 						onApply={applyWriteProposal}
 						onReject={rejectWriteProposal}
+						onReviewed={refresh}
 						disabled={busy}
 						hideWhenEmpty
 					/>
 
+					<SprintPlanPanel
+						plugin={plugin}
+						plan={sprintPlan}
+						progress={sprintPlan ? plugin.getActiveLearningSprintProgress() : null}
+						onPlan={planSprint}
+						onClose={closeSprint}
+						disabled={busy}
+					/>
+
 					<section className="eragear-learning-secondary-grid" aria-label="Learning overview">
 						<LearningSummary scan={scan} acpWorkCount={acpWorkCount} />
 						<SkillMapPanel notes={scan.notes} />
@@ -402,12 +542,24 @@ export function CommandCenterView({
 						onGenerateExaminer={generateExaminer}
 						busy={busy}
 					/>
+					<NoteHistoryPanel
+						note={activeNote}
+						plugin={plugin}
+						entries={
+							activeNote
+								? plugin.getLearningActionHistory({ notePath: activeNote.path })
+								: []
+						}
+						onRevert={revertLearningAction}
+						disabled={busy}
+					/>
 					<ActionQueuePanel
 						queue={queue}
 						plugin={plugin}
 						onRunAction={runQueuedAction}
 						onRunWithAcp={runWithAcp}
 						onCreateAgentTask={createAgentTask}
+						onDismiss={dismissQueuedAction}
 						disabled={busy}
 					/>
 				</section>
@@ -424,9 +576,29 @@ export function CommandCenterView({
 						onCreateAgentTask={createAgentTask}
 						disabled={busy}
 					/>
+					<ExaminerSessionPanel
+						note={activeNote}
+						plugin={plugin}
+						onSubmitted={refresh}
+						disabled={busy}
+					/>
+					<QuizRunnerPanel
+						note={activeNote}
+						plugin={plugin}
+						onSubmitted={refresh}
+						disabled={busy}
+					/>
+					<FocusSessionPanel plugin={plugin} onFinished={refresh} />
 					<LearningSessionPanel
 						note={activeNote ?? nextAction?.note ?? null}
 						nextAction={nextAction}
+						focusRunning={plugin.getFocusSession() !== null}
+						onStartFocus={(note) =>
+							plugin.startFocusSession(
+								note,
+								nextAction?.note.path === note.path ? nextAction.action : undefined,
+							)
+						}
 						onRunSuggestedAction={runSuggestedAction}
 						onRunWithAcp={runWithAcp}
 						onCreateAgentTask={createAgentTask}
@@ -444,6 +616,7 @@ export function CommandCenterView({
 						onRunWithAcp={runWithAcp}
 						onCreateAgentTask={createAgentTask}
 						onRunAgentTask={runAgentTask}
+						onCancelAgentTask={cancelAgentTask}
 						runningTask={runningAcpTask}
 						blockedTask={blockedAcpTask}
 						events={acpRunEvents}
@@ -454,7 +627,10 @@ export function CommandCenterView({
 					<AgentTasksPanel
 						tasks={agentTasks}
 						plugin={plugin}
+						queue={agentQueue}
 						onRun={runAgentTask}
+						onCancel={cancelAgentTask}
+						onToggleQueue={toggleAgentTaskQueue}
 						onStatusChange={updateAgentTaskStatus}
 						disabled={busy}
 					/>
@@ -464,6 +640,36 @@ export function CommandCenterView({
 						plugin={plugin}
 						onApply={applyWriteProposal}
 						onReject={rejectWriteProposal}
+						onReviewed={refresh}
+						disabled={busy}
+					/>
+				</section>
+			) : null}
+
+			{mode === "analytics" ? (
+				<section className="eragear-focused-mode" aria-label="Learning analytics">
+					<LearningAnalyticsPanel plugin={plugin} scan={scan} />
+				</section>
+			) : null}
+
+			{mode === "onboarding" ? (
+				<section className="eragear-focused-mode" aria-label="Metadata onboarding">
+					<OnboardingPanel plugin={plugin} onApplied={refresh} />
+				</section>
+			) : null}
+
+			{mode === "graph" ? (
+				<section className="eragear-focused-mode" aria-label="Prerequisite graph">
+					<PrerequisiteGraphPanel plugin={plugin} scan={scan} />
+					<CycleResolutionPanel
+						plugin={plugin}
+						scan={scan}
+						onResolved={refresh}
+						disabled={busy}
+					/>
+					<PrerequisiteSuggestionsPanel
+						plugin={plugin}
+						onAccepted={refresh}
 						disabled={busy}
 					/>
 				</section>
@@ -489,6 +695,21 @@ function getModeMeta(mode: CommandCenterMode): { title: string; subtitle: string
 				title: "Artifact Review",
 				subtitle: "Staged ACP proposals and validation",
 			};
+		case "analytics":
+			return {
+				title: "Learning Analytics",
+				subtitle: "Throughput, dwell time, and sprint burn-down",
+			};
+		case "graph":
+			return {
+				title: "Prerequisite Graph",
+				subtitle: "What blocks what, by dependency depth",
+			};
+		case "onboarding":
+			return {
+				title: "Metadata Onboarding",
+				subtitle: "Bring untagged notes into the learning system",
+			};
 		case "learning":
 			return {
 				title: "Eragear Learning OS",
@@ -519,116 +740,1187 @@ function LearningSummary({
 	);
 }
 
-const AGENT_TASK_STATUS_OPTIONS: readonly AgentTaskStatus[] = [
-	"queued",
-	"running",
-	"proposed",
-	"blocked",
-	"done",
-];
-
-const SKILL_AREAS = [
-	{
-		label: "Systems internals",
-		terms: ["systems", "memory", "runtime", "thread", "process", "syscall"],
-	},
-	{
-		label: "Data systems",
-		terms: ["data", "database", "postgres", "index", "storage", "query"],
-	},
-	{
-		label: "Runtime / backend",
-		terms: ["backend", "runtime", "api", "request", "async", "serialization"],
-	},
-	{
-		label: "Production debugging",
-		terms: ["debug", "production", "observability", "logs", "metrics", "trace"],
-	},
-	{
-		label: "Distributed systems",
-		terms: ["distributed", "replication", "consensus", "partition", "queue"],
-	},
-	{
-		label: "AI engineering",
-		terms: ["ai", "llm", "rag", "agent", "retrieval", "evaluation"],
-	},
-] as const;
+function LearningAnalyticsPanel({
+	plugin,
+	scan,
+}: {
+	plugin: EragearPlugin;
+	scan: LearningScanResult;
+}) {
+	const [analytics, setAnalytics] = useState<LearningAnalytics | null>(null);
 
-function SkillMapPanel({ notes }: { notes: LearningNote[] }) {
-	const rows = SKILL_AREAS.map((area) => {
-		const matchingNotes = notes.filter((note) => matchesSkillArea(note, area.terms));
-		const progress = computeAreaProgress(matchingNotes);
-		return {
-			...area,
-			count: matchingNotes.length,
-			progress,
-			weak: matchingNotes.filter((note) => isWeakForSkillMap(note)).length,
+	useEffect(() => {
+		let cancelled = false;
+		void plugin.getLearningAnalytics().then((next) => {
+			if (!cancelled) setAnalytics(next);
+		});
+		return () => {
+			cancelled = true;
 		};
-	});
-	const weakest = rows
-		.filter((row) => row.count > 0)
-		.sort((a, b) => a.progress - b.progress)[0];
+	}, [plugin, scan]);
+
+	if (!analytics) {
+		return (
+			<section className="eragear-learning-panel">
+				<p>Loading learning analytics...</p>
+			</section>
+		);
+	}
+
+	const thisWeek = analytics.weeks[analytics.weeks.length - 1];
+	const longestDwell = Math.max(
+		1,
+		...analytics.dwellTimes.map((dwell) => dwell.averageDays),
+	);
+	const burnDown = analytics.burnDown;
 
 	return (
-		<section className="eragear-learning-panel eragear-skill-map-panel">
-			<div className="eragear-learning-panel-header">
-				<div>
-					<h3>Skill map</h3>
-					<p>Where your SWE foundation is strong or thin.</p>
+		<>
+			<section className="eragear-learning-summary" aria-label="Flow summary">
+				<Metric label="Snapshots" value={analytics.snapshotCount} />
+				<Metric label="Moves this week" value={thisWeek?.transitions ?? 0} />
+				<Metric label="Actions this week" value={thisWeek?.actions ?? 0} />
+				<Metric label="Stuck" value={analytics.stuckNotes.length} />
+				<Metric
+					label="Focus hours"
+					value={Math.round((analytics.focus.totalMinutes / 60) * 10) / 10}
+				/>
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Focus time</h3>
+						<p>Minutes logged from finished focus sessions.</p>
+					</div>
+					<IconChart />
 				</div>
-				<IconBrain />
-			</div>
-			<div className="eragear-skill-map-list">
-				{rows.map((row) => (
-					<div className="eragear-skill-row" key={row.label}>
-						<div className="eragear-skill-row-header">
-							<span>{row.label}</span>
-							<strong>{row.progress}%</strong>
-						</div>
-						<div
-							className="eragear-progress-bar"
-							aria-label={`${row.label} ${row.progress}%`}
-						>
-							<span className={`eragear-progress-fill-${progressBucket(row.progress)}`} />
-						</div>
+				{analytics.focus.totalMinutes > 0 ? (
+					<div className="eragear-skill-map-list">
+						{analytics.focus.byArea.map((area) => (
+							<div className="eragear-skill-row" key={area.area}>
+								<div className="eragear-skill-row-header">
+									<span>{area.area}</span>
+									<strong>{area.minutes} min</strong>
+								</div>
+								<div className="eragear-progress-bar">
+									<span
+										className={`eragear-progress-fill-${progressBucket((area.minutes / analytics.focus.totalMinutes) * 100)}`}
+									/>
+								</div>
+							</div>
+						))}
+						{analytics.focus.byNote.slice(0, 5).map((note) => (
+							<div className="eragear-skill-row" key={note.path}>
+								<div className="eragear-skill-row-header">
+									<span>{note.title}</span>
+									<strong>{note.minutes} min</strong>
+								</div>
+							</div>
+						))}
+					</div>
+				) : (
+					<p>No focus sessions logged yet.</p>
+				)}
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Weekly throughput</h3>
 						<p>
-							{row.count} notes · {row.weak} weak
+							Stage entries from daily scan snapshots
+							{analytics.firstSnapshot ? ` since ${analytics.firstSnapshot}` : ""}.
 						</p>
 					</div>
-				))}
-			</div>
-			<div className="eragear-diagnosis-box">
-				<strong>Diagnosis</strong>
-				<p>
-					{weakest
-						? `${weakest.label} is the weakest mapped area. Use the queue to clear blockers before adding new notes.`
-						: "Add learning metadata to notes to build the skill map."}
-				</p>
-			</div>
-		</section>
+					<IconChart />
+				</div>
+				<ol className="eragear-action-queue">
+					{[...analytics.weeks].reverse().map((week) => (
+						<li key={week.week}>
+							<div className="eragear-skill-row-header">
+								<span>Week of {week.week}</span>
+								<strong>
+									{week.transitions} moves · {week.actions} actions
+								</strong>
+							</div>
+							{week.transitions > 0 ? (
+								<div className="eragear-action-row-chips">
+									{Object.entries(week.entered).map(([status, count]) => (
+										<StatusChip key={status}>
+											{count} → {status}
+										</StatusChip>
+									))}
+								</div>
+							) : null}
+						</li>
+					))}
+				</ol>
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Dwell time</h3>
+						<p>Average days a note stays in a status before it moves.</p>
+					</div>
+					<IconList />
+				</div>
+				{analytics.dwellTimes.length > 0 ? (
+					<div className="eragear-skill-map-list">
+						{analytics.dwellTimes.map((dwell) => (
+							<div className="eragear-skill-row" key={dwell.status}>
+								<div className="eragear-skill-row-header">
+									<span>{dwell.status}</span>
+									<strong>{dwell.averageDays}d</strong>
+								</div>
+								<div className="eragear-progress-bar">
+									<span
+										className={`eragear-progress-fill-${progressBucket((dwell.averageDays / longestDwell) * 100)}`}
+									/>
+								</div>
+								<p>{dwell.samples} completed stays</p>
+							</div>
+						))}
+					</div>
+				) : (
+					<p>No completed status changes recorded yet.</p>
+				)}
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Stuck notes</h3>
+						<p>
+							No status change in {plugin.settings.learningStuckAfterDays} days
+							or more.
+						</p>
+					</div>
+					<IconRotate />
+				</div>
+				{analytics.stuckNotes.length > 0 ? (
+					<ul className="eragear-action-queue">
+						{analytics.stuckNotes.slice(0, 10).map((note) => (
+							<li key={note.path}>
+								<button
+									type="button"
+									className="eragear-learning-link"
+									onClick={() => openPath(plugin, note.path)}
+								>
+									{note.path}
+								</button>
+								<div className="eragear-action-row-chips">
+									<StatusChip>{note.status}</StatusChip>
+									<StatusChip>{note.days} days since {note.since}</StatusChip>
+									<StatusChip>
+										{note.lastAction
+											? `last action ${note.lastAction}`
+											: "no logged actions"}
+									</StatusChip>
+								</div>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p>Every active note has moved recently.</p>
+				)}
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Sprint burn-down</h3>
+						<p>
+							{burnDown
+								? `Notes in ${burnDown.sprint} not yet done, per scan day.`
+								: "Set an active learning sprint to track burn-down."}
+						</p>
+					</div>
+					<IconCheckCircle />
+				</div>
+				{burnDown && burnDown.points.length > 0 ? (
+					<div className="eragear-skill-map-list">
+						{burnDown.points.map((point) => (
+							<div className="eragear-skill-row" key={point.date}>
+								<div className="eragear-skill-row-header">
+									<span>{point.date}</span>
+									<strong>
+										{point.remaining} / {point.total}
+									</strong>
+								</div>
+								<div className="eragear-progress-bar">
+									<span
+										className={`eragear-progress-fill-${progressBucket((point.remaining / point.total) * 100)}`}
+									/>
+								</div>
+							</div>
+						))}
+					</div>
+				) : burnDown ? (
+					<p>No snapshots include notes from this sprint yet.</p>
+				) : null}
+			</section>
+		</>
 	);
 }
 
-function TodayFocusPanel({
-	nextAction,
+function SprintPlanPanel({
 	plugin,
-	metadataDraft,
-	onMetadataDraftChange,
-	onSaveMetadata,
-	onRunSuggestedAction,
-	onRunWithAcp,
-	onCreateAgentTask,
-	busy,
+	plan,
+	progress,
+	onPlan,
+	onClose,
+	disabled,
 }: {
-	nextAction: NextActionCandidate | null;
 	plugin: EragearPlugin;
-	metadataDraft: MetadataDraft;
-	onMetadataDraftChange: (draft: MetadataDraft) => void;
-	onSaveMetadata: () => void;
-	onRunSuggestedAction: () => void;
-	onRunWithAcp: (candidate: NextActionCandidate) => void;
-	onCreateAgentTask: (candidate: NextActionCandidate) => void;
-	busy: boolean;
+	plan: LearningSprintPlan | null;
+	progress: LearningSprintReview | null;
+	onPlan: () => void;
+	onClose: () => void;
+	disabled: boolean;
+}) {
+	const today = formatLearningDate();
+	const todayPlan = plan?.days.find((day) => day.date === today);
+	const percent =
+		progress && progress.plannedHours > 0
+			? Math.round((progress.completedHours / progress.plannedHours) * 100)
+			: 0;
+
+	return (
+		<section className="eragear-learning-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Sprint plan</h3>
+					<p>
+						{plan
+							? `${plan.start} to ${plan.end} · ${plan.plannedHours}h planned of ${plan.capacityHours}h`
+							: `Fill ${plugin.settings.learningWeeklyCapacityHours}h this week in prerequisite order.`}
+					</p>
+				</div>
+				<IconList />
+			</div>
+			{plan && progress ? (
+				<>
+					<div className="eragear-skill-row">
+						<div className="eragear-skill-row-header">
+							<button
+								type="button"
+								className="eragear-learning-link"
+								onClick={() => openPath(plugin, getLearningSprintPath(plan.name))}
+							>
+								{plan.name}
+							</button>
+							<strong>
+								{progress.completedHours}h / {progress.plannedHours}h
+							</strong>
+						</div>
+						<div className="eragear-progress-bar" aria-label={`Sprint ${percent}%`}>
+							<span className={`eragear-progress-fill-${progressBucket(percent)}`} />
+						</div>
+						<p>
+							{progress.completedNotes} of {progress.items.length} notes done
+						</p>
+					</div>
+					{todayPlan && todayPlan.items.length > 0 ? (
+						<ul className="eragear-action-queue">
+							{todayPlan.items.map((item) => (
+								<li key={item.path}>
+									<button
+										type="button"
+										className="eragear-learning-link"
+										onClick={() => openPath(plugin, item.path)}
+									>
+										{item.title}
+									</button>
+									<div className="eragear-action-row-chips">
+										<StatusChip>{item.hours}h today</StatusChip>
+									</div>
+								</li>
+							))}
+						</ul>
+					) : (
+						<p>Nothing scheduled today.</p>
+					)}
+				</>
+			) : (
+				<p>No sprint planned.</p>
+			)}
+			<div className="eragear-row-actions">
+				{plan ? (
+					<Button
+						type="button"
+						variant="secondary"
+						size="sm"
+						onClick={onClose}
+						disabled={disabled}
+					>
+						<span>Close sprint</span>
+					</Button>
+				) : (
+					<Button
+						type="button"
+						variant="outline"
+						size="sm"
+						onClick={onPlan}
+						disabled={disabled}
+					>
+						<span>Plan sprint</span>
+					</Button>
+				)}
+			</div>
+		</section>
+	);
+}
+
+function PrerequisiteGraphPanel({
+	plugin,
+	scan,
+}: {
+	plugin: EragearPlugin;
+	scan: LearningScanResult;
+}) {
+	const [area, setArea] = useState("");
+	const [includeIsolated, setIncludeIsolated] = useState(false);
+	const [focusPath, setFocusPath] = useState<string | null>(null);
+	const areas = [
+		...new Set(
+			scan.notes
+				.map((note) => note.area)
+				.filter((item): item is string => Boolean(item)),
+		),
+	].sort();
+	const layout = useMemo(
+		() =>
+			layoutPrerequisiteGraph(scan.notes, scan.cycles, {
+				...(area ? { area } : {}),
+				includeIsolated,
+			}),
+		[scan, area, includeIsolated],
+	);
+	const chain = focusPath ? getPrerequisiteChain(layout.edges, focusPath) : null;
+	const byPath = new Map(layout.nodes.map((node) => [node.path, node]));
+	const { nodeWidth, nodeHeight } = PREREQUISITE_GRAPH_METRICS;
+
+	return (
+		<>
+			<section className="eragear-learning-summary" aria-label="Graph summary">
+				<Metric label="Notes" value={layout.nodes.length} />
+				<Metric label="Edges" value={layout.edges.length} />
+				<Metric
+					label="Blocked"
+					value={layout.nodes.filter((node) => node.blocked).length}
+				/>
+				<Metric label="Cycles" value={scan.cycles.length} />
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Prerequisite graph</h3>
+						<p>
+							Prerequisites on the left. Hover a note to trace its chain, click
+							to open it.
+						</p>
+					</div>
+					<IconBranch />
+				</div>
+				<div className="eragear-dag-controls">
+					<label>
+						<span>Area</span>
+						<select
+							aria-label="Filter graph by area"
+							value={area}
+							onChange={(event) => setArea(event.target.value)}
+						>
+							<option value="">All areas</option>
+							{areas.map((item) => (
+								<option key={item} value={item}>
+									{item}
+								</option>
+							))}
+						</select>
+					</label>
+					<label>
+						<input
+							type="checkbox"
+							checked={includeIsolated}
+							onChange={(event) => setIncludeIsolated(event.target.checked)}
+						/>
+						<span>Show notes without edges</span>
+					</label>
+				</div>
+				<div className="eragear-dag-legend" aria-label="Status colors">
+					{DEFAULT_LEARNING_PIPELINE.stages.map((stage) => (
+						<span key={stage.id} data-status={stage.id}>
+							{stage.id}
+						</span>
+					))}
+					<span data-cycle="true">cycle</span>
+				</div>
+				{layout.nodes.length > 0 ? (
+					<div className="eragear-dag-scroll">
+						<svg
+							className="eragear-dag"
+							width={layout.width}
+							height={layout.height}
+							viewBox={`0 0 ${layout.width} ${layout.height}`}
+							role="group"
+							aria-label="Prerequisite graph"
+						>
+							<defs>
+								<marker
+									id="eragear-dag-arrow"
+									viewBox="0 0 8 8"
+									refX="8"
+									refY="4"
+									markerWidth="6"
+									markerHeight="6"
+									orient="auto"
+								>
+									<path d="M0,0 L8,4 L0,8 z" />
+								</marker>
+							</defs>
+							{layout.edges.map((edge) => {
+								const from = byPath.get(edge.from);
+								const to = byPath.get(edge.to);
+								if (!from || !to) return null;
+								const startX = from.x + nodeWidth;
+								const startY = from.y + nodeHeight / 2;
+								const endX = to.x;
+								const endY = to.y + nodeHeight / 2;
+								const bend = Math.max(24, Math.abs(endX - startX) / 2);
+								return (
+									<path
+										key={`${edge.from}->${edge.to}`}
+										className="eragear-dag-edge"
+										data-unmet={edge.unmet}
+										data-cycle={edge.inCycle}
+										data-dimmed={
+											chain ? !(chain.has(edge.from) && chain.has(edge.to)) : false
+										}
+										d={`M${startX},${startY} C${startX + bend},${startY} ${endX - bend},${endY} ${endX},${endY}`}
+										markerEnd="url(#eragear-dag-arrow)"
+									/>
+								);
+							})}
+							{layout.nodes.map((node) => (
+								<g
+									key={node.path}
+									className="eragear-dag-node"
+									data-status={node.status ?? "none"}
+									data-blocked={node.blocked}
+									data-cycle={node.inCycle}
+									data-dimmed={chain ? !chain.has(node.path) : false}
+									transform={`translate(${node.x},${node.y})`}
+									role="button"
+									tabIndex={0}
+									aria-label={`${node.title}, ${node.status ?? "no status"}${node.blocked ? ", blocked" : ""}`}
+									onClick={() => openPath(plugin, node.path)}
+									onKeyDown={(event) => {
+										if (event.key === "Enter") openPath(plugin, node.path);
+									}}
+									onMouseEnter={() => setFocusPath(node.path)}
+									onMouseLeave={() => setFocusPath(null)}
+									onFocus={() => setFocusPath(node.path)}
+									onBlur={() => setFocusPath(null)}
+								>
+									<title>{node.path}</title>
+									<rect width={nodeWidth} height={nodeHeight} rx={4} />
+									<text x={8} y={15}>
+										{truncateLabel(node.title, 22)}
+									</text>
+									<text x={8} y={29} className="eragear-dag-node-meta">
+										{[
+											node.status ?? "no status",
+											node.blocked ? "blocked" : "",
+											node.inCycle ? "cycle" : "",
+										]
+											.filter(Boolean)
+											.join(" · ")}
+									</text>
+								</g>
+							))}
+						</svg>
+					</div>
+				) : (
+					<p>
+						No prerequisite or unlock links yet. Add `prerequisites` to learning
+						notes to build the graph.
+					</p>
+				)}
+			</section>
+		</>
+	);
+}
+
+function CycleResolutionPanel({
+	plugin,
+	scan,
+	onResolved,
+	disabled,
+}: {
+	plugin: EragearPlugin;
+	scan: LearningScanResult;
+	onResolved: () => void;
+	disabled: boolean;
+}) {
+	const cycles = useMemo(
+		() => analyzePrerequisiteCycles(scan.notes, scan.cycles),
+		[scan],
+	);
+	const [chosen, setChosen] = useState<Record<number, string>>({});
+	const [working, setWorking] = useState(false);
+	const keyOf = (edge: PrerequisiteCycleEdge) =>
+		`${edge.notePath}->${edge.prerequisitePath}`;
+
+	if (cycles.length === 0) return null;
+
+	const titleOf = (path: string) =>
+		scan.notes.find((note) => note.path === path)?.title ?? path;
+
+	const resolve = async (
+		kind: CycleResolutionFix["kind"],
+		edge: PrerequisiteCycleEdge,
+	) => {
+		setWorking(true);
+		try {
+			await plugin.resolvePrerequisiteCycle({ kind, edge });
+			setChosen({});
+			onResolved();
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	return (
+		<section className="eragear-learning-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Prerequisite cycles</h3>
+					<p>
+						Notes in a loop block each other. Break the weakest edge, merge the
+						two notes, or split the dependent note into a bridge note.
+					</p>
+				</div>
+				<IconRotate />
+			</div>
+			<ul className="eragear-action-queue">
+				{cycles.map((cycle, index) => {
+					const edge =
+						cycle.edges.find((item) => keyOf(item) === chosen[index]) ??
+						cycle.weakest;
+					return (
+						<li key={cycle.paths.join("|")}>
+							<strong>
+								{[...cycle.paths, cycle.paths[0] ?? ""]
+									.map(titleOf)
+									.join(" → ")}
+							</strong>
+							{cycle.edges.map((item) => (
+								<label key={keyOf(item)} className="eragear-dag-suggestion">
+									<input
+										type="radio"
+										name={`cycle-${index}`}
+										checked={keyOf(item) === keyOf(edge)}
+										onChange={() =>
+											setChosen({ ...chosen, [index]: keyOf(item) })
+										}
+									/>
+									<span>
+										{item.noteTitle} requires {item.prerequisiteTitle}
+										{item === cycle.weakest ? " (weakest)" : ""}
+									</span>
+									<StatusChip>strength {item.strength}</StatusChip>
+								</label>
+							))}
+							{edge.reasons.length > 0 ? <p>{edge.reasons.join(" ")}</p> : null}
+							<div className="eragear-row-actions">
+								<Button
+									type="button"
+									variant="outline"
+									size="sm"
+									onClick={() => void resolve("drop-edge", edge)}
+									disabled={disabled || working}
+								>
+									<span>Drop edge</span>
+								</Button>
+								<Button
+									type="button"
+									variant="outline"
+									size="sm"
+									onClick={() => void resolve("merge", edge)}
+									disabled={disabled || working}
+								>
+									<span>Merge notes</span>
+								</Button>
+								<Button
+									type="button"
+									variant="outline"
+									size="sm"
+									onClick={() => void resolve("bridge", edge)}
+									disabled={disabled || working}
+								>
+									<span>Split into bridge</span>
+								</Button>
+							</div>
+						</li>
+					);
+				})}
+			</ul>
+		</section>
+	);
+}
+
+function OnboardingPanel({
+	plugin,
+	onApplied,
+}: {
+	plugin: EragearPlugin;
+	onApplied: () => void;
+}) {
+	const [groups, setGroups] = useState<OnboardingGroup[] | null>(null);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [batches, setBatches] = useState<OnboardingBatchRecord[]>([]);
+	const [useModel, setUseModel] = useState(false);
+	const [working, setWorking] = useState(false);
+	const canUseModel = plugin.canOnboardWithModel();
+
+	const refreshBatches = useCallback(async () => {
+		setBatches(await plugin.getOnboardingBatches());
+	}, [plugin]);
+
+	useEffect(() => {
+		void refreshBatches();
+	}, [refreshBatches]);
+
+	const scan = async () => {
+		setWorking(true);
+		try {
+			const next = await plugin.getOnboardingGroups(useModel && canUseModel);
+			setGroups(next);
+			setSelected(
+				new Set(next.filter((group) => group.kind !== "loose").map((group) => group.id)),
+			);
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	const updateProposal = (
+		id: string,
+		change: Pick<Partial<OnboardingGroup["proposal"]>, "type" | "area">,
+	) => {
+		setGroups(
+			(current) =>
+				current?.map((group) => {
+					if (group.id !== id) return group;
+					const proposal = { ...group.proposal, ...change };
+					const pipeline = resolveLearningPipeline(
+						proposal,
+						plugin.settings.learningPipelines,
+					);
+					const status = pipeline.stages[0]?.id ?? proposal.status;
+					return { ...group, proposal: { ...proposal, status } };
+				}) ?? null,
+		);
+	};
+
+	const apply = async () => {
+		if (!groups) return;
+		const chosen = groups.filter((group) => selected.has(group.id));
+		if (chosen.length === 0) return;
+		setWorking(true);
+		try {
+			await plugin.applyOnboardingGroups(chosen);
+			setGroups(groups.filter((group) => !selected.has(group.id)));
+			setSelected(new Set());
+			await refreshBatches();
+			onApplied();
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	const undo = async (record: OnboardingBatchRecord) => {
+		setWorking(true);
+		try {
+			await plugin.undoOnboardingBatch(record);
+			await refreshBatches();
+			onApplied();
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	const toggle = (id: string) => {
+		const next = new Set(selected);
+		if (next.has(id)) next.delete(id);
+		else next.add(id);
+		setSelected(next);
+	};
+
+	const selectedNotes = (groups ?? [])
+		.filter((group) => selected.has(group.id))
+		.reduce((total, group) => total + group.notePaths.length, 0);
+	const activeBatches = batches.filter((batch) => batch.status === "active");
+
+	return (
+		<>
+			<section className="eragear-learning-summary" aria-label="Onboarding summary">
+				<Metric
+					label="Untagged"
+					value={(groups ?? []).reduce((total, group) => total + group.notePaths.length, 0)}
+				/>
+				<Metric label="Groups" value={groups?.length ?? 0} />
+				<Metric label="Selected" value={selectedNotes} />
+				<Metric label="Batches" value={activeBatches.length} />
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Proposed metadata</h3>
+						<p>
+							Notes without learning frontmatter, grouped by shared tag, folder,
+							or link community. Edit a group before applying it.
+						</p>
+					</div>
+					<IconMagic />
+				</div>
+				<div className="eragear-dag-controls">
+					<label>
+						<input
+							type="checkbox"
+							checked={useModel && canUseModel}
+							disabled={!canUseModel}
+							onChange={(event) => setUseModel(event.target.checked)}
+						/>
+						<span>
+							{canUseModel
+								? "Ask the API model to refine type and area per group"
+								: "Configure an API model to add a model pass"}
+						</span>
+					</label>
+				</div>
+				{groups && groups.length > 0 ? (
+					<ul className="eragear-action-queue">
+						{groups.map((group) => (
+							<li key={group.id}>
+								<label className="eragear-dag-suggestion">
+									<input
+										type="checkbox"
+										checked={selected.has(group.id)}
+										onChange={() => toggle(group.id)}
+									/>
+									<span>
+										<strong>{group.label}</strong>
+									</span>
+								</label>
+								<div className="eragear-action-row-chips">
+									<StatusChip>{group.kind}</StatusChip>
+									<StatusChip>{group.notePaths.length} notes</StatusChip>
+									<StatusChip>status: {group.proposal.status}</StatusChip>
+								</div>
+								<div className="eragear-onboarding-fields">
+									<label>
+										<span>Type</span>
+										<select
+											value={group.proposal.type}
+											onChange={(event) =>
+												updateProposal(group.id, {
+													type: event.target.value as LearningNoteType,
+												})
+											}
+											disabled={working}
+										>
+											{LEARNING_NOTE_TYPES.map((type) => (
+												<option key={type} value={type}>
+													{type}
+												</option>
+											))}
+										</select>
+									</label>
+									<label>
+										<span>Area</span>
+										<input
+											type="text"
+											value={group.proposal.area}
+											onChange={(event) =>
+												updateProposal(group.id, { area: event.target.value })
+											}
+											disabled={working}
+										/>
+									</label>
+								</div>
+								<ul className="eragear-reason-list">
+									{group.reasons.map((reason) => (
+										<li key={reason}>{reason}</li>
+									))}
+								</ul>
+								<details className="eragear-score-breakdown">
+									<summary>Preview notes</summary>
+									<ul className="eragear-reason-list">
+										{group.notePaths.slice(0, 20).map((path) => (
+											<li key={path}>
+												<button
+													type="button"
+													className="eragear-learning-link"
+													onClick={() => openPath(plugin, path)}
+												>
+													{path}
+												</button>
+											</li>
+										))}
+										{group.notePaths.length > 20 ? (
+											<li>and {group.notePaths.length - 20} more</li>
+										) : null}
+									</ul>
+								</details>
+							</li>
+						))}
+					</ul>
+				) : groups ? (
+					<p>Every note already has learning metadata.</p>
+				) : null}
+				<div className="eragear-row-actions">
+					<Button
+						type="button"
+						variant="outline"
+						size="sm"
+						onClick={() => void scan()}
+						disabled={working}
+					>
+						<span>{working ? "Working..." : "Scan vault"}</span>
+					</Button>
+					<Button
+						type="button"
+						variant="secondary"
+						size="sm"
+						onClick={() => void apply()}
+						disabled={working || selectedNotes === 0}
+					>
+						<span>Apply to {selectedNotes} note(s)</span>
+					</Button>
+				</div>
+			</section>
+
+			<section className="eragear-learning-panel">
+				<div className="eragear-learning-panel-header">
+					<div>
+						<h3>Applied batches</h3>
+						<p>Undo removes the fields a batch added, unless edited since.</p>
+					</div>
+					<IconRotate />
+				</div>
+				{batches.length > 0 ? (
+					<ol className="eragear-action-queue">
+						{[...batches].reverse().map((batch) => (
+							<li key={batch.id}>
+								<div className="eragear-skill-row-header">
+									<span>{batch.id}</span>
+									<strong>{batch.notes.length} notes</strong>
+								</div>
+								<div className="eragear-row-actions">
+									{batch.status === "active" ? (
+										<Button
+											type="button"
+											variant="outline"
+											size="sm"
+											onClick={() => void undo(batch)}
+											disabled={working}
+										>
+											<span>Undo batch</span>
+										</Button>
+									) : (
+										<StatusChip>undone</StatusChip>
+									)}
+								</div>
+							</li>
+						))}
+					</ol>
+				) : (
+					<p>No onboarding batches applied yet.</p>
+				)}
+			</section>
+		</>
+	);
+}
+
+function PrerequisiteSuggestionsPanel({
+	plugin,
+	onAccepted,
+	disabled,
+}: {
+	plugin: EragearPlugin;
+	onAccepted: () => void;
+	disabled: boolean;
+}) {
+	const [suggestions, setSuggestions] = useState<PrerequisiteSuggestion[] | null>(
+		null,
+	);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [useModel, setUseModel] = useState(false);
+	const [working, setWorking] = useState(false);
+	const canUseModel = plugin.canSuggestPrerequisitesWithModel();
+	const keyOf = (suggestion: PrerequisiteSuggestion) =>
+		`${suggestion.notePath}->${suggestion.prerequisitePath}`;
+
+	const findSuggestions = async () => {
+		setWorking(true);
+		try {
+			const next = await plugin.suggestLearningPrerequisites(
+				useModel && canUseModel,
+			);
+			setSuggestions(next);
+			setSelected(
+				new Set(
+					next
+						.filter((suggestion) => suggestion.confidence >= 0.6)
+						.map(keyOf),
+				),
+			);
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	const acceptSelected = async () => {
+		if (!suggestions) return;
+		const accepted = suggestions.filter((suggestion) =>
+			selected.has(keyOf(suggestion)),
+		);
+		if (accepted.length === 0) return;
+		setWorking(true);
+		try {
+			await plugin.acceptPrerequisiteSuggestions(accepted);
+			setSuggestions(
+				suggestions.filter((suggestion) => !selected.has(keyOf(suggestion))),
+			);
+			setSelected(new Set());
+			onAccepted();
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	const toggle = (key: string) => {
+		const next = new Set(selected);
+		if (next.has(key)) next.delete(key);
+		else next.add(key);
+		setSelected(next);
+	};
+
+	return (
+		<section className="eragear-learning-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Suggested prerequisites</h3>
+					<p>
+						Inferred from definition phrases, prerequisite headings, and one-way
+						links to widely linked notes.
+					</p>
+				</div>
+				<IconMagic />
+			</div>
+			<div className="eragear-dag-controls">
+				<label>
+					<input
+						type="checkbox"
+						checked={useModel && canUseModel}
+						disabled={!canUseModel}
+						onChange={(event) => setUseModel(event.target.checked)}
+					/>
+					<span>
+						{canUseModel
+							? "Ask the API model about notes without prerequisites"
+							: "Configure an API model to add a model pass"}
+					</span>
+				</label>
+			</div>
+			{suggestions && suggestions.length > 0 ? (
+				<ul className="eragear-action-queue">
+					{suggestions.map((suggestion) => {
+						const key = keyOf(suggestion);
+						return (
+							<li key={key}>
+								<label className="eragear-dag-suggestion">
+									<input
+										type="checkbox"
+										checked={selected.has(key)}
+										onChange={() => toggle(key)}
+									/>
+									<span>
+										<button
+											type="button"
+											className="eragear-learning-link"
+											onClick={() => openPath(plugin, suggestion.notePath)}
+										>
+											{suggestion.noteTitle}
+										</button>{" "}
+										requires{" "}
+										<button
+											type="button"
+											className="eragear-learning-link"
+											onClick={() => openPath(plugin, suggestion.prerequisitePath)}
+										>
+											{suggestion.prerequisiteTitle}
+										</button>
+									</span>
+								</label>
+								<div className="eragear-action-row-chips">
+									<StatusChip>{Math.round(suggestion.confidence * 100)}%</StatusChip>
+									{suggestion.signals.map((signal) => (
+										<StatusChip key={signal}>{signal}</StatusChip>
+									))}
+								</div>
+								<p>{suggestion.justification}</p>
+							</li>
+						);
+					})}
+				</ul>
+			) : suggestions ? (
+				<p>No new prerequisites found.</p>
+			) : null}
+			<div className="eragear-row-actions">
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					onClick={() => void findSuggestions()}
+					disabled={disabled || working}
+				>
+					<span>{working ? "Working..." : "Find suggestions"}</span>
+				</Button>
+				<Button
+					type="button"
+					variant="secondary"
+					size="sm"
+					onClick={() => void acceptSelected()}
+					disabled={disabled || working || selected.size === 0}
+				>
+					<span>Accept selected ({selected.size})</span>
+				</Button>
+			</div>
+		</section>
+	);
+}
+
+function truncateLabel(value: string, length: number): string {
+	return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+const AGENT_TASK_STATUS_OPTIONS: readonly AgentTaskStatus[] = [
+	"queued",
+	"running",
+	"proposed",
+	"blocked",
+	"cancelled",
+	"done",
+];
+
+const SKILL_AREAS = [
+	{
+		label: "Systems internals",
+		terms: ["systems", "memory", "runtime", "thread", "process", "syscall"],
+	},
+	{
+		label: "Data systems",
+		terms: ["data", "database", "postgres", "index", "storage", "query"],
+	},
+	{
+		label: "Runtime / backend",
+		terms: ["backend", "runtime", "api", "request", "async", "serialization"],
+	},
+	{
+		label: "Production debugging",
+		terms: ["debug", "production", "observability", "logs", "metrics", "trace"],
+	},
+	{
+		label: "Distributed systems",
+		terms: ["distributed", "replication", "consensus", "partition", "queue"],
+	},
+	{
+		label: "AI engineering",
+		terms: ["ai", "llm", "rag", "agent", "retrieval", "evaluation"],
+	},
+] as const;
+
+function SkillMapPanel({ notes }: { notes: LearningNote[] }) {
+	const rows = SKILL_AREAS.map((area) => {
+		const matchingNotes = notes.filter((note) => matchesSkillArea(note, area.terms));
+		const progress = computeAreaProgress(matchingNotes);
+		return {
+			...area,
+			count: matchingNotes.length,
+			progress,
+			weak: matchingNotes.filter((note) => isWeakForSkillMap(note)).length,
+		};
+	});
+	const weakest = rows
+		.filter((row) => row.count > 0)
+		.sort((a, b) => a.progress - b.progress)[0];
+
+	return (
+		<section className="eragear-learning-panel eragear-skill-map-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Skill map</h3>
+					<p>Where your SWE foundation is strong or thin.</p>
+				</div>
+				<IconBrain />
+			</div>
+			<div className="eragear-skill-map-list">
+				{rows.map((row) => (
+					<div className="eragear-skill-row" key={row.label}>
+						<div className="eragear-skill-row-header">
+							<span>{row.label}</span>
+							<strong>{row.progress}%</strong>
+						</div>
+						<div
+							className="eragear-progress-bar"
+							aria-label={`${row.label} ${row.progress}%`}
+						>
+							<span className={`eragear-progress-fill-${progressBucket(row.progress)}`} />
+						</div>
+						<p>
+							{row.count} notes · {row.weak} weak
+						</p>
+					</div>
+				))}
+			</div>
+			<div className="eragear-diagnosis-box">
+				<strong>Diagnosis</strong>
+				<p>
+					{weakest
+						? `${weakest.label} is the weakest mapped area. Use the queue to clear blockers before adding new notes.`
+						: "Add learning metadata to notes to build the skill map."}
+				</p>
+			</div>
+		</section>
+	);
+}
+
+function TodayFocusPanel({
+	nextAction,
+	plugin,
+	metadataDraft,
+	onMetadataDraftChange,
+	onSaveMetadata,
+	onRunSuggestedAction,
+	onRunWithAcp,
+	onCreateAgentTask,
+	busy,
+}: {
+	nextAction: NextActionCandidate | null;
+	plugin: EragearPlugin;
+	metadataDraft: MetadataDraft;
+	onMetadataDraftChange: (draft: MetadataDraft) => void;
+	onSaveMetadata: () => void;
+	onRunSuggestedAction: () => void;
+	onRunWithAcp: (candidate: NextActionCandidate) => void;
+	onCreateAgentTask: (candidate: NextActionCandidate) => void;
+	busy: boolean;
 }) {
 	const usesAcp = nextAction?.suggestedAgent !== "deterministic";
 	const outputBullets = nextAction ? getExpectedOutputBullets(nextAction) : [];
@@ -750,6 +2042,7 @@ function TodayFocusPanel({
 							</div>
 							<MetadataFixer
 								draft={metadataDraft}
+								pipelines={plugin.settings.learningPipelines}
 								onDraftChange={onMetadataDraftChange}
 								onSave={onSaveMetadata}
 								disabled={busy}
@@ -819,7 +2112,10 @@ function ActiveConceptPanel({
 						<StatusChip>{activeNote.status ?? "missing status"}</StatusChip>
 						<StatusChip>maturity {activeNote.maturity ?? 0}/5</StatusChip>
 					</div>
-					<StatusStepper status={activeNote.status} />
+					<StatusStepper
+						status={activeNote.status}
+						pipeline={getNotePipeline(activeNote)}
+					/>
 					<div className="eragear-session-diagnosis">
 						<strong>{getCurrentStateHeadline(activeNote)}</strong>
 						<p>{getSessionDiagnosis(activeNote)}</p>
@@ -851,6 +2147,7 @@ function ActiveConceptPanel({
 						<>
 							<MetadataFixer
 								draft={activeDraft}
+								pipelines={plugin.settings.learningPipelines}
 								onDraftChange={onActiveDraftChange}
 								onSave={onSaveActiveMetadata}
 								disabled={busy}
@@ -858,6 +2155,7 @@ function ActiveConceptPanel({
 							/>
 							<ProgressControls
 								note={activeNote}
+								rules={plugin.getDefinitionOfDoneRules()}
 								quizScoreDraft={quizScoreDraft}
 								onQuizScoreDraftChange={onQuizScoreDraftChange}
 								onRecordQuizScore={onRecordQuizScore}
@@ -906,6 +2204,7 @@ function AcpLanePanel({
 	onRunWithAcp,
 	onCreateAgentTask,
 	onRunAgentTask,
+	onCancelAgentTask,
 	runningTask,
 	blockedTask,
 	events,
@@ -917,6 +2216,7 @@ function AcpLanePanel({
 	onRunWithAcp: (candidate: NextActionCandidate) => void;
 	onCreateAgentTask: (candidate: NextActionCandidate) => void;
 	onRunAgentTask: (task: LearningAgentTaskSummary) => void;
+	onCancelAgentTask: (task: LearningAgentTaskSummary) => void;
 	runningTask: LearningAgentTaskSummary | null;
 	blockedTask: LearningAgentTaskSummary | null;
 	events: LearningAcpRunEvent[];
@@ -953,6 +2253,15 @@ function AcpLanePanel({
 						{runningTask.title}
 					</button>
 					<p>Waiting for ACP to write a proposal JSON.</p>
+					<Button
+						type="button"
+						variant="outline"
+						onClick={() => onCancelAgentTask(runningTask)}
+						size="sm"
+					>
+						<IconX />
+						<span>Cancel run</span>
+					</Button>
 				</div>
 			) : null}
 			{!runningTask && pendingProposalCount > 0 ? (
@@ -987,7 +2296,10 @@ function AcpLanePanel({
 					>
 						{blockedTask.title}
 					</button>
-					<p>The bounded runner now uses a compact excerpt and blocks large source reads.</p>
+					<p>
+						{blockedTask.lastError ??
+							"The bounded runner now uses a compact excerpt and blocks large source reads."}
+					</p>
 					<Button
 						type="button"
 						variant="outline"
@@ -1109,6 +2421,7 @@ function AcpRuntimeEventList({
 
 function ProgressControls({
 	note,
+	rules,
 	quizScoreDraft,
 	onQuizScoreDraftChange,
 	onRecordQuizScore,
@@ -1117,6 +2430,7 @@ function ProgressControls({
 	disabled,
 }: {
 	note: LearningNote;
+	rules: DefinitionOfDoneRules;
 	quizScoreDraft: string;
 	onQuizScoreDraftChange: (value: string) => void;
 	onRecordQuizScore: () => void;
@@ -1124,16 +2438,20 @@ function ProgressControls({
 	onGenerateExaminer: () => void;
 	disabled: boolean;
 }) {
-	const nextStatus = note.status ? getNextLearningStatus(note.status) : null;
+	const nextStatus = note.status
+		? getNextLearningStatus(note.status, getNotePipeline(note))
+		: null;
 	const nextMaturity = clampMaturity((note.maturity ?? 0) + 1);
+	const today = formatLearningDate();
 	const nextStatusBlockers = nextStatus
-		? getPromotionBlockers(note, nextStatus)
+		? explainPromotionBlockers(note, nextStatus, today, rules)
 		: [];
 	const canMoveNext = Boolean(nextStatus) && nextStatusBlockers.length === 0;
-	const canMarkMastered =
-		note.status === "done" && canPromoteStatus(note, "mastered");
 	const masteredBlockers =
-		note.status === "done" ? getPromotionBlockers(note, "mastered") : [];
+		note.status === "done"
+			? explainPromotionBlockers(note, "mastered", today, rules)
+			: [];
+	const canMarkMastered = note.status === "done" && masteredBlockers.length === 0;
 
 	return (
 		<div className="eragear-progress-controls">
@@ -1168,18 +2486,25 @@ function ProgressControls({
 			<DefinitionOfDoneGate
 				targetStatus={nextStatus}
 				blockers={nextStatusBlockers}
+				rules={rules}
 			/>
 
 			<div className="eragear-progress-actions">
 				<Button
 					type="button"
 					variant="outline"
-					onClick={() =>
+					onClick={() => {
+						const { schedule, reviewDue } = scheduleReview(
+							note.reviewSchedule,
+							inferReviewGrade(note),
+							formatLocalDate(),
+						);
 						onPatch({
 							status: "review",
-							reviewDue: addDays(formatLocalDate(), 7),
-						})
-					}
+							reviewDue,
+							reviewSchedule: schedule,
+						});
+					}}
 					disabled={disabled}
 				>
 					<span>Schedule review</span>
@@ -1224,6 +2549,7 @@ function ProgressControls({
 				<DefinitionOfDoneGate
 					targetStatus="mastered"
 					blockers={masteredBlockers}
+					rules={rules}
 				/>
 			) : null}
 		</div>
@@ -1233,9 +2559,11 @@ function ProgressControls({
 function DefinitionOfDoneGate({
 	targetStatus,
 	blockers,
+	rules,
 }: {
 	targetStatus: LearningStatus | null;
-	blockers: string[];
+	blockers: DefinitionOfDoneBlocker[];
+	rules: DefinitionOfDoneRules;
 }) {
 	if (!targetStatus) return null;
 
@@ -1247,13 +2575,23 @@ function DefinitionOfDoneGate({
 					<p>Status cannot move to {targetStatus} yet.</p>
 					<ul>
 						{blockers.slice(0, 5).map((blocker) => (
-							<li key={blocker}>{blocker}</li>
+							<li key={`${blocker.rule}:${blocker.message}`}>
+								<StatusChip>{blocker.rule}</StatusChip> {blocker.message}
+							</li>
 						))}
 					</ul>
 				</>
 			) : (
 				<p>Evidence gate passed for {targetStatus}.</p>
 			)}
+			<p>Rules: {rules.source ?? "built-in defaults"}</p>
+			{rules.issues.length > 0 ? (
+				<ul>
+					{rules.issues.map((issue) => (
+						<li key={issue}>Rules file: {issue}</li>
+					))}
+				</ul>
+			) : null}
 		</div>
 	);
 }
@@ -1264,6 +2602,11 @@ function EvidencePanel({ note }: { note: LearningNote }) {
 	const prerequisites = note.prerequisites ?? [];
 	const unlocks = note.unlocks ?? [];
 	const artifacts = Object.entries(note.artifacts ?? {});
+	const current = estimateCurrentMastery(
+		note.mastery,
+		formatLocalDate(),
+		note.masteryHistory,
+	);
 
 	return (
 		<div className="eragear-evidence-panel">
@@ -1281,13 +2624,32 @@ function EvidencePanel({ note }: { note: LearningNote }) {
 			<EvidenceGroup
 				title="Mastery evidence"
 				items={[
-					`recall ${note.mastery?.recall_score ?? 0}`,
-					`mechanism ${note.mastery?.mechanism_score ?? 0}`,
-					`transfer ${note.mastery?.transfer_score ?? 0}`,
-					`application ${note.mastery?.application_score ?? 0}`,
+					formatMasteryEvidence("recall", note.mastery?.recall_score, current?.recall_score),
+					formatMasteryEvidence(
+						"mechanism",
+						note.mastery?.mechanism_score,
+						current?.mechanism_score,
+					),
+					formatMasteryEvidence(
+						"transfer",
+						note.mastery?.transfer_score,
+						current?.transfer_score,
+					),
+					formatMasteryEvidence(
+						"application",
+						note.mastery?.application_score,
+						current?.application_score,
+					),
 				]}
 				empty="No mastery evidence."
 			/>
+			<EvidenceGroup
+				title="Mastery timeline"
+				items={[...(note.masteryHistory ?? [])]
+					.reverse()
+					.map(formatMasteryHistoryEntry)}
+				empty="No examinations recorded."
+			/>
 			<EvidenceGroup title="Weak points" items={weakPoints} empty="No weak points." />
 			<EvidenceGroup
 				title="Prerequisites"
@@ -1299,6 +2661,30 @@ function EvidencePanel({ note }: { note: LearningNote }) {
 	);
 }
 
+function formatMasteryEvidence(
+	label: string,
+	score: number | undefined,
+	current: number | undefined,
+): string {
+	if (score === undefined || current === undefined || current === score) {
+		return `${label} ${score ?? 0}`;
+	}
+	return `${label} ${score} · ${current} now`;
+}
+
+function formatMasteryHistoryEntry(entry: MasteryHistoryEntry): string {
+	const scores = [
+		["R", entry.recall],
+		["M", entry.mechanism],
+		["T", entry.transfer],
+		["A", entry.application],
+	]
+		.filter(([, score]) => score !== undefined)
+		.map(([label, score]) => `${label}${score}`)
+		.join(" ");
+	return `${entry.date} · ${entry.source} · ${scores || "no scores"}`;
+}
+
 function EvidenceGroup({
 	title,
 	items,
@@ -1333,95 +2719,592 @@ function ExaminerPanel({
 	onCreateAgentTask,
 	disabled,
 }: {
-	note: LearningNote | null;
-	nextAction: NextActionCandidate | null;
-	onGenerateExaminer: () => void;
-	onRunSuggestedAction: () => void;
-	onRunWithAcp: (candidate: NextActionCandidate) => void;
-	onCreateAgentTask: (candidate: NextActionCandidate) => void;
-	disabled: boolean;
+	note: LearningNote | null;
+	nextAction: NextActionCandidate | null;
+	onGenerateExaminer: () => void;
+	onRunSuggestedAction: () => void;
+	onRunWithAcp: (candidate: NextActionCandidate) => void;
+	onCreateAgentTask: (candidate: NextActionCandidate) => void;
+	disabled: boolean;
+}) {
+	const rubric = note ? getExaminerRubric(note) : [];
+
+	return (
+		<section className="eragear-learning-panel eragear-examiner-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Examiner mode</h3>
+					<p>Score understanding before the concept can move forward.</p>
+				</div>
+				<IconMagic />
+			</div>
+			{note ? (
+				<div className="eragear-examiner-layout">
+					<div className="eragear-session-main">
+						<div className="eragear-session-diagnosis">
+							<strong>Concept: {note.title}</strong>
+							<p>{getSessionDiagnosis(note)}</p>
+						</div>
+						<div className="eragear-output-box">
+							<strong>Question focus</strong>
+							<p>{getExaminerQuestion(note)}</p>
+						</div>
+						<div className="eragear-output-box">
+							<strong>Rubric</strong>
+							<ul>
+								{rubric.map((item) => (
+									<li key={item}>{item}</li>
+								))}
+							</ul>
+						</div>
+					</div>
+					<div className="eragear-session-actions">
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={onGenerateExaminer}
+							disabled={disabled}
+							size="sm"
+						>
+							<IconMagic />
+							<span>Generate examiner</span>
+						</Button>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={onRunSuggestedAction}
+							disabled={disabled || !nextAction}
+							size="sm"
+						>
+							<span>Run next fix</span>
+						</Button>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => nextAction && onCreateAgentTask(nextAction)}
+							disabled={
+								disabled ||
+								!nextAction ||
+								nextAction.suggestedAgent === "deterministic"
+							}
+							size="sm"
+						>
+							<span>Create ACP task</span>
+						</Button>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => nextAction && onRunWithAcp(nextAction)}
+							disabled={
+								disabled ||
+								!nextAction ||
+								nextAction.suggestedAgent === "deterministic"
+							}
+							size="sm"
+						>
+							<span>Run ACP fill</span>
+						</Button>
+					</div>
+				</div>
+			) : (
+				<p>Open a learning note to generate an examiner artifact.</p>
+			)}
+		</section>
+	);
+}
+
+function ExaminerSessionPanel({
+	note,
+	plugin,
+	onSubmitted,
+	disabled,
+}: {
+	note: LearningNote | null;
+	plugin: EragearPlugin;
+	onSubmitted: () => void;
+	disabled: boolean;
+}) {
+	const [session, setSession] = useState<LoadedExaminerSession | null>(null);
+	const [answers, setAnswers] = useState<Partial<Record<MasteryCategory, string>>>(
+		{},
+	);
+	const [result, setResult] = useState<{
+		scoring: ExaminerScoring;
+		transcriptPath: string;
+	} | null>(null);
+	const [scoring, setScoring] = useState(false);
+
+	useEffect(() => {
+		setSession(null);
+		setAnswers({});
+		setResult(null);
+	}, [note?.path]);
+
+	const startExam = async () => {
+		setSession(await plugin.loadExaminerForActiveNote());
+		setAnswers({});
+		setResult(null);
+	};
+
+	const submitExam = async () => {
+		if (!session) return;
+		setScoring(true);
+		try {
+			const submitted = await plugin.submitExaminerSession(session, answers);
+			if (submitted) {
+				setResult(submitted);
+				onSubmitted();
+			}
+		} finally {
+			setScoring(false);
+		}
+	};
+
+	const locked = disabled || scoring;
+
+	return (
+		<section className="eragear-learning-panel eragear-examiner-session-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Take exam</h3>
+					<p>Answer each category and let the examiner score it against the rubric.</p>
+				</div>
+				<IconBrain />
+			</div>
+			{!note ? (
+				<p>Open a learning note with a generated examiner.</p>
+			) : result ? (
+				<div className="eragear-session-main">
+					<ul className="eragear-quiz-grades">
+						{EXAMINER_CATEGORIES.map((category) => (
+							<li key={category}>
+								<StatusChip>{category}</StatusChip>
+								<span>{result.scoring[category].score}/10</span>
+								<p>{result.scoring[category].justification}</p>
+							</li>
+						))}
+					</ul>
+					<div className="eragear-session-actions">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => openPath(plugin, result.transcriptPath)}
+							size="sm"
+						>
+							<IconFileText />
+							<span>Open transcript</span>
+						</Button>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={startExam}
+							disabled={locked}
+							size="sm"
+						>
+							<IconRotate />
+							<span>Retake exam</span>
+						</Button>
+					</div>
+				</div>
+			) : session ? (
+				<div className="eragear-session-main">
+					{EXAMINER_CATEGORIES.map((category) => (
+						<div className="eragear-output-box" key={category}>
+							<strong>{category}</strong>
+							<ul>
+								{session.questions
+									.filter((question) => question.category === category)
+									.map((question) => (
+										<li key={question.id}>{question.prompt}</li>
+									))}
+							</ul>
+							<textarea
+								className="eragear-quiz-answer"
+								rows={4}
+								value={answers[category] ?? ""}
+								onChange={(event) =>
+									setAnswers((current) => ({
+										...current,
+										[category]: event.target.value,
+									}))
+								}
+								aria-label={`${category} answer`}
+								disabled={locked}
+							/>
+						</div>
+					))}
+					<div className="eragear-session-actions">
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={submitExam}
+							disabled={locked}
+							size="sm"
+						>
+							<IconCheckCircle />
+							<span>{scoring ? "Scoring…" : "Submit for scoring"}</span>
+						</Button>
+					</div>
+				</div>
+			) : (
+				<div className="eragear-session-actions">
+					<Button
+						type="button"
+						variant="secondary"
+						onClick={startExam}
+						disabled={locked}
+						size="sm"
+					>
+						<IconBrain />
+						<span>Start exam</span>
+					</Button>
+				</div>
+			)}
+		</section>
+	);
+}
+
+function QuizRunnerPanel({
+	note,
+	plugin,
+	onSubmitted,
+	disabled,
+}: {
+	note: LearningNote | null;
+	plugin: EragearPlugin;
+	onSubmitted: () => void;
+	disabled: boolean;
+}) {
+	const [quiz, setQuiz] = useState<LoadedQuiz | null>(null);
+	const [questionIndex, setQuestionIndex] = useState(0);
+	const [responses, setResponses] = useState<Record<string, string>>({});
+	const [result, setResult] = useState<{
+		grades: QuizAnswerGrade[];
+		summary: QuizAttemptSummary;
+	} | null>(null);
+	const [grading, setGrading] = useState(false);
+
+	useEffect(() => {
+		setQuiz(null);
+		setQuestionIndex(0);
+		setResponses({});
+		setResult(null);
+	}, [note?.path]);
+
+	const startQuiz = async () => {
+		const loaded = await plugin.loadQuizForActiveNote();
+		setQuiz(loaded);
+		setQuestionIndex(0);
+		setResponses({});
+		setResult(null);
+	};
+
+	const submitQuiz = async () => {
+		if (!quiz) return;
+		setGrading(true);
+		try {
+			setResult(await plugin.submitQuizAttempt(quiz, responses));
+			onSubmitted();
+		} finally {
+			setGrading(false);
+		}
+	};
+
+	const setResponse = (questionId: string, value: string) => {
+		setResponses((current) => ({ ...current, [questionId]: value }));
+	};
+
+	const question = quiz?.questions[questionIndex] ?? null;
+	const choices = question ? getQuizChoices(question) : [];
+	const isLastQuestion = quiz ? questionIndex === quiz.questions.length - 1 : false;
+	const locked = disabled || grading;
+
+	return (
+		<section className="eragear-learning-panel eragear-quiz-runner-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Quiz runner</h3>
+					<p>Answer the quiz one question at a time and record the score.</p>
+				</div>
+				<IconList />
+			</div>
+			{!note ? (
+				<p>Open a learning note with a generated quiz.</p>
+			) : result ? (
+				<div className="eragear-session-main">
+					<div className="eragear-session-diagnosis">
+						<strong>
+							Quiz score: {result.summary.quizScore ?? "not graded"}
+							{result.summary.quizScore !== null ? "/10" : ""}
+						</strong>
+						<p>
+							{result.summary.gradedCount} graded · {result.summary.ungradedCount}{" "}
+							ungraded
+						</p>
+					</div>
+					<ul className="eragear-quiz-grades">
+						{result.grades.map((grade) => (
+							<li key={grade.questionId}>
+								<StatusChip>{grade.category}</StatusChip>
+								<span>
+									{grade.score === null ? "ungraded" : `${grade.score}/10`} ·{" "}
+									{grade.method}
+								</span>
+								{grade.feedback ? <p>{grade.feedback}</p> : null}
+							</li>
+						))}
+					</ul>
+					{result.summary.weakPoints.length > 0 ? (
+						<div className="eragear-output-box">
+							<strong>Weak points</strong>
+							<ul>
+								{result.summary.weakPoints.map((point) => (
+									<li key={point}>{point}</li>
+								))}
+							</ul>
+						</div>
+					) : null}
+					<div className="eragear-session-actions">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={startQuiz}
+							disabled={locked}
+							size="sm"
+						>
+							<IconRotate />
+							<span>Retake quiz</span>
+						</Button>
+					</div>
+				</div>
+			) : quiz && question ? (
+				<div className="eragear-session-main">
+					<div className="eragear-quiz-progress">
+						<StatusChip>{question.category}</StatusChip>
+						<span>
+							Question {questionIndex + 1} of {quiz.questions.length} ·{" "}
+							{question.section}
+						</span>
+					</div>
+					<div className="eragear-output-box">
+						<strong>{question.prompt}</strong>
+					</div>
+					{choices.length > 0 ? (
+						<fieldset
+							className="eragear-quiz-choices"
+							aria-label={`Choices for question ${questionIndex + 1}`}
+						>
+							{choices.map((choice) => (
+								<label key={choice}>
+									<input
+										type="radio"
+										name={question.id}
+										checked={responses[question.id] === choice}
+										onChange={() => setResponse(question.id, choice)}
+										disabled={locked}
+									/>
+									<span>{choice}</span>
+								</label>
+							))}
+						</fieldset>
+					) : (
+						<textarea
+							className="eragear-quiz-answer"
+							rows={5}
+							value={responses[question.id] ?? ""}
+							onChange={(event) => setResponse(question.id, event.target.value)}
+							aria-label={`Answer for question ${questionIndex + 1}`}
+							disabled={locked}
+						/>
+					)}
+					<div className="eragear-session-actions">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => setQuestionIndex((index) => Math.max(0, index - 1))}
+							disabled={locked || questionIndex === 0}
+							size="sm"
+						>
+							<span>Previous</span>
+						</Button>
+						{isLastQuestion ? (
+							<Button
+								type="button"
+								variant="secondary"
+								onClick={submitQuiz}
+								disabled={locked}
+								size="sm"
+							>
+								<IconCheckCircle />
+								<span>{grading ? "Grading…" : "Submit and grade"}</span>
+							</Button>
+						) : (
+							<Button
+								type="button"
+								variant="secondary"
+								onClick={() => setQuestionIndex((index) => index + 1)}
+								disabled={locked}
+								size="sm"
+							>
+								<span>Next question</span>
+							</Button>
+						)}
+					</div>
+				</div>
+			) : (
+				<div className="eragear-session-actions">
+					<Button
+						type="button"
+						variant="secondary"
+						onClick={startQuiz}
+						disabled={locked}
+						size="sm"
+					>
+						<IconList />
+						<span>Start quiz</span>
+					</Button>
+				</div>
+			)}
+		</section>
+	);
+}
+
+function FocusSessionPanel({
+	plugin,
+	onFinished,
+}: {
+	plugin: EragearPlugin;
+	onFinished: () => void;
 }) {
-	const rubric = note ? getExaminerRubric(note) : [];
+	const session = plugin.getFocusSession();
+	const [now, setNow] = useState(() => Date.now());
+	const [reviewing, setReviewing] = useState(false);
+	const [summary, setSummary] = useState("");
+	const [understanding, setUnderstanding] = useState<FocusUnderstanding>(3);
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		if (!session) return;
+		const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+		return () => window.clearInterval(intervalId);
+	}, [session]);
+
+	if (!session) return null;
+
+	const paused = session.pausedAt !== undefined;
+	const remaining = getFocusRemainingMs(session, now);
+
+	const finish = async () => {
+		setSaving(true);
+		try {
+			await plugin.finishFocusSession({ understanding, summary });
+			setReviewing(false);
+			setSummary("");
+			onFinished();
+		} catch (error) {
+			console.error("[Eragear] Focus session log failed", error);
+		} finally {
+			setSaving(false);
+		}
+	};
 
 	return (
-		<section className="eragear-learning-panel eragear-examiner-panel">
+		<section className="eragear-learning-panel eragear-focus-panel">
 			<div className="eragear-learning-panel-header">
 				<div>
-					<h3>Examiner mode</h3>
-					<p>Score understanding before the concept can move forward.</p>
+					<h3>Focus session</h3>
+					<p>
+						{session.noteTitle}
+						{session.action ? ` · ${session.action}` : ""}
+					</p>
 				</div>
-				<IconMagic />
+				<StatusChip>{paused ? "paused" : remaining < 0 ? "overtime" : "focus"}</StatusChip>
 			</div>
-			{note ? (
-				<div className="eragear-examiner-layout">
-					<div className="eragear-session-main">
-						<div className="eragear-session-diagnosis">
-							<strong>Concept: {note.title}</strong>
-							<p>{getSessionDiagnosis(note)}</p>
-						</div>
-						<div className="eragear-output-box">
-							<strong>Question focus</strong>
-							<p>{getExaminerQuestion(note)}</p>
-						</div>
-						<div className="eragear-output-box">
-							<strong>Rubric</strong>
-							<ul>
-								{rubric.map((item) => (
-									<li key={item}>{item}</li>
-								))}
-							</ul>
-						</div>
-					</div>
+			<div className="eragear-focus-clock" aria-live="polite">
+				{formatFocusClock(remaining)}
+			</div>
+			{reviewing ? (
+				<div className="eragear-session-main">
+					<textarea
+						className="eragear-quiz-answer"
+						rows={4}
+						value={summary}
+						onChange={(event) => setSummary(event.target.value)}
+						placeholder="What did you get done?"
+						aria-label="Session summary"
+						disabled={saving}
+					/>
+					<label className="eragear-focus-rating">
+						<span>Understanding</span>
+						<select
+							value={understanding}
+							onChange={(event) =>
+								setUnderstanding(Number(event.target.value) as FocusUnderstanding)
+							}
+							disabled={saving}
+						>
+							{([1, 2, 3, 4, 5] as const).map((score) => (
+								<option key={score} value={score}>
+									{score} - {FOCUS_UNDERSTANDING_LABELS[score]}
+								</option>
+							))}
+						</select>
+					</label>
 					<div className="eragear-session-actions">
 						<Button
 							type="button"
 							variant="secondary"
-							onClick={onGenerateExaminer}
-							disabled={disabled}
-							size="sm"
-						>
-							<IconMagic />
-							<span>Generate examiner</span>
-						</Button>
-						<Button
-							type="button"
-							variant="outline"
-							onClick={onRunSuggestedAction}
-							disabled={disabled || !nextAction}
-							size="sm"
-						>
-							<span>Run next fix</span>
-						</Button>
-						<Button
-							type="button"
-							variant="outline"
-							onClick={() => nextAction && onCreateAgentTask(nextAction)}
-							disabled={
-								disabled ||
-								!nextAction ||
-								nextAction.suggestedAgent === "deterministic"
-							}
+							onClick={finish}
+							disabled={saving}
 							size="sm"
 						>
-							<span>Create ACP task</span>
+							<IconCheckCircle />
+							<span>Log session</span>
 						</Button>
 						<Button
 							type="button"
 							variant="outline"
-							onClick={() => nextAction && onRunWithAcp(nextAction)}
-							disabled={
-								disabled ||
-								!nextAction ||
-								nextAction.suggestedAgent === "deterministic"
-							}
+							onClick={() => setReviewing(false)}
+							disabled={saving}
 							size="sm"
 						>
-							<span>Run ACP fill</span>
+							<span>Back</span>
 						</Button>
 					</div>
 				</div>
 			) : (
-				<p>Open a learning note to generate an examiner artifact.</p>
+				<div className="eragear-session-actions">
+					<Button
+						type="button"
+						variant="outline"
+						onClick={() =>
+							paused ? plugin.resumeFocusSession() : plugin.pauseFocusSession()
+						}
+						size="sm"
+					>
+						<span>{paused ? "Resume" : "Pause"}</span>
+					</Button>
+					<Button
+						type="button"
+						variant="secondary"
+						onClick={() => {
+							plugin.pauseFocusSession();
+							setReviewing(true);
+						}}
+						size="sm"
+					>
+						<IconCheckCircle />
+						<span>Finish</span>
+					</Button>
+					<Button
+						type="button"
+						variant="outline"
+						onClick={() => plugin.cancelFocusSession()}
+						size="sm"
+					>
+						<span>Discard</span>
+					</Button>
+				</div>
 			)}
 		</section>
 	);
@@ -1430,6 +3313,8 @@ function ExaminerPanel({
 function LearningSessionPanel({
 	note,
 	nextAction,
+	focusRunning,
+	onStartFocus,
 	onRunSuggestedAction,
 	onRunWithAcp,
 	onCreateAgentTask,
@@ -1438,6 +3323,8 @@ function LearningSessionPanel({
 }: {
 	note: LearningNote | null;
 	nextAction: NextActionCandidate | null;
+	focusRunning: boolean;
+	onStartFocus: (note: LearningNote) => void;
 	onRunSuggestedAction: () => void;
 	onRunWithAcp: (candidate: NextActionCandidate) => void;
 	onCreateAgentTask: (candidate: NextActionCandidate) => void;
@@ -1456,7 +3343,10 @@ function LearningSessionPanel({
 			{note ? (
 				<div className="eragear-session-layout">
 					<div className="eragear-session-main">
-						<StatusStepper status={note.status} />
+						<StatusStepper
+							status={note.status}
+							pipeline={getNotePipeline(note)}
+						/>
 						<div className="eragear-session-diagnosis">
 							<strong>{note.title}</strong>
 							<p>{getSessionDiagnosis(note)}</p>
@@ -1476,11 +3366,11 @@ function LearningSessionPanel({
 						<Button
 							type="button"
 							variant="outline"
-							onClick={onRunSuggestedAction}
-							disabled={disabled || !nextAction}
+							onClick={() => onStartFocus(note)}
+							disabled={disabled || focusRunning}
 							size="sm"
 						>
-							<span>Start 25-min session</span>
+							<span>Start focus session</span>
 						</Button>
 						<Button
 							type="button"
@@ -1535,14 +3425,19 @@ function LearningSessionPanel({
 	);
 }
 
-function StatusStepper({ status }: { status?: LearningStatus }) {
-	const activeIndex = status ? LEARNING_STATUSES.indexOf(status) : -1;
+function StatusStepper({
+	status,
+	pipeline,
+}: {
+	status?: LearningStatus;
+	pipeline: LearningPipeline;
+}) {
+	const stages = pipeline.stages;
+	const activeIndex = getPipelineStatusIndex(pipeline, status);
 	const safeIndex = activeIndex >= 0 ? activeIndex : 0;
 	const progressBucketValue =
-		activeIndex >= 0
-			? Math.round(((safeIndex + 1) / LEARNING_STATUSES.length) * 10)
-			: 0;
-	const nextStatus = status ? getNextLearningStatus(status) : null;
+		activeIndex >= 0 ? Math.round(((safeIndex + 1) / stages.length) * 10) : 0;
+	const nextStatus = status ? getNextLearningStatus(status, pipeline) : null;
 
 	return (
 		<div className="eragear-status-rail" aria-label="Learning status">
@@ -1550,7 +3445,8 @@ function StatusStepper({ status }: { status?: LearningStatus }) {
 				<strong>{status ?? "missing status"}</strong>
 				<span>
 					{nextStatus ? `Next: ${nextStatus}` : "Final stage"} · step{" "}
-					{activeIndex >= 0 ? safeIndex + 1 : 0}/{LEARNING_STATUSES.length}
+					{activeIndex >= 0 ? safeIndex + 1 : 0}/{stages.length} ·{" "}
+					{pipeline.name} pipeline
 				</span>
 			</div>
 			<div className="eragear-progress-bar" aria-hidden="true">
@@ -1559,8 +3455,8 @@ function StatusStepper({ status }: { status?: LearningStatus }) {
 				/>
 			</div>
 			<div className="eragear-status-rail-labels">
-				<span>Seed</span>
-				<span>Mastered</span>
+				<span>{capitalize(stages[0]?.id ?? "")}</span>
+				<span>{capitalize(stages[stages.length - 1]?.id ?? "")}</span>
 			</div>
 		</div>
 	);
@@ -1577,12 +3473,14 @@ interface MetadataDraft {
 
 function MetadataFixer({
 	draft,
+	pipelines,
 	onDraftChange,
 	onSave,
 	disabled,
 	submitLabel,
 }: {
 	draft: MetadataDraft;
+	pipelines: readonly LearningPipeline[];
 	onDraftChange: (draft: MetadataDraft) => void;
 	onSave: () => void;
 	disabled: boolean;
@@ -1632,9 +3530,9 @@ function MetadataFixer({
 					}
 				>
 					<option value="">Select status</option>
-					{LEARNING_STATUSES.map((status) => (
-						<option key={status} value={status}>
-							{status}
+					{getDraftPipeline(draft, pipelines).stages.map((stage) => (
+						<option key={stage.id} value={stage.id}>
+							{stage.id}
 						</option>
 					))}
 				</select>
@@ -1681,11 +3579,14 @@ function MetadataFixer({
 	);
 }
 
-function draftToPatch(draft: MetadataDraft) {
+function draftToPatch(
+	draft: MetadataDraft,
+	pipelines: readonly LearningPipeline[],
+) {
 	return {
 		type: toOptionalNoteType(draft.type),
 		area: draft.area.trim(),
-		status: toOptionalStatus(draft.status),
+		status: toOptionalStatus(draft.status, getDraftPipeline(draft, pipelines)),
 		priority: toOptionalNumber(draft.priority),
 		maturity: toOptionalNumber(draft.maturity),
 		sprint: draft.sprint.trim(),
@@ -1713,15 +3614,6 @@ function clampMaturity(value: number): number {
 	return Math.max(0, Math.min(value, 5));
 }
 
-function addDays(dateValue: string, days: number): string {
-	const [year, month, day] = dateValue.split("-").map(Number);
-	if (!year || !month || !day) return dateValue;
-
-	const date = new Date(year, month - 1, day);
-	date.setDate(date.getDate() + days);
-	return formatLocalDate(date);
-}
-
 function formatLocalDate(date = new Date()): string {
 	const year = date.getFullYear();
 	const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -1735,10 +3627,25 @@ function toOptionalNoteType(value: string): LearningNoteType | undefined {
 		: undefined;
 }
 
-function toOptionalStatus(value: string): LearningStatus | undefined {
-	return LEARNING_STATUSES.includes(value as LearningStatus)
-		? (value as LearningStatus)
-		: undefined;
+function toOptionalStatus(
+	value: string,
+	pipeline: LearningPipeline,
+): LearningStatus | undefined {
+	return getPipelineStatusIndex(pipeline, value) >= 0 ? value : undefined;
+}
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function getDraftPipeline(
+	draft: MetadataDraft,
+	pipelines: readonly LearningPipeline[],
+): LearningPipeline {
+	return resolveLearningPipeline(
+		{ type: toOptionalNoteType(draft.type), area: draft.area.trim() },
+		pipelines,
+	);
 }
 
 function StatusChip({ children }: { children: React.ReactNode }) {
@@ -1772,6 +3679,7 @@ function ActionQueuePanel({
 	onRunAction,
 	onRunWithAcp,
 	onCreateAgentTask,
+	onDismiss,
 	disabled,
 }: {
 	queue: NextActionCandidate[];
@@ -1779,6 +3687,7 @@ function ActionQueuePanel({
 	onRunAction: (candidate: NextActionCandidate) => void;
 	onRunWithAcp: (candidate: NextActionCandidate) => void;
 	onCreateAgentTask: (candidate: NextActionCandidate) => void;
+	onDismiss: (candidate: NextActionCandidate) => void;
 	disabled: boolean;
 }) {
 	const visibleActions = queue.slice(0, 6);
@@ -1788,7 +3697,10 @@ function ActionQueuePanel({
 			<div className="eragear-learning-panel-header">
 				<div>
 					<h3>Next action queue</h3>
-					<p>Learning scheduler with score, reason, and required output.</p>
+					<p>
+						Learning scheduler with score, reason, and required output. Picks,
+						skips and dismissals tune the score weights.
+					</p>
 				</div>
 				<IconList />
 			</div>
@@ -1837,6 +3749,19 @@ function ActionQueuePanel({
 									))}
 								</ul>
 							) : null}
+							{candidate.scoreBreakdown?.length ? (
+								<details className="eragear-score-breakdown">
+									<summary>Score breakdown</summary>
+									<ul className="eragear-reason-list">
+										{candidate.scoreBreakdown.map((term) => (
+											<li key={term.key}>
+												{NEXT_ACTION_WEIGHT_LABELS[term.key]}: {term.value} ×{" "}
+												{term.weight} = {Math.round(term.contribution)}
+											</li>
+										))}
+									</ul>
+								</details>
+							) : null}
 							{blockers.length > 0 ? (
 								<div className="eragear-dod-gate">
 									<strong>Blocked by</strong>
@@ -1880,6 +3805,15 @@ function ActionQueuePanel({
 										<span>Create ACP task</span>
 									</Button>
 								) : null}
+								<Button
+									type="button"
+									variant="outline"
+									onClick={() => onDismiss(candidate)}
+									disabled={disabled}
+									size="sm"
+								>
+									<span>Dismiss</span>
+								</Button>
 							</div>
 						</li>
 						);
@@ -1892,16 +3826,131 @@ function ActionQueuePanel({
 	);
 }
 
+function NoteHistoryPanel({
+	note,
+	plugin,
+	entries,
+	onRevert,
+	disabled,
+}: {
+	note: LearningNote | null;
+	plugin: EragearPlugin;
+	entries: LearningActionLogEntry[];
+	onRevert: (undoPath: string) => void;
+	disabled: boolean;
+}) {
+	const [resultType, setResultType] = useState<
+		LearningActionLogResultType | ""
+	>("");
+	const visibleEntries = entries
+		.filter((entry) => !resultType || getActionLogResultType(entry) === resultType)
+		.reverse();
+
+	return (
+		<section className="eragear-learning-panel">
+			<div className="eragear-learning-panel-header">
+				<div>
+					<h3>Action history</h3>
+					<p>What the learning action log recorded for this note.</p>
+				</div>
+				<IconList />
+			</div>
+			{note && entries.length > 0 ? (
+				<>
+					<label>
+						<span>Result</span>
+						<select
+							aria-label="Filter action history by result"
+							value={resultType}
+							onChange={(event) =>
+								setResultType(
+									event.target.value as LearningActionLogResultType | "",
+								)
+							}
+						>
+							<option value="">All results</option>
+							<option value="artifact">Created artifacts</option>
+							<option value="message">Transitions and notices</option>
+						</select>
+					</label>
+					<ol className="eragear-action-queue">
+						{visibleEntries.map((entry, index) => {
+							const undo = entry.undoPath
+								? plugin.getLearningActionUndoRecord(entry.undoPath)
+								: null;
+							return (
+							<li key={`${entry.date}-${entry.action}-${index}`}>
+								<div className="eragear-skill-row-header">
+									<span>{entry.action}</span>
+									<strong>{entry.date}</strong>
+								</div>
+								<div className="eragear-action-row-chips">
+									{entry.agent ? (
+										<StatusChip>{agentLabel(entry.agent)}</StatusChip>
+									) : null}
+									{typeof entry.score === "number" ? (
+										<StatusChip>score {entry.score}</StatusChip>
+									) : null}
+									{undo?.status === "reverted" ? (
+										<StatusChip>reverted</StatusChip>
+									) : null}
+								</div>
+								{entry.artifactPath ? (
+									<button
+										type="button"
+										className="eragear-learning-link"
+										onClick={() => openPath(plugin, entry.artifactPath!)}
+									>
+										Created {entry.artifactPath}
+									</button>
+								) : entry.result ? (
+									<p>{entry.result}</p>
+								) : null}
+								{undo?.status === "active" ? (
+									<div className="eragear-row-actions">
+										<Button
+											type="button"
+											variant="outline"
+											onClick={() => onRevert(undo.path)}
+											disabled={disabled}
+											size="sm"
+										>
+											<span>Revert</span>
+										</Button>
+									</div>
+								) : null}
+							</li>
+							);
+						})}
+					</ol>
+				</>
+			) : (
+				<p>
+					{note
+						? "No logged actions for this note yet."
+						: "Open a learning note to see its action history."}
+				</p>
+			)}
+		</section>
+	);
+}
+
 function AgentTasksPanel({
 	tasks,
 	plugin,
+	queue,
 	onRun,
+	onCancel,
+	onToggleQueue,
 	onStatusChange,
 	disabled,
 }: {
 	tasks: LearningAgentTaskSummary[];
 	plugin: EragearPlugin;
+	queue: AgentTaskQueueStatus;
 	onRun: (task: LearningAgentTaskSummary) => void;
+	onCancel: (task: LearningAgentTaskSummary) => void;
+	onToggleQueue: () => void;
 	onStatusChange: (
 		task: LearningAgentTaskSummary,
 		status: AgentTaskStatus,
@@ -1909,6 +3958,9 @@ function AgentTasksPanel({
 	disabled: boolean;
 }) {
 	const visibleTasks = tasks.slice(0, 6);
+	const queuedCount = tasks.filter(
+		(task) => task.status === "queued" && task.suggestedAgent !== "deterministic",
+	).length;
 
 	return (
 		<section className="eragear-learning-panel">
@@ -1919,6 +3971,24 @@ function AgentTasksPanel({
 				</div>
 				<IconFileText />
 			</div>
+			<div className="eragear-agent-queue">
+				<div className="eragear-action-row-chips">
+					<StatusChip>
+						{queue.paused
+							? "queue paused"
+							: queue.available
+								? "queue running"
+								: "no ACP agent"}
+					</StatusChip>
+					<StatusChip>
+						{queue.runningPaths.length}/{queue.concurrency} running
+					</StatusChip>
+					<StatusChip>{queuedCount} queued</StatusChip>
+				</div>
+				<Button type="button" variant="outline" onClick={onToggleQueue} size="sm">
+					<span>{queue.paused ? "Resume queue" : "Pause queue"}</span>
+				</Button>
+			</div>
 			{visibleTasks.length > 0 ? (
 				<ol className="eragear-agent-task-list">
 					{visibleTasks.map((task) => (
@@ -1945,8 +4015,22 @@ function AgentTasksPanel({
 								<div className="eragear-action-row-chips">
 									<StatusChip>{task.status}</StatusChip>
 									<StatusChip>{agentTaskLabel(task.suggestedAgent)}</StatusChip>
+									{task.attempts ? (
+										<StatusChip>
+											{task.attempts} failed{" "}
+											{task.attempts === 1 ? "attempt" : "attempts"}
+										</StatusChip>
+									) : null}
 								</div>
 							</div>
+							{task.lastError ? (
+								<p className="eragear-agent-task-error">
+									{task.lastError}
+									{task.status === "queued" && task.nextAttemptAt
+										? ` Retrying at ${new Date(task.nextAttemptAt).toLocaleTimeString()}.`
+										: ""}
+								</p>
+							) : null}
 							<div className="eragear-agent-task-controls">
 								<label>
 									<span>Status</span>
@@ -1983,6 +4067,17 @@ function AgentTasksPanel({
 								>
 									<span>Run ACP agent</span>
 								</Button>
+								{task.status === "running" || task.status === "queued" ? (
+									<Button
+										type="button"
+										variant="outline"
+										onClick={() => onCancel(task)}
+										size="sm"
+									>
+										<IconX />
+										<span>Cancel</span>
+									</Button>
+								) : null}
 							</div>
 						</li>
 					))}
@@ -2007,6 +4102,7 @@ function WriteProposalsPanel({
 	plugin,
 	onApply,
 	onReject,
+	onReviewed,
 	disabled,
 	hideWhenEmpty = false,
 }: {
@@ -2014,9 +4110,11 @@ function WriteProposalsPanel({
 	plugin: EragearPlugin;
 	onApply: (proposal: AgentWriteProposalSummary) => void;
 	onReject: (proposal: AgentWriteProposalSummary) => void;
+	onReviewed: () => void;
 	disabled: boolean;
 	hideWhenEmpty?: boolean;
 }) {
+	const [reviewingPath, setReviewingPath] = useState<string | null>(null);
 	const visibleProposals = proposals.slice(0, 6);
 	if (hideWhenEmpty && visibleProposals.length === 0) return null;
 
@@ -2101,6 +4199,21 @@ function WriteProposalsPanel({
 								>
 									<span>Apply and update status</span>
 								</Button>
+								<Button
+									type="button"
+									variant="outline"
+									onClick={() =>
+										setReviewingPath(
+											reviewingPath === proposal.path ? null : proposal.path,
+										)
+									}
+									disabled={proposal.status !== "pending"}
+									size="sm"
+								>
+									<span>
+										{reviewingPath === proposal.path ? "Close review" : "Review files"}
+									</span>
+								</Button>
 								<Button
 									type="button"
 									variant="outline"
@@ -2119,6 +4232,17 @@ function WriteProposalsPanel({
 									<span>Edit manually</span>
 								</Button>
 							</div>
+							{reviewingPath === proposal.path && proposal.status === "pending" ? (
+								<WriteProposalReview
+									plugin={plugin}
+									proposal={proposal}
+									disabled={disabled}
+									onApplied={() => {
+										setReviewingPath(null);
+										onReviewed();
+									}}
+								/>
+							) : null}
 						</li>
 					))}
 				</ol>
@@ -2129,6 +4253,224 @@ function WriteProposalsPanel({
 	);
 }
 
+/**
+ * Per-file review of a proposal: a side-by-side diff against the vault,
+ * the artifact quality result, an inline editor, and accept or reject.
+ */
+function WriteProposalReview({
+	plugin,
+	proposal,
+	disabled,
+	onApplied,
+}: {
+	plugin: EragearPlugin;
+	proposal: AgentWriteProposalSummary;
+	disabled: boolean;
+	onApplied: () => void;
+}) {
+	const [items, setItems] = useState<AgentWriteReviewItem[] | null>(null);
+	const [drafts, setDrafts] = useState<Record<string, string>>({});
+	const [accepted, setAccepted] = useState<Set<string>>(new Set());
+	const [editingPath, setEditingPath] = useState<string | null>(null);
+	const [working, setWorking] = useState(false);
+
+	useEffect(() => {
+		let cancelled = false;
+		void plugin.getAgentWriteProposalReview(proposal).then((next) => {
+			if (cancelled) return;
+			setItems(next);
+			setDrafts(Object.fromEntries(next.map((item) => [item.path, item.content])));
+			setAccepted(
+				new Set(
+					next
+						.filter(
+							(item) =>
+								item.isAllowed && !item.conflict && (item.quality?.passed ?? true),
+						)
+						.map((item) => item.path),
+				),
+			);
+		});
+		return () => {
+			cancelled = true;
+		};
+		// Keyed by path so background refreshes do not discard inline edits.
+	}, [plugin, proposal.path]);
+
+	if (!items) return <p>Loading proposed files...</p>;
+
+	const toggle = (path: string) => {
+		const next = new Set(accepted);
+		if (next.has(path)) next.delete(path);
+		else next.add(path);
+		setAccepted(next);
+	};
+
+	const applySelected = async () => {
+		setWorking(true);
+		try {
+			const applied = await plugin.applyAgentWriteProposalReview(
+				proposal,
+				items.map((item) => ({
+					path: item.path,
+					accept: accepted.has(item.path),
+					content: drafts[item.path] ?? item.content,
+					baseHash: item.currentHash,
+				})),
+			);
+			if (applied) onApplied();
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	return (
+		<div className="eragear-proposal-review">
+			{items.map((item) => (
+				<ProposalFileReview
+					key={item.path}
+					item={item}
+					content={drafts[item.path] ?? item.content}
+					accepted={accepted.has(item.path)}
+					editing={editingPath === item.path}
+					onToggle={() => toggle(item.path)}
+					onEdit={() =>
+						setEditingPath(editingPath === item.path ? null : item.path)
+					}
+					onChange={(content) => setDrafts({ ...drafts, [item.path]: content })}
+				/>
+			))}
+			<div className="eragear-row-actions">
+				<Button
+					type="button"
+					variant="secondary"
+					size="sm"
+					onClick={() => void applySelected()}
+					disabled={disabled || working}
+				>
+					<span>
+						{accepted.size === 0
+							? "Reject all files"
+							: `Apply accepted (${accepted.size} of ${items.length})`}
+					</span>
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+function ProposalFileReview({
+	item,
+	content,
+	accepted,
+	editing,
+	onToggle,
+	onEdit,
+	onChange,
+}: {
+	item: AgentWriteReviewItem;
+	content: string;
+	accepted: boolean;
+	editing: boolean;
+	onToggle: () => void;
+	onEdit: () => void;
+	onChange: (content: string) => void;
+}) {
+	const lines = useMemo(
+		() => diffProposalLines(item.currentContent, content),
+		[item.currentContent, content],
+	);
+	const rows = useMemo(() => toSideBySideRows(lines), [lines]);
+	const changes = countDiffChanges(lines);
+	const quality =
+		content === item.content
+			? item.quality
+			: evaluateArtifactQualityForPath(item.path, content);
+
+	return (
+		<div className="eragear-proposal-file">
+			<div className="eragear-action-row-main">
+				<label className="eragear-dag-suggestion">
+					<input
+						type="checkbox"
+						checked={accepted}
+						disabled={!item.isAllowed || Boolean(item.conflict)}
+						onChange={onToggle}
+					/>
+					<span>{item.path}</span>
+				</label>
+				<div className="eragear-action-row-chips">
+					<StatusChip>
+						{item.currentContent === null
+							? "new file"
+							: `+${changes.added} -${changes.removed}`}
+					</StatusChip>
+					{item.isAllowed ? null : <StatusChip>path rejected</StatusChip>}
+					{item.conflict ? <StatusChip>conflict</StatusChip> : null}
+					{item.merged ? <StatusChip>merged with your edits</StatusChip> : null}
+					{quality ? (
+						<StatusChip>
+							quality {quality.score} {quality.passed ? "passed" : "failed"}
+						</StatusChip>
+					) : null}
+				</div>
+			</div>
+			{item.conflict ? (
+				<p className="eragear-agent-task-error">{item.conflict}</p>
+			) : null}
+			{quality && quality.issues.length > 0 ? (
+				<ul className="eragear-proposal-quality-issues">
+					{quality.issues.map((issue) => (
+						<li key={issue}>{issue}</li>
+					))}
+				</ul>
+			) : null}
+			{editing ? (
+				<textarea
+					className="eragear-proposal-editor"
+					value={content}
+					rows={14}
+					onChange={(event) => onChange(event.target.value)}
+				/>
+			) : (
+				<table className="eragear-proposal-diff">
+					<thead>
+						<tr>
+							<th colSpan={2}>
+								{item.currentContent === null ? "New file" : "Current"}
+							</th>
+							<th colSpan={2}>Proposed</th>
+						</tr>
+					</thead>
+					<tbody>
+						{rows.map((row, index) => (
+							<tr key={index}>
+								<td className="eragear-proposal-diff-number">
+									{row.left?.number ?? ""}
+								</td>
+								<td className={`eragear-proposal-diff-${row.left?.kind ?? "empty"}`}>
+									{row.left?.text ?? ""}
+								</td>
+								<td className="eragear-proposal-diff-number">
+									{row.right?.number ?? ""}
+								</td>
+								<td className={`eragear-proposal-diff-${row.right?.kind ?? "empty"}`}>
+									{row.right?.text ?? ""}
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+			<div className="eragear-row-actions">
+				<Button type="button" variant="outline" size="sm" onClick={onEdit}>
+					<span>{editing ? "Show diff" : "Edit content"}</span>
+				</Button>
+			</div>
+		</div>
+	);
+}
+
 function matchesSkillArea(note: LearningNote, terms: readonly string[]): boolean {
 	const haystack = `${note.title} ${note.area ?? ""} ${note.sprint ?? ""} ${note.type ?? ""}`.toLowerCase();
 	return terms.some((term) => haystack.includes(term));